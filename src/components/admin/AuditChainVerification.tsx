@@ -0,0 +1,86 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useVerifyAuditChain } from '@/hooks/useAuditChain';
+import { format } from 'date-fns';
+import { ShieldCheck, ShieldAlert, Link2, Loader2 } from 'lucide-react';
+
+export function AuditChainVerification() {
+  const verify = useVerifyAuditChain();
+  const result = verify.data;
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            Audit Log Integrity
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Every audit entry is hash-chained to the previous one and cannot be edited or deleted
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => verify.mutate()} disabled={verify.isPending}>
+          {verify.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ShieldCheck className="h-4 w-4 mr-2" />
+          )}
+          Verify Chain
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {verify.isError && (
+          <p className="text-sm text-destructive">
+            Verification failed: {(verify.error as Error).message}
+          </p>
+        )}
+
+        {!result && !verify.isError && (
+          <p className="text-sm text-muted-foreground">
+            Recompute every hash to prove the log has not been altered since it was written.
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              {result.is_valid ? (
+                <>
+                  <ShieldCheck className="h-5 w-5 text-[hsl(var(--severity-low))]" />
+                  <span className="font-medium">Chain intact</span>
+                  <Badge variant="outline">{result.checked_count} entries verified</Badge>
+                </>
+              ) : (
+                <>
+                  <ShieldAlert className="h-5 w-5 text-destructive" />
+                  <span className="font-medium text-destructive">Chain broken</span>
+                  <Badge variant="destructive">Entry #{result.first_broken_seq}</Badge>
+                </>
+              )}
+            </div>
+
+            {!result.is_valid && (
+              <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm space-y-1">
+                <p>{result.reason}</p>
+                <p className="text-muted-foreground">
+                  {result.checked_count} entries before it are intact. First broken entry:{' '}
+                  <span className="font-mono">{result.first_broken_id}</span>
+                </p>
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                {result.is_valid ? 'Latest' : 'Last valid'} hash:{' '}
+                <span className="font-mono break-all">{result.head_hash ?? 'none (empty log)'}</span>
+              </p>
+              <p>Verified {format(new Date(result.verified_at), 'MMM d, yyyy HH:mm:ss')}</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
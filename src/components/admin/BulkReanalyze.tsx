@@ -1,25 +1,44 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { incidentsKey } from '@/hooks/useIncidents';
 import { Brain, RefreshCw, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 
-interface BulkReanalyzeProps {
-  incidentsWithoutAnalysis: number;
-  onComplete: () => void;
-}
-
-export function BulkReanalyze({ incidentsWithoutAnalysis, onComplete }: BulkReanalyzeProps) {
+export function BulkReanalyze() {
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [processed, setProcessed] = useState(0);
   const [errors, setErrors] = useState(0);
   const { toast } = useToast();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  // Counted server-side; the dashboard only loads recent incidents
+  const withoutAnalysis = useQuery({
+    queryKey: [...incidentsKey(organizationId), 'without-analysis'],
+    enabled: !!organizationId,
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('incidents')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId!)
+        .is('ai_analysis', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+  const incidentsWithoutAnalysis = withoutAnalysis.data ?? 0;
 
   const handleBulkReanalyze = async () => {
+    if (!currentOrganization) return;
+
     setIsRunning(true);
     setProgress(0);
     setProcessed(0);
@@ -30,6 +49,7 @@ export function BulkReanalyze({ incidentsWithoutAnalysis, onComplete }: BulkRean
       const { data: incidents, error } = await supabase
         .from('incidents')
         .select('id, type, description, location_name')
+        .eq('organization_id', currentOrganization.id)
         .is('ai_analysis', null);
 
       if (error) throw error;
@@ -69,7 +89,7 @@ export function BulkReanalyze({ incidentsWithoutAnalysis, onComplete }: BulkRean
         description: `Successfully analyzed ${successCount} incidents. ${errorCount} failed.`,
       });
 
-      onComplete();
+      withoutAnalysis.refetch();
     } catch (error: any) {
       toast({
         variant: 'destructive',
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { EmailEvent, useAlertEmails, useEmailPreviews } from '@/hooks/useAlertEmails';
+import { isValidEmail } from '@/lib/settings';
+import { useToast } from '@/hooks/use-toast';
+import { Mail, Plus, X, Eye, EyeOff, Loader2 } from 'lucide-react';
+
+const eventLabels: Record<EmailEvent, string> = {
+  high_severity: 'High / critical incident',
+  escalated: 'Operator escalation',
+  escalation_step: 'Escalation step',
+};
+
+export function EmailAlerts() {
+  const { alertEmails, saveAlertEmails } = useAlertEmails();
+  const { toast } = useToast();
+  const [emails, setEmails] = useState<string[]>([]);
+  const [newEmail, setNewEmail] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [showText, setShowText] = useState(false);
+  const previews = useEmailPreviews(showPreview);
+
+  useEffect(() => {
+    if (alertEmails.data) {
+      setEmails(alertEmails.data);
+    }
+  }, [alertEmails.data]);
+
+  const isDirty = JSON.stringify(emails) !== JSON.stringify(alertEmails.data ?? []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = newEmail.trim().toLowerCase();
+    if (!isValidEmail(email)) {
+      toast({ variant: 'destructive', title: 'Invalid email', description: `${email || 'Empty address'} is not a valid email address.` });
+      return;
+    }
+    if (!emails.includes(email)) {
+      setEmails([...emails, email]);
+    }
+    setNewEmail('');
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveAlertEmails.mutateAsync(emails);
+      toast({ title: 'Alert emails saved', description: `${emails.length} address(es) will receive alerts.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save alert emails',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Mail className="h-5 w-5 text-primary" />
+            Alert Emails
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Emailed when an incident reaches high or critical severity and on escalations
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setShowPreview(!showPreview)}>
+          {showPreview ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+          {showPreview ? 'Hide Templates' : 'Preview Templates'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alertEmails.isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {emails.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No addresses configured. Alert emails are not sent.</p>
+              ) : (
+                emails.map((email) => (
+                  <Badge key={email} variant="secondary" className="gap-1 pr-1">
+                    {email}
+                    <button
+                      type="button"
+                      className="rounded-sm hover:bg-background/50 p-0.5"
+                      onClick={() => setEmails(emails.filter(e => e !== email))}
+                      aria-label={`Remove ${email}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))
+              )}
+            </div>
+
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <Input
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="oncall@example.org"
+              />
+              <Button type="submit" variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={!isDirty || saveAlertEmails.isPending}>
+                {saveAlertEmails.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save
+              </Button>
+            </form>
+          </>
+        )}
+
+        {showPreview && (
+          <div className="pt-2 border-t border-border/50">
+            {previews.isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : previews.error ? (
+              <p className="text-sm text-destructive">Failed to load previews: {(previews.error as Error).message}</p>
+            ) : (
+              <Tabs defaultValue="high_severity">
+                <div className="flex items-center justify-between gap-2">
+                  <TabsList>
+                    {(previews.data || []).map((preview) => (
+                      <TabsTrigger key={preview.event} value={preview.event}>
+                        {eventLabels[preview.event] ?? preview.event}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  <Button variant="ghost" size="sm" onClick={() => setShowText(!showText)}>
+                    {showText ? 'HTML' : 'Plain text'}
+                  </Button>
+                </div>
+                {(previews.data || []).map((preview) => (
+                  <TabsContent key={preview.event} value={preview.event} className="space-y-2">
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Subject: </span>
+                      <span className="font-medium">{preview.subject}</span>
+                    </p>
+                    {showText ? (
+                      <pre className="text-xs whitespace-pre-wrap p-3 rounded-lg bg-secondary/30">{preview.text}</pre>
+                    ) : (
+                      <iframe
+                        title={`${eventLabels[preview.event]} email preview`}
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-96 rounded-lg border border-border/50 bg-white"
+                      />
+                    )}
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,424 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useEscalationPolicies, usePagerNumbers } from '@/hooks/useEscalationPolicies';
+import { useToast } from '@/hooks/use-toast';
+import { EscalationPolicy, EscalationPolicyInput, EscalationStep } from '@/types/escalation';
+import { IncidentSeverity, IncidentType } from '@/types/incident';
+import { HelperRole } from '@/types/helper';
+import { severityLevels } from '@/lib/severity';
+import { Siren, Plus, Trash2, Edit, Loader2 } from 'lucide-react';
+
+const incidentTypes: IncidentType[] = ['medical', 'fire', 'security', 'infrastructure'];
+const helperRoles: HelperRole[] = ['medical', 'security', 'volunteer'];
+const ANY_TYPE = 'any';
+
+const emptyStep: EscalationStep = { delay_minutes: 5, radius_km: 2, helper_roles: [], page_admins: false };
+
+const emptyPolicy: EscalationPolicyInput = {
+  name: '',
+  incident_type: null,
+  min_severity: 'high',
+  steps: [{ ...emptyStep, delay_minutes: 0 }],
+  is_active: true,
+};
+
+const describeStep = (step: EscalationStep) => {
+  const roles = step.helper_roles.length > 0 ? step.helper_roles.join(' + ') : 'all helpers';
+  const admins = step.page_admins ? ', page admins' : '';
+  return `+${step.delay_minutes}m: ${roles} ≤ ${step.radius_km} km${admins}`;
+};
+
+export function EscalationPolicies() {
+  const { policies, savePolicy, deletePolicy } = useEscalationPolicies();
+  const { pagerNumbers, savePagerNumbers } = usePagerNumbers();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<EscalationPolicyInput>(emptyPolicy);
+  const [pagerInput, setPagerInput] = useState('');
+
+  useEffect(() => {
+    if (pagerNumbers.data) {
+      setPagerInput(pagerNumbers.data.join(', '));
+    }
+  }, [pagerNumbers.data]);
+
+  const openEditor = (policy?: EscalationPolicy) => {
+    setEditingId(policy?.id ?? null);
+    setFormData(policy
+      ? {
+        name: policy.name,
+        incident_type: policy.incident_type,
+        min_severity: policy.min_severity,
+        steps: policy.steps,
+        is_active: policy.is_active,
+      }
+      : emptyPolicy);
+    setIsDialogOpen(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const toggleStepRole = (index: number, role: HelperRole, checked: boolean) => {
+    const roles = formData.steps[index].helper_roles;
+    updateStep(index, {
+      helper_roles: checked ? [...roles, role] : roles.filter(r => r !== role),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await savePolicy.mutateAsync({ id: editingId ?? undefined, input: formData });
+      toast({
+        title: editingId ? 'Policy updated' : 'Policy created',
+        description: `${formData.name} will be used for new escalations.`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleToggleActive = async (policy: EscalationPolicy) => {
+    try {
+      await savePolicy.mutateAsync({ id: policy.id, input: { ...policy, is_active: !policy.is_active } });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    if (!confirm(`Delete the escalation policy "${policy.name}"?`)) return;
+    try {
+      await deletePolicy.mutateAsync(policy.id);
+      toast({ title: 'Policy deleted', description: `${policy.name} has been removed.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to delete policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleSavePagerNumbers = async () => {
+    const numbers = pagerInput
+      .split(',')
+      .map(n => n.trim())
+      .filter(n => n.replace(/\D/g, '').length >= 6);
+    try {
+      await savePagerNumbers.mutateAsync(numbers);
+      toast({ title: 'Pager numbers saved', description: `${numbers.length} number(s) will be paged.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save pager numbers',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Siren className="h-5 w-5 text-primary" />
+            Escalation Policies
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Alert helpers automatically and widen the search until someone accepts
+          </p>
+        </div>
+        <Button onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Policy
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policies.isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (policies.data || []).length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No escalation policies. Incidents will only be alerted manually.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(policies.data || []).map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <Badge variant="outline" className="capitalize">
+                        {policy.incident_type ?? 'Any type'}
+                      </Badge>
+                      <Badge variant="secondary" className="uppercase text-xs">
+                        ≥ {policy.min_severity}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ol className="text-xs text-muted-foreground space-y-0.5">
+                      {policy.steps.map((step, index) => (
+                        <li key={index}>{index + 1}. {describeStep(step)}</li>
+                      ))}
+                    </ol>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={policy.is_active}
+                      onCheckedChange={() => handleToggleActive(policy)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(policy)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(policy)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2 pt-2 border-t border-border/50">
+          <Label htmlFor="pager-numbers">Admin pager numbers</Label>
+          <div className="flex gap-2">
+            <Input
+              id="pager-numbers"
+              value={pagerInput}
+              onChange={(e) => setPagerInput(e.target.value)}
+              placeholder="+1234567890, +1987654321"
+            />
+            <Button variant="outline" onClick={handleSavePagerNumbers} disabled={savePagerNumbers.isPending}>
+              {savePagerNumbers.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Texted by steps with "Page admins" enabled. Separate numbers with commas.
+          </p>
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Escalation Policy' : 'New Escalation Policy'}</DialogTitle>
+            <DialogDescription>
+              Steps run in order until a helper accepts or the incident has someone on scene
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Medical emergencies"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Incident type</Label>
+                <Select
+                  value={formData.incident_type ?? ANY_TYPE}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    incident_type: value === ANY_TYPE ? null : value as IncidentType,
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_TYPE}>Any type</SelectItem>
+                    {incidentTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum severity</Label>
+                <Select
+                  value={formData.min_severity}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, min_severity: value as IncidentSeverity }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {severityLevels.map((level) => (
+                      <SelectItem key={level} value={level} className="uppercase">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {formData.steps.map((step, index) => (
+                <div key={index} className="p-3 rounded-lg bg-secondary/30 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Step {index + 1}</span>
+                    {formData.steps.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          steps: prev.steps.filter((_, i) => i !== index),
+                        }))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">
+                        {index === 0 ? 'Minutes after report' : 'Minutes without acceptance'}
+                      </Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={step.delay_minutes}
+                        onChange={(e) => updateStep(index, { delay_minutes: Math.max(0, Number(e.target.value)) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Radius (km)</Label>
+                      <Input
+                        type="number"
+                        min={0.1}
+                        max={50}
+                        step={0.1}
+                        value={step.radius_km}
+                        onChange={(e) => updateStep(index, { radius_km: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4 flex-wrap">
+                    {helperRoles.map((role) => (
+                      <label key={role} className="flex items-center gap-1.5 text-xs capitalize">
+                        <Checkbox
+                          checked={step.helper_roles.includes(role)}
+                          onCheckedChange={(checked) => toggleStepRole(index, role, checked === true)}
+                        />
+                        {role}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-1.5 text-xs ml-auto">
+                      <Switch
+                        checked={step.page_admins}
+                        onCheckedChange={(checked) => updateStep(index, { page_admins: checked })}
+                      />
+                      Page admins
+                    </label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">No role selected alerts every role.</p>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setFormData(prev => ({ ...prev, steps: [...prev.steps, { ...emptyStep }] }))}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add step
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="policy-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="policy-active">Active</Label>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={savePolicy.isPending}>
+              {savePolicy.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {editingId ? 'Save Changes' : 'Create Policy'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useFloorPlans } from '@/hooks/useFloorPlans';
+import { useToast } from '@/hooks/use-toast';
+import { ACCEPTED_FLOOR_PLAN_TYPES, MAX_FLOOR_PLAN_BYTES, formatFloor } from '@/lib/floorPlans';
+import { formatFileSize } from '@/lib/attachments';
+import { FloorPlan, Zone } from '@/types/zone';
+import { Loader2, Trash2, Upload } from 'lucide-react';
+
+interface FloorPlanManagerProps {
+  zone: Zone | null;
+  onClose: () => void;
+}
+
+export function FloorPlanManager({ zone, onClose }: FloorPlanManagerProps) {
+  const { floorPlans, upload, remove } = useFloorPlans(zone?.id ?? null);
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [floor, setFloor] = useState('0');
+  const [label, setLabel] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && !ACCEPTED_FLOOR_PLAN_TYPES.includes(selected.type)) {
+      toast({ variant: 'destructive', title: 'Unsupported file', description: 'Use a PNG, JPEG or WebP image.' });
+      e.target.value = '';
+      return;
+    }
+    if (selected && selected.size > MAX_FLOOR_PLAN_BYTES) {
+      toast({
+        variant: 'destructive',
+        title: 'File too large',
+        description: `Floor plans can be up to ${formatFileSize(MAX_FLOOR_PLAN_BYTES)}.`,
+      });
+      e.target.value = '';
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    const floorNumber = Math.round(Number(floor));
+    try {
+      await upload.mutateAsync({ floor: floorNumber, label: label.trim() || null, file });
+      toast({ title: 'Floor plan uploaded', description: `${formatFloor(floorNumber, label.trim())} is ready for pinning.` });
+      setFile(null);
+      setLabel('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to upload floor plan',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async (plan: FloorPlan) => {
+    if (!confirm(`Delete the plan for ${formatFloor(plan.floor, plan.label)}? Pins on it are removed.`)) return;
+    try {
+      await remove.mutateAsync(plan);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to delete floor plan',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!zone} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Floor Plans · {zone?.name}</DialogTitle>
+          <DialogDescription>
+            Reporters can pin incidents on these plans. Uploading a plan for an existing floor replaces it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {floorPlans.isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (floorPlans.data || []).length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No floor plans yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {(floorPlans.data || []).map((plan) => (
+              <div key={plan.id} className="rounded-lg border border-border overflow-hidden">
+                {plan.url ? (
+                  <img src={plan.url} alt={formatFloor(plan.floor, plan.label)} className="h-24 w-full object-cover bg-white" />
+                ) : (
+                  <div className="h-24 bg-muted" />
+                )}
+                <div className="flex items-center justify-between p-2">
+                  <span className="text-sm">{formatFloor(plan.floor, plan.label)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(plan)}
+                    disabled={remove.isPending}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleUpload} className="space-y-3 pt-2 border-t border-border/50">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="plan-floor">Floor</Label>
+              <Input
+                id="plan-floor"
+                type="number"
+                min={-10}
+                max={200}
+                value={floor}
+                onChange={(e) => setFloor(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-label">Label</Label>
+              <Input
+                id="plan-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Optional, e.g. Mezzanine"
+                maxLength={50}
+              />
+            </div>
+          </div>
+          <Input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FLOOR_PLAN_TYPES.join(',')}
+            onChange={handleFileChange}
+          />
+          <p className="text-xs text-muted-foreground">0 is the ground floor, negative numbers are basements.</p>
+          <Button type="submit" className="w-full" disabled={!file || upload.isPending}>
+            {upload.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Upload Plan
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Building2, Loader2, Plus } from 'lucide-react';
+
+const toSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+
+export function OrganizationManagement() {
+  const { organizations, refreshOrganizations, switchOrganization } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setSlug(toSlug(value));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !slug) return;
+
+    setIsCreating(true);
+    try {
+      const { data, error } = await supabase.rpc('create_organization', {
+        _name: name.trim(),
+        _slug: slug,
+      });
+
+      if (error) throw error;
+
+      await refreshOrganizations();
+      switchOrganization(data.id);
+      toast({
+        title: 'Organization created',
+        description: `You are now an admin of ${data.name}.`,
+      });
+      setName('');
+      setSlug('');
+      setSlugEdited(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to create organization',
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5 text-primary" />
+          Organizations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Each organization (campus) has its own incidents, helpers, settings and members
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {organizations.map(org => (
+            <div key={org.id} className="rounded-md border border-border px-3 py-1.5 text-sm">
+              {org.name}
+              <span className="ml-2 text-xs text-muted-foreground">{org.slug} · {org.role}</span>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="org-name">Name</Label>
+            <Input
+              id="org-name"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="North campus"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="org-slug">Slug</Label>
+            <Input
+              id="org-slug"
+              value={slug}
+              onChange={(e) => {
+                setSlugEdited(true);
+                setSlug(toSlug(e.target.value));
+              }}
+              placeholder="north-campus"
+            />
+          </div>
+          <Button type="submit" disabled={isCreating || !name.trim() || slug.length < 2}>
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+            Create
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppSettings, useUpdateSetting } from '@/hooks/useAppSettings';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AppSettings,
+  MAP_PROVIDER_KINDS,
+  MapImageBounds,
+  MapProviderKind,
+  SETTINGS_PANEL_KEYS,
+  SETTINGS_SCHEMA,
+  SettingKey,
+  validateSetting,
+} from '@/lib/settings';
+import { severityLevels } from '@/lib/severity';
+import { SlidersHorizontal, Loader2, RotateCcw } from 'lucide-react';
+
+const mapProviderLabels: Record<MapProviderKind, string> = {
+  auto: 'Automatic (Google Maps, offline map as fallback)',
+  google: 'Google Maps only',
+  tiles: 'Self-hosted tile server',
+  image: 'Campus map image',
+};
+
+export function SettingsPanel() {
+  const { settings, isLoading } = useAppSettings();
+  const updateSetting = useUpdateSetting();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [savingKey, setSavingKey] = useState<SettingKey | null>(null);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const setValue = <K extends SettingKey>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async (key: SettingKey) => {
+    setSavingKey(key);
+    try {
+      await updateSetting.mutateAsync({ key, value: draft[key] });
+      toast({ title: 'Setting saved', description: `${SETTINGS_SCHEMA[key].label} has been updated.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save setting',
+        description: (error as Error).message,
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const renderInput = (key: SettingKey) => {
+    switch (key) {
+      case 'nearby_helpers_radius_km':
+        return (
+          <Input
+            id={key}
+            type="number"
+            min={0.1}
+            max={50}
+            step={0.1}
+            value={draft.nearby_helpers_radius_km}
+            onChange={(e) => setValue(key, Number(e.target.value))}
+          />
+        );
+      case 'alert_timezone':
+        return (
+          <Input
+            id={key}
+            value={draft.alert_timezone}
+            onChange={(e) => setValue(key, e.target.value.trim())}
+            placeholder="Asia/Kolkata"
+          />
+        );
+      case 'map_default_center':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            {(['lat', 'lng', 'zoom'] as const).map((field) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`${key}-${field}`} className="text-xs text-muted-foreground">
+                  {field === 'lat' ? 'Latitude' : field === 'lng' ? 'Longitude' : 'Zoom'}
+                </Label>
+                <Input
+                  id={`${key}-${field}`}
+                  type="number"
+                  step={field === 'zoom' ? 1 : 'any'}
+                  value={draft.map_default_center[field]}
+                  onChange={(e) => setValue(key, { ...draft.map_default_center, [field]: Number(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      case 'notification_min_severity':
+        return (
+          <Select
+            value={draft.notification_min_severity}
+            onValueChange={(value) => setValue(key, value as AppSettings['notification_min_severity'])}
+          >
+            <SelectTrigger id={key}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {severityLevels.map((level) => (
+                <SelectItem key={level} value={level} className="uppercase">{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'map_provider': {
+        const config = draft.map_provider;
+        const bounds = config.image_bounds;
+        const setBound = (field: keyof MapImageBounds, raw: string) => {
+          const next = { ...(bounds ?? { south: 0, west: 0, north: 0, east: 0 }), [field]: Number(raw) };
+          setValue(key, { ...config, image_bounds: next });
+        };
+        return (
+          <div className="space-y-2">
+            <Select
+              value={config.provider}
+              onValueChange={(value) => setValue(key, { ...config, provider: value as MapProviderKind })}
+            >
+              <SelectTrigger id={key}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAP_PROVIDER_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>{mapProviderLabels[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                className="col-span-2"
+                value={config.tile_url}
+                onChange={(e) => setValue(key, { ...config, tile_url: e.target.value.trim() })}
+                placeholder="Tile URL, e.g. https://tiles.campus.local/{z}/{x}/{y}.png"
+              />
+              <Input
+                type="number"
+                min={1}
+                max={22}
+                value={config.max_zoom}
+                onChange={(e) => setValue(key, { ...config, max_zoom: Number(e.target.value) })}
+                title="Max zoom"
+              />
+            </div>
+            <Input
+              value={config.image_url}
+              onChange={(e) => setValue(key, { ...config, image_url: e.target.value.trim() })}
+              placeholder="Campus map image URL, used when there is no tile URL"
+            />
+            <div className="grid grid-cols-4 gap-2">
+              {(['south', 'west', 'north', 'east'] as const).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`${key}-${field}`} className="text-xs text-muted-foreground capitalize">
+                    Image {field}
+                  </Label>
+                  <Input
+                    id={`${key}-${field}`}
+                    type="number"
+                    step="any"
+                    value={bounds?.[field] ?? ''}
+                    onChange={(e) => setBound(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <Input
+              value={config.attribution}
+              onChange={(e) => setValue(key, { ...config, attribution: e.target.value })}
+              placeholder="Attribution, e.g. © Campus GIS"
+              maxLength={200}
+            />
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          System Settings
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Values are validated before saving; invalid stored values fall back to their defaults
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          SETTINGS_PANEL_KEYS.map((key) => {
+            const definition = SETTINGS_SCHEMA[key];
+            const validationError = validateSetting(key, draft[key]);
+            const isDirty = JSON.stringify(draft[key]) !== JSON.stringify(settings[key]);
+            const isDefault = JSON.stringify(draft[key]) === JSON.stringify(definition.defaultValue);
+
+            return (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={key}>{definition.label}</Label>
+                <p className="text-xs text-muted-foreground">{definition.description}</p>
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">{renderInput(key)}</div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Reset to default"
+                    disabled={isDefault}
+                    onClick={() => setValue(key, definition.defaultValue)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    onClick={() => handleSave(key)}
+                    disabled={!isDirty || !!validationError || savingKey === key}
+                  >
+                    {savingKey === key && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save
+                  </Button>
+                </div>
+                {validationError && (
+                  <p className="text-xs text-destructive">{validationError}</p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useSlaPolicies } from '@/hooks/useSlaPolicies';
+import { useToast } from '@/hooks/use-toast';
+import { SlaPolicy, SlaPolicyInput, SlaStage } from '@/types/sla';
+import { IncidentSeverity, IncidentType } from '@/types/incident';
+import { severityLevels } from '@/lib/severity';
+import { formatSlaDuration, slaStageLabels, slaStages } from '@/lib/sla';
+import { Timer, Plus, Trash2, Edit, Loader2 } from 'lucide-react';
+
+const incidentTypes: IncidentType[] = ['medical', 'fire', 'security', 'infrastructure'];
+const ANY_TYPE = 'any';
+
+const minutesField: Record<SlaStage, 'acknowledge_minutes' | 'dispatch_minutes' | 'resolve_minutes'> = {
+  acknowledge: 'acknowledge_minutes',
+  dispatch: 'dispatch_minutes',
+  resolve: 'resolve_minutes',
+};
+
+const emptyPolicy: SlaPolicyInput = {
+  incident_type: null,
+  severity: 'high',
+  acknowledge_minutes: 5,
+  dispatch_minutes: 15,
+  resolve_minutes: 120,
+  is_active: true,
+};
+
+const formatTarget = (minutes: number | null) =>
+  minutes === null ? '—' : formatSlaDuration(minutes * 60000);
+
+export function SlaPolicies() {
+  const { policies, savePolicy, deletePolicy } = useSlaPolicies();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<SlaPolicyInput>(emptyPolicy);
+
+  const openEditor = (policy?: SlaPolicy) => {
+    setEditingId(policy?.id ?? null);
+    setFormData(policy
+      ? {
+        incident_type: policy.incident_type,
+        severity: policy.severity,
+        acknowledge_minutes: policy.acknowledge_minutes,
+        dispatch_minutes: policy.dispatch_minutes,
+        resolve_minutes: policy.resolve_minutes,
+        is_active: policy.is_active,
+      }
+      : emptyPolicy);
+    setIsDialogOpen(true);
+  };
+
+  const hasTarget = slaStages.some(stage => formData[minutesField[stage]] !== null);
+  // One policy per severity and type (public.sla_policies_organization_severity_type)
+  const duplicate = (policies.data || []).some(policy =>
+    policy.id !== editingId &&
+    policy.severity === formData.severity &&
+    policy.incident_type === formData.incident_type
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasTarget || duplicate) return;
+    try {
+      await savePolicy.mutateAsync({ id: editingId ?? undefined, input: formData });
+      toast({
+        title: editingId ? 'SLA policy updated' : 'SLA policy created',
+        description: 'Open incidents now use the new targets.',
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save SLA policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleToggleActive = async (policy: SlaPolicy) => {
+    try {
+      await savePolicy.mutateAsync({ id: policy.id, input: { ...policy, is_active: !policy.is_active } });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update SLA policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async (policy: SlaPolicy) => {
+    if (!confirm(`Delete the SLA policy for ${policy.severity} ${policy.incident_type ?? 'incidents of any type'}?`)) return;
+    try {
+      await deletePolicy.mutateAsync(policy.id);
+      toast({ title: 'SLA policy deleted', description: 'Open incidents no longer use its targets.' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to delete SLA policy',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Timer className="h-5 w-5 text-primary" />
+            Response Time Targets
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Minutes from the report until an incident must be acknowledged, dispatched and resolved
+          </p>
+        </div>
+        <Button onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Target
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {policies.isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (policies.data || []).length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No response time targets. Incidents are not tracked against an SLA.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies to</TableHead>
+                {slaStages.map(stage => (
+                  <TableHead key={stage}>{slaStageLabels[stage]}</TableHead>
+                ))}
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(policies.data || []).map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <Badge variant="secondary" className="uppercase text-xs">
+                        {policy.severity}
+                      </Badge>
+                      <Badge variant="outline" className="capitalize">
+                        {policy.incident_type ?? 'Any type'}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  {slaStages.map(stage => (
+                    <TableCell key={stage} className="text-sm">
+                      {formatTarget(policy[minutesField[stage]])}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <Switch
+                      checked={policy.is_active}
+                      onCheckedChange={() => handleToggleActive(policy)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(policy)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(policy)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Response Time Target' : 'New Response Time Target'}</DialogTitle>
+            <DialogDescription>
+              A target for a specific type takes precedence over the one for any type
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={formData.severity}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, severity: value as IncidentSeverity }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {severityLevels.map((level) => (
+                      <SelectItem key={level} value={level} className="uppercase">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Incident type</Label>
+                <Select
+                  value={formData.incident_type ?? ANY_TYPE}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    incident_type: value === ANY_TYPE ? null : value as IncidentType,
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_TYPE}>Any type</SelectItem>
+                    {incidentTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Minutes from report</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {slaStages.map(stage => (
+                  <div key={stage} className="space-y-1">
+                    <Label htmlFor={`sla-${stage}`} className="text-xs">{slaStageLabels[stage]}</Label>
+                    <Input
+                      id={`sla-${stage}`}
+                      type="number"
+                      min={1}
+                      value={formData[minutesField[stage]] ?? ''}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        [minutesField[stage]]: e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value))),
+                      }))}
+                      placeholder="No target"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave a stage empty to not track it. Reaching a later stage also meets the earlier targets.
+              </p>
+              {!hasTarget && (
+                <p className="text-xs text-destructive">Set at least one target.</p>
+              )}
+              {duplicate && (
+                <p className="text-xs text-destructive">
+                  There is already a target for this severity and type.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="sla-policy-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="sla-policy-active">Active</Label>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={savePolicy.isPending || !hasTarget || duplicate}
+            >
+              {savePolicy.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {editingId ? 'Save Changes' : 'Create Target'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
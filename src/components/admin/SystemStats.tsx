@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent } from '@/components/ui/card';
 import { Users, ShieldCheck, Activity, Database } from 'lucide-react';
 
@@ -11,12 +12,18 @@ export function SystemStats() {
     totalIncidents: 0,
   });
 
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
   useEffect(() => {
+    if (!organizationId) return;
+
     const fetchStats = async () => {
-      // Get user role counts
+      // Get member role counts
       const { data: roles } = await supabase
-        .from('user_roles')
-        .select('role');
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId);
       
       const adminCount = roles?.filter(r => r.role === 'admin').length || 0;
       const operatorCount = roles?.filter(r => r.role === 'operator').length || 0;
@@ -24,7 +31,8 @@ export function SystemStats() {
       // Get incident count
       const { count: incidentCount } = await supabase
         .from('incidents')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId);
 
       setStats({
         totalUsers: (roles?.length || 0),
@@ -35,7 +43,7 @@ export function SystemStats() {
     };
 
     fetchStats();
-  }, []);
+  }, [organizationId]);
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -47,7 +55,7 @@ export function SystemStats() {
             </div>
             <div>
               <p className="text-2xl font-bold">{stats.totalUsers}</p>
-              <p className="text-xs text-muted-foreground">Total Users</p>
+              <p className="text-xs text-muted-foreground">Members</p>
             </div>
           </div>
         </CardContent>
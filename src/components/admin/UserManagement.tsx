@@ -1,53 +1,65 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Users, Loader2, Shield, UserCog } from 'lucide-react';
+import { Users, Loader2, Shield, UserCog, UserPlus, Trash2, Mail, X } from 'lucide-react';
 import { format } from 'date-fns';
+import { AppRole, appRoles, roleLabels } from '@/lib/permissions';
 
-interface UserWithRole {
+interface OrganizationMember {
   id: string;
   user_id: string;
-  role: 'admin' | 'operator';
+  full_name: string | null;
+  email: string | null;
+  role: AppRole;
+  created_at: string;
+}
+
+interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: AppRole;
   created_at: string;
-  profile?: {
-    full_name: string | null;
-  };
-  email?: string;
 }
 
+// Members of the current organization; roles are per organization
 export function UserManagement() {
-  const [users, setUsers] = useState<UserWithRole[]>([]);
+  const { user: currentUser, currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+  const [users, setUsers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState<AppRole>('operator');
+  const [isInviting, setIsInviting] = useState(false);
   const { toast } = useToast();
 
-  const fetchUsers = async () => {
+  const fetchUsers = useCallback(async () => {
+    if (!organizationId) return;
+
+    setIsLoading(true);
     try {
-      // Get all user roles with their profiles
-      const { data: userRoles, error: rolesError } = await supabase
-        .from('user_roles')
-        .select(`
-          *,
-          profiles:profiles(full_name)
-        `);
-
-      if (rolesError) throw rolesError;
-
-      // Transform data
-      const usersData = (userRoles || []).map(ur => ({
-        id: ur.id,
-        user_id: ur.user_id,
-        role: ur.role as 'admin' | 'operator',
-        created_at: ur.created_at,
-        profile: Array.isArray(ur.profiles) ? ur.profiles[0] : ur.profiles,
-      }));
-
-      setUsers(usersData);
+      const [members, pending] = await Promise.all([
+        supabase.rpc('list_organization_members', { _organization_id: organizationId }),
+        supabase
+          .from('organization_invitations')
+          .select('id, email, role, created_at')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (members.error) throw members.error;
+      if (pending.error) throw pending.error;
+
+      setUsers((members.data || []) as OrganizationMember[]);
+      setInvitations(pending.data || []);
     } catch (error) {
       console.error('Error fetching users:', error);
       toast({
@@ -58,36 +70,118 @@ export function UserManagement() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [organizationId, toast]);
 
   useEffect(() => {
     fetchUsers();
-  }, []);
+  }, [fetchUsers]);
 
-  const updateUserRole = async (userId: string, newRole: 'admin' | 'operator') => {
-    setUpdatingId(userId);
+  const updateUserRole = async (member: OrganizationMember, role: AppRole) => {
+    setUpdatingId(member.user_id);
     try {
       const { error } = await supabase
-        .from('user_roles')
-        .update({ role: newRole })
-        .eq('user_id', userId);
+        .from('organization_members')
+        .update({ role })
+        .eq('id', member.id);
 
       if (error) throw error;
 
-      setUsers(prev => prev.map(u => 
-        u.user_id === userId ? { ...u, role: newRole } : u
+      setUsers(prev => prev.map(u =>
+        u.id === member.id ? { ...u, role } : u
       ));
 
       toast({
         title: 'Role updated',
-        description: `User role changed to ${newRole}`,
+        description: `User role changed to ${role}`,
       });
     } catch (error) {
       console.error('Error updating role:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to update user role',
+        description: (error as Error).message || 'Failed to update user role',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    setUpdatingId(member.user_id);
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      setUsers(prev => prev.filter(u => u.id !== member.id));
+      toast({
+        title: 'Member removed',
+        description: `${member.full_name || member.email || 'User'} no longer has access to ${currentOrganization?.name}.`,
+      });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message || 'Failed to remove member',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const inviteMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !newEmail.trim()) return;
+
+    setIsInviting(true);
+    try {
+      const { error } = await supabase.rpc('invite_organization_member', {
+        _organization_id: organizationId,
+        _email: newEmail.trim(),
+        _role: newRole,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Invitation created',
+        description: `${newEmail.trim()} can join as ${roleLabels[newRole]} after signing in.`,
+      });
+      setNewEmail('');
+      setNewRole('operator');
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to invite member',
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const revokeInvitation = async (invitation: OrganizationInvitation) => {
+    setUpdatingId(invitation.id);
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as Error).message || 'Failed to revoke invitation',
       });
     } finally {
       setUpdatingId(null);
@@ -101,8 +195,62 @@ export function UserManagement() {
           <Users className="h-5 w-5 text-primary" />
           User Management
         </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Members of {currentOrganization?.name ?? 'this organization'}. Invited people join once they accept the invitation, signed in with the invited email address.
+        </p>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <form onSubmit={inviteMember} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            placeholder="user@example.com"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            className="flex-1"
+          />
+          <Select value={newRole} onValueChange={(value) => setNewRole(value as AppRole)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {appRoles.map((role) => (
+                <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isInviting || !newEmail.trim()}>
+            {isInviting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Invite member
+          </Button>
+        </form>
+
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pending invitations</p>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2"
+              >
+                <div className="flex items-center gap-2 text-sm min-w-0">
+                  <Mail className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="truncate">{invitation.email}</span>
+                  <Badge variant="outline">{roleLabels[invitation.role]}</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Revoke invitation"
+                  disabled={updatingId === invitation.id}
+                  onClick={() => revokeInvitation(invitation)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center py-8">
             <Loader2 className="h-6 w-6 animate-spin text-primary" />
@@ -132,10 +280,10 @@ export function UserManagement() {
                         </div>
                         <div>
                           <p className="font-medium text-sm">
-                            {user.profile?.full_name || 'Unnamed User'}
+                            {user.full_name || 'Unnamed User'}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {user.user_id.slice(0, 8)}...
+                            {user.email || `${user.user_id.slice(0, 8)}...`}
                           </p>
                         </div>
                       </div>
@@ -143,30 +291,42 @@ export function UserManagement() {
                     <TableCell>
                       <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
                         {user.role === 'admin' && <Shield className="h-3 w-3 mr-1" />}
-                        {user.role}
+                        {roleLabels[user.role]}
                       </Badge>
                     </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {format(new Date(user.created_at), 'MMM dd, yyyy')}
                     </TableCell>
                     <TableCell className="text-right">
-                      <Select
-                        value={user.role}
-                        onValueChange={(value) => updateUserRole(user.user_id, value as 'admin' | 'operator')}
-                        disabled={updatingId === user.user_id}
-                      >
-                        <SelectTrigger className="w-[120px]">
-                          {updatingId === user.user_id ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <SelectValue />
-                          )}
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="operator">Operator</SelectItem>
-                          <SelectItem value="admin">Admin</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <div className="flex items-center justify-end gap-2">
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => updateUserRole(user, value as AppRole)}
+                          disabled={updatingId === user.user_id}
+                        >
+                          <SelectTrigger className="w-[180px]">
+                            {updatingId === user.user_id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <SelectValue />
+                            )}
+                          </SelectTrigger>
+                          <SelectContent>
+                            {appRoles.map((role) => (
+                              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Remove from organization"
+                          disabled={updatingId === user.user_id || user.user_id === currentUser?.id}
+                          onClick={() => removeMember(user)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -177,4 +337,4 @@ export function UserManagement() {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
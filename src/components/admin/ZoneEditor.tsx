@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useZones } from '@/hooks/useZones';
+import { useMapAdapter } from '@/hooks/useMapAdapter';
+import { useToast } from '@/hooks/use-toast';
+import {
+  pathFromGeometry,
+  polygonFromPath,
+  zonePolygons,
+  zoneTypeColors,
+  zoneTypeLabels,
+  zoneTypes,
+} from '@/lib/zones';
+import { LatLng, MapMarker, MapShape } from '@/types/map';
+import { Zone, ZoneInput, ZoneType } from '@/types/zone';
+import { FloorPlanManager } from './FloorPlanManager';
+import { AlertTriangle, Edit, Eraser, Layers, Loader2, Map as MapIcon, Plus, Trash2 } from 'lucide-react';
+
+interface ZoneForm {
+  name: string;
+  zone_type: ZoneType;
+  floor_count: string;
+  responsible_team: string;
+}
+
+const emptyForm: ZoneForm = { name: '', zone_type: 'building', floor_count: '', responsible_team: '' };
+
+const DRAFT_COLOR = '#F59E0B';
+
+export function ZoneEditor() {
+  const { zones, saveZone, deleteZone } = useZones();
+  const { toast } = useToast();
+  const mapRef = useRef<HTMLDivElement>(null);
+  const { adapter, error: mapError } = useMapAdapter(mapRef, { minZoom: 16, cursor: 'crosshair' });
+  const mapReady = !!adapter;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<ZoneForm>(emptyForm);
+  const [draftPath, setDraftPath] = useState<LatLng[]>([]);
+  // Zones with holes or several polygons keep their geometry unless redrawn
+  const [shapeChanged, setShapeChanged] = useState(false);
+  const [floorPlanZone, setFloorPlanZone] = useState<Zone | null>(null);
+
+  const updateDraft = useCallback((update: (path: LatLng[]) => LatLng[]) => {
+    setDraftPath(update);
+    setShapeChanged(true);
+  }, []);
+
+  const addCorner = useCallback((point: LatLng) => updateDraft(path => [...path, point]), [updateDraft]);
+
+  // Replace the outline being drawn with the given corners
+  const resetDraft = (path: LatLng[]) => {
+    setDraftPath(path);
+    setShapeChanged(false);
+  };
+
+  // Clicking the map adds a corner to the zone being drawn
+  useEffect(() => {
+    if (!adapter || !isEditing) return;
+    return adapter.onClick(addCorner);
+  }, [adapter, isEditing, addCorner]);
+
+  // Existing zones, except the one being edited, under the outline being drawn
+  useEffect(() => {
+    if (!adapter) return;
+
+    const shapes: MapShape[] = (zones.data || [])
+      .filter(zone => zone.id !== editingId)
+      .map(zone => ({
+        id: zone.id,
+        polygons: zonePolygons(zone.geometry).map(rings =>
+          rings.map(ring => ring.map(([lng, lat]) => ({ lat, lng })))
+        ),
+        color: zoneTypeColors[zone.zone_type],
+        fillOpacity: 0.15,
+        strokeWeight: 1,
+        zIndex: 1,
+        // Let corners be placed on top of other zones while drawing
+        onClick: isEditing ? addCorner : undefined,
+      }));
+
+    if (isEditing && draftPath.length > 1) {
+      shapes.push({
+        id: 'draft',
+        polygons: [[draftPath]],
+        color: DRAFT_COLOR,
+        fillOpacity: 0.2,
+        strokeWeight: 2,
+        zIndex: 2,
+        onClick: addCorner,
+      });
+    }
+
+    adapter.setShapes(shapes);
+  }, [adapter, zones.data, editingId, isEditing, draftPath, addCorner]);
+
+  // Corner handles: drag to move, right-click to remove. Dragging the smaller
+  // handle halfway along an edge inserts a corner there.
+  useEffect(() => {
+    if (!adapter) return;
+
+    const corners: MapMarker[] = draftPath.map((point, index) => ({
+      id: `corner-${index}`,
+      position: point,
+      color: DRAFT_COLOR,
+      size: 14,
+      anchor: 'center',
+      title: `Corner ${index + 1}`,
+      draggable: true,
+      onDragEnd: (moved) => updateDraft(path => path.map((p, i) => (i === index ? moved : p))),
+      onRightClick: () => updateDraft(path => path.filter((_, i) => i !== index)),
+    }));
+
+    const midpoints: MapMarker[] = draftPath.length < 3 ? [] : draftPath.map((point, index) => {
+      const next = draftPath[(index + 1) % draftPath.length];
+      return {
+        id: `midpoint-${index}`,
+        position: { lat: (point.lat + next.lat) / 2, lng: (point.lng + next.lng) / 2 },
+        color: '#FDE68A',
+        size: 10,
+        anchor: 'center',
+        title: 'Drag to add a corner',
+        draggable: true,
+        onDragEnd: (moved) => updateDraft(path => [...path.slice(0, index + 1), moved, ...path.slice(index + 1)]),
+      };
+    });
+
+    adapter.setMarkers(isEditing ? [...corners, ...midpoints] : []);
+  }, [adapter, isEditing, draftPath, updateDraft]);
+
+  const openEditor = (zone?: Zone) => {
+    setEditingId(zone?.id ?? null);
+    setFormData(zone
+      ? {
+        name: zone.name,
+        zone_type: zone.zone_type,
+        floor_count: zone.floor_count?.toString() ?? '',
+        responsible_team: zone.responsible_team ?? '',
+      }
+      : emptyForm);
+    setIsEditing(true);
+    resetDraft(zone ? pathFromGeometry(zone.geometry) : []);
+
+    if (zone && adapter && zone.min_latitude !== null && zone.max_latitude !== null
+      && zone.min_longitude !== null && zone.max_longitude !== null) {
+      adapter.fitBounds(
+        [
+          { lat: zone.min_latitude, lng: zone.min_longitude },
+          { lat: zone.max_latitude, lng: zone.max_longitude },
+        ],
+        { padding: 40 }
+      );
+    }
+  };
+
+  const closeEditor = () => {
+    setDraftPath([]);
+    setEditingId(null);
+    setIsEditing(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const original = zones.data?.find(zone => zone.id === editingId);
+
+    if (draftPath.length < 3) {
+      toast({
+        variant: 'destructive',
+        title: 'Zone outline incomplete',
+        description: 'Click the map to place at least three corners.',
+      });
+      return;
+    }
+
+    const floors = formData.floor_count.trim();
+    const input: ZoneInput = {
+      name: formData.name.trim(),
+      zone_type: formData.zone_type,
+      floor_count: floors === '' ? null : Math.max(0, Math.round(Number(floors))),
+      responsible_team: formData.responsible_team.trim() || null,
+      geometry: original && !shapeChanged ? original.geometry : polygonFromPath(draftPath),
+    };
+
+    try {
+      await saveZone.mutateAsync({ id: editingId ?? undefined, input });
+      toast({
+        title: editingId ? 'Zone updated' : 'Zone created',
+        description: `Incidents inside ${input.name} are now tagged with it.`,
+      });
+      closeEditor();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save zone',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async (zone: Zone) => {
+    if (!confirm(`Delete the zone "${zone.name}"? Incidents inside it will lose their zone.`)) return;
+    try {
+      await deleteZone.mutateAsync(zone.id);
+      if (editingId === zone.id) closeEditor();
+      toast({ title: 'Zone deleted', description: `${zone.name} has been removed.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to delete zone',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <MapIcon className="h-5 w-5 text-primary" />
+            Zones
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Named campus areas; incidents are tagged with the zone they are reported in
+          </p>
+        </div>
+        {!isEditing && (
+          <Button onClick={() => openEditor()} disabled={!mapReady}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Zone
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mapError && (
+          <div className="flex items-center gap-2 text-amber-500 text-sm p-4 rounded-lg bg-secondary/30">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{mapError}. Zones can only be drawn when the map is available.</span>
+          </div>
+        )}
+        <div className={`relative ${mapError ? 'hidden' : ''}`}>
+          <div ref={mapRef} className="h-[400px] rounded-lg isolate" />
+          {!mapReady && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+        </div>
+
+        {isEditing && (
+          <form onSubmit={handleSubmit} className="p-4 rounded-lg bg-secondary/30 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Click the map to place corners, drag them to adjust or drag an edge's midpoint to add one, right-click a corner to remove it.
+              </p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  resetDraft([]);
+                  setShapeChanged(true);
+                }}
+                disabled={draftPath.length === 0}
+              >
+                <Eraser className="h-4 w-4 mr-1" />
+                Clear outline
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-name">Name</Label>
+                <Input
+                  id="zone-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Science Building"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.zone_type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, zone_type: value as ZoneType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {zoneTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{zoneTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-floors">Floors</Label>
+                <Input
+                  id="zone-floors"
+                  type="number"
+                  min={0}
+                  max={200}
+                  value={formData.floor_count}
+                  onChange={(e) => setFormData(prev => ({ ...prev, floor_count: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-team">Responsible team</Label>
+                <Input
+                  id="zone-team"
+                  value={formData.responsible_team}
+                  onChange={(e) => setFormData(prev => ({ ...prev, responsible_team: e.target.value }))}
+                  placeholder="Facilities North"
+                  maxLength={100}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">{draftPath.length} corner(s) placed</span>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={closeEditor}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveZone.isPending}>
+                  {saveZone.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingId ? 'Save Zone' : 'Create Zone'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {zones.isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (zones.data || []).length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No zones yet. Incidents are only described by their reverse-geocoded address.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Floors</TableHead>
+                <TableHead>Responsible team</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(zones.data || []).map((zone) => (
+                <TableRow key={zone.id}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-sm"
+                        style={{ backgroundColor: zoneTypeColors[zone.zone_type] }}
+                      />
+                      {zone.name}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{zoneTypeLabels[zone.zone_type]}</Badge>
+                  </TableCell>
+                  <TableCell>{zone.floor_count ?? '—'}</TableCell>
+                  <TableCell>{zone.responsible_team ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFloorPlanZone(zone)}
+                        title="Floor plans"
+                      >
+                        <Layers className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditor(zone)}
+                        disabled={!mapReady}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(zone)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <FloorPlanManager zone={floorPlanZone} onClose={() => setFloorPlanZone(null)} />
+    </Card>
+  );
+}
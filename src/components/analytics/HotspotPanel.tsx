@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Incident, IncidentType } from '@/types/incident';
+import { useZones } from '@/hooks/useZones';
+import { findZoneForPoint } from '@/lib/zones';
+import {
+  HOTSPOT_CELL_SIZES,
+  HOTSPOT_WINDOWS,
+  HeatmapFilter,
+  Hotspot,
+  filterIncidentsForHeatmap,
+  findHotspots,
+} from '@/lib/hotspots';
+import { cn } from '@/lib/utils';
+import { ArrowDownRight, ArrowRight, ArrowUpRight, Crosshair } from 'lucide-react';
+
+interface HotspotPanelProps {
+  incidents: Incident[];
+  // How far back `incidents` goes; longer windows are not offered
+  maxWindowDays: number;
+}
+
+const incidentTypes: IncidentType[] = ['medical', 'fire', 'security', 'infrastructure'];
+
+const trendConfig = {
+  up: { icon: ArrowUpRight, className: 'text-[hsl(var(--severity-critical))]', label: 'Rising' },
+  down: { icon: ArrowDownRight, className: 'text-[hsl(var(--severity-low))]', label: 'Falling' },
+  flat: { icon: ArrowRight, className: 'text-muted-foreground', label: 'Steady' },
+};
+
+// The most common location name among the hotspot's incidents
+const commonLocationName = (hotspot: Hotspot) => {
+  const counts = new Map<string, number>();
+  hotspot.incidents.forEach(incident => {
+    if (incident.location_name) counts.set(incident.location_name, (counts.get(incident.location_name) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+};
+
+const dominantType = (hotspot: Hotspot) => {
+  const counts = new Map<IncidentType, number>();
+  hotspot.incidents.forEach(incident => counts.set(incident.type, (counts.get(incident.type) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+export function HotspotPanel({ incidents, maxWindowDays }: HotspotPanelProps) {
+  const { zones } = useZones();
+  const [selectedFilter, setFilter] = useState<HeatmapFilter>({ windowDays: 90, type: 'all' });
+  const [cellMeters, setCellMeters] = useState(100);
+
+  const windows = HOTSPOT_WINDOWS.filter(({ days }) => days <= maxWindowDays);
+  const filter = useMemo(
+    () => ({ ...selectedFilter, windowDays: Math.min(selectedFilter.windowDays, maxWindowDays) }),
+    [selectedFilter, maxWindowDays]
+  );
+
+  const hotspots = useMemo(() => {
+    const now = Date.now();
+    return findHotspots(filterIncidentsForHeatmap(incidents, filter, now), {
+      cellMeters,
+      windowDays: filter.windowDays,
+      now,
+    });
+  }, [incidents, filter, cellMeters]);
+
+  const halfWindow = Math.round(filter.windowDays / 2);
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="pb-2 space-y-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Crosshair className="h-4 w-4 text-primary" />
+          Incident Hotspots
+        </CardTitle>
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            value={String(filter.windowDays)}
+            onValueChange={(value) => setFilter(prev => ({ ...prev, windowDays: Number(value) }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {windows.map(({ days, label }) => (
+                <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filter.type}
+            onValueChange={(value) => setFilter(prev => ({ ...prev, type: value as HeatmapFilter['type'] }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {incidentTypes.map((type) => (
+                <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(cellMeters)} onValueChange={(value) => setCellMeters(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOTSPOT_CELL_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>{size} m grid</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-[300px] pr-4">
+          {hotspots.length === 0 ? (
+            <div className="h-[300px] flex items-center justify-center text-sm text-muted-foreground text-center px-6">
+              No significant hotspots in this period. Incidents are spread out or too few to tell.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {hotspots.map((hotspot, index) => {
+                const zone = findZoneForPoint(zones.data || [], hotspot.center.lat, hotspot.center.lng);
+                const name = zone?.name
+                  ?? commonLocationName(hotspot)
+                  ?? `${hotspot.center.lat.toFixed(5)}, ${hotspot.center.lng.toFixed(5)}`;
+                const trend = trendConfig[hotspot.trend];
+                const TrendIcon = trend.icon;
+
+                return (
+                  <div
+                    key={hotspot.id}
+                    className="flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-secondary/20"
+                  >
+                    <span className="text-sm font-mono text-muted-foreground w-5">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {hotspot.count} incidents · mostly <span className="capitalize">{dominantType(hotspot)}</span>
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="text-xs" title={`Gi* z-score ${hotspot.zScore.toFixed(2)}`}>
+                      {hotspot.confidence}%
+                    </Badge>
+                    <div
+                      className={cn('flex items-center gap-1 text-xs w-20 justify-end', trend.className)}
+                      title={`${hotspot.recentCount} in the last ${halfWindow} days, ${hotspot.previousCount} in the ${halfWindow} days before`}
+                    >
+                      <TrendIcon className="h-4 w-4" />
+                      {trend.label}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
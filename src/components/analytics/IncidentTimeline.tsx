@@ -26,7 +26,8 @@ export function IncidentTimeline({ incidents }: IncidentTimelineProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'resolved': return <CheckCircle className="h-4 w-4 text-[hsl(var(--severity-low))]" />;
+      case 'resolved':
+      case 'closed': return <CheckCircle className="h-4 w-4 text-[hsl(var(--severity-low))]" />;
       case 'escalated': return <ArrowUpCircle className="h-4 w-4 text-[hsl(var(--severity-high))]" />;
       default: return <AlertCircle className="h-4 w-4 text-[hsl(var(--severity-critical))]" />;
     }
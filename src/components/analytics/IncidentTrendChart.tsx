@@ -27,7 +27,7 @@ export function IncidentTrendChart({ incidents }: IncidentTrendChartProps) {
         total: dayIncidents.length,
         critical: dayIncidents.filter(i => i.severity === 'critical').length,
         high: dayIncidents.filter(i => i.severity === 'high').length,
-        resolved: dayIncidents.filter(i => i.status === 'resolved').length,
+        resolved: dayIncidents.filter(i => i.resolved_at).length,
       };
     });
   }, [incidents]);
@@ -1,29 +1,35 @@
 import { useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Incident } from '@/types/incident';
-import { Clock, CheckCircle, AlertTriangle, Activity } from 'lucide-react';
+import { Clock, CheckCircle, AlertTriangle, Activity, Hand, Siren, Flag, CircleDot } from 'lucide-react';
 import { differenceInMinutes, differenceInHours } from 'date-fns';
+import { isOpenStatus } from '@/lib/incidentLifecycle';
 
 interface ResponseTimeMetricsProps {
   incidents: Incident[];
 }
 
+type StageTimestamp = 'acknowledged_at' | 'dispatched_at' | 'on_scene_at' | 'resolved_at';
+
+// Average minutes from report to the given lifecycle stage, over incidents that reached it
+const averageMinutesTo = (incidents: Incident[], stage: StageTimestamp) => {
+  const reached = incidents.filter(i => i[stage]);
+  if (reached.length === 0) return 0;
+
+  const totalMinutes = reached.reduce((sum, incident) => {
+    return sum + differenceInMinutes(
+      new Date(incident[stage]!),
+      new Date(incident.created_at)
+    );
+  }, 0);
+  return Math.round(totalMinutes / reached.length);
+};
+
 export function ResponseTimeMetrics({ incidents }: ResponseTimeMetricsProps) {
   const metrics = useMemo(() => {
     const resolvedIncidents = incidents.filter(i => i.resolved_at);
-    
-    let avgResolutionTime = 0;
-    if (resolvedIncidents.length > 0) {
-      const totalMinutes = resolvedIncidents.reduce((sum, incident) => {
-        return sum + differenceInMinutes(
-          new Date(incident.resolved_at!),
-          new Date(incident.created_at)
-        );
-      }, 0);
-      avgResolutionTime = Math.round(totalMinutes / resolvedIncidents.length);
-    }
-
-    const activeIncidents = incidents.filter(i => i.status === 'active');
+
+    const activeIncidents = incidents.filter(i => isOpenStatus(i.status));
     const criticalActive = activeIncidents.filter(i => i.severity === 'critical').length;
     
     const last24hIncidents = incidents.filter(i => {
@@ -36,7 +42,10 @@ export function ResponseTimeMetrics({ incidents }: ResponseTimeMetricsProps) {
       : 0;
 
     return {
-      avgResolutionTime,
+      avgAcknowledgeTime: averageMinutesTo(incidents, 'acknowledged_at'),
+      avgDispatchTime: averageMinutesTo(incidents, 'dispatched_at'),
+      avgOnSceneTime: averageMinutesTo(incidents, 'on_scene_at'),
+      avgResolutionTime: averageMinutesTo(incidents, 'resolved_at'),
       activeCount: activeIncidents.length,
       criticalActive,
       last24h: last24hIncidents.length,
@@ -54,6 +63,48 @@ export function ResponseTimeMetrics({ incidents }: ResponseTimeMetricsProps) {
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <Card className="bg-card/50 border-border/50">
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Hand className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{formatTime(metrics.avgAcknowledgeTime)}</p>
+              <p className="text-xs text-muted-foreground">Avg Time to Acknowledge</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/50 border-border/50">
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Siren className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{formatTime(metrics.avgDispatchTime)}</p>
+              <p className="text-xs text-muted-foreground">Avg Time to Dispatch</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/50 border-border/50">
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Flag className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{formatTime(metrics.avgOnSceneTime)}</p>
+              <p className="text-xs text-muted-foreground">Avg Time to On Scene</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card className="bg-card/50 border-border/50">
         <CardContent className="pt-6">
           <div className="flex items-center gap-3">
@@ -68,6 +119,20 @@ export function ResponseTimeMetrics({ incidents }: ResponseTimeMetricsProps) {
         </CardContent>
       </Card>
 
+      <Card className="bg-card/50 border-border/50">
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-[hsl(var(--severity-high))]/10 flex items-center justify-center">
+              <CircleDot className="h-5 w-5 text-[hsl(var(--severity-high))]" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{metrics.activeCount}</p>
+              <p className="text-xs text-muted-foreground">Open Incidents</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card className="bg-card/50 border-border/50">
         <CardContent className="pt-6">
           <div className="flex items-center gap-3">
@@ -76,7 +141,7 @@ export function ResponseTimeMetrics({ incidents }: ResponseTimeMetricsProps) {
             </div>
             <div>
               <p className="text-2xl font-bold">{metrics.criticalActive}</p>
-              <p className="text-xs text-muted-foreground">Critical Active</p>
+              <p className="text-xs text-muted-foreground">Critical Open</p>
             </div>
           </div>
         </CardContent>
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Incident } from '@/types/incident';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import { PieChartIcon } from 'lucide-react';
+import { summarizeSeverityAgreement } from '@/lib/severity';
 
 interface SeverityDistributionChartProps {
   incidents: Incident[];
@@ -24,6 +25,7 @@ export function SeverityDistributionChart({ incidents }: SeverityDistributionCha
       low: 0,
     };
 
+    // incident.severity is the effective severity (operator override wins over AI)
     incidents.forEach(incident => {
       if (incident.severity && counts.hasOwnProperty(incident.severity)) {
         counts[incident.severity as keyof typeof counts]++;
@@ -39,6 +41,7 @@ export function SeverityDistributionChart({ incidents }: SeverityDistributionCha
   }, [incidents]);
 
   const total = chartData.reduce((sum, item) => sum + item.value, 0);
+  const agreement = useMemo(() => summarizeSeverityAgreement(incidents), [incidents]);
 
   return (
     <Card className="bg-card/50 border-border/50">
@@ -87,6 +90,22 @@ export function SeverityDistributionChart({ incidents }: SeverityDistributionCha
             </ResponsiveContainer>
           )}
         </div>
+        {agreement.assessed > 0 && (
+          <div className="mt-3 pt-3 border-t border-border/50 grid grid-cols-3 gap-2 text-center">
+            <div>
+              <p className="text-lg font-semibold">{agreement.disagreementRate}%</p>
+              <p className="text-xs text-muted-foreground">AI/operator disagreement</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">{agreement.raised}</p>
+              <p className="text-xs text-muted-foreground">Raised by operator</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">{agreement.lowered}</p>
+              <p className="text-xs text-muted-foreground">Lowered by operator</p>
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Incident, IncidentType } from '@/types/incident';
+import { SlaStage } from '@/types/sla';
+import { useZones } from '@/hooks/useZones';
+import { SlaComplianceRow, slaStageLabels, slaStages, summarizeSlaCompliance } from '@/lib/sla';
+import { cn } from '@/lib/utils';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { eachWeekOfInterval, format, startOfWeek, subWeeks } from 'date-fns';
+import { Timer } from 'lucide-react';
+
+interface SlaComplianceReportProps {
+  incidents: Incident[];
+}
+
+const WEEKS = 12;
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const typeLabels: Record<IncidentType, string> = {
+  medical: 'Medical',
+  fire: 'Fire',
+  security: 'Security',
+  infrastructure: 'Infrastructure',
+};
+
+const complianceClass = (rate: number | null) => {
+  if (rate === null) return 'text-muted-foreground';
+  if (rate >= 90) return 'text-[hsl(var(--severity-low))]';
+  if (rate >= 70) return 'text-[hsl(var(--severity-medium))]';
+  return 'text-[hsl(var(--severity-critical))]';
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
+
+function ComplianceTable({ label, rows }: { label: string; rows: SlaComplianceRow[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Met</TableHead>
+          <TableHead className="text-right">Missed</TableHead>
+          <TableHead className="text-right">In progress</TableHead>
+          <TableHead className="text-right">Compliance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.key}</TableCell>
+            <TableCell className="text-right">{row.met}</TableCell>
+            <TableCell className="text-right">{row.missed}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{row.pending}</TableCell>
+            <TableCell className={cn('text-right font-medium', complianceClass(row.complianceRate))}>
+              {formatRate(row.complianceRate)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Share of incidents that reached a stage within its SLA target. Incidents
+// keep the targets that applied while they were open.
+export function SlaComplianceReport({ incidents }: SlaComplianceReportProps) {
+  const { zonesById } = useZones();
+  const [stage, setStage] = useState<SlaStage>('acknowledge');
+
+  const report = useMemo(() => {
+    const now = new Date();
+    const [overall] = summarizeSlaCompliance(incidents, stage, () => 'all', now);
+
+    const firstWeek = startOfWeek(subWeeks(now, WEEKS - 1), WEEK_OPTIONS);
+    const weekKey = (date: Date) => format(startOfWeek(date, WEEK_OPTIONS), 'yyyy-MM-dd');
+    const byWeek = new Map(
+      summarizeSlaCompliance(
+        incidents.filter(incident => new Date(incident.created_at) >= firstWeek),
+        stage,
+        incident => weekKey(new Date(incident.created_at)),
+        now
+      ).map(row => [row.key, row])
+    );
+    const weeks = eachWeekOfInterval({ start: firstWeek, end: now }, WEEK_OPTIONS).map(week => {
+      const row = byWeek.get(weekKey(week));
+      return {
+        week: format(week, 'MMM dd'),
+        met: row?.met ?? 0,
+        missed: row?.missed ?? 0,
+        complianceRate: row?.complianceRate ?? null,
+      };
+    });
+
+    const byType = summarizeSlaCompliance(incidents, stage, incident => typeLabels[incident.type], now)
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    const outside = 'Outside zones';
+    const byZone = summarizeSlaCompliance(
+      incidents,
+      stage,
+      incident => (incident.zone_id && zonesById.get(incident.zone_id)?.name) || outside,
+      now
+    ).sort((a, b) => Number(a.key === outside) - Number(b.key === outside) || a.key.localeCompare(b.key));
+
+    return { overall, weeks, byType, byZone };
+  }, [incidents, stage, zonesById]);
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Timer className="h-4 w-4 text-primary" />
+          SLA Compliance
+          <Select value={stage} onValueChange={(value) => setStage(value as SlaStage)}>
+            <SelectTrigger className="ml-auto h-8 w-[160px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {slaStages.map(s => (
+                <SelectItem key={s} value={s}>Time to {slaStageLabels[s].toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!report.overall ? (
+          <div className="h-[300px] flex items-center justify-center text-sm text-muted-foreground text-center">
+            No incidents with a {slaStageLabels[stage].toLowerCase()} target yet. Admins can set response time targets in the Admin panel.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-baseline gap-4 flex-wrap">
+              <p className={cn('text-2xl font-bold', complianceClass(report.overall.complianceRate))}>
+                {formatRate(report.overall.complianceRate)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {report.overall.met} met · {report.overall.missed} missed · {report.overall.pending} in progress
+              </p>
+            </div>
+
+            <Tabs defaultValue="week">
+              <TabsList>
+                <TabsTrigger value="week">By week</TabsTrigger>
+                <TabsTrigger value="type">By type</TabsTrigger>
+                <TabsTrigger value="zone">By zone</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="week">
+                <div className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={report.weeks}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis
+                        dataKey="week"
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                        tickLine={false}
+                        axisLine={false}
+                        allowDecimals={false}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '8px',
+                        }}
+                        labelFormatter={(label, payload) => {
+                          const rate = payload?.[0]?.payload?.complianceRate ?? null;
+                          return `Week of ${label}: ${formatRate(rate)}`;
+                        }}
+                      />
+                      <Legend />
+                      <Bar dataKey="met" name="Met" stackId="sla" fill="hsl(var(--severity-low))" />
+                      <Bar dataKey="missed" name="Missed" stackId="sla" fill="hsl(var(--severity-critical))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="type">
+                <ComplianceTable label="Type" rows={report.byType} />
+              </TabsContent>
+
+              <TabsContent value="zone">
+                <ComplianceTable label="Zone" rows={report.byZone} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
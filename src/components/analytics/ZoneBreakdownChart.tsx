@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Incident } from '@/types/incident';
+import { useZones } from '@/hooks/useZones';
+import { zoneTypeColors } from '@/lib/zones';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Map as MapIcon } from 'lucide-react';
+
+interface ZoneBreakdownChartProps {
+  incidents: Incident[];
+}
+
+// Zones beyond this many are summed into "Other zones"
+const MAX_ZONES = 8;
+
+export function ZoneBreakdownChart({ incidents }: ZoneBreakdownChartProps) {
+  const { zones, zonesById } = useZones();
+
+  const chartData = useMemo(() => {
+    const counts = new Map<string | null, number>();
+    incidents.forEach(incident => {
+      const zoneId = incident.zone_id && zonesById.has(incident.zone_id) ? incident.zone_id : null;
+      counts.set(zoneId, (counts.get(zoneId) ?? 0) + 1);
+    });
+
+    const ranked = [...counts.entries()]
+      .filter(([zoneId]) => zoneId !== null)
+      .sort((a, b) => b[1] - a[1]);
+
+    const rows = ranked.slice(0, MAX_ZONES).map(([zoneId, count]) => {
+      const zone = zonesById.get(zoneId!)!;
+      return { zone: zone.name, count, color: zoneTypeColors[zone.zone_type] };
+    });
+
+    const otherZones = ranked.slice(MAX_ZONES).reduce((sum, [, count]) => sum + count, 0);
+    if (otherZones > 0) {
+      rows.push({ zone: 'Other zones', count: otherZones, color: 'hsl(var(--muted-foreground))' });
+    }
+
+    const outside = counts.get(null) ?? 0;
+    if (outside > 0) {
+      rows.push({ zone: 'Outside zones', count: outside, color: 'hsl(var(--border))' });
+    }
+
+    return rows;
+  }, [incidents, zonesById]);
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MapIcon className="h-4 w-4 text-primary" />
+          Incidents by Zone
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {(zones.data || []).length === 0 ? (
+          <div className="h-[300px] flex items-center justify-center text-sm text-muted-foreground">
+            No zones defined. Admins can draw zones in the Admin panel.
+          </div>
+        ) : (
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis 
+                  type="number" 
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  allowDecimals={false}
+                />
+                <YAxis 
+                  type="category" 
+                  dataKey="zone" 
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  width={120}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number) => [`${value} incidents`, 'Count']}
+                />
+                <Bar dataKey="count" radius={[0, 4, 4, 0]}>
+                  {chartData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, CalendarIcon, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { actionLabels } from '@/hooks/useIncidentAuditLogs';
+import {
+  AuditLogFilters as Filters,
+  emptyAuditLogFilters,
+  isValidIncidentId,
+  isValidMetadataKey,
+} from '@/hooks/useAuditLogs';
+
+interface AuditLogFiltersProps {
+  filters: Filters;
+  onFiltersChange: (filters: Filters) => void;
+}
+
+// Filters are edited as a draft and applied together, since each change is a server query
+export function AuditLogFilters({ filters, onFiltersChange }: AuditLogFiltersProps) {
+  const [draft, setDraft] = useState<Filters>(filters);
+
+  const updateDraft = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setDraft({ ...draft, [key]: value });
+  };
+
+  const incidentIdInvalid = draft.incidentId.trim() !== '' && !isValidIncidentId(draft.incidentId);
+  const metadataKeyInvalid = draft.metadataKey.trim() !== '' && !isValidMetadataKey(draft.metadataKey);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (incidentIdInvalid || metadataKeyInvalid) return;
+    onFiltersChange(draft);
+  };
+
+  const clearFilters = () => {
+    setDraft(emptyAuditLogFilters);
+    onFiltersChange(emptyAuditLogFilters);
+  };
+
+  const hasActiveFilters = JSON.stringify(filters) !== JSON.stringify(emptyAuditLogFilters);
+
+  return (
+    <form onSubmit={handleApply} className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        {/* Actor */}
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Actor email..."
+            value={draft.actor}
+            onChange={(e) => updateDraft('actor', e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {/* Action */}
+        <Select value={draft.action} onValueChange={(v) => updateDraft('action', v)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {Object.entries(actionLabels).map(([action, label]) => (
+              <SelectItem key={action} value={action}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Incident */}
+        <Input
+          placeholder="Incident ID"
+          value={draft.incidentId}
+          onChange={(e) => updateDraft('incidentId', e.target.value)}
+          className={cn('w-[300px] font-mono text-xs', incidentIdInvalid && 'border-destructive')}
+        />
+
+        {/* Date From */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn(
+                "w-[140px] justify-start text-left font-normal",
+                !draft.dateFrom && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {draft.dateFrom ? format(draft.dateFrom, 'MMM dd, yy') : 'From'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={draft.dateFrom ?? undefined}
+              onSelect={(date) => updateDraft('dateFrom', date ?? null)}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+
+        {/* Date To */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn(
+                "w-[140px] justify-start text-left font-normal",
+                !draft.dateTo && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {draft.dateTo ? format(draft.dateTo, 'MMM dd, yy') : 'To'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={draft.dateTo ?? undefined}
+              onSelect={(date) => updateDraft('dateTo', date ?? null)}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Metadata field */}
+        <Input
+          placeholder="Metadata field, e.g. helper_name"
+          value={draft.metadataKey}
+          onChange={(e) => updateDraft('metadataKey', e.target.value)}
+          className={cn('w-[240px]', metadataKeyInvalid && 'border-destructive')}
+        />
+        <Input
+          placeholder="Value (empty: field is present)"
+          value={draft.metadataValue}
+          onChange={(e) => updateDraft('metadataValue', e.target.value)}
+          disabled={!draft.metadataKey.trim()}
+          className="w-[240px]"
+        />
+
+        <Button type="submit" disabled={incidentIdInvalid || metadataKeyInvalid}>
+          Apply Filters
+        </Button>
+
+        {hasActiveFilters && (
+          <Button type="button" variant="ghost" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+
+        {(incidentIdInvalid || metadataKeyInvalid) && (
+          <p className="text-sm text-destructive">
+            {incidentIdInvalid
+              ? 'Enter a full incident ID.'
+              : 'Metadata fields contain only letters, digits and underscores.'}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
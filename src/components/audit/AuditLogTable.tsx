@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AuditLogEntry, getActionIcon, getActionLabel } from '@/hooks/useIncidentAuditLogs';
+import { MetadataDiff } from './MetadataDiff';
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+export function AuditLogTable({ entries, page, totalPages, onPageChange }: AuditLogTableProps) {
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No audit entries found matching your filters
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead className="w-[70px]">#</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead className="hidden md:table-cell">Incident</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow
+                key={entry.id}
+                className="cursor-pointer"
+                onClick={() => setSelected(entry)}
+              >
+                <TableCell className="text-xs text-muted-foreground font-mono">{entry.seq ?? '—'}</TableCell>
+                <TableCell className="font-medium text-sm whitespace-nowrap">
+                  {format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm:ss')}
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm">
+                    {getActionIcon(entry.action)} {getActionLabel(entry.action)}
+                  </span>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {entry.actor_email || 'System'}
+                </TableCell>
+                <TableCell className="hidden md:table-cell text-xs font-mono text-muted-foreground">
+                  {entry.incident_id ? entry.incident_id.slice(0, 8) : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onPageChange(Math.max(1, page - 1))}
+              disabled={page === 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+              disabled={page === totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {getActionIcon(selected.action)} {getActionLabel(selected.action)}
+                </DialogTitle>
+                <DialogDescription>
+                  {format(new Date(selected.created_at), 'MMMM dd, yyyy HH:mm:ss')} by{' '}
+                  {selected.actor_email || 'System'}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                <div className="grid grid-cols-[120px_1fr] gap-y-1 text-sm">
+                  <span className="text-muted-foreground">Entry</span>
+                  <span className="font-mono text-xs">#{selected.seq ?? '—'} · {selected.id}</span>
+                  <span className="text-muted-foreground">Action</span>
+                  <span className="font-mono text-xs">{selected.action}</span>
+                  <span className="text-muted-foreground">Incident</span>
+                  <span className="font-mono text-xs">{selected.incident_id || '—'}</span>
+                </div>
+                <MetadataDiff metadata={selected.metadata} />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
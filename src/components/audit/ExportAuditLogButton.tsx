@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileDown, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AUDIT_LOG_EXPORT_LIMIT, AuditLogFilters, fetchAuditLogsForExport } from '@/hooks/useAuditLogs';
+import { AuditLogEntry } from '@/hooks/useIncidentAuditLogs';
+import { format } from 'date-fns';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface ExportAuditLogButtonProps {
+  filters: AuditLogFilters;
+  total: number;
+}
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function ExportAuditLogButton({ filters, total }: ExportAuditLogButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { currentOrganization } = useAuth();
+  const { can } = usePermissions();
+
+  const exportToCSV = (entries: AuditLogEntry[]) => {
+    const headers = ['Seq', 'ID', 'Created At', 'Action', 'Actor ID', 'Actor Email', 'Incident ID', 'Metadata'];
+
+    const rows = entries.map(entry => [
+      entry.seq ?? '',
+      entry.id,
+      format(new Date(entry.created_at), 'yyyy-MM-dd HH:mm:ss'),
+      entry.action,
+      entry.actor_id || '',
+      entry.actor_email || '',
+      entry.incident_id || '',
+      csvCell(JSON.stringify(entry.metadata ?? {})),
+    ]);
+
+    const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+    downloadFile(csvContent, 'text/csv', `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  };
+
+  const exportToJSON = (entries: AuditLogEntry[]) => {
+    const jsonContent = JSON.stringify(entries, null, 2);
+    downloadFile(jsonContent, 'application/json', `audit-log-${format(new Date(), 'yyyy-MM-dd')}.json`);
+  };
+
+  const downloadFile = (content: string, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!currentOrganization) return;
+
+    setIsExporting(true);
+    try {
+      const entries = await fetchAuditLogsForExport(currentOrganization.id, filters);
+      if (format === 'csv') {
+        exportToCSV(entries);
+      } else {
+        exportToJSON(entries);
+      }
+
+      toast({
+        title: 'Export successful',
+        description: total > AUDIT_LOG_EXPORT_LIMIT
+          ? `Exported the newest ${entries.length} of ${total} entries. Narrow the filters to export the rest.`
+          : `Exported ${entries.length} audit entries`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Export failed',
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!can('can_export')) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting || total === 0}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <FileDown className="h-4 w-4 mr-2" />
+              Export
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          Export as CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          Export as JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,36 @@
+import { diffMetadata } from '@/lib/auditDiff';
+import { cn } from '@/lib/utils';
+
+interface MetadataDiffProps {
+  metadata: Record<string, unknown> | null;
+}
+
+const linePrefixes = { added: '+', removed: '-', unchanged: ' ' };
+
+export function MetadataDiff({ metadata }: MetadataDiffProps) {
+  const lines = diffMetadata(metadata);
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground">No metadata recorded</p>;
+  }
+
+  return (
+    <pre className="rounded-md border border-border bg-muted/30 p-3 text-xs font-mono overflow-x-auto">
+      <div className="text-muted-foreground">{'{'}</div>
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            'whitespace-pre',
+            line.kind === 'added' && 'bg-[hsl(var(--severity-low))]/15 text-[hsl(var(--severity-low))]',
+            line.kind === 'removed' && 'bg-destructive/15 text-destructive'
+          )}
+        >
+          {linePrefixes[line.kind]} {JSON.stringify(line.key)}: {JSON.stringify(line.value)}
+          {i < lines.length - 1 ? ',' : ''}
+        </div>
+      ))}
+      <div className="text-muted-foreground">{'}'}</div>
+    </pre>
+  );
+}
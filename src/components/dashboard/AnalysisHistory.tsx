@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight, GitCompare, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useIncidentAnalyses } from "@/hooks/useIncidentAnalyses";
+import { diffAnalyses, ListDiff } from "@/lib/aiAnalysis";
+import { AnalysisParseStatus, IncidentAnalysis } from "@/types/incident";
+
+interface AnalysisHistoryProps {
+  incidentId: string;
+  currentAnalysisId: string | null;
+}
+
+const parseStatusLabels: Record<AnalysisParseStatus, string> = {
+  parsed: "Parsed",
+  fallback: "Fallback",
+  failed: "Failed",
+};
+
+const parseStatusVariants: Record<AnalysisParseStatus, "secondary" | "outline" | "destructive"> = {
+  parsed: "secondary",
+  fallback: "outline",
+  failed: "destructive",
+};
+
+export const AnalysisHistory = ({ incidentId, currentAnalysisId }: AnalysisHistoryProps) => {
+  const { data: analyses, isLoading, error } = useIncidentAnalyses(incidentId);
+  const [index, setIndex] = useState(0);
+  const [isComparing, setIsComparing] = useState(false);
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 text-destructive text-sm">
+        <AlertCircle className="h-4 w-4" />
+        <span>Failed to load analysis history</span>
+      </div>
+    );
+  }
+
+  if (!analyses || analyses.length === 0) {
+    return (
+      <div className="text-muted-foreground text-sm text-center py-4">
+        No analysis runs recorded yet
+      </div>
+    );
+  }
+
+  // Versions are newest first; "previous" is the next older run
+  const safeIndex = Math.min(index, analyses.length - 1);
+  const selected = analyses[safeIndex];
+  const previous = analyses[safeIndex + 1] ?? null;
+  const versionNumber = analyses.length - safeIndex;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIndex(safeIndex + 1)}
+            disabled={safeIndex >= analyses.length - 1}
+            title="Older version"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-xs font-medium whitespace-nowrap">
+            Version {versionNumber} of {analyses.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIndex(safeIndex - 1)}
+            disabled={safeIndex === 0}
+            title="Newer version"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button
+          variant={isComparing ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setIsComparing(!isComparing)}
+          disabled={!previous}
+        >
+          <GitCompare className="h-3 w-3 mr-1" />
+          Compare with previous
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        {selected.id === currentAnalysisId && <Badge className="text-xs">Current</Badge>}
+        <Badge variant={parseStatusVariants[selected.parse_status]} className="text-xs">
+          {parseStatusLabels[selected.parse_status]}
+        </Badge>
+        <span>{selected.provider} · {selected.model}</span>
+        <span>prompt {selected.prompt_version}</span>
+        {selected.latency_ms !== null && <span>{selected.latency_ms} ms</span>}
+        <span>{format(new Date(selected.created_at), "MMM d, h:mm:ss a")}</span>
+      </div>
+
+      {isComparing && previous ? (
+        <AnalysisDiffView previous={previous} selected={selected} />
+      ) : (
+        <AnalysisVersionView analysis={selected} />
+      )}
+    </div>
+  );
+};
+
+const AnalysisVersionView = ({ analysis }: { analysis: IncidentAnalysis }) => {
+  if (!analysis.analysis) {
+    return (
+      <div className="p-2 rounded bg-muted/50 text-xs text-destructive">
+        {analysis.error || "The provider returned no usable analysis"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 rounded bg-muted/50 text-xs space-y-2">
+      <p>
+        <span className="text-muted-foreground">Severity:</span>{" "}
+        <span className="uppercase font-medium">{analysis.analysis.severity}</span>
+      </p>
+      <ItemList label="Immediate Actions" items={analysis.analysis.immediateActions} />
+      <ItemList label="Resources" items={analysis.analysis.resourceRecommendations} />
+      <p className="text-muted-foreground">{analysis.analysis.reasoning}</p>
+    </div>
+  );
+};
+
+const AnalysisDiffView = ({ previous, selected }: { previous: IncidentAnalysis; selected: IncidentAnalysis }) => {
+  const diff = diffAnalyses(previous.analysis, selected.analysis);
+
+  return (
+    <div className="p-2 rounded bg-muted/50 text-xs space-y-2">
+      <p>
+        <span className="text-muted-foreground">Severity:</span>{" "}
+        {diff.severityChanged ? (
+          <span className="uppercase font-medium">
+            <span className="line-through text-muted-foreground">{diff.previousSeverity ?? "none"}</span>
+            {" → "}
+            {diff.severity ?? "none"}
+          </span>
+        ) : (
+          <span className="uppercase font-medium">{diff.severity ?? "none"} (unchanged)</span>
+        )}
+      </p>
+      <DiffList label="Immediate Actions" diff={diff.immediateActions} />
+      <DiffList label="Resources" diff={diff.resourceRecommendations} />
+      {diff.reasoningChanged && (
+        <div className="space-y-1">
+          <p className="text-muted-foreground uppercase tracking-wide">Reasoning</p>
+          <p className="text-red-500 line-through">{previous.analysis?.reasoning ?? "—"}</p>
+          <p className="text-green-500">{selected.analysis?.reasoning ?? "—"}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ItemList = ({ label, items }: { label: string; items: string[] }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-muted-foreground uppercase tracking-wide">{label}</p>
+      <ul className="space-y-0.5">
+        {items.map((item, i) => (
+          <li key={i}>• {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const DiffList = ({ label, diff }: { label: string; diff: ListDiff }) => {
+  if (diff.added.length + diff.removed.length + diff.unchanged.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-muted-foreground uppercase tracking-wide">{label}</p>
+      <ul className="space-y-0.5">
+        {diff.removed.map((item, i) => (
+          <li key={`removed-${i}`} className="text-red-500 line-through">− {item}</li>
+        ))}
+        {diff.added.map((item, i) => (
+          <li key={`added-${i}`} className="text-green-500">+ {item}</li>
+        ))}
+        {diff.unchanged.map((item, i) => (
+          <li key={`unchanged-${i}`} className="text-muted-foreground">  {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Shield, LogOut, Activity, BarChart3, History, Settings } from 'lucide-react';
+import { Shield, LogOut, Activity, BarChart3, History, Settings, Building2, ScrollText } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import {
   DropdownMenu,
@@ -12,13 +12,23 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { NotificationBell } from './NotificationBell';
 import { useIncidents } from '@/hooks/useIncidents';
+import { usePermissions } from '@/hooks/usePermissions';
+import { roleLabels } from '@/lib/permissions';
 import { cn } from '@/lib/utils';
 
 export function DashboardHeader() {
-  const { user, role, signOut } = useAuth();
+  const { user, role, organizations, currentOrganization, switchOrganization, signOut } = useAuth();
   const { incidents } = useIncidents();
+  const { can } = usePermissions();
   const location = useLocation();
 
   const getInitials = (email: string) => {
@@ -29,7 +39,8 @@ export function DashboardHeader() {
     { path: '/dashboard', label: 'Dashboard', icon: Activity },
     { path: '/analytics', label: 'Analytics', icon: BarChart3 },
     { path: '/history', label: 'History', icon: History },
-    ...(role === 'admin' ? [{ path: '/admin', label: 'Admin', icon: Settings }] : []),
+    ...(can('can_view_audit_log') ? [{ path: '/audit', label: 'Audit', icon: ScrollText }] : []),
+    ...(can('can_manage_users') ? [{ path: '/admin', label: 'Admin', icon: Settings }] : []),
   ];
 
   return (
@@ -66,10 +77,29 @@ export function DashboardHeader() {
         </div>
         
         <div className="flex items-center gap-3">
+          {organizations.length > 1 ? (
+            <Select value={currentOrganization?.id} onValueChange={switchOrganization}>
+              <SelectTrigger className="w-44 h-9" aria-label="Switch organization">
+                <Building2 className="h-4 w-4 mr-2 text-muted-foreground" />
+                <SelectValue placeholder="Organization" />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map(org => (
+                  <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : currentOrganization && (
+            <div className="hidden lg:flex items-center gap-2 text-sm text-muted-foreground">
+              <Building2 className="h-4 w-4" />
+              {currentOrganization.name}
+            </div>
+          )}
+
           <NotificationBell incidents={incidents} />
           
           <Badge variant="secondary" className="hidden sm:flex">
-            {role === 'admin' ? 'Administrator' : 'Operator'}
+            {role ? roleLabels[role] : 'No role'}
           </Badge>
           
           <DropdownMenu>
@@ -86,8 +116,8 @@ export function DashboardHeader() {
               <DropdownMenuLabel className="font-normal">
                 <div className="flex flex-col space-y-1">
                   <p className="text-sm font-medium leading-none">{user?.email}</p>
-                  <p className="text-xs leading-none text-muted-foreground capitalize">
-                    {role || 'Operator'}
+                  <p className="text-xs leading-none text-muted-foreground">
+                    {role ? roleLabels[role] : 'No role'}
                   </p>
                 </div>
               </DropdownMenuLabel>
@@ -1,4 +1,5 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { LayoutDashboard, History, BarChart3, Shield, LogOut } from 'lucide-react';
@@ -16,9 +17,10 @@ const navItems = [
 ];
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
-  const { role, signOut, user } = useAuth();
+  const { signOut, user } = useAuth();
   const location = useLocation();
-  const isAdmin = role === 'admin';
+  const { can } = usePermissions();
+  const isAdmin = can('can_manage_users');
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
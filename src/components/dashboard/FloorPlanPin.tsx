@@ -0,0 +1,36 @@
+import { cn } from '@/lib/utils';
+import { MapPin } from 'lucide-react';
+
+interface FloorPlanPinProps {
+  url: string;
+  alt: string;
+  // Pin position as fractions of the image's width and height
+  x: number | null;
+  y: number | null;
+  onPick?: (x: number, y: number) => void;
+  className?: string;
+}
+
+export function FloorPlanPin({ url, alt, x, y, onPick, className }: FloorPlanPinProps) {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    onPick(clamp((e.clientX - rect.left) / rect.width), clamp((e.clientY - rect.top) / rect.height));
+  };
+
+  return (
+    <div
+      className={cn('relative rounded-lg overflow-hidden border border-border bg-white', onPick && 'cursor-crosshair', className)}
+      onClick={handleClick}
+    >
+      <img src={url} alt={alt} className="w-full h-auto block select-none" draggable={false} />
+      {x !== null && y !== null && (
+        <MapPin
+          className="absolute h-6 w-6 -translate-x-1/2 -translate-y-full text-severity-critical fill-severity-critical/30 drop-shadow pointer-events-none"
+          style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/hooks/use-toast';
+import { useOperators, getOperatorName } from '@/hooks/useOperators';
+import { supabase } from '@/integrations/supabase/client';
+import { Incident } from '@/types/incident';
+import { isOpenStatus } from '@/lib/incidentLifecycle';
+import { UserCheck, UserPlus, Loader2 } from 'lucide-react';
+
+interface IncidentAssignmentSectionProps {
+  incident: Incident;
+  onUpdate: () => void;
+}
+
+const UNASSIGNED = 'unassigned';
+
+export function IncidentAssignmentSection({ incident, onUpdate }: IncidentAssignmentSectionProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { data: operators } = useOperators();
+  const queryClient = useQueryClient();
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  // Mirrors the checks in public.assign_incident
+  const canReassign = !!user && (
+    can('can_manage_incidents') ||
+    user.id === incident.reported_by ||
+    user.id === incident.assigned_to ||
+    user.id === incident.secondary_assignee
+  );
+  const canClaim = !!user && !incident.assigned_to;
+  const isOpen = isOpenStatus(incident.status);
+
+  const assigneeName = getOperatorName(operators, incident.assigned_to);
+  const secondaryName = getOperatorName(operators, incident.secondary_assignee);
+
+  const assign = async (assignee: string | null, secondaryAssignee: string | null) => {
+    setIsAssigning(true);
+    const { error } = await supabase.rpc('assign_incident', {
+      _incident_id: incident.id,
+      _assignee: assignee,
+      _secondary_assignee: secondaryAssignee,
+    });
+    setIsAssigning(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to assign incident',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: assignee ? 'Incident assigned' : 'Incident unassigned',
+      description: assignee
+        ? `Assigned to ${assignee === user?.id ? 'you' : getOperatorName(operators, assignee)}.`
+        : 'The incident no longer has an owner.',
+    });
+    queryClient.invalidateQueries({ queryKey: ['incident-audit-logs', incident.id] });
+    onUpdate();
+  };
+
+  const handleAssignToMe = () => {
+    if (!user) return;
+    // A user cannot be both primary and secondary assignee
+    const secondary = incident.secondary_assignee === user.id ? null : incident.secondary_assignee;
+    assign(user.id, secondary);
+  };
+
+  const handlePrimaryChange = (value: string) => {
+    const assignee = value === UNASSIGNED ? null : value;
+    const secondary = incident.secondary_assignee === assignee ? null : incident.secondary_assignee;
+    assign(assignee, secondary);
+  };
+
+  const handleSecondaryChange = (value: string) => {
+    assign(incident.assigned_to, value === UNASSIGNED ? null : value);
+  };
+
+  const formatAssignee = (userId: string | null, name: string | null) => {
+    if (!userId) return 'Unassigned';
+    return userId === user?.id ? `${name} (you)` : name;
+  };
+
+  return (
+    <>
+      <Separator className="bg-border/50" />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-medium flex items-center gap-2 text-primary">
+            <UserCheck className="h-4 w-4" />
+            Ownership
+          </h4>
+          {isOpen && user && incident.assigned_to !== user.id && (canReassign || canClaim) && (
+            <Button size="sm" variant="outline" onClick={handleAssignToMe} disabled={isAssigning}>
+              {isAssigning ? (
+                <Loader2 className="h-3 w-3 animate-spin mr-1" />
+              ) : (
+                <UserPlus className="h-3 w-3 mr-1" />
+              )}
+              Assign to me
+            </Button>
+          )}
+        </div>
+
+        {isOpen && canReassign ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Assignee</p>
+              <Select
+                value={incident.assigned_to ?? UNASSIGNED}
+                onValueChange={handlePrimaryChange}
+                disabled={isAssigning}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Assign to…" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {(operators || []).map((operator) => (
+                    <SelectItem key={operator.user_id} value={operator.user_id}>
+                      {formatAssignee(operator.user_id, operator.full_name || 'Unnamed operator')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Secondary (optional)</p>
+              <Select
+                value={incident.secondary_assignee ?? UNASSIGNED}
+                onValueChange={handleSecondaryChange}
+                disabled={isAssigning || !incident.assigned_to}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>None</SelectItem>
+                  {(operators || [])
+                    .filter((operator) => operator.user_id !== incident.assigned_to)
+                    .map((operator) => (
+                      <SelectItem key={operator.user_id} value={operator.user_id}>
+                        {formatAssignee(operator.user_id, operator.full_name || 'Unnamed operator')}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <Badge variant={incident.assigned_to ? 'secondary' : 'outline'}>
+              {formatAssignee(incident.assigned_to, assigneeName)}
+            </Badge>
+            {incident.secondary_assignee && (
+              <Badge variant="outline">
+                Secondary: {formatAssignee(incident.secondary_assignee, secondaryName)}
+              </Badge>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/hooks/use-toast';
+import { IncidentAttachment, useIncidentAttachments } from '@/hooks/useIncidentAttachments';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+  getAttachmentKind,
+  prepareAttachment,
+} from '@/lib/attachments';
+import { format } from 'date-fns';
+import { Brain, Download, FileText, Film, Loader2, MapPin, Paperclip, Trash2, Upload } from 'lucide-react';
+
+interface IncidentAttachmentsSectionProps {
+  incidentId: string;
+  canAnalyze: boolean;
+  isAnalyzing: boolean;
+  onAnalyzeWithImages: () => void;
+}
+
+export function IncidentAttachmentsSection({
+  incidentId,
+  canAnalyze,
+  isAnalyzing,
+  onAnalyzeWithImages,
+}: IncidentAttachmentsSectionProps) {
+  const { attachments, upload, remove } = useIncidentAttachments(incidentId);
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [selected, setSelected] = useState<IncidentAttachment | null>(null);
+
+  const items = attachments.data ?? [];
+  const imageCount = items.filter(item => getAttachmentKind(item.content_type) === 'image').length;
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (inputRef.current) inputRef.current.value = '';
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'File too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} exceeds ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`,
+      });
+      return;
+    }
+
+    setIsPreparing(true);
+    try {
+      const prepared = await Promise.all(files.map(prepareAttachment));
+      await upload.mutateAsync(prepared);
+      toast({ title: 'Attachments uploaded', description: `${files.length} file(s) added to the incident.` });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Upload failed',
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleRemove = async (attachment: IncidentAttachment) => {
+    try {
+      await remove.mutateAsync(attachment);
+      setSelected(null);
+      toast({ title: 'Attachment removed', description: attachment.file_name });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to remove attachment',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const isUploading = isPreparing || upload.isPending;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Paperclip className="h-4 w-4 text-primary" />
+          Attachments
+          {items.length > 0 && <Badge variant="secondary" className="text-xs">{items.length}</Badge>}
+        </h4>
+        <div className="flex items-center gap-1">
+          {canAnalyze && imageCount > 0 && (
+            <Button size="sm" variant="ghost" onClick={onAnalyzeWithImages} disabled={isAnalyzing}>
+              {isAnalyzing ? (
+                <Loader2 className="h-3 w-3 animate-spin mr-1" />
+              ) : (
+                <Brain className="h-3 w-3 mr-1" />
+              )}
+              Analyze with photos
+            </Button>
+          )}
+          {can('can_report') && (
+            <>
+              <input
+                ref={inputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_ATTACHMENT_TYPES}
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => inputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading ? (
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                ) : (
+                  <Upload className="h-3 w-3 mr-1" />
+                )}
+                Add
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {attachments.isLoading ? (
+        <div className="grid grid-cols-4 gap-2">
+          <Skeleton className="aspect-square w-full" />
+          <Skeleton className="aspect-square w-full" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No photos or files attached</p>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {items.map(item => (
+            <AttachmentTile key={item.id} attachment={item} onSelect={() => setSelected(item)} />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="truncate pr-6">{selected.file_name}</DialogTitle>
+                <DialogDescription>
+                  {formatFileSize(selected.size_bytes)} · added {format(new Date(selected.created_at), 'MMM d, yyyy HH:mm')}
+                </DialogDescription>
+              </DialogHeader>
+
+              {selected.url && getAttachmentKind(selected.content_type) === 'image' && (
+                <img
+                  src={selected.url}
+                  alt={selected.file_name}
+                  className="max-h-[65vh] w-full object-contain rounded-md bg-muted"
+                />
+              )}
+              {selected.url && getAttachmentKind(selected.content_type) === 'video' && (
+                <video src={selected.url} controls className="max-h-[65vh] w-full rounded-md bg-muted" />
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                {selected.latitude !== null && selected.longitude !== null ? (
+                  <a
+                    href={`https://www.google.com/maps?q=${selected.latitude},${selected.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <MapPin className="h-3 w-3" />
+                    Taken at {selected.latitude.toFixed(5)}, {selected.longitude.toFixed(5)}
+                  </a>
+                ) : (
+                  <span />
+                )}
+                <div className="flex items-center gap-2">
+                  {selected.url && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={selected.url} target="_blank" rel="noopener noreferrer" download={selected.file_name}>
+                        <Download className="h-3 w-3 mr-1" />
+                        Download
+                      </a>
+                    </Button>
+                  )}
+                  {can('can_manage_incidents') && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleRemove(selected)}
+                      disabled={remove.isPending}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function AttachmentTile({ attachment, onSelect }: { attachment: IncidentAttachment; onSelect: () => void }) {
+  const kind = getAttachmentKind(attachment.content_type);
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      title={attachment.file_name}
+      className="aspect-square w-full overflow-hidden rounded-md border border-border/50 bg-secondary/30 hover:border-primary transition-colors"
+    >
+      {kind === 'image' && attachment.url ? (
+        <img src={attachment.url} alt={attachment.file_name} className="h-full w-full object-cover" loading="lazy" />
+      ) : (
+        <div className="flex h-full w-full flex-col items-center justify-center gap-1 p-1">
+          {kind === 'video' ? (
+            <Film className="h-5 w-5 text-muted-foreground" />
+          ) : (
+            <FileText className="h-5 w-5 text-muted-foreground" />
+          )}
+          <span className="w-full truncate text-[10px] text-muted-foreground">{attachment.file_name}</span>
+        </div>
+      )}
+    </button>
+  );
+}
@@ -1,15 +1,26 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Incident, IncidentSeverity } from '@/types/incident';
+import { Incident, IncidentSeverity, IncidentStatus } from '@/types/incident';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useZones } from '@/hooks/useZones';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { NearbyHelpersSection } from './NearbyHelpersSection';
 import { IncidentTimeline } from './IncidentTimeline';
+import { IncidentNotesThread } from './IncidentNotesThread';
+import { IncidentAttachmentsSection } from './IncidentAttachmentsSection';
+import { IncidentAssignmentSection } from './IncidentAssignmentSection';
+import { IncidentMergeSection } from './IncidentMergeSection';
+import { SimilarIncidentsSection } from './SimilarIncidentsSection';
+import { IndoorLocationSection } from './IndoorLocationSection';
+import { AnalysisHistory } from './AnalysisHistory';
+import { SeverityOverrideSection } from './SeverityOverrideSection';
 import { 
   X, 
   MapPin, 
@@ -23,14 +34,31 @@ import {
   Users,
   RefreshCw,
   Eye,
-  History
+  History,
+  Hand,
+  Siren,
+  Flag,
+  Archive,
+  RotateCcw,
+  Layers,
+  Building2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { zoneTypeLabels } from '@/lib/zones';
+import { functionErrorMessage } from '@/lib/functionErrors';
+import {
+  getNextStatuses,
+  isOpenStatus,
+  resolvingStatuses,
+  statusLabels,
+  transitionActionLabels,
+} from '@/lib/incidentLifecycle';
 
 interface IncidentDetailPanelProps {
   incident: Incident;
   onClose: () => void;
   onUpdate: () => void;
+  onSelectIncident?: (id: string) => void;
 }
 
 const severityColors: Record<IncidentSeverity, string> = {
@@ -40,17 +68,43 @@ const severityColors: Record<IncidentSeverity, string> = {
   low: 'bg-severity-low text-white',
 };
 
-export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDetailPanelProps) {
+const transitionIcons: Record<IncidentStatus, React.ElementType> = {
+  active: RotateCcw,
+  acknowledged: Hand,
+  dispatched: Siren,
+  on_scene: Flag,
+  escalated: ArrowUp,
+  resolved: CheckCircle,
+  closed: Archive,
+};
+
+export function IncidentDetailPanel({ incident, onClose, onUpdate, onSelectIncident }: IncidentDetailPanelProps) {
   const [isUpdating, setIsUpdating] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showTimeline, setShowTimeline] = useState(false);
-  const { user, role } = useAuth();
+  const [showAnalysisHistory, setShowAnalysisHistory] = useState(false);
+  const { user } = useAuth();
+  const { zonesById } = useZones();
+  const zone = incident.zone_id ? zonesById.get(incident.zone_id) : undefined;
+  const { can } = usePermissions();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  // Check if user can modify this incident (reporter or admin only)
-  const canModify = user && (user.id === incident.reported_by || role === 'admin');
+  // Check if user can modify this incident (reporter, assignee or incident manager only)
+  const canModify = user && (
+    user.id === incident.reported_by ||
+    user.id === incident.assigned_to ||
+    user.id === incident.secondary_assignee ||
+    can('can_manage_incidents')
+  );
+  // Mirrors the audit_logs SELECT policies: the whole log, or the incidents one works
+  const canViewTimeline = canModify || can('can_view_audit_log');
+  // Resolving and closing additionally need can_resolve; merged incidents follow their parent
+  const nextStatuses = incident.parent_incident_id ? [] : getNextStatuses(incident.status).filter(
+    status => !resolvingStatuses.includes(status) || can('can_resolve')
+  );
 
-  const handleReanalyze = async () => {
+  const handleReanalyze = async (includeImages = false) => {
     setIsAnalyzing(true);
     try {
       const response = await supabase.functions.invoke('analyze-incident', {
@@ -59,17 +113,20 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
           type: incident.type,
           description: incident.description,
           locationName: incident.location_name || undefined,
+          includeImages,
         },
       });
 
       if (response.error) {
-        throw new Error(response.error.message || 'Analysis failed');
+        throw new Error(await functionErrorMessage(response.error));
       }
 
       toast({
         title: 'Analysis complete',
-        description: 'AI analysis has been updated for this incident.',
+        description: 'A new analysis version has been recorded for this incident.',
       });
+      queryClient.invalidateQueries({ queryKey: ['incident-analyses', incident.id] });
+      queryClient.invalidateQueries({ queryKey: ['incident-audit-logs', incident.id] });
       onUpdate();
     } catch (error: any) {
       toast({
@@ -82,98 +139,42 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
     }
   };
 
-  const handleResolve = async () => {
+  const handleTransition = async (nextStatus: IncidentStatus) => {
     if (!canModify) {
       toast({
         variant: 'destructive',
         title: 'Access Denied',
-        description: 'Only the reporter or admin can resolve this incident.',
+        description: 'Only the reporter, an assignee or an incident manager can update this incident.',
       });
       return;
     }
 
     setIsUpdating(true);
-    const { error } = await supabase
-      .from('incidents')
-      .update({
-        status: 'resolved',
-        resolved_by: user?.id,
-        resolved_at: new Date().toISOString(),
-      })
-      .eq('id', incident.id);
+    // Transition rules and stage timestamps are enforced server-side; the
+    // status change itself is written to audit_logs by a database trigger.
+    const { error } = await supabase.rpc('transition_incident_status', {
+      _incident_id: incident.id,
+      _new_status: nextStatus,
+    });
 
     setIsUpdating(false);
 
     if (error) {
       toast({
         variant: 'destructive',
-        title: 'Failed to resolve incident',
+        title: 'Failed to update incident',
         description: error.message,
       });
-    } else {
-      // Log the resolution
-      await supabase.from('audit_logs').insert({
-        action: 'incident_resolved',
-        actor_id: user?.id,
-        actor_email: user?.email,
-        incident_id: incident.id,
-        metadata: {
-          previous_status: incident.status,
-          new_status: 'resolved',
-        },
-      });
-
-      toast({
-        title: 'Incident resolved',
-        description: 'The incident has been marked as resolved.',
-      });
-      onUpdate();
-      onClose();
-    }
-  };
-
-  const handleEscalate = async () => {
-    if (!canModify) {
-      toast({
-        variant: 'destructive',
-        title: 'Access Denied',
-        description: 'Only the reporter or admin can escalate this incident.',
-      });
       return;
     }
 
-    setIsUpdating(true);
-    const { error } = await supabase
-      .from('incidents')
-      .update({ status: 'escalated' })
-      .eq('id', incident.id);
-
-    setIsUpdating(false);
-
-    if (error) {
-      toast({
-        variant: 'destructive',
-        title: 'Failed to escalate incident',
-        description: error.message,
-      });
-    } else {
-      // Log the escalation
-      await supabase.from('audit_logs').insert({
-        action: 'incident_escalated',
-        actor_id: user?.id,
-        actor_email: user?.email,
-        incident_id: incident.id,
-        metadata: {
-          previous_status: incident.status,
-          new_status: 'escalated',
-        },
-      });
-
-      toast({
-        title: 'Incident escalated',
-        description: 'The incident has been escalated for further attention.',
-      });
-      onUpdate();
+    toast({
+      title: 'Incident updated',
+      description: `Status changed from ${statusLabels[incident.status]} to ${statusLabels[nextStatus]}.`,
+    });
+    onUpdate();
+    if (!isOpenStatus(nextStatus)) {
+      onClose();
     }
   };
 
@@ -208,10 +209,11 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
           {incident.severity && (
             <Badge className={cn('uppercase', severityColors[incident.severity])}>
               {incident.severity}
+              {incident.severity_override && ' (override)'}
             </Badge>
           )}
-          <Badge variant="outline" className="capitalize">
-            {incident.status}
+          <Badge variant="outline">
+            {statusLabels[incident.status]}
           </Badge>
         </div>
 
@@ -228,16 +230,58 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
           </div>
         </div>
 
+        {zone && (
+          <div className="flex items-center gap-2 text-sm">
+            <Building2 className="h-3 w-3 text-muted-foreground" />
+            <span className="font-medium">{zone.name}</span>
+            <Badge variant="outline" className="text-xs">{zoneTypeLabels[zone.zone_type]}</Badge>
+            {zone.responsible_team && (
+              <span className="text-xs text-muted-foreground truncate">{zone.responsible_team}</span>
+            )}
+          </div>
+        )}
+
+        <IndoorLocationSection incident={incident} />
+
+        {/* Ownership */}
+        <IncidentAssignmentSection incident={incident} onUpdate={onUpdate} />
+
+        {/* Severity: AI assessment and operator override */}
+        <SeverityOverrideSection incident={incident} canModify={!!canModify} onUpdate={onUpdate} />
+
+        {/* Merged group and possible duplicates */}
+        <IncidentMergeSection incident={incident} onSelectIncident={onSelectIncident} />
+
+        {/* Past incidents like this one, by embeddings or text similarity */}
+        <SimilarIncidentsSection incidentId={incident.id} onSelectIncident={onSelectIncident} />
+
         {/* AI Analysis */}
         {incident.ai_analysis && (
           <>
             <Separator className="bg-border/50" />
             
             <div className="space-y-3">
-              <h4 className="text-sm font-medium flex items-center gap-2 text-primary">
-                <Lightbulb className="h-4 w-4" />
-                AI Response Recommendations
-              </h4>
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-medium flex items-center gap-2 text-primary">
+                  <Lightbulb className="h-4 w-4" />
+                  AI Response Recommendations
+                </h4>
+                {canModify && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleReanalyze()}
+                    disabled={isAnalyzing}
+                  >
+                    {isAnalyzing ? (
+                      <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                    ) : (
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                    )}
+                    Re-analyze
+                  </Button>
+                )}
+              </div>
               
               {/* Immediate Actions */}
               {Array.isArray(incident.ai_analysis.immediateActions) && 
@@ -285,6 +329,24 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
                   </p>
                 </div>
               )}
+
+              {/* Previous analysis runs are kept, not overwritten */}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs"
+                onClick={() => setShowAnalysisHistory(!showAnalysisHistory)}
+              >
+                <Layers className="h-3 w-3 mr-2" />
+                {showAnalysisHistory ? 'Hide' : 'Show'} Analysis History
+              </Button>
+
+              {showAnalysisHistory && (
+                <AnalysisHistory
+                  incidentId={incident.id}
+                  currentAnalysisId={incident.current_analysis_id}
+                />
+              )}
             </div>
           </>
         )}
@@ -297,24 +359,26 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
                 <AlertTriangle className="h-4 w-4" />
                 <span className="text-sm">AI analysis not available</span>
               </div>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleReanalyze}
-                disabled={isAnalyzing}
-              >
-                {isAnalyzing ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                    Analyzing...
-                  </>
-                ) : (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2" />
-                    Analyze Now
-                  </>
-                )}
-              </Button>
+              {canModify && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReanalyze()}
+                  disabled={isAnalyzing}
+                >
+                  {isAnalyzing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Analyzing...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Analyze Now
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           </>
         )}
@@ -322,60 +386,79 @@ export function IncidentDetailPanel({ incident, onClose, onUpdate }: IncidentDet
         {/* Nearby Helpers - Only shown for critical/high severity incidents to admins */}
         <NearbyHelpersSection incident={incident} />
 
-        {/* Incident Timeline Toggle */}
+        {/* Photos, videos and documents */}
         <Separator className="bg-border/50" />
-        <div className="space-y-3">
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full"
-            onClick={() => setShowTimeline(!showTimeline)}
-          >
-            <History className="h-4 w-4 mr-2" />
-            {showTimeline ? 'Hide' : 'Show'} Activity Timeline
-          </Button>
-          
-          {showTimeline && <IncidentTimeline incidentId={incident.id} />}
-        </div>
+        <IncidentAttachmentsSection
+          incidentId={incident.id}
+          canAnalyze={!!canModify}
+          isAnalyzing={isAnalyzing}
+          onAnalyzeWithImages={() => handleReanalyze(true)}
+        />
+
+        {/* Operator notes, live for everyone viewing the incident */}
+        <Separator className="bg-border/50" />
+        <IncidentNotesThread incidentId={incident.id} />
 
-        {/* Actions - Only for authorized users */}
-        {incident.status === 'active' && canModify && (
+        {/* Incident Timeline Toggle */}
+        {canViewTimeline && (
           <>
             <Separator className="bg-border/50" />
-            <div className="flex gap-2">
-              <Button 
-                className="flex-1" 
-                onClick={handleResolve}
-                disabled={isUpdating}
-              >
-                {isUpdating ? (
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                ) : (
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                )}
-                Mark Resolved
-              </Button>
-              <Button 
-                variant="outline" 
-                className="border-severity-high text-severity-high hover:bg-severity-high hover:text-white"
-                onClick={handleEscalate}
-                disabled={isUpdating}
+            <div className="space-y-3">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setShowTimeline(!showTimeline)}
               >
-                <ArrowUp className="h-4 w-4 mr-2" />
-                Escalate
+                <History className="h-4 w-4 mr-2" />
+                {showTimeline ? 'Hide' : 'Show'} Activity Timeline
               </Button>
+              
+              {showTimeline && <IncidentTimeline incidentId={incident.id} />}
+            </div>
+          </>
+        )}
+
+        {/* Lifecycle actions - Only for authorized users */}
+        {nextStatuses.length > 0 && canModify && (
+          <>
+            <Separator className="bg-border/50" />
+            <div className="flex gap-2 flex-wrap">
+              {nextStatuses.map((nextStatus, index) => {
+                const Icon = transitionIcons[nextStatus];
+                return (
+                  <Button
+                    key={nextStatus}
+                    variant={index === 0 ? 'default' : 'outline'}
+                    className={cn(
+                      index === 0 && 'flex-1',
+                      nextStatus === 'escalated' &&
+                        'border-severity-high text-severity-high hover:bg-severity-high hover:text-white'
+                    )}
+                    onClick={() => handleTransition(nextStatus)}
+                    disabled={isUpdating}
+                  >
+                    {isUpdating && index === 0 ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <Icon className="h-4 w-4 mr-2" />
+                    )}
+                    {transitionActionLabels[nextStatus]}
+                  </Button>
+                );
+              })}
             </div>
           </>
         )}
 
         {/* View-only notice for non-authorized users */}
-        {incident.status === 'active' && !canModify && (
+        {isOpenStatus(incident.status) && !canModify && (
           <>
             <Separator className="bg-border/50" />
             <div className="p-3 bg-muted/50 rounded-lg">
               <p className="text-xs text-muted-foreground text-center">
                 <Eye className="h-3 w-3 inline mr-1" />
-                Only the reporter or an admin can modify this incident
+                Only the reporter, an assignee or an incident manager can modify this incident
               </p>
             </div>
           </>
@@ -1,10 +1,17 @@
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOperators, getOperatorName } from '@/hooks/useOperators';
 import { Incident, IncidentSeverity, IncidentType } from '@/types/incident';
 import { formatDistanceToNow } from 'date-fns';
-import { AlertTriangle, Flame, Shield, Wrench, Loader2 } from 'lucide-react';
+import { AlertTriangle, Flame, Shield, Wrench, Loader2, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isOpenStatus, statusLabels } from '@/lib/incidentLifecycle';
+import { groupIncidents } from '@/lib/incidentGroups';
+import { SlaCountdownBadge } from './SlaCountdownBadge';
 
 interface IncidentFeedProps {
   incidents: Incident[];
@@ -34,6 +41,9 @@ const severityColors: Record<IncidentSeverity, string> = {
   low: 'bg-severity-low text-white',
 };
 
+// How often the SLA countdowns refresh
+const SLA_TICK_MS = 15 * 1000;
+
 const severityBorderColors: Record<IncidentSeverity, string> = {
   critical: 'border-l-severity-critical',
   high: 'border-l-severity-high',
@@ -42,8 +52,22 @@ const severityBorderColors: Record<IncidentSeverity, string> = {
 };
 
 export function IncidentFeed({ incidents, isLoading, selectedId, onSelect }: IncidentFeedProps) {
-  const safeIncidents = incidents || [];
-  const activeIncidents = safeIncidents.filter(i => i?.status === 'active');
+  const [scope, setScope] = useState<'all' | 'mine'>('all');
+  const { user } = useAuth();
+  const { data: operators } = useOperators();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Merged reports are listed through their parent
+  const { topLevel, mergedCounts } = groupIncidents((incidents || []).filter(Boolean));
+  const activeIncidents = topLevel.filter(i =>
+    isOpenStatus(i.status) &&
+    (scope === 'all' || (!!user && (i.assigned_to === user.id || i.secondary_assignee === user.id)))
+  );
   
   // Sort by severity priority
   const severityOrder: Record<IncidentSeverity, number> = {
@@ -64,7 +88,17 @@ export function IncidentFeed({ incidents, isLoading, selectedId, onSelect }: Inc
       <CardHeader className="pb-3">
         <CardTitle className="text-lg flex items-center gap-2">
           <span>Live Incidents</span>
-          <Badge variant="secondary" className="ml-auto">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={scope}
+            onValueChange={(value) => value && setScope(value as 'all' | 'mine')}
+            className="ml-auto"
+          >
+            <ToggleGroupItem value="all" className="h-7 px-2 text-xs">All</ToggleGroupItem>
+            <ToggleGroupItem value="mine" className="h-7 px-2 text-xs">My incidents</ToggleGroupItem>
+          </ToggleGroup>
+          <Badge variant="secondary">
             {activeIncidents.length}
           </Badge>
         </CardTitle>
@@ -78,7 +112,7 @@ export function IncidentFeed({ incidents, isLoading, selectedId, onSelect }: Inc
           ) : sortedIncidents.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-32 text-muted-foreground">
               <Shield className="h-8 w-8 mb-2 opacity-50" />
-              <p className="text-sm">No active incidents</p>
+              <p className="text-sm">{scope === 'mine' ? 'No incidents assigned to you' : 'No active incidents'}</p>
             </div>
           ) : (
             <div className="space-y-2 px-4 pb-4">
@@ -86,6 +120,7 @@ export function IncidentFeed({ incidents, isLoading, selectedId, onSelect }: Inc
                 const Icon = incident.type && typeIcons[incident.type] ? typeIcons[incident.type] : AlertTriangle;
                 const severityColor = incident.severity ? severityColors[incident.severity] : 'bg-muted';
                 const borderColor = incident.severity ? severityBorderColors[incident.severity] : 'border-l-muted';
+                const mergedCount = mergedCounts.get(incident.id) ?? 0;
                 
                 return (
                   <div
@@ -113,17 +148,38 @@ export function IncidentFeed({ incidents, isLoading, selectedId, onSelect }: Inc
                               {incident.severity}
                             </Badge>
                           )}
+                          {mergedCount > 0 && (
+                            <Badge variant="secondary" className="text-xs whitespace-nowrap">
+                              +{mergedCount} {mergedCount === 1 ? 'report' : 'reports'}
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="text-xs ml-auto whitespace-nowrap">
+                            {statusLabels[incident.status]}
+                          </Badge>
                         </div>
                         <p className="text-xs text-muted-foreground line-clamp-2">
                           {incident.description}
                         </p>
-                        <div className="flex items-center justify-between mt-2">
-                          <span className="text-xs text-muted-foreground">
+                        {incident.assigned_to && (
+                          <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                            <User className="h-3 w-3" />
+                            <span className="truncate">
+                              {incident.assigned_to === user?.id
+                                ? 'You'
+                                : getOperatorName(operators, incident.assigned_to)}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between gap-2 mt-2">
+                          <span className="text-xs text-muted-foreground truncate">
                             {incident.location_name || 'Unknown location'}
                           </span>
-                          <span className="text-xs text-muted-foreground">
-                            {formatDistanceToNow(new Date(incident.created_at), { addSuffix: true })}
-                          </span>
+                          <div className="flex items-center gap-2">
+                            <SlaCountdownBadge incident={incident} now={now} />
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {formatDistanceToNow(new Date(incident.created_at), { addSuffix: true })}
+                            </span>
+                          </div>
                         </div>
                       </div>
                     </div>
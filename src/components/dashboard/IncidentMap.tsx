@@ -1,12 +1,30 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { startOfDay, subDays } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Incident, IncidentSeverity } from '@/types/incident';
-import { Loader2, MapPin, AlertTriangle, ExternalLink } from 'lucide-react';
+import { Incident, IncidentSeverity, IncidentType } from '@/types/incident';
+import { MapMarker, MapShape, MapViewport } from '@/types/map';
+import { Loader2, MapPin, AlertTriangle, ExternalLink, Flame } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { isOpenStatus } from '@/lib/incidentLifecycle';
+import { groupIncidents } from '@/lib/incidentGroups';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useZones } from '@/hooks/useZones';
+import { useMapAdapter } from '@/hooks/useMapAdapter';
+import { useMapIncidents } from '@/hooks/useMapIncidents';
+import { zonePolygons, zoneTypeColors } from '@/lib/zones';
+import { CLUSTER_MAX_ZOOM, clusterByZoom } from '@/lib/markerClusters';
+import { severityRank } from '@/lib/severity';
+import { HOTSPOT_WINDOWS, HeatmapFilter, densityGrid, filterIncidentsForHeatmap } from '@/lib/hotspots';
 
 interface IncidentMapProps {
-  incidents: Incident[];
-  selectedId: string | null;
+  selectedIncident: Incident | null;
   onMarkerClick: (id: string) => void;
 }
 
@@ -17,6 +35,11 @@ const severityColors: Record<IncidentSeverity, string> = {
   low: '#22C55E',
 };
 
+const incidentTypes: IncidentType[] = ['medical', 'fire', 'security', 'infrastructure'];
+
+// Side of a density cell; small enough to tell neighbouring buildings apart
+const HEATMAP_CELL_METERS = 75;
+
 const severityBgColors: Record<IncidentSeverity, string> = {
   critical: 'bg-red-500',
   high: 'bg-orange-500',
@@ -24,186 +47,153 @@ const severityBgColors: Record<IncidentSeverity, string> = {
   low: 'bg-green-500',
 };
 
-export function IncidentMap({ incidents, selectedId, onMarkerClick }: IncidentMapProps) {
+export function IncidentMap({ selectedIncident, onMarkerClick }: IncidentMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<google.maps.Map | null>(null);
-  const markersRef = useRef<google.maps.marker.AdvancedMarkerElement[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { adapter, isLoading: mapLoading, error: mapError } = useMapAdapter(mapRef);
+  const { settings } = useAppSettings();
+  const { zones } = useZones();
+  const defaultCenter = settings.map_default_center;
+  const selectedId = selectedIncident?.id ?? null;
 
-  const initializeMap = useCallback(() => {
-    if (!mapRef.current || !window.google?.maps?.Map) {
-      setError('Google Maps not available');
-      setIsLoading(false);
-      return;
-    }
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapFilter, setHeatmapFilter] = useState<HeatmapFilter>({ windowDays: 30, type: 'all' });
+  // Whole days, so the tile cache survives re-renders during the day
+  const heatmapSince = useMemo(
+    () => (showHeatmap ? startOfDay(subDays(new Date(), heatmapFilter.windowDays)).toISOString() : null),
+    [showHeatmap, heatmapFilter.windowDays]
+  );
+  const { activeIncidents: openIncidents, viewportIncidents, isLoading: incidentsLoading, error: incidentsError } =
+    useMapIncidents(viewport, heatmapSince);
 
-    try {
-      // Default to a campus-like location (MIT as example)
-      const defaultCenter = { lat: 42.3601, lng: -71.0942 };
+  const isLoading = mapLoading || incidentsLoading;
+  const error = mapError;
 
-      const mapInstance = new window.google.maps.Map(mapRef.current, {
-        center: defaultCenter,
-        zoom: 15,
-        mapId: 'aegis-ics-map',
-        disableDefaultUI: false,
-        zoomControl: true,
-        mapTypeControl: false,
-        streetViewControl: false,
-        fullscreenControl: true,
-        styles: [
-          { elementType: 'geometry', stylers: [{ color: '#1a1f2e' }] },
-          { elementType: 'labels.text.stroke', stylers: [{ color: '#1a1f2e' }] },
-          { elementType: 'labels.text.fill', stylers: [{ color: '#8a9ab0' }] },
-          { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#2a3548' }] },
-          { featureType: 'road', elementType: 'labels.text.fill', stylers: [{ color: '#8a9ab0' }] },
-          { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#0e1626' }] },
-          { featureType: 'poi', elementType: 'geometry', stylers: [{ color: '#1a2538' }] },
-          { featureType: 'poi', elementType: 'labels.text.fill', stylers: [{ color: '#6a7b8c' }] },
-          { featureType: 'poi.park', elementType: 'geometry', stylers: [{ color: '#1a2e1a' }] },
-        ],
-      });
+  // A merged group is drawn as its parent's marker with the number of merged reports
+  const { activeIncidents, mergedCounts } = useMemo(() => {
+    const { topLevel, mergedCounts } = groupIncidents(openIncidents);
+    return { activeIncidents: topLevel.filter(i => isOpenStatus(i.status)), mergedCounts };
+  }, [openIncidents]);
 
-      mapInstanceRef.current = mapInstance;
-      setIsLoading(false);
-    } catch (e) {
-      console.error('Error initializing map:', e);
-      setError('Failed to initialize map');
-      setIsLoading(false);
-    }
-  }, []);
-
-  // Load Google Maps script
   useEffect(() => {
-    const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
-    
-    if (!apiKey) {
-      setError('Google Maps API key not configured');
-      setIsLoading(false);
-      return;
-    }
+    if (!adapter) return;
+    return adapter.onViewChange(setViewport);
+  }, [adapter]);
 
-    if (window.google?.maps) {
-      initializeMap();
-      return;
-    }
+  // Incident density in view over the selected window, resolved and closed incidents included
+  const densityCells = useMemo(() => {
+    if (!showHeatmap) return [];
+    return densityGrid(filterIncidentsForHeatmap(viewportIncidents, heatmapFilter), HEATMAP_CELL_METERS);
+  }, [showHeatmap, viewportIncidents, heatmapFilter]);
 
-    const script = document.createElement('script');
-    script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&libraries=marker&v=weekly&loading=async`;
-    script.async = true;
-    script.defer = true;
-    script.onload = () => {
-      // Wait for google.maps to be fully available
-      const checkAndInit = () => {
-        if (window.google?.maps?.Map) {
-          initializeMap();
-        } else {
-          setTimeout(checkAndInit, 100);
-        }
-      };
-      checkAndInit();
-    };
-    script.onerror = () => {
-      setError('Failed to load Google Maps');
-      setIsLoading(false);
-    };
-    document.head.appendChild(script);
-
-    return () => {
-      // Cleanup markers
-      markersRef.current.forEach(marker => {
-        if (marker) marker.map = null;
-      });
-    };
-  }, [initializeMap]);
-
-  // Update markers when incidents change
+  // Outline the organization's zones under the density layer and the markers
   useEffect(() => {
-    const map = mapInstanceRef.current;
-    if (!map || !window.google?.maps?.marker?.AdvancedMarkerElement) return;
+    if (!adapter) return;
+
+    const zoneShapes: MapShape[] = (zones.data || []).map(zone => ({
+      id: zone.id,
+      polygons: zonePolygons(zone.geometry).map(rings =>
+        rings.map(ring => ring.map(([lng, lat]) => ({ lat, lng })))
+      ),
+      color: zoneTypeColors[zone.zone_type],
+      fillOpacity: 0.08,
+      strokeWeight: 1,
+    }));
 
-    // Clear existing markers
-    markersRef.current.forEach(marker => {
-      try {
-        if (marker) marker.map = null;
-      } catch (e) {
-        console.warn('Error clearing marker:', e);
-      }
+    const maxCount = Math.max(1, ...densityCells.map(cell => cell.count));
+    const densityShapes: MapShape[] = densityCells.map(cell => {
+      const intensity = cell.count / maxCount;
+      return {
+        id: `density-${cell.row}:${cell.col}`,
+        polygons: [[[
+          { lat: cell.south, lng: cell.west },
+          { lat: cell.south, lng: cell.east },
+          { lat: cell.north, lng: cell.east },
+          { lat: cell.north, lng: cell.west },
+        ]]],
+        // Yellow for the quietest cells through to red for the busiest
+        color: `hsl(${Math.round(50 - 50 * intensity)}, 95%, 55%)`,
+        fillOpacity: 0.2 + 0.5 * intensity,
+        strokeWeight: 0,
+        zIndex: 1,
+      };
     });
 
-    const activeIncidents = (incidents || []).filter(i => i?.status === 'active');
-    const newMarkers: google.maps.marker.AdvancedMarkerElement[] = [];
+    adapter.setShapes([...zoneShapes, ...densityShapes]);
+  }, [adapter, zones.data, densityCells]);
 
-    activeIncidents.forEach((incident) => {
-      try {
-        const color = incident.severity ? severityColors[incident.severity] : '#6B7280';
-        
-        // Create custom marker element
-        const markerContent = document.createElement('div');
-        markerContent.innerHTML = `
-          <div style="
-            width: 24px;
-            height: 24px;
-            background-color: ${color};
-            border: 2px solid white;
-            border-radius: 50%;
-            box-shadow: 0 2px 6px rgba(0,0,0,0.3);
-            cursor: pointer;
-          "></div>
-        `;
+  // Frame the open incidents when the set of them changes, without zooming too
+  // close; with none, show the configured center
+  const activeKey = activeIncidents.map(i => `${i.id}@${i.latitude},${i.longitude}`).join('|');
+  const activeRef = useRef(activeIncidents);
+  activeRef.current = activeIncidents;
+  useEffect(() => {
+    if (!adapter || incidentsLoading) return;
+    const points = activeRef.current.map(incident => ({ lat: incident.latitude, lng: incident.longitude }));
+    if (points.length > 0) {
+      adapter.fitBounds(points, { padding: 50, maxZoom: 16 });
+    } else {
+      adapter.setView({ lat: defaultCenter.lat, lng: defaultCenter.lng }, defaultCenter.zoom);
+    }
+  }, [adapter, incidentsLoading, activeKey, defaultCenter.lat, defaultCenter.lng, defaultCenter.zoom]);
 
-        const marker = new window.google.maps.marker.AdvancedMarkerElement({
-          map,
-          position: { lat: incident.latitude, lng: incident.longitude },
-          content: markerContent,
-          title: incident.description || 'Incident',
-        });
+  // Nearby markers are clustered for the zoom level; the selected incident always stands alone
+  useEffect(() => {
+    if (!adapter || !viewport) return;
 
-        marker.addListener('click', () => {
-          onMarkerClick(incident.id);
-        });
+    const markerFor = (incident: Incident): MapMarker => {
+      const mergedCount = mergedCounts.get(incident.id) ?? 0;
+      const title = incident.description || 'Incident';
+      return {
+        id: incident.id,
+        position: { lat: incident.latitude, lng: incident.longitude },
+        color: incident.severity ? severityColors[incident.severity] : '#6B7280',
+        badge: mergedCount > 0 ? `+${mergedCount}` : undefined,
+        title: mergedCount > 0 ? `${title} (+${mergedCount} merged reports)` : title,
+        onClick: () => onMarkerClick(incident.id),
+      };
+    };
 
-        newMarkers.push(marker);
-      } catch (e) {
-        console.error('Error creating marker for incident:', incident.id, e);
-      }
-    });
+    const clusters = clusterByZoom(
+      activeIncidents.filter(incident => incident.id !== selectedId),
+      incident => ({ lat: incident.latitude, lng: incident.longitude }),
+      viewport.zoom
+    );
+    const selected = activeIncidents.find(incident => incident.id === selectedId);
 
-    markersRef.current = newMarkers;
+    adapter.setMarkers([
+      ...clusters.map((cluster): MapMarker => {
+        if (cluster.items.length === 1) return markerFor(cluster.items[0]);
 
-    // Fit bounds if there are incidents
-    if (activeIncidents.length > 0) {
-      try {
-        const bounds = new window.google.maps.LatLngBounds();
-        activeIncidents.forEach(incident => {
-          bounds.extend({ lat: incident.latitude, lng: incident.longitude });
-        });
-        map.fitBounds(bounds, 50);
-        
-        // Don't zoom too close
-        const listener = window.google.maps.event.addListener(map, 'idle', () => {
-          const zoom = map.getZoom();
-          if (zoom && zoom > 16) map.setZoom(16);
-          window.google.maps.event.removeListener(listener);
-        });
-      } catch (e) {
-        console.error('Error fitting map bounds:', e);
-      }
-    }
-  }, [incidents, onMarkerClick]);
+        const worst = cluster.items.reduce<IncidentSeverity | null>((max, incident) =>
+          incident.severity && (!max || severityRank[incident.severity] > severityRank[max]) ? incident.severity : max,
+        null);
+        return {
+          id: cluster.id,
+          position: cluster.position,
+          color: worst ? severityColors[worst] : '#6B7280',
+          size: cluster.items.length >= 100 ? 40 : 32,
+          anchor: 'center',
+          label: String(cluster.items.length),
+          title: `${cluster.items.length} active incidents`,
+          onClick: () => adapter.fitBounds(
+            cluster.items.map(incident => ({ lat: incident.latitude, lng: incident.longitude })),
+            { padding: 60, maxZoom: CLUSTER_MAX_ZOOM + 1 }
+          ),
+        };
+      }),
+      ...(selected ? [markerFor(selected)] : []),
+    ]);
+  }, [adapter, viewport, activeIncidents, mergedCounts, selectedId, onMarkerClick]);
 
-  // Highlight selected marker
+  // Pan to the selected incident when another one is selected, not whenever it is updated
+  const selectedRef = useRef(selectedIncident);
+  selectedRef.current = selectedIncident;
   useEffect(() => {
-    const map = mapInstanceRef.current;
-    if (!map || !selectedId) return;
-
-    const selectedIncident = incidents.find(i => i.id === selectedId);
-    if (selectedIncident) {
-      map.panTo({ lat: selectedIncident.latitude, lng: selectedIncident.longitude });
-    }
-  }, [selectedId, incidents]);
-
-  const activeIncidents = (incidents || []).filter(i => i?.status === 'active');
+    const selected = selectedRef.current;
+    if (!adapter || !selected) return;
+    adapter.panTo({ lat: selected.latitude, lng: selected.longitude });
+  }, [adapter, selectedId]);
 
   // Fallback: Static incident list when map fails
   const renderFallbackList = () => (
@@ -226,6 +216,11 @@ export function IncidentMap({ incidents, selectedId, onMarkerClick }: IncidentMa
             <div className="flex items-center gap-2">
               <div className={`w-3 h-3 rounded-full ${incident.severity ? severityBgColors[incident.severity] : 'bg-gray-500'}`} />
               <span className="font-medium capitalize">{incident.type}</span>
+              {(mergedCounts.get(incident.id) ?? 0) > 0 && (
+                <span className="text-xs bg-primary/20 text-primary px-1.5 rounded-full">
+                  +{mergedCounts.get(incident.id)}
+                </span>
+              )}
               <span className="text-xs text-muted-foreground ml-auto">
                 {incident.severity?.toUpperCase()}
               </span>
@@ -249,27 +244,84 @@ export function IncidentMap({ incidents, selectedId, onMarkerClick }: IncidentMa
 
   return (
     <Card className="flex-1 bg-card/50 border-border/50 min-h-[300px]">
-      <CardHeader className="pb-3">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
         <CardTitle className="text-lg flex items-center gap-2">
           <MapPin className="h-4 w-4" />
           Incident Map
+          {adapter?.provider === 'leaflet' && (
+            <span className="text-xs bg-secondary text-muted-foreground px-2 py-0.5 rounded-full">
+              Offline map
+            </span>
+          )}
           {activeIncidents.length > 0 && (
             <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
               {activeIncidents.length} active
             </span>
           )}
         </CardTitle>
+        {!error && (
+          <div className="flex items-center gap-2">
+            {showHeatmap && (
+              <>
+                <Select
+                  value={String(heatmapFilter.windowDays)}
+                  onValueChange={(value) => setHeatmapFilter(prev => ({ ...prev, windowDays: Number(value) }))}
+                >
+                  <SelectTrigger className="h-8 w-[140px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOTSPOT_WINDOWS.map(({ days, label }) => (
+                      <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={heatmapFilter.type}
+                  onValueChange={(value) => setHeatmapFilter(prev => ({ ...prev, type: value as HeatmapFilter['type'] }))}
+                >
+                  <SelectTrigger className="h-8 w-[130px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {incidentTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            <Button
+              variant={showHeatmap ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-8"
+              onClick={() => setShowHeatmap(prev => !prev)}
+              title="Show where incidents cluster over time"
+            >
+              <Flame className="h-4 w-4 mr-1" />
+              Heatmap
+            </Button>
+          </div>
+        )}
       </CardHeader>
       <CardContent className="p-0">
-        {isLoading ? (
-          <div className="h-[300px] flex items-center justify-center">
-            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        {incidentsError && (
+          <div className="flex items-center gap-2 text-amber-500 text-sm px-4 pb-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>Could not load incidents: {(incidentsError as Error).message}</span>
           </div>
-        ) : error ? (
-          renderFallbackList()
-        ) : (
-          <div ref={mapRef} className="h-[300px] rounded-b-lg" />
         )}
+        {error && renderFallbackList()}
+        {/* Stays mounted so a changed map provider can be mounted into it */}
+        <div className={`relative ${error ? 'hidden' : ''}`}>
+          <div ref={mapRef} className="h-[300px] rounded-b-lg isolate" />
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
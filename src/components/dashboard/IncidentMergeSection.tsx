@@ -0,0 +1,207 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Incident } from '@/types/incident';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/hooks/use-toast';
+import { GroupIncident, useDuplicateCandidates, useIncidentGroup, useMergeIncidents } from '@/hooks/useIncidentMerge';
+import { isOpenStatus, statusLabels } from '@/lib/incidentLifecycle';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, GitMerge, Loader2, Unlink } from 'lucide-react';
+
+interface IncidentMergeSectionProps {
+  incident: Incident;
+  onSelectIncident?: (id: string) => void;
+}
+
+export function IncidentMergeSection({ incident, onSelectIncident }: IncidentMergeSectionProps) {
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { data: group, isLoading } = useIncidentGroup(incident);
+  const { merge, unmerge } = useMergeIncidents();
+  const canMerge = can('can_manage_incidents');
+
+  // Only top-level open incidents can absorb duplicates
+  const { data: candidates } = useDuplicateCandidates(
+    !incident.parent_incident_id && isOpenStatus(incident.status)
+      ? {
+          type: incident.type,
+          description: incident.description,
+          latitude: incident.latitude,
+          longitude: incident.longitude,
+          excludeIncidentId: incident.id,
+          reportedAt: incident.created_at,
+        }
+      : null
+  );
+
+  const handleMerge = async (candidateId: string) => {
+    try {
+      await merge.mutateAsync({ parentId: incident.id, incidentIds: [candidateId] });
+      toast({
+        title: 'Incidents merged',
+        description: 'The report now follows this incident\'s status.',
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to merge incidents',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleUnmerge = async (incidentId: string) => {
+    try {
+      await unmerge.mutateAsync(incidentId);
+      toast({ title: 'Incident unmerged', description: 'The report is tracked on its own again.' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to unmerge incident',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  const parent = group?.parent ?? null;
+  const children = group?.children ?? [];
+  const duplicates = candidates ?? [];
+
+  if (!parent && children.length === 0 && duplicates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {parent && (
+        <div className="p-3 rounded-lg bg-muted/50 space-y-2">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <GitMerge className="h-3 w-3" />
+            Merged into another incident; its status follows that incident.
+          </p>
+          <GroupIncidentRow incident={parent} onSelect={onSelectIncident} />
+          {canMerge && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleUnmerge(incident.id)}
+              disabled={unmerge.isPending}
+            >
+              <Unlink className="h-3 w-3 mr-1" />
+              Unmerge
+            </Button>
+          )}
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <GitMerge className="h-4 w-4 text-primary" />
+            Merged Reports
+            <Badge variant="secondary" className="text-xs">{children.length}</Badge>
+          </h4>
+          {children.map(child => (
+            <div key={child.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <GroupIncidentRow incident={child} onSelect={onSelectIncident} />
+              </div>
+              {canMerge && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleUnmerge(child.id)}
+                  disabled={unmerge.isPending}
+                  title="Unmerge"
+                >
+                  <Unlink className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {duplicates.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-2 text-severity-medium">
+            <Copy className="h-4 w-4" />
+            Possible Duplicates
+          </h4>
+          {duplicates.map(candidate => (
+            <div key={candidate.incident_id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <GroupIncidentRow
+                  incident={{
+                    id: candidate.incident_id,
+                    type: candidate.type,
+                    description: candidate.description,
+                    location_name: candidate.location_name,
+                    status: candidate.status,
+                    created_at: candidate.created_at,
+                    merged_at: null,
+                  }}
+                  detail={`${Math.round(candidate.score * 100)}% match · ${Math.round(candidate.distance_m)} m away`}
+                  onSelect={onSelectIncident}
+                />
+              </div>
+              {canMerge && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleMerge(candidate.incident_id)}
+                  disabled={merge.isPending}
+                >
+                  {merge.isPending ? (
+                    <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                  ) : (
+                    <GitMerge className="h-3 w-3 mr-1" />
+                  )}
+                  Merge here
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface GroupIncidentRowProps {
+  incident: GroupIncident;
+  detail?: string;
+  onSelect?: (id: string) => void;
+}
+
+function GroupIncidentRow({ incident, detail, onSelect }: GroupIncidentRowProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect?.(incident.id)}
+      disabled={!onSelect}
+      className="w-full text-left p-2 rounded bg-secondary/30 hover:bg-secondary/50 disabled:hover:bg-secondary/30 transition-colors"
+    >
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium capitalize">{incident.type}</span>
+        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+          {statusLabels[incident.status]}
+        </Badge>
+        <span className="text-muted-foreground ml-auto whitespace-nowrap">
+          {formatDistanceToNow(new Date(incident.created_at), { addSuffix: true })}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground truncate mt-0.5">{incident.description}</p>
+      {(detail || incident.location_name) && (
+        <p className="text-[10px] text-muted-foreground mt-0.5">
+          {[incident.location_name, detail].filter(Boolean).join(' · ')}
+        </p>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IncidentNote,
+  MAX_NOTE_LENGTH,
+  NoteVisibility,
+  noteVisibilityLabels,
+  useIncidentNotes,
+} from '@/hooks/useIncidentNotes';
+import { getOperatorName, Operator, useOperators } from '@/hooks/useOperators';
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, Check, CornerDownRight, Loader2, Lock, MessageSquare, Send, Share2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface IncidentNotesThreadProps {
+  incidentId: string;
+}
+
+export function IncidentNotesThread({ incidentId }: IncidentNotesThreadProps) {
+  const { notes, addNote } = useIncidentNotes(incidentId);
+  const { data: operators } = useOperators();
+  const { can } = usePermissions();
+  const [replyTo, setReplyTo] = useState<IncidentNote | null>(null);
+
+  const canWrite = can('can_report');
+  const allNotes = notes.data ?? [];
+  const threads = allNotes.filter(note => !note.parent_id);
+  const repliesByParent = new Map<string, IncidentNote[]>();
+  allNotes.forEach(note => {
+    if (note.parent_id) {
+      repliesByParent.set(note.parent_id, [...(repliesByParent.get(note.parent_id) ?? []), note]);
+    }
+  });
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-primary" />
+        Notes
+        {allNotes.length > 0 && (
+          <Badge variant="secondary" className="text-xs">{allNotes.length}</Badge>
+        )}
+      </h4>
+
+      {notes.isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No notes yet</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.map(note => (
+            <div key={note.id} className="space-y-2">
+              <NoteItem
+                note={note}
+                operators={operators}
+                onReply={canWrite ? () => setReplyTo(note) : undefined}
+              />
+              {(repliesByParent.get(note.id) ?? []).map(reply => (
+                <div key={reply.id} className="flex gap-2 pl-4">
+                  <CornerDownRight className="h-3 w-3 mt-3 text-muted-foreground shrink-0" />
+                  <NoteItem note={reply} operators={operators} />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canWrite && (
+        <NoteComposer
+          operators={operators ?? []}
+          replyTo={replyTo}
+          onCancelReply={() => setReplyTo(null)}
+          isPosting={addNote.isPending}
+          onSubmit={async (note) => {
+            await addNote.mutateAsync({ ...note, parentId: replyTo?.id ?? null });
+            setReplyTo(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface NoteItemProps {
+  note: IncidentNote;
+  operators: Operator[] | undefined;
+  onReply?: () => void;
+}
+
+function NoteItem({ note, operators, onReply }: NoteItemProps) {
+  const { user } = useAuth();
+  const mentionsMe = !!user && note.mentions.includes(user.id);
+
+  return (
+    <div
+      className={cn(
+        'flex-1 rounded-lg border border-border/50 bg-secondary/20 p-3 space-y-1.5',
+        mentionsMe && 'border-primary/60'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs font-medium truncate">
+            {note.author_name || note.author_email || 'Unknown'}
+          </span>
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 gap-1">
+            {note.visibility === 'internal' ? <Lock className="h-2.5 w-2.5" /> : <Share2 className="h-2.5 w-2.5" />}
+            {noteVisibilityLabels[note.visibility]}
+          </Badge>
+        </div>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+        </span>
+      </div>
+
+      <p className="text-sm whitespace-pre-wrap break-words">{note.body}</p>
+
+      {(note.mentions.length > 0 || onReply) && (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-1">
+            {note.mentions.map(userId => (
+              <Badge
+                key={userId}
+                variant={userId === user?.id ? 'default' : 'secondary'}
+                className="text-[10px] px-1.5 py-0"
+              >
+                @{getOperatorName(operators, userId)}
+              </Badge>
+            ))}
+          </div>
+          {onReply && (
+            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={onReply}>
+              Reply
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface NoteComposerProps {
+  operators: Operator[];
+  replyTo: IncidentNote | null;
+  onCancelReply: () => void;
+  isPosting: boolean;
+  onSubmit: (note: { body: string; visibility: NoteVisibility; mentions: string[] }) => Promise<void>;
+}
+
+function NoteComposer({ operators, replyTo, onCancelReply, isPosting, onSubmit }: NoteComposerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState('');
+  const [visibility, setVisibility] = useState<NoteVisibility>('internal');
+  const [mentions, setMentions] = useState<string[]>([]);
+  const [mentionOpen, setMentionOpen] = useState(false);
+
+  const mentionable = operators.filter(operator => operator.user_id !== user?.id);
+
+  const toggleMention = (userId: string) => {
+    setMentions(mentions.includes(userId) ? mentions.filter(id => id !== userId) : [...mentions, userId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      await onSubmit({ body, visibility, mentions });
+      setBody('');
+      setMentions([]);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to add note',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {replyTo && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="truncate">
+            Replying to {replyTo.author_name || replyTo.author_email || 'note'}
+          </span>
+          <Button type="button" variant="ghost" size="icon" className="h-5 w-5" onClick={onCancelReply}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      <Textarea
+        placeholder={replyTo ? 'Write a reply...' : 'Add a note for the response team...'}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        rows={2}
+        className="text-sm"
+      />
+
+      {mentions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {mentions.map(userId => (
+            <Badge key={userId} variant="secondary" className="text-xs gap-1">
+              @{getOperatorName(operators, userId)}
+              <button type="button" onClick={() => toggleMention(userId)} aria-label="Remove mention">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Popover open={mentionOpen} onOpenChange={setMentionOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" disabled={mentionable.length === 0}>
+              <AtSign className="h-3 w-3 mr-1" />
+              Mention
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Search members..." />
+              <CommandList>
+                <CommandEmpty>No members found</CommandEmpty>
+                <CommandGroup>
+                  {mentionable.map(operator => (
+                    <CommandItem
+                      key={operator.user_id}
+                      value={`${operator.full_name ?? ''} ${operator.user_id}`}
+                      onSelect={() => toggleMention(operator.user_id)}
+                    >
+                      <Check
+                        className={cn(
+                          'h-3 w-3 mr-2',
+                          mentions.includes(operator.user_id) ? 'opacity-100' : 'opacity-0'
+                        )}
+                      />
+                      {operator.full_name || 'Unnamed operator'}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+
+        <Select value={visibility} onValueChange={(v) => setVisibility(v as NoteVisibility)}>
+          <SelectTrigger className="h-9 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(noteVisibilityLabels) as NoteVisibility[]).map(option => (
+              <SelectItem key={option} value={option}>{noteVisibilityLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button type="submit" size="sm" className="ml-auto" disabled={isPosting || !body.trim()}>
+          {isPosting ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <Send className="h-3 w-3 mr-1" />}
+          {replyTo ? 'Reply' : 'Post'}
+        </Button>
+      </div>
+    </form>
+  );
+}
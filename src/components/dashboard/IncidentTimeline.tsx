@@ -1,17 +1,32 @@
-import { Clock, User, AlertCircle } from "lucide-react";
+import { Clock, User, AlertCircle, Lock } from "lucide-react";
 import { format } from "date-fns";
-import { useIncidentAuditLogs, getActionLabel, getActionIcon } from "@/hooks/useIncidentAuditLogs";
+import { AuditLogEntry, useIncidentAuditLogs, getActionLabel, getActionIcon } from "@/hooks/useIncidentAuditLogs";
+import { IncidentNote, useIncidentNotes } from "@/hooks/useIncidentNotes";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { statusLabels } from "@/lib/incidentLifecycle";
+import { IncidentStatus } from "@/types/incident";
 
 interface IncidentTimelineProps {
   incidentId: string;
 }
 
+type TimelineItem =
+  | { kind: "audit"; id: string; created_at: string; log: AuditLogEntry }
+  | { kind: "note"; id: string; created_at: string; note: IncidentNote };
+
 export const IncidentTimeline = ({ incidentId }: IncidentTimelineProps) => {
   const { data: logs, isLoading, error } = useIncidentAuditLogs(incidentId);
+  // The notes thread in the same panel keeps this query live
+  const { notes } = useIncidentNotes(incidentId, false);
+
+  // Audit events and notes, newest first
+  const items: TimelineItem[] = [
+    ...(logs ?? []).map((log): TimelineItem => ({ kind: "audit", id: log.id, created_at: log.created_at, log })),
+    ...(notes.data ?? []).map((note): TimelineItem => ({ kind: "note", id: note.id, created_at: note.created_at, note })),
+  ].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
-  if (isLoading) {
+  if (isLoading || notes.isLoading) {
     return (
       <div className="space-y-3">
         <Skeleton className="h-12 w-full" />
@@ -30,7 +45,7 @@ export const IncidentTimeline = ({ incidentId }: IncidentTimelineProps) => {
     );
   }
 
-  if (!logs || logs.length === 0) {
+  if (items.length === 0) {
     return (
       <div className="text-muted-foreground text-sm text-center py-4">
         No activity recorded yet
@@ -45,48 +60,92 @@ export const IncidentTimeline = ({ incidentId }: IncidentTimelineProps) => {
         <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-border" />
 
         <div className="space-y-4">
-          {logs.map((log, index) => (
-            <div key={log.id} className="relative flex gap-4">
-              {/* Timeline dot */}
-              <div className="relative z-10 flex h-8 w-8 items-center justify-center rounded-full bg-background border-2 border-primary text-sm">
-                {getActionIcon(log.action)}
-              </div>
-
-              {/* Content */}
-              <div className="flex-1 pb-4">
-                <div className="flex items-start justify-between gap-2">
-                  <div>
-                    <p className="font-medium text-sm text-foreground">
-                      {getActionLabel(log.action)}
-                    </p>
-                    {log.actor_email && (
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
-                        <User className="h-3 w-3" />
-                        <span>{log.actor_email}</span>
-                      </div>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
-                    <Clock className="h-3 w-3" />
-                    <span>{format(new Date(log.created_at), "MMM d, h:mm a")}</span>
-                  </div>
-                </div>
-
-                {/* Metadata */}
-                {log.metadata && Object.keys(log.metadata).length > 0 && (
-                  <div className="mt-2 p-2 rounded bg-muted/50 text-xs">
-                    {renderMetadata(log.metadata)}
-                  </div>
-                )}
-              </div>
-            </div>
-          ))}
+          {items.map((item) =>
+            item.kind === "note" ? (
+              <NoteTimelineItem key={item.id} note={item.note} />
+            ) : (
+              <AuditTimelineItem key={item.id} log={item.log} />
+            )
+          )}
         </div>
       </div>
     </ScrollArea>
   );
 };
 
+const AuditTimelineItem = ({ log }: { log: AuditLogEntry }) => (
+  <div className="relative flex gap-4">
+    {/* Timeline dot */}
+    <div className="relative z-10 flex h-8 w-8 items-center justify-center rounded-full bg-background border-2 border-primary text-sm">
+      {getActionIcon(log.action)}
+    </div>
+
+    {/* Content */}
+    <div className="flex-1 pb-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-sm text-foreground">
+            {getActionLabel(log.action)}
+          </p>
+          {log.actor_email && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+              <User className="h-3 w-3" />
+              <span>{log.actor_email}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+          <Clock className="h-3 w-3" />
+          <span>{format(new Date(log.created_at), "MMM d, h:mm a")}</span>
+        </div>
+      </div>
+
+      {/* Metadata */}
+      {log.metadata && Object.keys(log.metadata).length > 0 && (
+        <div className="mt-2 p-2 rounded bg-muted/50 text-xs">
+          {renderMetadata(log.metadata)}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+const NoteTimelineItem = ({ note }: { note: IncidentNote }) => (
+  <div className="relative flex gap-4">
+    {/* Timeline dot */}
+    <div className="relative z-10 flex h-8 w-8 items-center justify-center rounded-full bg-background border-2 border-muted-foreground text-sm">
+      {note.parent_id ? "↪️" : "📝"}
+    </div>
+
+    {/* Content */}
+    <div className="flex-1 pb-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-sm text-foreground flex items-center gap-1">
+            {note.parent_id ? "Reply Added" : "Note Added"}
+            {note.visibility === "internal" && <Lock className="h-3 w-3 text-muted-foreground" />}
+          </p>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+            <User className="h-3 w-3" />
+            <span>{note.author_name || note.author_email || "Unknown"}</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+          <Clock className="h-3 w-3" />
+          <span>{format(new Date(note.created_at), "MMM d, h:mm a")}</span>
+        </div>
+      </div>
+
+      <div className="mt-2 p-2 rounded bg-muted/50 text-xs whitespace-pre-wrap break-words">
+        {note.body}
+      </div>
+    </div>
+  </div>
+);
+
+const formatStatus = (status: unknown): string =>
+  statusLabels[status as IncidentStatus] ?? String(status);
+
 const renderMetadata = (metadata: Record<string, unknown>): JSX.Element => {
   const displayItems: { label: string; value: string }[] = [];
 
@@ -94,22 +153,98 @@ const renderMetadata = (metadata: Record<string, unknown>): JSX.Element => {
   if (metadata.severity) {
     displayItems.push({ label: "Severity", value: String(metadata.severity).toUpperCase() });
   }
+  if (metadata.new_severity) {
+    const previous = metadata.previous_severity ? String(metadata.previous_severity).toUpperCase() : "None";
+    displayItems.push({
+      label: "Severity",
+      value: `${previous} → ${String(metadata.new_severity).toUpperCase()}`,
+    });
+  }
+  if (metadata.ai_severity) {
+    displayItems.push({ label: "AI Severity", value: String(metadata.ai_severity).toUpperCase() });
+  }
+  if (metadata.reason) {
+    displayItems.push({ label: "Reason", value: String(metadata.reason) });
+  }
   if (metadata.incident_type) {
     displayItems.push({ label: "Type", value: String(metadata.incident_type) });
   }
   if (metadata.helper_name) {
     displayItems.push({ label: "Helper", value: String(metadata.helper_name) });
   }
+  if (metadata.response) {
+    const channel = metadata.response_channel === "sms" ? " (SMS reply)" : "";
+    displayItems.push({
+      label: "Response",
+      value: `${String(metadata.response).replace(/_/g, " ")}${channel}`,
+    });
+  }
+  if (metadata.policy_name) {
+    const step = metadata.total_steps ? `step ${metadata.step} of ${metadata.total_steps}` : `step ${metadata.step}`;
+    displayItems.push({ label: "Escalation", value: `${metadata.policy_name} (${step})` });
+  }
+  if (metadata.stop_reason) {
+    displayItems.push({
+      label: "Stopped",
+      value: metadata.stop_reason === "helper_accepted" ? "A helper accepted" : "No helper accepted after the last step",
+    });
+  }
+  if (metadata.admins_paged) {
+    displayItems.push({ label: "Admins Paged", value: String(metadata.admins_paged) });
+  }
+  if (metadata.recipients_count) {
+    displayItems.push({ label: "Recipients", value: String(metadata.recipients_count) });
+  }
   if (metadata.helpers_count) {
     displayItems.push({ label: "Helpers Notified", value: String(metadata.helpers_count) });
   }
+  if (metadata.provider) {
+    const model = metadata.model ? ` · ${metadata.model}` : "";
+    displayItems.push({ label: "Provider", value: `${metadata.provider}${model}` });
+  }
+  if (metadata.sent_count !== undefined) {
+    displayItems.push({
+      label: "Delivered",
+      value: `${metadata.sent_count} sent, ${metadata.failed_count ?? 0} failed`,
+    });
+  }
+  if (metadata.delivery_status) {
+    displayItems.push({ label: "Delivery", value: String(metadata.delivery_status) });
+  }
+  if (metadata.merged_count) {
+    displayItems.push({ label: "Merged Reports", value: String(metadata.merged_count) });
+  }
+  if (metadata.file_name) {
+    displayItems.push({ label: "File", value: String(metadata.file_name) });
+  }
+  if (metadata.image_count) {
+    displayItems.push({ label: "Photos Analyzed", value: String(metadata.image_count) });
+  }
   if (metadata.radius_km) {
     displayItems.push({ label: "Radius", value: `${metadata.radius_km} km` });
   }
-  if (metadata.previous_status && metadata.new_status) {
+  // Older status-change triggers recorded the previous status as old_status
+  const previousStatus = metadata.previous_status ?? metadata.old_status;
+  if (previousStatus && metadata.new_status) {
     displayItems.push({ 
       label: "Status Change", 
-      value: `${metadata.previous_status} → ${metadata.new_status}` 
+      value: `${formatStatus(previousStatus)} → ${formatStatus(metadata.new_status)}` 
+    });
+  }
+
+  if ("assignee_id" in metadata || "previous_assignee_id" in metadata) {
+    const previous = metadata.previous_assignee_id
+      ? String(metadata.previous_assignee_name || "Unnamed operator")
+      : "Unassigned";
+    const next = metadata.assignee_id
+      ? String(metadata.assignee_name || "Unnamed operator")
+      : "Unassigned";
+    displayItems.push({ label: "Assignee", value: `${previous} → ${next}` });
+  }
+  if (metadata.secondary_assignee_id) {
+    displayItems.push({
+      label: "Secondary",
+      value: String(metadata.secondary_assignee_name || "Unnamed operator"),
     });
   }
 
@@ -0,0 +1,147 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useZones } from '@/hooks/useZones';
+import { useFloorPlans } from '@/hooks/useFloorPlans';
+import { formatFloor } from '@/lib/floorPlans';
+import { IndoorLocationInput } from '@/types/incident';
+import { FloorPlanPin } from './FloorPlanPin';
+import { X } from 'lucide-react';
+
+interface IndoorLocationPickerProps {
+  value: IndoorLocationInput;
+  onChange: (value: IndoorLocationInput) => void;
+  // Zone the GPS position falls in; preselected as the building once
+  suggestedBuildingId?: string | null;
+}
+
+const NO_BUILDING = 'none';
+
+export function IndoorLocationPicker({ value, onChange, suggestedBuildingId }: IndoorLocationPickerProps) {
+  const { zones } = useZones();
+  const { floorPlans } = useFloorPlans(value.building_id ?? null);
+  const appliedSuggestionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!suggestedBuildingId || appliedSuggestionRef.current === suggestedBuildingId) return;
+    appliedSuggestionRef.current = suggestedBuildingId;
+    if (!value.building_id) {
+      onChange({ ...value, building_id: suggestedBuildingId });
+    }
+  }, [suggestedBuildingId, value, onChange]);
+
+  const plans = floorPlans.data || [];
+  const plan = value.floor !== undefined ? plans.find(p => p.floor === value.floor) : undefined;
+
+  // Any change of building or floor drops the pin, which belongs to one plan
+  const withoutPin = (next: IndoorLocationInput): IndoorLocationInput => ({
+    ...next,
+    floor_plan_id: undefined,
+    floor_plan_x: undefined,
+    floor_plan_y: undefined,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1 col-span-3 sm:col-span-1">
+          <Label className="text-xs">Building</Label>
+          <Select
+            value={value.building_id ?? NO_BUILDING}
+            onValueChange={(v) => onChange(withoutPin({
+              ...value,
+              building_id: v === NO_BUILDING ? undefined : v,
+            }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_BUILDING}>Not indoors</SelectItem>
+              {(zones.data || []).map((zone) => (
+                <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="indoor-floor" className="text-xs">Floor</Label>
+          <Input
+            id="indoor-floor"
+            type="number"
+            min={-10}
+            max={200}
+            value={value.floor ?? ''}
+            onChange={(e) => onChange(withoutPin({
+              ...value,
+              floor: e.target.value === '' ? undefined : Math.round(Number(e.target.value)),
+            }))}
+            placeholder="0 = ground"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="indoor-room" className="text-xs">Room</Label>
+          <Input
+            id="indoor-room"
+            value={value.room ?? ''}
+            onChange={(e) => onChange({ ...value, room: e.target.value || undefined })}
+            placeholder="3.214"
+            maxLength={50}
+          />
+        </div>
+      </div>
+
+      {plans.length > 0 && (
+        <div className="flex items-center gap-1 flex-wrap">
+          <span className="text-xs text-muted-foreground mr-1">Floor plans:</span>
+          {plans.map((p) => (
+            <Badge
+              key={p.id}
+              variant={p.floor === value.floor ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => onChange(withoutPin({ ...value, floor: p.floor }))}
+            >
+              {formatFloor(p.floor, p.label)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {plan?.url && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">Tap the plan to pin where the incident is.</p>
+            {value.floor_plan_id && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => onChange(withoutPin(value))}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Clear pin
+              </Button>
+            )}
+          </div>
+          <FloorPlanPin
+            url={plan.url}
+            alt={formatFloor(plan.floor, plan.label)}
+            x={value.floor_plan_id === plan.id ? value.floor_plan_x ?? null : null}
+            y={value.floor_plan_id === plan.id ? value.floor_plan_y ?? null : null}
+            onPick={(x, y) => onChange({ ...value, floor_plan_id: plan.id, floor_plan_x: x, floor_plan_y: y })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
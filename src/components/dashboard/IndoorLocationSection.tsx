@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Incident } from '@/types/incident';
+import { useZones } from '@/hooks/useZones';
+import { useFloorPlans } from '@/hooks/useFloorPlans';
+import { describeIndoorLocation, formatFloor } from '@/lib/floorPlans';
+import { FloorPlanPin } from './FloorPlanPin';
+import { DoorOpen, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface IndoorLocationSectionProps {
+  incident: Incident;
+}
+
+export function IndoorLocationSection({ incident }: IndoorLocationSectionProps) {
+  const { zonesById } = useZones();
+  const { floorPlans } = useFloorPlans(incident.floor_plan_id ? incident.building_id : null);
+  const [showPlan, setShowPlan] = useState(true);
+
+  const building = incident.building_id ? zonesById.get(incident.building_id) : undefined;
+  const description = describeIndoorLocation(incident, building?.name);
+  if (!description) return null;
+
+  const plan = floorPlans.data?.find(p => p.id === incident.floor_plan_id);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <DoorOpen className="h-3 w-3 text-muted-foreground" />
+        <span className="font-medium">{description}</span>
+        {plan?.url && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs ml-auto"
+            onClick={() => setShowPlan(!showPlan)}
+          >
+            {showPlan ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+            Floor plan
+          </Button>
+        )}
+      </div>
+      {plan?.url && showPlan && (
+        <FloorPlanPin
+          url={plan.url}
+          alt={formatFloor(plan.floor, plan.label)}
+          x={incident.floor_plan_x}
+          y={incident.floor_plan_y}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useNearbyHelpers } from '@/hooks/useNearbyHelpers';
+import { useAlertDeliveries, latestDeliveryByHelper } from '@/hooks/useAlertDeliveries';
+import { useAppSettings } from '@/hooks/useAppSettings';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Incident } from '@/types/incident';
-import { NearbyHelper, HelperRole } from '@/types/helper';
+import { NearbyHelper, HelperRole, AlertDelivery, DeliveryStatus, HelperResponse } from '@/types/helper';
 import { 
   Phone, 
   MessageCircle, 
@@ -18,12 +21,11 @@ import {
   MapPin,
   Loader2,
   AlertTriangle,
-  ExternalLink,
   MessageSquare,
-  Send,
   Megaphone
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { functionErrorMessage } from '@/lib/functionErrors';
 
 interface NearbyHelpersSectionProps {
   incident: Incident;
@@ -35,6 +37,30 @@ const roleIcons: Record<HelperRole, React.ReactNode> = {
   volunteer: <Users className="h-4 w-4" />,
 };
 
+const deliveryLabels: Record<DeliveryStatus, string> = {
+  queued: 'SMS queued',
+  sent: 'SMS sent',
+  failed: 'SMS failed',
+};
+
+const deliveryColors: Record<DeliveryStatus, string> = {
+  queued: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30',
+  sent: 'bg-green-500/10 text-green-500 border-green-500/30',
+  failed: 'bg-red-500/10 text-red-500 border-red-500/30',
+};
+
+const responseLabels: Record<HelperResponse, string> = {
+  accepted: 'Accepted',
+  declined: 'Declined',
+  on_scene: 'On scene',
+};
+
+const responseColors: Record<HelperResponse, string> = {
+  accepted: 'bg-green-500/10 text-green-500 border-green-500/30',
+  declined: 'bg-muted text-muted-foreground border-border',
+  on_scene: 'bg-blue-500/10 text-blue-500 border-blue-500/30',
+};
+
 const roleColors: Record<HelperRole, string> = {
   security: 'bg-blue-500/10 text-blue-500 border-blue-500/30',
   medical: 'bg-red-500/10 text-red-500 border-red-500/30',
@@ -42,26 +68,36 @@ const roleColors: Record<HelperRole, string> = {
 };
 
 export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
-  const { role, user } = useAuth();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const canAlert = can('can_alert_helpers');
   const { toast } = useToast();
   const [sendingAlertFor, setSendingAlertFor] = useState<string | null>(null);
   const [sendingSmsFor, setSendingSmsFor] = useState<string | null>(null);
   const [sendingBulkAlert, setSendingBulkAlert] = useState(false);
   
+  const { settings } = useAppSettings();
+  const radiusKm = settings.nearby_helpers_radius_km;
+  
+  const isEligible = can('can_view_helper_phone') && (incident.severity === 'critical' || incident.severity === 'high');
   const { helpers, isLoading } = useNearbyHelpers({
+    organizationId: incident.organization_id,
     latitude: incident.latitude,
     longitude: incident.longitude,
-    radiusKm: 2.0,
-    enabled: role === 'admin' && (incident.severity === 'critical' || incident.severity === 'high')
+    radiusKm,
+    enabled: isEligible
   });
+  const { data: deliveries } = useAlertDeliveries(incident.id, isEligible && canAlert);
+  const latestDeliveries = latestDeliveryByHelper(deliveries);
 
-  // Only show for admins on critical/high severity incidents
-  if (role !== 'admin') return null;
+  // Only show to roles that may see helper contact details, on critical/high severity incidents
+  if (!can('can_view_helper_phone')) return null;
   if (incident.severity !== 'critical' && incident.severity !== 'high') return null;
 
   const handleCall = async (helper: NearbyHelper) => {
     // Log the call action
     await supabase.from('audit_logs').insert({
+      organization_id: incident.organization_id,
       action: 'call_initiated',
       actor_id: user?.id,
       actor_email: user?.email,
@@ -134,19 +170,29 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
         },
       });
 
-      if (error) throw error;
+      if (error) throw new Error(await functionErrorMessage(error));
 
-      if (data?.smsLink) {
-        window.open(data.smsLink, '_blank');
+      if (data?.delivery?.status === 'failed') {
         toast({
-          title: 'SMS alert ready',
-          description: `SMS for ${helper.name} has been prepared. Complete sending in your messaging app.`,
+          variant: 'destructive',
+          title: 'SMS not delivered',
+          description: data.delivery.error || `The SMS provider rejected the message to ${helper.name}.`,
+        });
+      } else if (data?.delivery?.provider === 'mock') {
+        toast({
+          title: 'Test alert recorded',
+          description: `The mock SMS provider is configured: nothing was sent to ${helper.name}.`,
+        });
+      } else {
+        toast({
+          title: 'SMS alert sent',
+          description: `SMS sent to ${helper.name}.`,
         });
       }
     } catch (error: any) {
       toast({
         variant: 'destructive',
-        title: 'Failed to generate SMS alert',
+        title: 'Failed to send SMS alert',
         description: error.message || 'Could not create SMS alert',
       });
     } finally {
@@ -177,23 +223,25 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
           longitude: incident.longitude,
           locationName: incident.location_name,
           aiSummary: incident.ai_analysis?.reasoning,
-          radiusKm: 2.0,
+          radiusKm,
         },
       });
 
-      if (error) throw error;
-
-      if (data?.helpers && data.helpers.length > 0) {
-        // Open all WhatsApp links in sequence with small delay
-        for (let i = 0; i < data.helpers.length; i++) {
-          setTimeout(() => {
-            window.open(data.helpers[i].whatsappLink, '_blank');
-          }, i * 500); // 500ms delay between each
-        }
+      if (error) throw new Error(await functionErrorMessage(error));
 
+      if (data?.helpers && data.helpers.length > 0 && data.provider === 'mock') {
         toast({
-          title: `${data.alertsGenerated} alerts generated`,
-          description: 'WhatsApp alerts are being opened. Complete sending in each WhatsApp tab.',
+          title: `${data.alertsGenerated} test alerts recorded`,
+          description: 'The mock SMS provider is configured: nothing was sent to the helpers.',
+        });
+      } else if (data?.helpers && data.helpers.length > 0) {
+        // Messages are sent server-side; per-helper status arrives via alert_deliveries
+        toast({
+          variant: data.failedCount > 0 ? 'destructive' : 'default',
+          title: `${data.sentCount} of ${data.alertsGenerated} SMS alerts sent`,
+          description: data.failedCount > 0
+            ? `${data.failedCount} could not be delivered. See the status next to each helper.`
+            : 'All nearby helpers have been alerted.',
         });
       } else {
         toast({
@@ -204,7 +252,7 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
     } catch (error: any) {
       toast({
         variant: 'destructive',
-        title: 'Failed to generate bulk alerts',
+        title: 'Failed to send bulk alerts',
         description: error.message || 'Could not create emergency alerts',
       });
     } finally {
@@ -212,6 +260,55 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
     }
   };
 
+  const renderDeliveryBadge = (delivery: AlertDelivery | undefined) => {
+    if (!delivery) return null;
+
+    // Once the helper has answered, their response is what matters
+    if (delivery.response) {
+      return (
+        <Badge
+          variant="outline"
+          className={cn('text-xs', responseColors[delivery.response])}
+          title={delivery.response_channel === 'sms' ? 'Replied by SMS' : 'Replied via link'}
+        >
+          {responseLabels[delivery.response]}
+        </Badge>
+      );
+    }
+
+    // The mock provider only records messages; never show them as delivered
+    if (delivery.provider === 'mock' && delivery.status !== 'failed') {
+      return (
+        <Badge
+          variant="outline"
+          className="text-xs bg-muted text-muted-foreground"
+          title="Recorded by the mock SMS provider, not sent"
+        >
+          Test only
+        </Badge>
+      );
+    }
+
+    return (
+      <Badge
+        variant="outline"
+        className={cn('text-xs', deliveryColors[delivery.status])}
+        title={delivery.error || undefined}
+      >
+        {delivery.status === 'sent' ? 'Awaiting reply' : deliveryLabels[delivery.status]}
+      </Badge>
+    );
+  };
+
+  const responseCounts = Array.from(latestDeliveries.values()).reduce(
+    (counts, delivery) => {
+      if (delivery.response) counts[delivery.response]++;
+      return counts;
+    },
+    { accepted: 0, declined: 0, on_scene: 0 } as Record<HelperResponse, number>
+  );
+  const hasResponses = responseCounts.accepted + responseCounts.declined + responseCounts.on_scene > 0;
+
   const formatDistance = (km: number): string => {
     if (km < 1) {
       return `${Math.round(km * 1000)} m`;
@@ -236,7 +333,7 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
           </h4>
           
           {/* Bulk Alert Button */}
-          {helpers.length > 0 && (
+          {canAlert && helpers.length > 0 && (
             <Button
               size="sm"
               variant="default"
@@ -254,6 +351,12 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
           )}
         </div>
         
+        {hasResponses && (
+          <p className="text-xs text-muted-foreground">
+            {responseCounts.on_scene} on scene · {responseCounts.accepted} en route · {responseCounts.declined} declined
+          </p>
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center py-4">
             <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
@@ -261,7 +364,7 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
         ) : helpers.length === 0 ? (
           <div className="flex items-center gap-2 text-muted-foreground text-sm p-3 bg-secondary/30 rounded-lg">
             <AlertTriangle className="h-4 w-4" />
-            <span>No active helpers within 2km radius</span>
+            <span>No active helpers within {radiusKm}km radius</span>
           </div>
         ) : (
           <div className="space-y-2">
@@ -280,9 +383,12 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
                           <span className="capitalize">{helper.role}</span>
                         </Badge>
                       </div>
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <MapPin className="h-3 w-3" />
-                        <span>{formatDistance(helper.distance_km)} away</span>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {formatDistance(helper.distance_km)} away
+                        </span>
+                        {renderDeliveryBadge(latestDeliveries.get(helper.id))}
                       </div>
                     </div>
                     
@@ -296,33 +402,37 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
                       >
                         <Phone className="h-3 w-3" />
                       </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="h-8 px-2"
-                        onClick={() => handleSmsAlert(helper)}
-                        disabled={sendingSmsFor === helper.id}
-                        title="Send SMS"
-                      >
-                        {sendingSmsFor === helper.id ? (
-                          <Loader2 className="h-3 w-3 animate-spin" />
-                        ) : (
-                          <MessageSquare className="h-3 w-3" />
-                        )}
-                      </Button>
-                      <Button
-                        size="sm"
-                        className="h-8 px-2 bg-green-600 hover:bg-green-700"
-                        onClick={() => handleWhatsAppAlert(helper)}
-                        disabled={sendingAlertFor === helper.id}
-                        title="Send WhatsApp"
-                      >
-                        {sendingAlertFor === helper.id ? (
-                          <Loader2 className="h-3 w-3 animate-spin" />
-                        ) : (
-                          <MessageCircle className="h-3 w-3" />
-                        )}
-                      </Button>
+                      {canAlert && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-2"
+                            onClick={() => handleSmsAlert(helper)}
+                            disabled={sendingSmsFor === helper.id}
+                            title="Send SMS"
+                          >
+                            {sendingSmsFor === helper.id ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <MessageSquare className="h-3 w-3" />
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="h-8 px-2 bg-green-600 hover:bg-green-700"
+                            onClick={() => handleWhatsAppAlert(helper)}
+                            disabled={sendingAlertFor === helper.id}
+                            title="Send WhatsApp"
+                          >
+                            {sendingAlertFor === helper.id ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <MessageCircle className="h-3 w-3" />
+                            )}
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -332,7 +442,7 @@ export function NearbyHelpersSection({ incident }: NearbyHelpersSectionProps) {
         )}
         
         <p className="text-xs text-muted-foreground">
-          Only active helpers within 2km are shown. All alert actions are logged.
+          Only active helpers within {radiusKm}km are shown. SMS alerts are sent directly and all alert actions are logged.
         </p>
       </div>
     </>
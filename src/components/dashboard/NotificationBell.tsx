@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Bell } from 'lucide-react';
+import { Bell, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -11,6 +11,9 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Incident } from '@/types/incident';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { severityMeetsThreshold } from '@/lib/settings';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { AppNotification, useNotifications } from '@/hooks/useNotifications';
 
 interface Notification {
   id: string;
@@ -19,6 +22,12 @@ interface Notification {
   timestamp: Date;
 }
 
+// New incidents are noticed in the browser; other notifications (such as SLA
+// breaches) are stored by the database
+type BellItem =
+  | { kind: 'incident'; id: string; read: boolean; timestamp: Date; incident: Incident }
+  | { kind: 'stored'; id: string; read: boolean; timestamp: Date; notification: AppNotification };
+
 interface NotificationBellProps {
   incidents: Incident[];
 }
@@ -27,6 +36,9 @@ export function NotificationBell({ incidents }: NotificationBellProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const prevIncidentsRef = useRef<string[]>([]);
+  const { settings } = useAppSettings();
+  const { notifications: stored, isUnread, markAllRead: markStoredAsRead } = useNotifications();
+  const minSeverity = settings.notification_min_severity;
 
   // Track new incidents
   useEffect(() => {
@@ -36,7 +48,7 @@ export function NotificationBell({ incidents }: NotificationBellProps) {
     // Find new incidents (not in previous list)
     const newIncidents = incidents.filter(
       i => !prevIds.includes(i.id) && 
-           (i.severity === 'critical' || i.severity === 'high') &&
+           severityMeetsThreshold(i.severity, minSeverity) &&
            i.status === 'active'
     );
 
@@ -52,12 +64,24 @@ export function NotificationBell({ incidents }: NotificationBellProps) {
     }
 
     prevIncidentsRef.current = currentIds;
-  }, [incidents]);
+  }, [incidents, minSeverity]);
+
+  const items: BellItem[] = [
+    ...notifications.map((n): BellItem => ({ kind: 'incident', ...n })),
+    ...stored.map((notification): BellItem => ({
+      kind: 'stored',
+      id: notification.id,
+      read: !isUnread(notification),
+      timestamp: new Date(notification.created_at),
+      notification,
+    })),
+  ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadCount = items.filter(n => !n.read).length;
 
   const markAllAsRead = () => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    markStoredAsRead();
   };
 
   const getSeverityClass = (severity: string | null) => {
@@ -93,42 +117,59 @@ export function NotificationBell({ incidents }: NotificationBellProps) {
           )}
         </div>
         <ScrollArea className="h-[300px]">
-          {notifications.length === 0 ? (
+          {items.length === 0 ? (
             <div className="p-4 text-center text-muted-foreground text-sm">
               No notifications yet
             </div>
           ) : (
             <div className="divide-y divide-border">
-              {notifications.map(notification => (
+              {items.map(item => (
                 <div 
-                  key={notification.id} 
+                  key={item.id} 
                   className={cn(
                     "p-3 hover:bg-muted/50 transition-colors",
-                    !notification.read && "bg-primary/5"
+                    !item.read && "bg-primary/5"
                   )}
                 >
-                  <div className="flex items-start gap-2">
-                    <div className={cn(
-                      "w-2 h-2 rounded-full mt-1.5 flex-shrink-0",
-                      notification.incident.severity === 'critical' && "bg-[hsl(var(--severity-critical))] animate-pulse",
-                      notification.incident.severity === 'high' && "bg-[hsl(var(--severity-high))]"
-                    )} />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium">
-                        New{' '}
-                        <span className={getSeverityClass(notification.incident.severity)}>
-                          {notification.incident.severity}
-                        </span>
-                        {' '}incident
-                      </p>
-                      <p className="text-xs text-muted-foreground truncate">
-                        {notification.incident.description}
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {formatDistanceToNow(notification.timestamp, { addSuffix: true })}
-                      </p>
+                  {item.kind === 'incident' ? (
+                    <div className="flex items-start gap-2">
+                      <div className={cn(
+                        "w-2 h-2 rounded-full mt-1.5 flex-shrink-0",
+                        item.incident.severity === 'critical' && "bg-[hsl(var(--severity-critical))] animate-pulse",
+                        item.incident.severity === 'high' && "bg-[hsl(var(--severity-high))]"
+                      )} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">
+                          New{' '}
+                          <span className={getSeverityClass(item.incident.severity)}>
+                            {item.incident.severity}
+                          </span>
+                          {' '}incident
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {item.incident.description}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatDistanceToNow(item.timestamp, { addSuffix: true })}
+                        </p>
+                      </div>
                     </div>
-                  </div>
+                  ) : (
+                    <div className="flex items-start gap-2">
+                      <Timer className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-[hsl(var(--severity-critical))]" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">{item.notification.title}</p>
+                        {item.notification.body && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {item.notification.body}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatDistanceToNow(item.timestamp, { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,70 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useMyInvitations } from '@/hooks/useMyInvitations';
+import { useToast } from '@/hooks/use-toast';
+import { roleLabels } from '@/lib/permissions';
+import { Mail } from 'lucide-react';
+
+// Shown only while the user has invitations to answer
+export function PendingInvitations() {
+  const { invitations, acceptInvitation, declineInvitation } = useMyInvitations();
+  const { toast } = useToast();
+  const isPending = acceptInvitation.isPending || declineInvitation.isPending;
+
+  if (!invitations.data?.length) return null;
+
+  const handleAccept = async (id: string, organizationName: string) => {
+    try {
+      await acceptInvitation.mutateAsync(id);
+      toast({
+        title: 'Invitation accepted',
+        description: `You are now a member of ${organizationName}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to accept invitation',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleDecline = async (id: string) => {
+    try {
+      await declineInvitation.mutateAsync(id);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to decline invitation',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-primary/40">
+      <CardContent className="pt-6 space-y-3">
+        {invitations.data.map((invitation) => (
+          <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="flex items-center gap-2 text-sm">
+              <Mail className="h-4 w-4 text-primary shrink-0" />
+              You are invited to join <strong>{invitation.organization_name}</strong> as {roleLabels[invitation.role]}.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={isPending}
+                onClick={() => handleAccept(invitation.id, invitation.organization_name)}
+              >
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" disabled={isPending} onClick={() => handleDecline(invitation.id)}>
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -11,6 +11,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   Select,
   SelectContent,
@@ -21,8 +23,24 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { IncidentType } from '@/types/incident';
-import { Plus, Loader2, AlertTriangle, Flame, Shield, Wrench, MapPin, CheckCircle2, ExternalLink } from 'lucide-react';
+import { uploadIncidentAttachments } from '@/hooks/useIncidentAttachments';
+import { DuplicateQuery, useDuplicateCandidates } from '@/hooks/useIncidentMerge';
+import { useZones } from '@/hooks/useZones';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { findZoneForPoint } from '@/lib/zones';
+import { reverseGeocode } from '@/lib/geocoding';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  PreparedAttachment,
+  formatFileSize,
+  getAttachmentKind,
+  prepareAttachment,
+} from '@/lib/attachments';
+import { CreateIncidentInput, IncidentType, IndoorLocationInput } from '@/types/incident';
+import { IndoorLocationPicker } from './IndoorLocationPicker';
+import { formatDistanceToNow } from 'date-fns';
+import { Plus, Loader2, AlertTriangle, Flame, Shield, Wrench, MapPin, CheckCircle2, ExternalLink, Paperclip, X, Copy } from 'lucide-react';
 
 interface ReportIncidentDialogProps {
   onSuccess: () => void;
@@ -46,29 +64,44 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
   const [locationName, setLocationName] = useState('');
   const [isGettingLocation, setIsGettingLocation] = useState(false);
   const [locationCaptured, setLocationCaptured] = useState(false);
+  const [indoor, setIndoor] = useState<IndoorLocationInput>({});
+  const [attachments, setAttachments] = useState<PreparedAttachment[]>([]);
+  const [isPreparingFiles, setIsPreparingFiles] = useState(false);
+  const [includeImages, setIncludeImages] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const { user } = useAuth();
+  const [duplicateQuery, setDuplicateQuery] = useState<DuplicateQuery | null>(null);
+  const { user, currentOrganization } = useAuth();
   const { toast } = useToast();
+  const { data: duplicates } = useDuplicateCandidates(duplicateQuery);
+  const { zones } = useZones();
+  const { settings } = useAppSettings();
+  // Preview only; the database tags the incident with its zone on insert
+  const zone = locationCaptured
+    ? findZoneForPoint(zones.data || [], parseFloat(latitude), parseFloat(longitude))
+    : null;
 
-  // Reverse geocode to get location name from coordinates
-  const reverseGeocode = async (lat: number, lng: number) => {
-    if (!window.google?.maps?.Geocoder) return;
-    
-    try {
-      const geocoder = new window.google.maps.Geocoder();
-      const response = await geocoder.geocode({ location: { lat, lng } });
-      
-      if (response.results && response.results.length > 0) {
-        const result = response.results[0];
-        const shortName = result.address_components?.find(
-          c => c.types.includes('premise') || c.types.includes('establishment') || c.types.includes('point_of_interest')
-        )?.long_name;
-        
-        setLocationName(shortName || result.formatted_address?.split(',').slice(0, 2).join(',') || '');
-      }
-    } catch (e) {
-      console.warn('Reverse geocoding failed:', e);
+  // Check for open incidents describing the same event once the reporter pauses typing
+  useEffect(() => {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+    if (!type || description.length < 10 || !locationCaptured || isNaN(lat) || isNaN(lng)) {
+      setDuplicateQuery(null);
+      return;
     }
+
+    const timeout = setTimeout(() => {
+      setDuplicateQuery({ type, description, latitude: lat, longitude: lng });
+    }, 600);
+    return () => clearTimeout(timeout);
+  }, [type, description, latitude, longitude, locationCaptured]);
+
+  // Reverse geocode to get location name from coordinates, or the zone name offline
+  const fillLocationName = async (lat: number, lng: number) => {
+    const name = await reverseGeocode(
+      { lat, lng },
+      { zones: zones.data || [], useGoogle: ['auto', 'google'].includes(settings.map_provider.provider) }
+    );
+    if (name) setLocationName(name);
   };
 
   // Get current location using browser Geolocation API
@@ -95,7 +128,7 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
         setLocationCaptured(true);
         
         // Try to get location name via reverse geocoding
-        await reverseGeocode(lat, lng);
+        await fillLocationName(lat, lng);
         
         setIsGettingLocation(false);
         toast({
@@ -123,6 +156,49 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
     );
   };
 
+  // Downscale photos as they are picked and use the first geotagged one as the location
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'File too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} exceeds ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`,
+      });
+      return;
+    }
+
+    setIsPreparingFiles(true);
+    try {
+      const prepared = await Promise.all(files.map(prepareAttachment));
+      setAttachments(current => [...current, ...prepared]);
+
+      const gps = prepared.find(item => item.gps)?.gps;
+      if (gps && !locationCaptured) {
+        setLatitude(String(gps.latitude));
+        setLongitude(String(gps.longitude));
+        setLocationCaptured(true);
+        setErrors({});
+        await fillLocationName(gps.latitude, gps.longitude);
+        toast({
+          title: 'Location taken from photo',
+          description: 'The photo\'s GPS position has been used. Update it if it is not where the incident is.',
+        });
+      }
+    } finally {
+      setIsPreparingFiles(false);
+    }
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(current => current.filter((_, i) => i !== index));
+  };
+
+  const hasImages = attachments.some(item => getAttachmentKind(item.file.type) === 'image');
+
   // Generate Google Maps link
   const getGoogleMapsLink = () => {
     if (!latitude || !longitude) return null;
@@ -153,20 +229,27 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!validateForm() || !user) return;
+    if (!validateForm() || !user || !currentOrganization) return;
 
     setIsSubmitting(true);
 
     try {
+      const input: CreateIncidentInput = {
+        type: type as IncidentType,
+        description,
+        latitude: parseFloat(latitude),
+        longitude: parseFloat(longitude),
+        location_name: locationName || undefined,
+        ...indoor,
+      };
+
       // First, create the incident
       const { data: incident, error: insertError } = await supabase
         .from('incidents')
         .insert({
-          type: type as IncidentType,
-          description,
-          latitude: parseFloat(latitude),
-          longitude: parseFloat(longitude),
-          location_name: locationName || null,
+          ...input,
+          organization_id: currentOrganization.id,
+          location_name: input.location_name ?? null,
           reported_by: user.id,
         })
         .select()
@@ -174,6 +257,17 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
 
       if (insertError) throw insertError;
 
+      // Upload before analysis so the photos can be passed to the model
+      let uploadFailed = false;
+      if (attachments.length > 0) {
+        try {
+          await uploadIncidentAttachments(currentOrganization.id, incident.id, user.id, attachments);
+        } catch (uploadError) {
+          console.error('Attachment upload failed:', uploadError);
+          uploadFailed = true;
+        }
+      }
+
       setIsAnalyzing(true);
 
       // Then, call AI for analysis
@@ -184,6 +278,7 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
             type: type,
             description,
             locationName: locationName || undefined,
+            includeImages: hasImages && includeImages && !uploadFailed,
           },
         });
 
@@ -199,11 +294,20 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
         title: 'Incident reported',
         description: 'The incident has been logged and is being analyzed.',
       });
+      if (uploadFailed) {
+        toast({
+          variant: 'destructive',
+          title: 'Some attachments were not uploaded',
+          description: 'Add them again from the incident details.',
+        });
+      }
 
       // Reset form
       setType('');
       setDescription('');
       setLocationName('');
+      setIndoor({});
+      setAttachments([]);
       setOpen(false);
       onSuccess();
     } catch (error: any) {
@@ -323,6 +427,13 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
                       <span className="text-right max-w-[200px] truncate">{locationName}</span>
                     </div>
                   )}
+
+                  {zone && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Zone:</span>
+                      <span className="text-right max-w-[200px] truncate">{zone.name}</span>
+                    </div>
+                  )}
                   
                   {getGoogleMapsLink() && (
                     <a
@@ -339,6 +450,44 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
               )}
             </div>
 
+            {locationCaptured && (zones.data || []).length > 0 && (
+              <div className="space-y-2">
+                <Label>Indoor location (optional)</Label>
+                <IndoorLocationPicker
+                  value={indoor}
+                  onChange={setIndoor}
+                  suggestedBuildingId={
+                    zone && ['building', 'lab', 'residence'].includes(zone.zone_type) ? zone.id : null
+                  }
+                />
+              </div>
+            )}
+
+            {duplicates && duplicates.length > 0 && (
+              <Alert>
+                <Copy className="h-4 w-4" />
+                <AlertTitle>Possible duplicate of an open incident</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 space-y-1">
+                    {duplicates.slice(0, 3).map((candidate) => (
+                      <li key={candidate.incident_id} className="text-xs">
+                        <span className="font-medium capitalize">{candidate.type}</span>
+                        {candidate.location_name && ` at ${candidate.location_name}`}
+                        {' · '}
+                        {formatDistanceToNow(new Date(candidate.created_at), { addSuffix: true })}
+                        {' · '}
+                        {Math.round(candidate.distance_m)} m away
+                        <p className="text-muted-foreground truncate">{candidate.description}</p>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    You can still submit; an operator can merge the reports.
+                  </p>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="locationName">Location Name (Optional)</Label>
               <Input
@@ -349,6 +498,65 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="attachments">Photos &amp; Files (Optional)</Label>
+              <Input
+                id="attachments"
+                type="file"
+                multiple
+                accept={ACCEPTED_ATTACHMENT_TYPES}
+                disabled={isPreparingFiles}
+                onChange={(e) => {
+                  handleFilesSelected(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              {isPreparingFiles && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Preparing files...
+                </p>
+              )}
+              {attachments.length > 0 && (
+                <ul className="space-y-1">
+                  {attachments.map((item, index) => (
+                    <li
+                      key={`${item.file.name}-${index}`}
+                      className="flex items-center justify-between gap-2 rounded bg-muted/50 px-2 py-1 text-xs"
+                    >
+                      <span className="flex items-center gap-1 truncate">
+                        <Paperclip className="h-3 w-3 shrink-0" />
+                        <span className="truncate">{item.file.name}</span>
+                        <span className="text-muted-foreground shrink-0">{formatFileSize(item.file.size)}</span>
+                        {item.gps && <MapPin className="h-3 w-3 shrink-0 text-primary" />}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        onClick={() => removeAttachment(index)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {hasImages && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="includeImages"
+                    checked={includeImages}
+                    onCheckedChange={(checked) => setIncludeImages(checked === true)}
+                  />
+                  <Label htmlFor="includeImages" className="text-sm font-normal">
+                    Include photos in AI analysis
+                  </Label>
+                </div>
+              )}
+            </div>
+
             <div className="flex gap-2 pt-4">
               <Button
                 type="button"
@@ -361,7 +569,7 @@ export function ReportIncidentDialog({ onSuccess }: ReportIncidentDialogProps) {
               <Button
                 type="submit"
                 className="flex-1"
-                disabled={isSubmitting}
+                disabled={isSubmitting || isPreparingFiles}
               >
                 {isSubmitting ? (
                   <>
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useOperators, getOperatorName } from '@/hooks/useOperators';
+import { supabase } from '@/integrations/supabase/client';
+import { Incident, IncidentSeverity } from '@/types/incident';
+import { isSeverityOverridden, severityLevels } from '@/lib/severity';
+import { formatDistanceToNow } from 'date-fns';
+import { Gauge, Loader2, Undo2 } from 'lucide-react';
+
+interface SeverityOverrideSectionProps {
+  incident: Incident;
+  canModify: boolean;
+  onUpdate: () => void;
+}
+
+const MIN_REASON_LENGTH = 5;
+
+export function SeverityOverrideSection({ incident, canModify, onUpdate }: SeverityOverrideSectionProps) {
+  const { toast } = useToast();
+  const { data: operators } = useOperators();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [severity, setSeverity] = useState<IncidentSeverity | ''>('');
+  const [reason, setReason] = useState('');
+
+  const overridden = isSeverityOverridden(incident);
+  const trimmedReason = reason.trim();
+  // Both overriding and reverting to the AI value need a justification
+  const hasReason = trimmedReason.length >= MIN_REASON_LENGTH;
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setSeverity('');
+    setReason('');
+  };
+
+  const submit = async (nextSeverity: IncidentSeverity | null) => {
+    setIsSaving(true);
+    // Validation, permissions and the audit_logs entry live in the RPC
+    const { error } = await supabase.rpc('override_incident_severity', {
+      _incident_id: incident.id,
+      _severity: nextSeverity,
+      _reason: trimmedReason,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update severity',
+        description: error.message,
+      });
+      return;
+    }
+
+    toast({
+      title: nextSeverity ? 'Severity overridden' : 'Override removed',
+      description: nextSeverity
+        ? `Severity set to ${nextSeverity.toUpperCase()}.`
+        : 'Severity reverted to the AI assessment.',
+    });
+    resetForm();
+    queryClient.invalidateQueries({ queryKey: ['incident-audit-logs', incident.id] });
+    onUpdate();
+  };
+
+  if (!incident.ai_severity && !overridden && !canModify) {
+    return null;
+  }
+
+  return (
+    <>
+      <Separator className="bg-border/50" />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-medium flex items-center gap-2 text-primary">
+            <Gauge className="h-4 w-4" />
+            Severity
+          </h4>
+          {canModify && !isEditing && (
+            <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+              Override
+            </Button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <Badge variant="outline" className="uppercase">
+            AI: {incident.ai_severity ?? 'pending'}
+          </Badge>
+          {overridden && (
+            <Badge variant="secondary" className="uppercase">
+              Operator: {incident.severity_override}
+            </Badge>
+          )}
+        </div>
+
+        {overridden && (
+          <div className="p-3 bg-secondary/30 rounded-lg space-y-1">
+            <p className="text-xs">
+              <span className="font-medium">Justification: </span>
+              {incident.severity_override_reason}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {getOperatorName(operators, incident.severity_overridden_by)}
+              {incident.severity_overridden_at &&
+                ` · ${formatDistanceToNow(new Date(incident.severity_overridden_at), { addSuffix: true })}`}
+            </p>
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="space-y-2">
+            <Select value={severity} onValueChange={(value) => setSeverity(value as IncidentSeverity)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select severity…" />
+              </SelectTrigger>
+              <SelectContent>
+                {severityLevels.map((level) => (
+                  <SelectItem key={level} value={level} className="uppercase">
+                    {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why does the severity need to change? (required)"
+              maxLength={1000}
+              className="text-xs min-h-[60px]"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                onClick={() => severity && submit(severity)}
+                disabled={isSaving || !hasReason || severity === ''}
+              >
+                {isSaving && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                Save override
+              </Button>
+              {overridden && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => submit(null)}
+                  disabled={isSaving || !hasReason}
+                  title="Revert to the AI severity"
+                >
+                  <Undo2 className="h-3 w-3 mr-1" />
+                  Use AI
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
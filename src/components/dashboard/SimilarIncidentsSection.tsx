@@ -0,0 +1,62 @@
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useSimilarIncidents } from '@/hooks/useSimilarIncidents';
+import { statusLabels } from '@/lib/incidentLifecycle';
+import { formatDistanceToNow } from 'date-fns';
+import { Sparkles } from 'lucide-react';
+
+interface SimilarIncidentsSectionProps {
+  incidentId: string;
+  onSelectIncident?: (id: string) => void;
+}
+
+export function SimilarIncidentsSection({ incidentId, onSelectIncident }: SimilarIncidentsSectionProps) {
+  const { data, isLoading } = useSimilarIncidents(incidentId);
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  if (!data || data.incidents.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Similar Past Incidents
+        <Badge
+          variant="outline"
+          className="text-[10px] px-1.5 py-0 font-normal"
+          title={data.model ? `Ranked by ${data.model} embeddings` : 'Ranked by matching words in the description'}
+        >
+          {data.method === 'embedding' ? 'Semantic' : 'Text match'}
+        </Badge>
+      </h4>
+      {data.incidents.map(similar => (
+        <button
+          key={similar.incident_id}
+          type="button"
+          onClick={() => onSelectIncident?.(similar.incident_id)}
+          disabled={!onSelectIncident}
+          className="w-full text-left p-2 rounded bg-secondary/30 hover:bg-secondary/50 disabled:hover:bg-secondary/30 transition-colors"
+        >
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium capitalize">{similar.type}</span>
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              {statusLabels[similar.status]}
+            </Badge>
+            <span className="text-muted-foreground ml-auto whitespace-nowrap">
+              {formatDistanceToNow(new Date(similar.created_at), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-0.5">{similar.description}</p>
+          <p className="text-[10px] text-muted-foreground mt-0.5">
+            {[similar.location_name, `${Math.round(similar.similarity * 100)}% similar`].filter(Boolean).join(' · ')}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
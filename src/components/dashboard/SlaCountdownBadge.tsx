@@ -0,0 +1,52 @@
+import { Badge } from '@/components/ui/badge';
+import { Incident } from '@/types/incident';
+import { SlaStage } from '@/types/sla';
+import { formatSlaDuration, nextSlaTarget, slaStageLabels } from '@/lib/sla';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { Timer } from 'lucide-react';
+
+interface SlaCountdownBadgeProps {
+  incident: Incident;
+  // Passed in so every card in a list ticks from one timer
+  now: Date;
+}
+
+const shortStageLabels: Record<SlaStage, string> = {
+  acknowledge: 'Ack',
+  dispatch: 'Dispatch',
+  resolve: 'Resolve',
+};
+
+// Share of the stage's window left when the badge turns amber
+const WARNING_FRACTION = 0.25;
+
+// Time left until the incident's next SLA target, or how far past it the incident is
+export function SlaCountdownBadge({ incident, now }: SlaCountdownBadgeProps) {
+  const target = nextSlaTarget(incident);
+  if (!target) return null;
+
+  const remaining = target.dueAt.getTime() - now.getTime();
+  const stageWindow = target.dueAt.getTime() - new Date(incident.created_at).getTime();
+  const overdue = remaining < 0;
+  const warning = !overdue && remaining <= stageWindow * WARNING_FRACTION;
+  const label = shortStageLabels[target.stage];
+
+  return (
+    <Badge
+      variant="outline"
+      title={`${slaStageLabels[target.stage]} target: ${format(target.dueAt, 'HH:mm')}`}
+      className={cn(
+        'text-xs whitespace-nowrap gap-1 tabular-nums',
+        overdue && 'border-[hsl(var(--severity-critical))] text-[hsl(var(--severity-critical))]',
+        warning && 'border-[hsl(var(--severity-medium))] text-[hsl(var(--severity-medium))]',
+        !overdue && !warning && 'text-muted-foreground'
+      )}
+    >
+      <Timer className="h-3 w-3" />
+      {overdue
+        ? `${label} ${formatSlaDuration(remaining)} late`
+        : `${label} in ${formatSlaDuration(remaining)}`}
+    </Badge>
+  );
+}
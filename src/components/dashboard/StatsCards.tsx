@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Incident } from '@/types/incident';
 import { AlertTriangle, Flame, Shield, Wrench, Activity } from 'lucide-react';
+import { isOpenStatus } from '@/lib/incidentLifecycle';
 
 interface StatsCardsProps {
   incidents: Incident[];
@@ -8,7 +9,7 @@ interface StatsCardsProps {
 
 export function StatsCards({ incidents }: StatsCardsProps) {
   const safeIncidents = incidents || [];
-  const activeIncidents = safeIncidents.filter(i => i?.status === 'active');
+  const activeIncidents = safeIncidents.filter(i => i && isOpenStatus(i.status));
   const criticalCount = activeIncidents.filter(i => i?.severity === 'critical').length;
   const highCount = activeIncidents.filter(i => i?.severity === 'high').length;
   
@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -6,34 +7,45 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Search, CalendarIcon, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { Filters } from '@/pages/IncidentHistory';
+import { IncidentHistoryFilters as Filters, emptyIncidentHistoryFilters } from '@/hooks/useIncidentHistory';
+import { statusLabels } from '@/lib/incidentLifecycle';
+import { IncidentStatus } from '@/types/incident';
+import { useZones } from '@/hooks/useZones';
 
 interface IncidentFiltersProps {
   filters: Filters;
   onFiltersChange: (filters: Filters) => void;
 }
 
+// Each search change is a server query, so typing is applied once it pauses
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function IncidentFilters({ filters, onFiltersChange }: IncidentFiltersProps) {
+  const { zones } = useZones();
+  const [search, setSearch] = useState(filters.search);
+
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timeout = setTimeout(() => onFiltersChange({ ...filters, search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters, onFiltersChange]);
+
   const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
     onFiltersChange({ ...filters, [key]: value });
   };
 
   const clearFilters = () => {
-    onFiltersChange({
-      search: '',
-      status: 'all',
-      type: 'all',
-      severity: 'all',
-      dateFrom: null,
-      dateTo: null,
-    });
+    setSearch('');
+    onFiltersChange(emptyIncidentHistoryFilters);
   };
 
   const hasActiveFilters = 
-    filters.search || 
+    search || 
     filters.status !== 'all' || 
     filters.type !== 'all' || 
     filters.severity !== 'all' || 
+    filters.assignment !== 'all' || 
+    filters.zone !== 'all' || 
     filters.dateFrom || 
     filters.dateTo;
 
@@ -44,9 +56,9 @@ export function IncidentFilters({ filters, onFiltersChange }: IncidentFiltersPro
         <div className="relative flex-1 min-w-[200px]">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search by description or location..."
-            value={filters.search}
-            onChange={(e) => updateFilter('search', e.target.value)}
+            placeholder="Search descriptions, locations, AI analysis and notes..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
             className="pl-9"
           />
         </div>
@@ -58,9 +70,9 @@ export function IncidentFilters({ filters, onFiltersChange }: IncidentFiltersPro
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="active">Active</SelectItem>
-            <SelectItem value="resolved">Resolved</SelectItem>
-            <SelectItem value="escalated">Escalated</SelectItem>
+            {(Object.keys(statusLabels) as IncidentStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -92,6 +104,33 @@ export function IncidentFilters({ filters, onFiltersChange }: IncidentFiltersPro
           </SelectContent>
         </Select>
 
+        {/* Assignment */}
+        <Select value={filters.assignment} onValueChange={(v) => updateFilter('assignment', v as Filters['assignment'])}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Assignment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Incidents</SelectItem>
+            <SelectItem value="mine">My Incidents</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Zone */}
+        {(zones.data || []).length > 0 && (
+          <Select value={filters.zone} onValueChange={(v) => updateFilter('zone', v)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Zone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Zones</SelectItem>
+              {(zones.data || []).map((zone) => (
+                <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+              ))}
+              <SelectItem value="none">Outside any zone</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+
         {/* Date From */}
         <Popover>
           <PopoverTrigger asChild>
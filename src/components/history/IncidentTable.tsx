@@ -1,4 +1,3 @@
-import { useState } from 'react';
 import { Incident } from '@/types/incident';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
@@ -6,14 +5,27 @@ import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
 import { ArrowUpDown, ChevronLeft, ChevronRight, Heart, Flame, ShieldAlert, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { statusLabels, statusTextClasses } from '@/lib/incidentLifecycle';
+import { useZones } from '@/hooks/useZones';
+import {
+  INCIDENT_HISTORY_PAGE_SIZE,
+  IncidentSearchSnippet,
+  IncidentSort,
+  IncidentSortField,
+} from '@/hooks/useIncidentHistory';
 
 interface IncidentTableProps {
+  // One page of results; sorting and paging happen on the server
   incidents: Incident[];
+  total: number;
+  page: number;
+  onPageChange: (page: number) => void;
+  sort: IncidentSort;
+  onSortChange: (sort: IncidentSort) => void;
+  // Search excerpts by incident id, shown in place of the description
+  snippets?: Record<string, IncidentSearchSnippet>;
 }
 
-type SortField = 'created_at' | 'type' | 'severity' | 'status';
-type SortOrder = 'asc' | 'desc';
-
 const typeIcons = {
   medical: Heart,
   fire: Flame,
@@ -21,46 +33,38 @@ const typeIcons = {
   infrastructure: Wrench,
 };
 
-const severityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+// ts_headline wraps matched words in <mark> tags; the text is rendered as text
+// and only the matches are highlighted
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/<\/?mark>/).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
 
-export function IncidentTable({ incidents }: IncidentTableProps) {
-  const [sortField, setSortField] = useState<SortField>('created_at');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [page, setPage] = useState(1);
-  const pageSize = 10;
+export function IncidentTable({
+  incidents,
+  total,
+  page,
+  onPageChange,
+  sort,
+  onSortChange,
+  snippets,
+}: IncidentTableProps) {
+  const { zonesById } = useZones();
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortOrder('desc');
-    }
+  const handleSort = (field: IncidentSortField) => {
+    onSortChange(sort.field === field ? { field, ascending: !sort.ascending } : { field, ascending: false });
   };
 
-  const sortedIncidents = [...incidents].sort((a, b) => {
-    let comparison = 0;
-    
-    switch (sortField) {
-      case 'created_at':
-        comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        break;
-      case 'type':
-        comparison = a.type.localeCompare(b.type);
-        break;
-      case 'severity':
-        comparison = (severityOrder[a.severity || 'low']) - (severityOrder[b.severity || 'low']);
-        break;
-      case 'status':
-        comparison = a.status.localeCompare(b.status);
-        break;
-    }
-    
-    return sortOrder === 'asc' ? comparison : -comparison;
-  });
-
-  const totalPages = Math.ceil(sortedIncidents.length / pageSize);
-  const paginatedIncidents = sortedIncidents.slice((page - 1) * pageSize, page * pageSize);
+  const totalPages = Math.ceil(total / INCIDENT_HISTORY_PAGE_SIZE);
 
   const getSeverityVariant = (severity: string | null) => {
     switch (severity) {
@@ -71,15 +75,6 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
     }
   };
 
-  const getStatusClass = (status: string) => {
-    switch (status) {
-      case 'active': return 'text-[hsl(var(--severity-critical))]';
-      case 'resolved': return 'text-[hsl(var(--severity-low))]';
-      case 'escalated': return 'text-[hsl(var(--severity-high))]';
-      default: return '';
-    }
-  };
-
   if (incidents.length === 0) {
     return (
       <div className="text-center py-12 text-muted-foreground">
@@ -119,7 +114,7 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {paginatedIncidents.map((incident) => {
+            {incidents.map((incident) => {
               const TypeIcon = typeIcons[incident.type];
               return (
                 <TableRow key={incident.id}>
@@ -133,9 +128,18 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
                     </div>
                   </TableCell>
                   <TableCell className="hidden md:table-cell max-w-[300px]">
-                    <p className="truncate text-sm text-muted-foreground">
-                      {incident.description}
-                    </p>
+                    {snippets?.[incident.id] ? (
+                      <p className="line-clamp-2 text-sm text-muted-foreground">
+                        {snippets[incident.id].source === 'note' && (
+                          <span className="font-medium text-foreground">In notes: </span>
+                        )}
+                        <HighlightedSnippet snippet={snippets[incident.id].snippet} />
+                      </p>
+                    ) : (
+                      <p className="truncate text-sm text-muted-foreground">
+                        {incident.description}
+                      </p>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge variant={getSeverityVariant(incident.severity)} className="capitalize">
@@ -143,11 +147,16 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
                     </Badge>
                   </TableCell>
                   <TableCell>
-                    <span className={cn("capitalize text-sm font-medium", getStatusClass(incident.status))}>
-                      {incident.status}
+                    <span className={cn("text-sm font-medium whitespace-nowrap", statusTextClasses[incident.status])}>
+                      {statusLabels[incident.status]}
                     </span>
                   </TableCell>
                   <TableCell className="hidden lg:table-cell text-sm text-muted-foreground">
+                    {incident.zone_id && zonesById.has(incident.zone_id) && (
+                      <span className="block font-medium text-foreground">
+                        {zonesById.get(incident.zone_id)?.name}
+                      </span>
+                    )}
                     {incident.location_name || 'N/A'}
                   </TableCell>
                 </TableRow>
@@ -167,7 +176,7 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setPage(p => Math.max(1, p - 1))}
+              onClick={() => onPageChange(Math.max(1, page - 1))}
               disabled={page === 1}
             >
               <ChevronLeft className="h-4 w-4" />
@@ -175,8 +184,8 @@ export function IncidentTable({ incidents }: IncidentTableProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-              disabled={page === totalPages}
+              onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+              disabled={page >= totalPages}
             >
               <ChevronRight className="h-4 w-4" />
             </Button>
@@ -3,6 +3,10 @@ import { Button } from '@/components/ui/button';
 import { FileDown, Loader2 } from 'lucide-react';
 import { Incident } from '@/types/incident';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchIncidentsForExport } from '@/hooks/useIncidentHistory';
+import { fetchIncidentNotes, IncidentNote, noteVisibilityLabels } from '@/hooks/useIncidentNotes';
 import { format } from 'date-fns';
 import {
   DropdownMenu,
@@ -19,6 +23,8 @@ interface ExportReportButtonProps {
 export function ExportReportButton({ incidents, singleIncident }: ExportReportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const { currentOrganization } = useAuth();
 
   const exportToCSV = (data: Incident[]) => {
     const headers = ['ID', 'Type', 'Description', 'Severity', 'Status', 'Location', 'Latitude', 'Longitude', 'Created At', 'Resolved At'];
@@ -45,7 +51,26 @@ export function ExportReportButton({ incidents, singleIncident }: ExportReportBu
     downloadFile(jsonContent, 'application/json', `incidents-report-${format(new Date(), 'yyyy-MM-dd')}.json`);
   };
 
-  const exportSingleIncidentReport = (incident: Incident) => {
+  // Replies are indented under the note they answer
+  const formatNotes = (notes: IncidentNote[]) => {
+    if (notes.length === 0) return 'No notes recorded';
+
+    const formatNote = (note: IncidentNote, indent: string) =>
+      `${indent}[${format(new Date(note.created_at), 'MMM dd, yyyy HH:mm')}] ${note.author_name || note.author_email || 'Unknown'} (${noteVisibilityLabels[note.visibility]})\n` +
+      note.body.split('\n').map(line => `${indent}  ${line}`).join('\n');
+
+    const ids = new Set(notes.map(note => note.id));
+    return notes
+      // A reply whose parent is filtered out is shown as a top-level note
+      .filter(note => !note.parent_id || !ids.has(note.parent_id))
+      .map(note => [
+        formatNote(note, ''),
+        ...notes.filter(reply => reply.parent_id === note.id).map(reply => formatNote(reply, '    ')),
+      ].join('\n'))
+      .join('\n\n');
+  };
+
+  const exportSingleIncidentReport = (incident: Incident, notes: IncidentNote[], includeInternal: boolean) => {
     const report = `
 INCIDENT REPORT
 ===============
@@ -67,8 +92,12 @@ Coordinates: ${incident.latitude}, ${incident.longitude}
 TIMELINE
 --------
 Created: ${format(new Date(incident.created_at), 'MMMM dd, yyyy HH:mm:ss')}
+Acknowledged: ${incident.acknowledged_at ? format(new Date(incident.acknowledged_at), 'MMMM dd, yyyy HH:mm:ss') : 'N/A'}
+Dispatched: ${incident.dispatched_at ? format(new Date(incident.dispatched_at), 'MMMM dd, yyyy HH:mm:ss') : 'N/A'}
+On Scene: ${incident.on_scene_at ? format(new Date(incident.on_scene_at), 'MMMM dd, yyyy HH:mm:ss') : 'N/A'}
 Updated: ${format(new Date(incident.updated_at), 'MMMM dd, yyyy HH:mm:ss')}
 Resolved: ${incident.resolved_at ? format(new Date(incident.resolved_at), 'MMMM dd, yyyy HH:mm:ss') : 'Not yet resolved'}
+Closed: ${incident.closed_at ? format(new Date(incident.closed_at), 'MMMM dd, yyyy HH:mm:ss') : 'N/A'}
 
 AI ANALYSIS
 -----------
@@ -83,6 +112,10 @@ Resource Recommendations:
 ${incident.ai_analysis.resourceRecommendations.map((r, i) => `  ${i + 1}. ${r}`).join('\n')}
 ` : 'No AI analysis available'}
 
+NOTES${includeInternal ? ' (including internal)' : ''}
+-----
+${formatNotes(notes)}
+
 ---
 Report generated on ${format(new Date(), 'MMMM dd, yyyy HH:mm:ss')}
 AegisICS - Incident Command System
@@ -103,15 +136,26 @@ AegisICS - Incident Command System
     URL.revokeObjectURL(url);
   };
 
-  const handleExport = async (format: 'csv' | 'json' | 'single') => {
+  const handleExport = async (format: 'csv' | 'json' | 'single' | 'single-internal') => {
+    if (!currentOrganization) return;
+
     setIsExporting(true);
     try {
-      if (format === 'single' && singleIncident) {
-        exportSingleIncidentReport(singleIncident);
-      } else if (format === 'csv') {
-        exportToCSV(incidents);
-      } else if (format === 'json') {
-        exportToJSON(incidents);
+      if ((format === 'single' || format === 'single-internal') && singleIncident) {
+        const [incident] = await fetchIncidentsForExport(currentOrganization.id, [singleIncident.id]);
+        if (!incident) throw new Error('Incident not found');
+        // Shareable reports leave out internal notes
+        const includeInternal = format === 'single-internal';
+        const notes = (await fetchIncidentNotes(incident.id))
+          .filter(note => includeInternal || note.visibility === 'shareable');
+        exportSingleIncidentReport(incident, notes, includeInternal);
+      } else {
+        const exported = await fetchIncidentsForExport(currentOrganization.id, incidents.map(incident => incident.id));
+        if (format === 'csv') {
+          exportToCSV(exported);
+        } else {
+          exportToJSON(exported);
+        }
       }
       
       toast({
@@ -129,23 +173,32 @@ AegisICS - Incident Command System
     }
   };
 
+  if (!can('can_export')) return null;
+
   if (singleIncident) {
     return (
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => handleExport('single')}
-        disabled={isExporting}
-      >
-        {isExporting ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <>
-            <FileDown className="h-4 w-4 mr-2" />
-            Export Report
-          </>
-        )}
-      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <FileDown className="h-4 w-4 mr-2" />
+                Export Report
+              </>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => handleExport('single')}>
+            Shareable report
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('single-internal')}>
+            Internal report (all notes)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
     );
   }
 
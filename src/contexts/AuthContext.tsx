@@ -1,13 +1,26 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { AppRole } from '@/lib/permissions';
 
-type AppRole = 'admin' | 'operator';
+export interface OrganizationMembership {
+  id: string;
+  name: string;
+  slug: string;
+  role: AppRole;
+}
+
+const CURRENT_ORG_STORAGE_KEY = 'aegis.currentOrganizationId';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  // Role in the current organization
   role: AppRole | null;
+  organizations: OrganizationMembership[];
+  currentOrganization: OrganizationMembership | null;
+  switchOrganization: (organizationId: string) => void;
+  refreshOrganizations: () => Promise<void>;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
@@ -19,28 +32,49 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [role, setRole] = useState<AppRole | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_ORG_STORAGE_KEY)
+  );
   const [loading, setLoading] = useState(true);
 
-  const fetchUserRole = async (userId: string) => {
+  const fetchMemberships = async (userId: string) => {
     try {
       const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', userId)
-        .maybeSingle();
-      
+        .from('organization_members')
+        .select('role, organization:organizations(id, name, slug)')
+        .eq('user_id', userId);
+
       if (!error && data) {
-        setRole(data.role as AppRole);
+        setOrganizations(
+          data
+            .filter(row => row.organization)
+            .map(row => ({ ...row.organization!, role: row.role as AppRole }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
       } else {
-        setRole(null);
+        setOrganizations([]);
       }
     } catch (e) {
-      console.error('Error fetching user role:', e);
-      setRole(null);
+      console.error('Error fetching organizations:', e);
+      setOrganizations([]);
     }
   };
 
+  // Fall back to the first membership when the stored organization is gone
+  const currentOrganization =
+    organizations.find(org => org.id === currentOrganizationId) ?? organizations[0] ?? null;
+  const role = currentOrganization?.role ?? null;
+
+  const refreshOrganizations = async () => {
+    if (user) await fetchMemberships(user.id);
+  };
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    localStorage.setItem(CURRENT_ORG_STORAGE_KEY, organizationId);
+    setCurrentOrganizationId(organizationId);
+  }, []);
+
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -48,13 +82,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Defer role fetch to avoid deadlock
+        // Defer membership fetch to avoid deadlock
         if (session?.user) {
           setTimeout(() => {
-            fetchUserRole(session.user.id);
+            fetchMemberships(session.user.id);
           }, 0);
         } else {
-          setRole(null);
+          setOrganizations([]);
         }
         setLoading(false);
       }
@@ -65,7 +99,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setSession(session);
       setUser(session?.user ?? null);
       if (session?.user) {
-        fetchUserRole(session.user.id);
+        fetchMemberships(session.user.id);
       }
       setLoading(false);
     });
@@ -101,11 +135,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
-    setRole(null);
+    setOrganizations([]);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, role, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        role,
+        organizations,
+        currentOrganization,
+        switchOrganization,
+        refreshOrganizations,
+        loading,
+        signIn,
+        signUp,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -119,6 +167,10 @@ export function useAuth() {
       user: null,
       session: null,
       role: null,
+      organizations: [],
+      currentOrganization: null,
+      switchOrganization: () => {},
+      refreshOrganizations: async () => {},
       loading: true,
       signIn: async () => ({ error: new Error('Auth not initialized') }),
       signUp: async () => ({ error: new Error('Auth not initialized') }),
@@ -0,0 +1,65 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AlertDelivery } from "@/types/helper";
+
+// SMS deliveries for an incident, newest first, kept live via realtime
+export const useAlertDeliveries = (incidentId: string | null, enabled = true) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!incidentId || !enabled) return;
+
+    const channel = supabase
+      .channel(`alert-deliveries-${incidentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "alert_deliveries",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["alert-deliveries", incidentId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [incidentId, enabled, queryClient]);
+
+  return useQuery({
+    queryKey: ["alert-deliveries", incidentId],
+    queryFn: async (): Promise<AlertDelivery[]> => {
+      if (!incidentId) return [];
+
+      const { data, error } = await supabase
+        .from("alert_deliveries")
+        .select("*")
+        .eq("incident_id", incidentId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching alert deliveries:", error);
+        throw error;
+      }
+
+      return (data || []) as AlertDelivery[];
+    },
+    enabled: !!incidentId && enabled,
+  });
+};
+
+// Most recent delivery per helper
+export const latestDeliveryByHelper = (deliveries: AlertDelivery[] | undefined) => {
+  const latest = new Map<string, AlertDelivery>();
+  (deliveries || []).forEach((delivery) => {
+    if (delivery.helper_id && !latest.has(delivery.helper_id)) {
+      latest.set(delivery.helper_id, delivery);
+    }
+  });
+  return latest;
+};
@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseSetting, validateSetting } from "@/lib/settings";
+
+const alertEmailsKey = (organizationId?: string) => ["admin-settings", organizationId, "alert_emails"];
+
+export type EmailEvent = "high_severity" | "escalated" | "escalation_step";
+
+export interface EmailPreview {
+  event: EmailEvent;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Addresses emailed on high/critical incidents and escalations (admin_settings.alert_emails)
+export const useAlertEmails = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const alertEmails = useQuery({
+    queryKey: alertEmailsKey(organizationId),
+    enabled: !!organizationId,
+    queryFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase
+        .from("admin_settings")
+        .select("value")
+        .eq("organization_id", organizationId!)
+        .eq("key", "alert_emails")
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching alert emails:", error);
+        throw error;
+      }
+
+      return parseSetting("alert_emails", data?.value);
+    },
+  });
+
+  const saveAlertEmails = useMutation({
+    mutationFn: async (emails: string[]) => {
+      const validationError = validateSetting("alert_emails", emails);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("admin_settings")
+        .upsert(
+          {
+            organization_id: organizationId,
+            key: "alert_emails",
+            value: emails,
+            updated_by: userData.user?.id,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "organization_id,key" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: alertEmailsKey(organizationId) }),
+  });
+
+  return { alertEmails, saveAlertEmails };
+};
+
+// Templates rendered server-side against a sample incident, so the preview
+// matches what send-email-alert actually sends
+export const useEmailPreviews = (enabled: boolean) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: ["email-previews", organizationId],
+    enabled: enabled && !!organizationId,
+    staleTime: Infinity,
+    queryFn: async (): Promise<EmailPreview[]> => {
+      const { data, error } = await supabase.functions.invoke("send-email-alert", {
+        body: { preview: true, organizationId },
+      });
+
+      if (error) throw error;
+      return (data?.previews || []) as EmailPreview[];
+    },
+  });
+};
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { incidentsKey, toIncident } from "@/hooks/useIncidents";
+import { openStatuses } from "@/lib/incidentLifecycle";
+import { Incident } from "@/types/incident";
+
+export const ANALYTICS_WINDOWS = [
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+];
+
+// PostgREST caps a single response at 1000 rows
+const BATCH_SIZE = 1000;
+export const ANALYTICS_INCIDENT_LIMIT = 20000;
+
+/**
+ * The incidents the Analytics page summarizes: every open incident and those
+ * reported in the last `windowDays` days, newest first, loaded in batches up
+ * to ANALYTICS_INCIDENT_LIMIT. Not kept current via realtime; reloaded when
+ * older than a few minutes.
+ */
+export const useAnalyticsIncidents = (windowDays: number) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: [...incidentsKey(organizationId), "analytics", windowDays],
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<{ incidents: Incident[]; truncated: boolean }> => {
+      const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+      const incidents: Incident[] = [];
+
+      while (incidents.length < ANALYTICS_INCIDENT_LIMIT) {
+        const { data, error } = await supabase
+          .from("incidents")
+          .select("*")
+          .eq("organization_id", organizationId!)
+          .or(`status.in.(${openStatuses.join(",")}),created_at.gte.${since}`)
+          // By id among equal times so batches never overlap
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: true })
+          .range(incidents.length, incidents.length + BATCH_SIZE - 1);
+
+        if (error) {
+          console.error("Error fetching analytics incidents:", error);
+          throw error;
+        }
+
+        incidents.push(...(data || []).map(toIncident));
+        if (!data || data.length < BATCH_SIZE) {
+          return { incidents, truncated: false };
+        }
+      }
+
+      return { incidents, truncated: true };
+    },
+  });
+};
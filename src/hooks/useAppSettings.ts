@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AppSettings,
+  resolveSettings,
+  SETTING_KEYS,
+  SettingKey,
+  validateSetting,
+} from "@/lib/settings";
+
+const settingsKey = (organizationId?: string) => ["admin-settings", organizationId, "app"];
+
+export const DEFAULT_SETTINGS: AppSettings = resolveSettings([]);
+
+// Typed dashboard settings of the current organization. Missing or invalid
+// rows resolve to their defaults, so callers can use the values before the
+// query has finished.
+export const useAppSettings = () => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const query = useQuery({
+    queryKey: settingsKey(organizationId),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<AppSettings> => {
+      const { data, error } = await supabase
+        .from("admin_settings")
+        .select("key, value")
+        .eq("organization_id", organizationId!)
+        .in("key", SETTING_KEYS);
+
+      if (error) {
+        console.error("Error fetching settings:", error);
+        throw error;
+      }
+
+      return resolveSettings(data || []);
+    },
+  });
+
+  return { settings: query.data ?? DEFAULT_SETTINGS, isLoading: query.isLoading };
+};
+
+export const useUpdateSetting = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useMutation({
+    mutationFn: async ({ key, value }: { key: SettingKey; value: AppSettings[SettingKey] }) => {
+      const validationError = validateSetting(key, value);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("admin_settings")
+        .upsert(
+          {
+            organization_id: organizationId,
+            key,
+            value: value as unknown as Json,
+            updated_by: userData.user?.id,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "organization_id,key" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: settingsKey(organizationId) }),
+  });
+};
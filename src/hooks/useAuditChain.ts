@@ -0,0 +1,33 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+
+export interface AuditChainVerification {
+  is_valid: boolean;
+  checked_count: number;
+  first_broken_id: string | null;
+  first_broken_seq: number | null;
+  reason: string | null;
+  head_hash: string | null;
+  verified_at: string;
+}
+
+// Recomputes every hash of the current organization's audit chain in the
+// database (public.verify_audit_chain)
+export const useVerifyAuditChain = () => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useMutation({
+    mutationFn: async (): Promise<AuditChainVerification> => {
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data, error } = await supabase.rpc("verify_audit_chain", {
+        _organization_id: organizationId,
+      });
+
+      if (error) throw error;
+      return data[0] as AuditChainVerification;
+    },
+  });
+};
@@ -0,0 +1,129 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { AuditLogEntry } from "@/hooks/useIncidentAuditLogs";
+
+export interface AuditLogFilters {
+  actor: string;
+  action: string;
+  incidentId: string;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  metadataKey: string;
+  metadataValue: string;
+}
+
+export const emptyAuditLogFilters: AuditLogFilters = {
+  actor: "",
+  action: "all",
+  incidentId: "",
+  dateFrom: null,
+  dateTo: null,
+  metadataKey: "",
+  metadataValue: "",
+};
+
+export const AUDIT_LOG_PAGE_SIZE = 25;
+
+// PostgREST caps a single response at 1000 rows
+const EXPORT_BATCH_SIZE = 1000;
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const metadataKeyRegex = /^[a-z0-9_]+$/i;
+
+export const isValidIncidentId = (value: string) => uuidRegex.test(value.trim());
+export const isValidMetadataKey = (value: string) => metadataKeyRegex.test(value.trim());
+
+// Exports read through export_audit_logs, which requires can_export
+const baseQuery = (organizationId: string, forExport: boolean) =>
+  forExport
+    ? supabase.rpc("export_audit_logs", { _organization_id: organizationId }, { count: "exact" })
+    : supabase.from("audit_logs").select("*", { count: "exact" }).eq("organization_id", organizationId);
+
+const buildQuery = (organizationId: string, filters: AuditLogFilters, forExport = false) => {
+  let query = baseQuery(organizationId, forExport);
+
+  const actor = filters.actor.trim();
+  if (actor) {
+    query = query.ilike("actor_email", `%${actor}%`);
+  }
+
+  if (filters.action !== "all") {
+    query = query.eq("action", filters.action);
+  }
+
+  if (isValidIncidentId(filters.incidentId)) {
+    query = query.eq("incident_id", filters.incidentId.trim());
+  }
+
+  if (filters.dateFrom) {
+    query = query.gte("created_at", filters.dateFrom.toISOString());
+  }
+
+  if (filters.dateTo) {
+    const endOfDay = new Date(filters.dateTo);
+    endOfDay.setHours(23, 59, 59, 999);
+    query = query.lte("created_at", endOfDay.toISOString());
+  }
+
+  // The key is interpolated into the column path, so only plain identifiers are allowed
+  const metadataKey = filters.metadataKey.trim();
+  if (isValidMetadataKey(metadataKey)) {
+    const metadataValue = filters.metadataValue.trim();
+    query = metadataValue
+      ? query.eq(`metadata->>${metadataKey}`, metadataValue)
+      : query.not(`metadata->${metadataKey}`, "is", null);
+  }
+
+  return query
+    .order("created_at", { ascending: false })
+    .order("seq", { ascending: false });
+};
+
+// One page of the current organization's audit log, filtered and counted server-side
+export const useAuditLogs = (filters: AuditLogFilters, page: number) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: ["audit-logs", organizationId, filters, page],
+    enabled: !!organizationId,
+    placeholderData: keepPreviousData,
+    queryFn: async (): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+      const from = (page - 1) * AUDIT_LOG_PAGE_SIZE;
+      const { data, error, count } = await buildQuery(organizationId!, filters).range(
+        from,
+        from + AUDIT_LOG_PAGE_SIZE - 1
+      );
+
+      if (error) {
+        console.error("Error fetching audit logs:", error);
+        throw error;
+      }
+
+      return { entries: (data || []) as AuditLogEntry[], total: count ?? 0 };
+    },
+  });
+};
+
+// Every entry matching the filters, up to AUDIT_LOG_EXPORT_LIMIT, for CSV/JSON export
+export const fetchAuditLogsForExport = async (
+  organizationId: string,
+  filters: AuditLogFilters
+): Promise<AuditLogEntry[]> => {
+  const entries: AuditLogEntry[] = [];
+
+  while (entries.length < AUDIT_LOG_EXPORT_LIMIT) {
+    const { data, error } = await buildQuery(organizationId, filters, true).range(
+      entries.length,
+      entries.length + EXPORT_BATCH_SIZE - 1
+    );
+
+    if (error) throw error;
+    entries.push(...((data || []) as AuditLogEntry[]));
+    if (!data || data.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  return entries;
+};
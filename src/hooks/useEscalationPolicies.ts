@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseSetting, validateSetting } from "@/lib/settings";
+import { EscalationPolicy, EscalationPolicyInput, EscalationStep } from "@/types/escalation";
+
+const policiesKey = (organizationId?: string) => ["escalation-policies", organizationId];
+const pagerKey = (organizationId?: string) => ["admin-settings", organizationId, "escalation_pager_numbers"];
+
+const toSteps = (value: unknown): EscalationStep[] =>
+  Array.isArray(value) ? (value as EscalationStep[]) : [];
+
+export const useEscalationPolicies = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const policies = useQuery({
+    queryKey: policiesKey(organizationId),
+    enabled: !!organizationId,
+    queryFn: async (): Promise<EscalationPolicy[]> => {
+      const { data, error } = await supabase
+        .from("escalation_policies")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching escalation policies:", error);
+        throw error;
+      }
+
+      return (data || []).map((row) => ({ ...row, steps: toSteps(row.steps) })) as EscalationPolicy[];
+    },
+  });
+
+  const savePolicy = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: EscalationPolicyInput }) => {
+      const row = { ...input, steps: input.steps as unknown as Json };
+      if (id) {
+        const { error } = await supabase.from("escalation_policies").update(row).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("escalation_policies")
+        .insert({ ...row, organization_id: organizationId, created_by: userData.user?.id });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: policiesKey(organizationId) }),
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("escalation_policies").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: policiesKey(organizationId) }),
+  });
+
+  return { policies, savePolicy, deletePolicy };
+};
+
+// Numbers paged by steps with "page_admins" (admin_settings.escalation_pager_numbers)
+export const usePagerNumbers = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const pagerNumbers = useQuery({
+    queryKey: pagerKey(organizationId),
+    enabled: !!organizationId,
+    queryFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase
+        .from("admin_settings")
+        .select("value")
+        .eq("organization_id", organizationId!)
+        .eq("key", "escalation_pager_numbers")
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching pager numbers:", error);
+        throw error;
+      }
+
+      return parseSetting("escalation_pager_numbers", data?.value);
+    },
+  });
+
+  const savePagerNumbers = useMutation({
+    mutationFn: async (numbers: string[]) => {
+      const validationError = validateSetting("escalation_pager_numbers", numbers);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("admin_settings")
+        .upsert(
+          {
+            organization_id: organizationId,
+            key: "escalation_pager_numbers",
+            value: numbers,
+            updated_by: userData.user?.id,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "organization_id,key" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: pagerKey(organizationId) }),
+  });
+
+  return { pagerNumbers, savePagerNumbers };
+};
@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { FLOOR_PLAN_BUCKET } from "@/lib/floorPlans";
+import { FloorPlan } from "@/types/zone";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const floorPlansKey = (zoneId: string | null) => ["floor-plans", zoneId];
+
+// Floor plans of a building, lowest floor first
+export const useFloorPlans = (zoneId: string | null) => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+
+  const floorPlans = useQuery({
+    queryKey: floorPlansKey(zoneId),
+    queryFn: async (): Promise<FloorPlan[]> => {
+      if (!zoneId) return [];
+
+      const { data, error } = await supabase
+        .from("floor_plans")
+        .select("*")
+        .eq("zone_id", zoneId)
+        .order("floor", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching floor plans:", error);
+        throw error;
+      }
+      if (!data || data.length === 0) return [];
+
+      const { data: signed } = await supabase.storage
+        .from(FLOOR_PLAN_BUCKET)
+        .createSignedUrls(data.map((row) => row.storage_path), SIGNED_URL_TTL_SECONDS);
+      const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+
+      return data.map((row) => ({ ...row, url: urls.get(row.storage_path) ?? null }));
+    },
+    enabled: !!zoneId,
+    // Refresh before the signed URLs expire
+    staleTime: (SIGNED_URL_TTL_SECONDS / 2) * 1000,
+    refetchInterval: (SIGNED_URL_TTL_SECONDS / 2) * 1000,
+  });
+
+  // Uploading a plan for a floor that already has one replaces it
+  const upload = useMutation({
+    mutationFn: async ({ floor, label, file }: { floor: number; label: string | null; file: File }) => {
+      if (!zoneId || !currentOrganization) throw new Error("No building selected");
+
+      const extension = file.type.split("/")[1] ?? "png";
+      const storagePath = `${currentOrganization.id}/${zoneId}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from(FLOOR_PLAN_BUCKET)
+        .upload(storagePath, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const previous = floorPlans.data?.find((plan) => plan.floor === floor);
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("floor_plans")
+        .upsert(
+          {
+            organization_id: currentOrganization.id,
+            zone_id: zoneId,
+            floor,
+            label,
+            storage_path: storagePath,
+            created_by: userData.user?.id,
+          },
+          { onConflict: "zone_id,floor" }
+        );
+      if (error) {
+        await supabase.storage.from(FLOOR_PLAN_BUCKET).remove([storagePath]);
+        throw error;
+      }
+
+      if (previous) {
+        await supabase.storage.from(FLOOR_PLAN_BUCKET).remove([previous.storage_path]);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: floorPlansKey(zoneId) }),
+  });
+
+  // The row is removed first so a failed storage delete never leaves a dangling record
+  const remove = useMutation({
+    mutationFn: async (plan: FloorPlan) => {
+      const { error } = await supabase.from("floor_plans").delete().eq("id", plan.id);
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(FLOOR_PLAN_BUCKET)
+        .remove([plan.storage_path]);
+      if (storageError) console.error("Failed to delete floor plan file:", storageError);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: floorPlansKey(zoneId) }),
+  });
+
+  return { floorPlans, upload, remove };
+};
@@ -2,18 +2,28 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Helper, CreateHelperInput } from '@/types/helper';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 
 export function useHelpers() {
   const [helpers, setHelpers] = useState<Helper[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
 
   const fetchHelpers = useCallback(async () => {
+    if (!organizationId) {
+      setHelpers([]);
+      setIsLoading(false);
+      return;
+    }
+
     setIsLoading(true);
     try {
       const { data, error } = await supabase
         .from('helpers')
         .select('*')
+        .eq('organization_id', organizationId)
         .order('name', { ascending: true });
 
       if (error) {
@@ -38,14 +48,17 @@ export function useHelpers() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [organizationId, toast]);
 
   const createHelper = async (input: CreateHelperInput): Promise<boolean> => {
     try {
+      if (!organizationId) throw new Error('No organization selected');
+
       const { data: userData } = await supabase.auth.getUser();
       
       const { error } = await supabase.from('helpers').insert({
         ...input,
+        organization_id: organizationId,
         created_by: userData.user?.id
       });
 
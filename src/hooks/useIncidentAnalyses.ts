@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { IncidentAnalysis } from "@/types/incident";
+import { validateAIAnalysis } from "@/lib/aiAnalysis";
+
+// All analysis runs for an incident, newest first
+export const useIncidentAnalyses = (incidentId: string | null) => {
+  return useQuery({
+    queryKey: ["incident-analyses", incidentId],
+    queryFn: async (): Promise<IncidentAnalysis[]> => {
+      if (!incidentId) return [];
+
+      const { data, error } = await supabase
+        .from("incident_analyses")
+        .select("*")
+        .eq("incident_id", incidentId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching incident analyses:", error);
+        throw error;
+      }
+
+      return (data || []).map((item) => ({
+        ...item,
+        analysis: item.parse_status === "failed" ? null : validateAIAnalysis(item.analysis),
+      })) as IncidentAnalysis[];
+    },
+    enabled: !!incidentId,
+  });
+};
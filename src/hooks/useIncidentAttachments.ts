@@ -0,0 +1,151 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { ATTACHMENT_BUCKET, PreparedAttachment } from "@/lib/attachments";
+
+export interface IncidentAttachment {
+  id: string;
+  incident_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  uploaded_by: string;
+  created_at: string;
+  // Short-lived signed URL; the bucket is private
+  url: string | null;
+}
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Object names keep the original name readable but never contain path separators
+const toObjectName = (fileName: string) =>
+  `${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, "_").slice(-100)}`;
+
+/**
+ * Uploads prepared files into the incident's folder and records them.
+ * Files are uploaded one at a time so a slow mobile connection is not
+ * saturated; the first failure aborts the rest.
+ */
+export const uploadIncidentAttachments = async (
+  organizationId: string,
+  incidentId: string,
+  userId: string,
+  attachments: PreparedAttachment[]
+) => {
+  for (const { file, width, height, gps } of attachments) {
+    const storagePath = `${organizationId}/${incidentId}/${toObjectName(file.name)}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, file, { contentType: file.type || "application/octet-stream" });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from("incident_attachments").insert({
+      incident_id: incidentId,
+      organization_id: organizationId,
+      storage_path: storagePath,
+      file_name: file.name,
+      content_type: file.type || "application/octet-stream",
+      size_bytes: file.size,
+      width,
+      height,
+      latitude: gps?.latitude ?? null,
+      longitude: gps?.longitude ?? null,
+      uploaded_by: userId,
+    });
+    if (error) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([storagePath]);
+      throw error;
+    }
+  }
+};
+
+// Attachments of an incident, oldest first, kept live via realtime
+export const useIncidentAttachments = (incidentId: string | null) => {
+  const queryClient = useQueryClient();
+  const { user, currentOrganization } = useAuth();
+
+  useEffect(() => {
+    if (!incidentId) return;
+
+    const channel = supabase
+      .channel(`incident-attachments-${incidentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "incident_attachments",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["incident-attachments", incidentId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [incidentId, queryClient]);
+
+  const attachments = useQuery({
+    queryKey: ["incident-attachments", incidentId],
+    queryFn: async (): Promise<IncidentAttachment[]> => {
+      if (!incidentId) return [];
+
+      const { data, error } = await supabase
+        .from("incident_attachments")
+        .select("*")
+        .eq("incident_id", incidentId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching attachments:", error);
+        throw error;
+      }
+      if (!data || data.length === 0) return [];
+
+      const { data: signed } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(data.map((row) => row.storage_path), SIGNED_URL_TTL_SECONDS);
+      const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+
+      return data.map((row) => ({ ...row, url: urls.get(row.storage_path) ?? null }));
+    },
+    enabled: !!incidentId,
+    // Refresh before the signed URLs expire
+    staleTime: (SIGNED_URL_TTL_SECONDS / 2) * 1000,
+    refetchInterval: (SIGNED_URL_TTL_SECONDS / 2) * 1000,
+  });
+
+  const upload = useMutation({
+    mutationFn: async (files: PreparedAttachment[]) => {
+      if (!incidentId || !user || !currentOrganization) throw new Error("Not signed in");
+      await uploadIncidentAttachments(currentOrganization.id, incidentId, user.id, files);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["incident-attachments", incidentId] }),
+  });
+
+  // The row is removed first so a failed storage delete never leaves a dangling record
+  const remove = useMutation({
+    mutationFn: async (attachment: IncidentAttachment) => {
+      const { error } = await supabase.from("incident_attachments").delete().eq("id", attachment.id);
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .remove([attachment.storage_path]);
+      if (storageError) console.error("Failed to delete attachment file:", storageError);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["incident-attachments", incidentId] }),
+  });
+
+  return { attachments, upload, remove };
+};
@@ -9,6 +9,7 @@ export interface AuditLogEntry {
   incident_id: string | null;
   metadata: Record<string, unknown> | null;
   created_at: string;
+  seq: number | null;
 }
 
 export const useIncidentAuditLogs = (incidentId: string | null) => {
@@ -34,36 +35,76 @@ export const useIncidentAuditLogs = (incidentId: string | null) => {
   });
 };
 
-export const getActionLabel = (action: string): string => {
-  const actionLabels: Record<string, string> = {
-    incident_created: "Incident Created",
-    incident_updated: "Incident Updated",
-    incident_resolved: "Incident Resolved",
-    incident_escalated: "Incident Escalated",
-    ai_analysis_completed: "AI Analysis Completed",
-    ai_analysis_failed: "AI Analysis Failed",
-    whatsapp_alert_generated: "WhatsApp Alert Sent",
-    sms_alert_generated: "SMS Alert Sent",
-    bulk_emergency_alerts_generated: "Bulk Alerts Generated",
-    call_initiated: "Call Initiated",
-    helper_notified: "Helper Notified",
-  };
-  return actionLabels[action] || action.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+export const actionLabels: Record<string, string> = {
+  incident_created: "Incident Created",
+  incident_updated: "Incident Updated",
+  incident_resolved: "Incident Resolved",
+  incident_escalated: "Incident Escalated",
+  incident_status_changed: "Status Changed",
+  incident_assigned: "Incident Assigned",
+  incident_unassigned: "Incident Unassigned",
+  ai_analysis_completed: "AI Analysis Completed",
+  ai_analysis_failed: "AI Analysis Failed",
+  severity_overridden: "Severity Overridden",
+  severity_override_cleared: "Severity Override Removed",
+  whatsapp_alert_generated: "WhatsApp Alert Sent",
+  sms_alert_generated: "SMS Alert Prepared",
+  sms_alert_sent: "SMS Alert Sent",
+  sms_alert_failed: "SMS Alert Failed",
+  bulk_emergency_alerts_generated: "Bulk Alerts Generated",
+  bulk_emergency_alerts_sent: "Bulk SMS Alerts Sent",
+  call_initiated: "Call Initiated",
+  helper_responded: "Helper Responded",
+  escalation_step_executed: "Escalation Step Executed",
+  escalation_stopped: "Escalation Stopped",
+  email_alert_sent: "Alert Email Sent",
+  email_alert_captured: "Alert Email Captured (not sent)",
+  email_alert_failed: "Alert Email Failed",
+  helper_notified: "Helper Notified",
+  attachment_added: "Attachment Added",
+  attachment_removed: "Attachment Removed",
+  incident_merged: "Merged Into Incident",
+  incidents_merged: "Duplicates Merged",
+  incident_unmerged: "Incident Unmerged",
+  sla_breached: "SLA Target Missed",
 };
 
+export const getActionLabel = (action: string): string =>
+  actionLabels[action] || action.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+
 export const getActionIcon = (action: string): string => {
   const actionIcons: Record<string, string> = {
     incident_created: "🆕",
     incident_updated: "✏️",
     incident_resolved: "✅",
     incident_escalated: "⬆️",
+    incident_status_changed: "🔄",
+    incident_assigned: "🙋",
+    incident_unassigned: "🚫",
     ai_analysis_completed: "🤖",
     ai_analysis_failed: "❌",
+    severity_overridden: "⚖️",
+    severity_override_cleared: "↩️",
     whatsapp_alert_generated: "💬",
     sms_alert_generated: "📱",
+    sms_alert_sent: "📱",
+    sms_alert_failed: "❌",
     bulk_emergency_alerts_generated: "📢",
+    bulk_emergency_alerts_sent: "📢",
     call_initiated: "📞",
+    helper_responded: "🙌",
+    escalation_step_executed: "🚨",
+    escalation_stopped: "🛑",
+    email_alert_sent: "📧",
+    email_alert_captured: "🧪",
+    email_alert_failed: "❌",
     helper_notified: "👤",
+    attachment_added: "📎",
+    attachment_removed: "🗑️",
+    incident_merged: "🔗",
+    incidents_merged: "🧩",
+    incident_unmerged: "✂️",
+    sla_breached: "⏰",
   };
   return actionIcons[action] || "📋";
 };
@@ -0,0 +1,178 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { incidentsKey, toIncident } from "@/hooks/useIncidents";
+import { Database } from "@/integrations/supabase/types";
+import { Incident, IncidentSeverity, IncidentStatus, IncidentType } from "@/types/incident";
+
+export interface IncidentHistoryFilters {
+  search: string;
+  status: IncidentStatus | "all";
+  type: IncidentType | "all";
+  severity: IncidentSeverity | "all";
+  assignment: "all" | "mine";
+  // A zone id, or 'none' for incidents outside every zone
+  zone: string;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+}
+
+export const emptyIncidentHistoryFilters: IncidentHistoryFilters = {
+  search: "",
+  status: "all",
+  type: "all",
+  severity: "all",
+  assignment: "all",
+  zone: "all",
+  dateFrom: null,
+  dateTo: null,
+};
+
+// Type, severity and status sort in their enum order, not alphabetically.
+// Relevance only applies while searching.
+export type IncidentSortField = "relevance" | "created_at" | "type" | "severity" | "status";
+
+export interface IncidentSort {
+  field: IncidentSortField;
+  ascending: boolean;
+}
+
+export const defaultIncidentSort: IncidentSort = { field: "created_at", ascending: false };
+export const relevanceSort: IncidentSort = { field: "relevance", ascending: false };
+
+export const INCIDENT_HISTORY_PAGE_SIZE = 10;
+
+export type IncidentSearchSnippet = Database["public"]["Functions"]["incident_search_snippets"]["Returns"][number];
+
+// A word is needed for a search; punctuation alone searches nothing
+export const hasSearchTerms = (search: string) => /[\p{L}\p{N}]/u.test(search);
+
+// Searching goes through search_incidents, which returns matches best first
+const baseQuery = (organizationId: string, search: string) =>
+  hasSearchTerms(search)
+    ? supabase.rpc("search_incidents", { _organization_id: organizationId, _search: search }, { count: "exact" })
+    : supabase.from("incidents").select("*", { count: "exact" }).eq("organization_id", organizationId);
+
+const buildQuery = (organizationId: string, userId: string | undefined, filters: IncidentHistoryFilters) => {
+  let query = baseQuery(organizationId, filters.search);
+
+  if (filters.status !== "all") {
+    query = query.eq("status", filters.status);
+  }
+
+  if (filters.type !== "all") {
+    query = query.eq("type", filters.type);
+  }
+
+  if (filters.severity !== "all") {
+    query = query.eq("severity", filters.severity);
+  }
+
+  if (filters.assignment === "mine" && userId) {
+    query = query.or(`assigned_to.eq.${userId},secondary_assignee.eq.${userId}`);
+  }
+
+  if (filters.zone === "none") {
+    query = query.is("zone_id", null);
+  } else if (filters.zone !== "all") {
+    query = query.eq("zone_id", filters.zone);
+  }
+
+  if (filters.dateFrom) {
+    query = query.gte("created_at", filters.dateFrom.toISOString());
+  }
+
+  if (filters.dateTo) {
+    const endOfDay = new Date(filters.dateTo);
+    endOfDay.setHours(23, 59, 59, 999);
+    query = query.lte("created_at", endOfDay.toISOString());
+  }
+
+  return query;
+};
+
+const fetchSnippets = async (search: string, incidentIds: string[]) => {
+  const { data, error } = await supabase.rpc("incident_search_snippets", {
+    _search: search,
+    _incident_ids: incidentIds,
+  });
+
+  // Results are still useful without their excerpts
+  if (error) {
+    console.error("Error fetching search snippets:", error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map((snippet) => [snippet.incident_id, snippet]));
+};
+
+/**
+ * One page of the current organization's incidents, filtered, sorted and
+ * counted server-side. While searching, each incident comes with a
+ * highlighted excerpt of where the search matched.
+ */
+export const useIncidentHistory = (filters: IncidentHistoryFilters, sort: IncidentSort, page: number) => {
+  const { currentOrganization, user } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: [...incidentsKey(organizationId), "history", filters, sort, page, user?.id],
+    enabled: !!organizationId,
+    placeholderData: keepPreviousData,
+    queryFn: async (): Promise<{
+      incidents: Incident[];
+      total: number;
+      snippets: Record<string, IncidentSearchSnippet>;
+    }> => {
+      const searching = hasSearchTerms(filters.search);
+      const from = (page - 1) * INCIDENT_HISTORY_PAGE_SIZE;
+      let query = buildQuery(organizationId!, user?.id, filters);
+
+      // Without an explicit order search results stay best match first
+      const order = sort.field === "relevance" ? (searching ? null : defaultIncidentSort) : sort;
+      if (order) {
+        query = query.order(order.field, { ascending: order.ascending });
+        // Newest first among equal values, then by id so pages never overlap
+        if (order.field !== "created_at") {
+          query = query.order("created_at", { ascending: false });
+        }
+        query = query.order("id", { ascending: true });
+      }
+
+      const { data, error, count } = await query.range(from, from + INCIDENT_HISTORY_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("Error fetching incident history:", error);
+        throw error;
+      }
+
+      const incidents = (data || []).map(toIncident);
+      const snippets =
+        searching && incidents.length > 0
+          ? await fetchSnippets(filters.search, incidents.map((incident) => incident.id))
+          : {};
+
+      return { incidents, total: count ?? 0, snippets };
+    },
+  });
+};
+
+// PostgREST caps a single response at 1000 rows
+const EXPORT_BATCH_SIZE = 1000;
+
+// The given incidents as currently stored, read through export_incidents, which requires can_export
+export const fetchIncidentsForExport = async (organizationId: string, incidentIds: string[]): Promise<Incident[]> => {
+  const incidents: Incident[] = [];
+
+  for (let from = 0; from < incidentIds.length; from += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase.rpc("export_incidents", {
+      _organization_id: organizationId,
+      _incident_ids: incidentIds.slice(from, from + EXPORT_BATCH_SIZE),
+    });
+
+    if (error) throw error;
+    incidents.push(...(data || []).map(toIncident));
+  }
+
+  return incidents;
+};
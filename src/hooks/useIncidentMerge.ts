@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Database } from "@/integrations/supabase/types";
+import { Incident } from "@/types/incident";
+
+export type DuplicateCandidate = Database["public"]["Functions"]["find_duplicate_incidents"]["Returns"][number];
+
+export interface DuplicateQuery {
+  type: string;
+  description: string;
+  latitude: number;
+  longitude: number;
+  // When checking an existing incident: leave it out and compare from its report time
+  excludeIncidentId?: string;
+  reportedAt?: string;
+}
+
+// Open incidents that look like the same event, best match first (scored by find_duplicate_incidents)
+export const useDuplicateCandidates = (query: DuplicateQuery | null) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: ["duplicate-incidents", organizationId, query],
+    queryFn: async (): Promise<DuplicateCandidate[]> => {
+      if (!organizationId || !query) return [];
+
+      const { data, error } = await supabase.rpc("find_duplicate_incidents", {
+        _organization_id: organizationId,
+        _type: query.type,
+        _description: query.description,
+        _latitude: query.latitude,
+        _longitude: query.longitude,
+        _exclude_incident_id: query.excludeIncidentId,
+        _reported_at: query.reportedAt,
+      });
+
+      if (error) {
+        console.error("Error finding duplicate incidents:", error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    enabled: !!organizationId && !!query,
+    staleTime: 30 * 1000,
+  });
+};
+
+export type GroupIncident = Pick<
+  Incident,
+  "id" | "type" | "description" | "location_name" | "status" | "created_at" | "merged_at"
+>;
+
+const GROUP_COLUMNS = "id, type, description, location_name, status, created_at, merged_at";
+
+// The parent of a merged incident, or the reports merged into a parent
+export const useIncidentGroup = (incident: Pick<Incident, "id" | "parent_incident_id">) => {
+  return useQuery({
+    queryKey: ["incident-group", incident.id, incident.parent_incident_id],
+    queryFn: async (): Promise<{ parent: GroupIncident | null; children: GroupIncident[] }> => {
+      if (incident.parent_incident_id) {
+        const { data, error } = await supabase
+          .from("incidents")
+          .select(GROUP_COLUMNS)
+          .eq("id", incident.parent_incident_id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return { parent: data as GroupIncident | null, children: [] };
+      }
+
+      const { data, error } = await supabase
+        .from("incidents")
+        .select(GROUP_COLUMNS)
+        .eq("parent_incident_id", incident.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return { parent: null, children: (data || []) as GroupIncident[] };
+    },
+  });
+};
+
+export const useMergeIncidents = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["duplicate-incidents"] });
+    queryClient.invalidateQueries({ queryKey: ["incident-group"] });
+    queryClient.invalidateQueries({ queryKey: ["incident-audit-logs"] });
+  };
+
+  const merge = useMutation({
+    mutationFn: async ({ parentId, incidentIds }: { parentId: string; incidentIds: string[] }) => {
+      const { data, error } = await supabase.rpc("merge_incidents", {
+        _parent_incident_id: parentId,
+        _incident_ids: incidentIds,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const unmerge = useMutation({
+    mutationFn: async (incidentId: string) => {
+      const { error } = await supabase.rpc("unmerge_incident", { _incident_id: incidentId });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return { merge, unmerge };
+};
@@ -0,0 +1,113 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Database } from "@/integrations/supabase/types";
+
+export type NoteVisibility = Database["public"]["Enums"]["note_visibility"];
+
+export interface IncidentNote {
+  id: string;
+  incident_id: string;
+  parent_id: string | null;
+  author_id: string;
+  author_email: string | null;
+  author_name: string | null;
+  body: string;
+  visibility: NoteVisibility;
+  mentions: string[];
+  created_at: string;
+}
+
+export interface NewIncidentNote {
+  body: string;
+  visibility: NoteVisibility;
+  mentions: string[];
+  parentId?: string | null;
+}
+
+export const MAX_NOTE_LENGTH = 5000;
+
+// Internal notes stay with the response team; shareable ones go into shared reports
+export const noteVisibilityLabels: Record<NoteVisibility, string> = {
+  internal: "Internal",
+  shareable: "Shareable",
+};
+
+export const fetchIncidentNotes = async (incidentId: string): Promise<IncidentNote[]> => {
+  const { data, error } = await supabase
+    .from("incident_notes")
+    .select("*")
+    .eq("incident_id", incidentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as IncidentNote[];
+};
+
+// Notes on an incident, oldest first. With live set, new notes arrive via
+// realtime; other readers of the same incident share the cached query.
+export const useIncidentNotes = (incidentId: string | null, live = true) => {
+  const queryClient = useQueryClient();
+  const { user, currentOrganization } = useAuth();
+
+  useEffect(() => {
+    if (!incidentId || !live) return;
+
+    const channel = supabase
+      .channel(`incident-notes-${incidentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "incident_notes",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["incident-notes", incidentId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [incidentId, live, queryClient]);
+
+  const notes = useQuery({
+    queryKey: ["incident-notes", incidentId],
+    queryFn: async (): Promise<IncidentNote[]> => {
+      if (!incidentId) return [];
+
+      try {
+        return await fetchIncidentNotes(incidentId);
+      } catch (error) {
+        console.error("Error fetching incident notes:", error);
+        throw error;
+      }
+    },
+    enabled: !!incidentId,
+  });
+
+  // The database overwrites author, timestamp and organization from the session and incident
+  const addNote = useMutation({
+    mutationFn: async (note: NewIncidentNote) => {
+      if (!incidentId || !user || !currentOrganization) throw new Error("Not signed in");
+
+      const { error } = await supabase.from("incident_notes").insert({
+        incident_id: incidentId,
+        organization_id: currentOrganization.id,
+        author_id: user.id,
+        body: note.body.trim(),
+        visibility: note.visibility,
+        mentions: note.mentions,
+        parent_id: note.parentId ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["incident-notes", incidentId] }),
+  });
+
+  return { notes, addNote };
+};
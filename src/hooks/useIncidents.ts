@@ -1,88 +1,233 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo } from 'react';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Incident, AIAnalysis, IncidentSeverity } from '@/types/incident';
+import { Incident } from '@/types/incident';
 import { useToast } from '@/hooks/use-toast';
+import { validateAIAnalysis } from '@/lib/aiAnalysis';
+import { useAuth } from '@/contexts/AuthContext';
+import { isOpenStatus, openStatuses } from '@/lib/incidentLifecycle';
+import { Tile, tileContains } from '@/lib/mapTiles';
 
-// Validate and transform AI analysis from database
-const validateAIAnalysis = (data: unknown): AIAnalysis | null => {
-  if (!data || typeof data !== 'object') return null;
-  
-  const analysis = data as Record<string, unknown>;
-  const validSeverities: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
-  
-  return {
-    severity: validSeverities.includes(analysis.severity as IncidentSeverity)
-      ? (analysis.severity as IncidentSeverity)
-      : 'medium',
-    immediateActions: Array.isArray(analysis.immediateActions)
-      ? analysis.immediateActions.filter((a): a is string => typeof a === 'string')
-      : [],
-    resourceRecommendations: Array.isArray(analysis.resourceRecommendations)
-      ? analysis.resourceRecommendations.filter((r): r is string => typeof r === 'string')
-      : [],
-    reasoning: typeof analysis.reasoning === 'string'
-      ? analysis.reasoning
-      : 'Analysis unavailable',
-  };
+// Closed incidents stay on the dashboard this long; older ones are on the History page
+export const RECENT_INCIDENT_DAYS = 7;
+
+export const incidentsKey = (organizationId?: string) => ['incidents', organizationId];
+
+const listKey = (organizationId?: string) => [...incidentsKey(organizationId), 'list'];
+
+const storeKey = (organizationId?: string) => [...incidentsKey(organizationId), 'store'];
+
+export const incidentMapKey = (organizationId?: string) => [...incidentsKey(organizationId), 'map'];
+
+type IncidentStore = Record<string, Incident>;
+
+export const toIncident = (row: Record<string, unknown>) =>
+  ({ ...row, ai_analysis: validateAIAnalysis(row.ai_analysis) }) as Incident;
+
+/**
+ * Puts fetched incidents into the organization's shared store and returns
+ * their ids, in order. Dashboard list and map queries cache only these ids,
+ * so every view shows the same copy of an incident.
+ */
+export const storeIncidents = (queryClient: QueryClient, organizationId: string, incidents: Incident[]) => {
+  queryClient.setQueryData<IncidentStore>(storeKey(organizationId), (current) => ({
+    ...current,
+    ...Object.fromEntries(incidents.map(incident => [incident.id, incident])),
+  }));
+  return incidents.map(incident => incident.id);
+};
+
+// The stored incidents with the given ids, in order
+export const useStoredIncidents = (ids: string[] | undefined) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+  const queryClient = useQueryClient();
+
+  const { data: store } = useQuery({
+    queryKey: storeKey(organizationId),
+    enabled: !!organizationId,
+    // Filled by storeIncidents and realtime changes, never fetched itself
+    queryFn: () => queryClient.getQueryData<IncidentStore>(storeKey(organizationId)) ?? {},
+    staleTime: Infinity,
+    // Cached id lists outlive their observers and must still resolve
+    gcTime: Infinity,
+  });
+
+  return useMemo(() => (ids ?? []).flatMap(id => store?.[id] ?? []), [ids, store]);
+};
+
+export const useStoredIncident = (id: string | null) => {
+  const ids = useMemo(() => (id ? [id] : []), [id]);
+  return useStoredIncidents(ids)[0] ?? null;
+};
+
+const prependId = (ids: string[] | undefined, id: string) =>
+  ids && !ids.includes(id) ? [id, ...ids] : ids;
+
+const removeId = (ids: string[] | undefined, id: string) =>
+  ids?.includes(id) ? ids.filter(other => other !== id) : ids;
+
+// Adds the incident's id where it belongs among newest-first ids, unless it's listed already
+const insertId = (ids: string[] | undefined, incident: Incident, store: IncidentStore) => {
+  if (!ids || ids.includes(incident.id)) return ids;
+  const createdAt = new Date(incident.created_at).getTime();
+  const index = ids.findIndex(id => !store[id] || new Date(store[id].created_at).getTime() < createdAt);
+  return index === -1 ? [...ids, incident.id] : [...ids.slice(0, index), incident.id, ...ids.slice(index)];
+};
+
+const isRecent = (incident: Incident) =>
+  new Date(incident.created_at).getTime() >= Date.now() - RECENT_INCIDENT_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Applies a realtime change to the cached incidents in place, so a change
+ * costs no request: the incident itself in the store, and its id in the
+ * dashboard list and the map's open incidents. A new incident goes first; an
+ * updated one keeps its place, or joins in created_at order when the change
+ * brings it into a list. Every step is keyed by id, which makes applying the
+ * same event twice harmless. Server-filtered history pages and map tiles
+ * can't be patched this way (a change may move an incident onto or off them),
+ * so they refetch.
+ */
+export const applyIncidentChange = (
+  queryClient: QueryClient,
+  organizationId: string,
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>
+) => {
+  const mapKey = incidentMapKey(organizationId);
+
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id as string;
+    queryClient.setQueryData<IncidentStore>(storeKey(organizationId), (current) => {
+      if (!current?.[id]) return current;
+      const next = { ...current };
+      delete next[id];
+      return next;
+    });
+    queryClient.setQueryData<string[]>(listKey(organizationId), (ids) => removeId(ids, id));
+    queryClient.setQueryData<string[]>([...mapKey, 'active'], (ids) => removeId(ids, id));
+  } else {
+    const incident = toIncident(payload.new);
+    storeIncidents(queryClient, organizationId, [incident]);
+    const store = queryClient.getQueryData<IncidentStore>(storeKey(organizationId)) ?? {};
+    const addId = (ids: string[] | undefined) =>
+      payload.eventType === 'INSERT' ? prependId(ids, incident.id) : insertId(ids, incident, store);
+    const isOpen = isOpenStatus(incident.status);
+
+    // An incident that has left the list's window stays until the list is refetched
+    queryClient.setQueryData<string[]>(listKey(organizationId), (ids) =>
+      isOpen || isRecent(incident) ? addId(ids) : ids
+    );
+    queryClient.setQueryData<string[]>([...mapKey, 'active'], (ids) =>
+      isOpen ? addId(ids) : removeId(ids, incident.id)
+    );
+  }
+
+  // Refetch the tiles the incident is in now and those that listed it before
+  const id = (payload.eventType === 'DELETE' ? payload.old.id : payload.new.id) as string;
+  const row = payload.new as Partial<Incident>;
+  queryClient.invalidateQueries({
+    queryKey: mapKey,
+    predicate: (query) =>
+      query.queryKey[3] === 'tile' &&
+      ((row.latitude !== undefined &&
+        row.longitude !== undefined &&
+        tileContains(query.queryKey[5] as Tile, row.latitude, row.longitude)) ||
+        !!(query.state.data as string[] | undefined)?.includes(id)),
+  });
+
+  queryClient.invalidateQueries({ queryKey: [...incidentsKey(organizationId), 'history'] });
+};
+
+// One channel per organization, shared by every component showing its incidents
+const channels = new Map<string, { channel: RealtimeChannel; subscribers: number }>();
+
+/**
+ * Keeps the organization's cached incidents current while mounted. However
+ * many components use it, the organization has one realtime channel, so each
+ * change is applied once.
+ */
+export const useIncidentsRealtime = (organizationId?: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    const subscription = channels.get(organizationId) ?? {
+      channel: supabase
+        .channel(`incidents-changes-${organizationId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'incidents',
+            filter: `organization_id=eq.${organizationId}`,
+          },
+          (payload) => applyIncidentChange(queryClient, organizationId, payload)
+        )
+        .subscribe(),
+      subscribers: 0,
+    };
+    subscription.subscribers++;
+    channels.set(organizationId, subscription);
+
+    return () => {
+      subscription.subscribers--;
+      if (subscription.subscribers === 0) {
+        channels.delete(organizationId);
+        supabase.removeChannel(subscription.channel);
+      }
+    };
+  }, [organizationId, queryClient]);
 };
 
+/**
+ * The current organization's open incidents and those reported in the last
+ * RECENT_INCIDENT_DAYS days, kept current via realtime.
+ */
 export function useIncidents() {
-  const [incidents, setIncidents] = useState<Incident[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+  const queryClient = useQueryClient();
 
-  const fetchIncidents = async () => {
-    try {
+  const query = useQuery({
+    queryKey: listKey(organizationId),
+    enabled: !!organizationId,
+    // Realtime changes keep the cache current, so remounting needn't refetch
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<string[]> => {
+      const since = new Date(Date.now() - RECENT_INCIDENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
       const { data, error } = await supabase
         .from('incidents')
         .select('*')
+        .eq('organization_id', organizationId!)
+        .or(`status.in.(${openStatuses.join(',')}),created_at.gte.${since}`)
         .order('created_at', { ascending: false });
 
-      if (error) {
-        toast({
-          variant: 'destructive',
-          title: 'Error fetching incidents',
-          description: error.message,
-        });
-        setIncidents([]);
-      } else {
-        // Transform the data to match our Incident type with validation
-        const transformedData = (data || []).map(item => ({
-          ...item,
-          ai_analysis: validateAIAnalysis(item.ai_analysis),
-        })) as Incident[];
-        setIncidents(transformedData);
-      }
-    } catch (e) {
-      console.error('Error fetching incidents:', e);
-      setIncidents([]);
-    }
-    setIsLoading(false);
-  };
+      if (error) throw error;
+      return storeIncidents(queryClient, organizationId!, (data || []).map(toIncident));
+    },
+  });
+
+  const incidents = useStoredIncidents(query.data);
 
   useEffect(() => {
-    fetchIncidents();
-
-    // Set up realtime subscription
-    const channel = supabase
-      .channel('incidents-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'incidents',
-        },
-        () => {
-          fetchIncidents();
-        }
-      )
-      .subscribe();
+    if (!query.error) return;
+    console.error('Error fetching incidents:', query.error);
+    toast({
+      variant: 'destructive',
+      title: 'Error fetching incidents',
+      description: query.error.message,
+    });
+  }, [query.error, toast]);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  useIncidentsRealtime(organizationId);
 
-  return { incidents, isLoading, refetch: fetchIncidents };
+  return {
+    incidents,
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
 }
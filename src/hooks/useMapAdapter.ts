@@ -0,0 +1,57 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { useAppSettings } from "@/hooks/useAppSettings";
+import { createMapAdapter } from "@/lib/mapAdapter";
+import { MapAdapter } from "@/types/map";
+
+// The organization's configured map, mounted in the container. The map is
+// recreated when the map_provider setting changes; callers redraw their
+// markers and shapes whenever the adapter changes.
+export const useMapAdapter = (
+  containerRef: RefObject<HTMLElement>,
+  { minZoom = 1, cursor }: { minZoom?: number; cursor?: string } = {}
+) => {
+  const { settings, isLoading: settingsLoading } = useAppSettings();
+  const [adapter, setAdapter] = useState<MapAdapter | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Read at creation without re-creating the map when the center changes
+  const defaultCenterRef = useRef(settings.map_default_center);
+  defaultCenterRef.current = settings.map_default_center;
+  const providerConfig = JSON.stringify(settings.map_provider);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (settingsLoading || !container) return;
+
+    let cancelled = false;
+    let created: MapAdapter | null = null;
+    const { lat, lng, zoom } = defaultCenterRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    createMapAdapter(container, { center: { lat, lng }, zoom: Math.max(zoom, minZoom), cursor }, JSON.parse(providerConfig))
+      .then((next) => {
+        if (cancelled) {
+          next.destroy();
+          return;
+        }
+        created = next;
+        setAdapter(next);
+      })
+      .catch((e: Error) => {
+        console.error("Error initializing map:", e);
+        if (!cancelled) setError(e.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      created?.destroy();
+      setAdapter(null);
+    };
+  }, [containerRef, providerConfig, settingsLoading, minZoom, cursor]);
+
+  return { adapter, isLoading: settingsLoading || isLoading, error };
+};
@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import { UseQueryResult, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  incidentMapKey,
+  storeIncidents,
+  toIncident,
+  useIncidentsRealtime,
+  useStoredIncidents,
+} from "@/hooks/useIncidents";
+import { openStatuses } from "@/lib/incidentLifecycle";
+import { tileBounds, tilesFor } from "@/lib/mapTiles";
+import { MapViewport } from "@/types/map";
+
+// Incidents per tile request; a busier tile only shows its newest incidents
+const TILE_INCIDENT_LIMIT = 2000;
+
+// An incident moved to another tile is in both until the old tile refetches
+const combineTiles = (results: UseQueryResult<string[]>[]) => ({
+  ids: [...new Set(results.flatMap((result) => result.data ?? []))],
+  isFetching: results.some((result) => result.isFetching),
+});
+
+/**
+ * Incidents for the incident map. Open incidents are always loaded; older
+ * ones only for the tiles in view and from `since` on. Tiles are cached
+ * separately, so panning only fetches the tiles that came into view, and a
+ * realtime change only refetches the tiles it falls in. Incidents come from
+ * the shared store, so the map shows the same copy as the incident list.
+ */
+export const useMapIncidents = (viewport: MapViewport | null, since: string | null) => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+  const queryClient = useQueryClient();
+
+  const active = useQuery({
+    queryKey: [...incidentMapKey(organizationId), "active"],
+    enabled: !!organizationId,
+    // Realtime changes keep the cache current, so remounting needn't refetch
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase
+        .from("incidents")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .in("status", openStatuses)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return storeIncidents(queryClient, organizationId!, (data || []).map(toIncident));
+    },
+  });
+
+  const tiles = useMemo(() => (viewport && since ? tilesFor(viewport) : []), [viewport, since]);
+
+  const tileResults = useQueries({
+    queries: tiles.map((tile) => ({
+      queryKey: [...incidentMapKey(organizationId), "tile", since, tile],
+      enabled: !!organizationId,
+      staleTime: 5 * 60 * 1000,
+      queryFn: async (): Promise<string[]> => {
+        const { south, west, north, east } = tileBounds(tile);
+        const { data, error } = await supabase.rpc("get_incidents_in_bounds", {
+          _organization_id: organizationId!,
+          _south: south,
+          _west: west,
+          _north: north,
+          _east: east,
+          _since: since!,
+          _limit: TILE_INCIDENT_LIMIT,
+        });
+
+        if (error) throw error;
+        return storeIncidents(queryClient, organizationId!, (data || []).map(toIncident));
+      },
+    })),
+    combine: combineTiles,
+  });
+
+  useIncidentsRealtime(organizationId);
+
+  return {
+    activeIncidents: useStoredIncidents(active.data),
+    viewportIncidents: useStoredIncidents(tileResults.ids),
+    isLoading: active.isLoading,
+    error: active.error,
+    isFetchingTiles: tileResults.isFetching,
+  };
+};
@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+
+const myInvitationsKey = (userId?: string) => ["my-invitations", userId];
+
+// Invitations to join organizations sent to the signed-in user's confirmed email address
+export const useMyInvitations = () => {
+  const queryClient = useQueryClient();
+  const { user, refreshOrganizations, switchOrganization } = useAuth();
+  const userId = user?.id;
+
+  const invitations = useQuery({
+    queryKey: myInvitationsKey(userId),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("list_my_organization_invitations");
+
+      if (error) {
+        console.error("Error fetching invitations:", error);
+        throw error;
+      }
+
+      return data || [];
+    },
+  });
+
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: myInvitationsKey(userId) });
+
+  const acceptInvitation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("accept_organization_invitation", { _invitation_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: async (member) => {
+      await refreshOrganizations();
+      switchOrganization(member.organization_id);
+    },
+    onSettled,
+  });
+
+  const declineInvitation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("organization_invitations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSettled,
+  });
+
+  return { invitations, acceptInvitation, declineInvitation };
+};
@@ -4,6 +4,7 @@ import { NearbyHelper } from '@/types/helper';
 import { useToast } from '@/hooks/use-toast';
 
 interface UseNearbyHelpersOptions {
+  organizationId: string;
   latitude: number;
   longitude: number;
   radiusKm?: number;
@@ -11,6 +12,7 @@ interface UseNearbyHelpersOptions {
 }
 
 export function useNearbyHelpers({ 
+  organizationId,
   latitude, 
   longitude, 
   radiusKm = 2.0,
@@ -26,6 +28,7 @@ export function useNearbyHelpers({
     setIsLoading(true);
     try {
       const { data, error } = await supabase.rpc('find_nearby_helpers', {
+        org_id: organizationId,
         incident_lat: latitude,
         incident_lng: longitude,
         radius_km: radiusKm
@@ -54,7 +57,7 @@ export function useNearbyHelpers({
     } finally {
       setIsLoading(false);
     }
-  }, [latitude, longitude, radiusKm, enabled, toast]);
+  }, [organizationId, latitude, longitude, radiusKm, enabled, toast]);
 
   useEffect(() => {
     fetchNearbyHelpers();
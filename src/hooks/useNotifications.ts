@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Database } from "@/integrations/supabase/types";
+
+export type AppNotification = Database["public"]["Tables"]["notifications"]["Row"];
+
+const NOTIFICATIONS_LIMIT = 20;
+
+const notificationsKey = (organizationId?: string, userId?: string) => ["notifications", organizationId, userId];
+
+// Read state is per browser: notifications can be addressed to the whole
+// organization, so there is no row per reader to mark
+const readAtStorageKey = (organizationId?: string, userId?: string) =>
+  `aegis.notificationsReadAt.${organizationId}.${userId}`;
+
+/**
+ * The current user's most recent notifications (their own and those for the
+ * whole organization), written by the database, e.g. on SLA breaches. New
+ * ones arrive via realtime.
+ */
+export const useNotifications = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization, user } = useAuth();
+  const organizationId = currentOrganization?.id;
+  const storageKey = readAtStorageKey(organizationId, user?.id);
+  const [readAt, setReadAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReadAt(localStorage.getItem(storageKey));
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!organizationId || !user) return;
+
+    // RLS limits the events to notifications this user can read
+    const channel = supabase
+      .channel(`notifications-${organizationId}-${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `organization_id=eq.${organizationId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: notificationsKey(organizationId, user.id) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId, user, queryClient]);
+
+  const notifications = useQuery({
+    queryKey: notificationsKey(organizationId, user?.id),
+    enabled: !!organizationId && !!user,
+    queryFn: async (): Promise<AppNotification[]> => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT);
+
+      if (error) {
+        console.error("Error fetching notifications:", error);
+        throw error;
+      }
+
+      return data || [];
+    },
+  });
+
+  const isUnread = (notification: AppNotification) =>
+    !readAt || new Date(notification.created_at) > new Date(readAt);
+
+  const markAllRead = () => {
+    const now = new Date().toISOString();
+    localStorage.setItem(storageKey, now);
+    setReadAt(now);
+  };
+
+  return { notifications: notifications.data || [], isUnread, markAllRead };
+};
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { AppRole } from "@/lib/permissions";
+
+export interface Operator {
+  user_id: string;
+  full_name: string | null;
+  role: AppRole;
+}
+
+// Members of the current organization
+export const useOperators = () => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  return useQuery({
+    queryKey: ["assignable-operators", organizationId],
+    enabled: !!organizationId,
+    queryFn: async (): Promise<Operator[]> => {
+      const { data, error } = await supabase.rpc("list_assignable_operators", {
+        _organization_id: organizationId!,
+      });
+
+      if (error) {
+        console.error("Error fetching operators:", error);
+        throw error;
+      }
+
+      return (data || []) as Operator[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const getOperatorName = (
+  operators: Operator[] | undefined,
+  userId: string | null
+): string | null => {
+  if (!userId) return null;
+  const operator = operators?.find((o) => o.user_id === userId);
+  return operator?.full_name || "Unnamed operator";
+};
@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
+
+// The current user's permissions in the current organization, from the
+// role_permissions matrix. The database enforces the same matrix, so this
+// only decides what the UI offers.
+export const usePermissions = () => {
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const query = useQuery({
+    // The role is part of the key so a role change refetches
+    queryKey: ["permissions", organizationId, currentOrganization?.role],
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<Permission[]> => {
+      const { data, error } = await supabase.rpc("get_user_permissions", {
+        _organization_id: organizationId!,
+      });
+
+      if (error) {
+        console.error("Error fetching permissions:", error);
+        throw error;
+      }
+
+      return data || [];
+    },
+  });
+
+  const permissions = query.data;
+  const can = useCallback(
+    (permission: Permission) => !!permissions?.includes(permission),
+    [permissions]
+  );
+
+  return { permissions: permissions ?? [], can, isLoading: query.isLoading };
+};
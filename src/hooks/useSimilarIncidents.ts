@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type SimilarIncident = Database["public"]["Functions"]["find_similar_incidents"]["Returns"][number];
+
+// "embedding" when an embedding model ranked the matches, "trigram" for plain text similarity
+export type SimilarityMethod = "embedding" | "trigram";
+
+export interface SimilarIncidents {
+  method: SimilarityMethod;
+  model: string | null;
+  incidents: SimilarIncident[];
+}
+
+/**
+ * Past incidents most like this one, through the find-similar-incidents
+ * function. When the function is unreachable, trigram similarity is queried
+ * directly so the panel still has something to show.
+ */
+export const useSimilarIncidents = (incidentId: string) => {
+  return useQuery({
+    queryKey: ["similar-incidents", incidentId],
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<SimilarIncidents> => {
+      const { data, error } = await supabase.functions.invoke("find-similar-incidents", {
+        body: { incidentId },
+      });
+
+      if (!error && data && Array.isArray(data.incidents)) {
+        return data as SimilarIncidents;
+      }
+      console.error("Error finding similar incidents, using trigram similarity:", error ?? data?.error);
+
+      const { data: incidents, error: rpcError } = await supabase.rpc("find_similar_incidents", {
+        _incident_id: incidentId,
+      });
+
+      if (rpcError) {
+        console.error("Error finding similar incidents:", rpcError);
+        throw rpcError;
+      }
+
+      return { method: "trigram", model: null, incidents: incidents || [] };
+    },
+  });
+};
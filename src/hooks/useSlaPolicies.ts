@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { incidentsKey } from "@/hooks/useIncidents";
+import { severityRank } from "@/lib/severity";
+import { SlaPolicy, SlaPolicyInput } from "@/types/sla";
+
+const slaPoliciesKey = (organizationId?: string) => ["sla-policies", organizationId];
+
+export const useSlaPolicies = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const policies = useQuery({
+    queryKey: slaPoliciesKey(organizationId),
+    enabled: !!organizationId,
+    queryFn: async (): Promise<SlaPolicy[]> => {
+      const { data, error } = await supabase
+        .from("sla_policies")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching SLA policies:", error);
+        throw error;
+      }
+
+      // Most severe first, type-specific policies before the "any type" one
+      return [...(data || [])].sort(
+        (a, b) =>
+          severityRank[b.severity] - severityRank[a.severity] ||
+          Number(a.incident_type === null) - Number(b.incident_type === null) ||
+          (a.incident_type ?? "").localeCompare(b.incident_type ?? "")
+      );
+    },
+  });
+
+  // Saving a policy recomputes the due times of open incidents
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: slaPoliciesKey(organizationId) });
+    queryClient.invalidateQueries({ queryKey: incidentsKey(organizationId) });
+  };
+
+  const savePolicy = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: SlaPolicyInput }) => {
+      if (id) {
+        const { error } = await supabase.from("sla_policies").update(input).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("sla_policies")
+        .insert({ ...input, organization_id: organizationId, created_by: userData.user?.id });
+      if (error) throw error;
+    },
+    onSuccess,
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("sla_policies").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess,
+  });
+
+  return { policies, savePolicy, deletePolicy };
+};
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { Zone, ZoneInput } from "@/types/zone";
+
+const zonesKey = (organizationId?: string) => ["zones", organizationId];
+
+export const useZones = () => {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useAuth();
+  const organizationId = currentOrganization?.id;
+
+  const zones = useQuery({
+    queryKey: zonesKey(organizationId),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<Zone[]> => {
+      const { data, error } = await supabase
+        .from("zones")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .order("name", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching zones:", error);
+        throw error;
+      }
+
+      return (data || []) as unknown as Zone[];
+    },
+  });
+
+  const saveZone = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: ZoneInput }) => {
+      const row = { ...input, geometry: input.geometry as unknown as Json };
+      if (id) {
+        const { error } = await supabase.from("zones").update(row).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+
+      if (!organizationId) throw new Error("No organization selected");
+
+      const { error } = await supabase
+        .from("zones")
+        .insert({ ...row, organization_id: organizationId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: zonesKey(organizationId) }),
+  });
+
+  const deleteZone = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("zones").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: zonesKey(organizationId) }),
+  });
+
+  // Lookup by id for labelling incidents
+  const zonesById = useMemo(
+    () => new Map((zones.data || []).map((zone) => [zone.id, zone])),
+    [zones.data]
+  );
+
+  return { zones, zonesById, saveZone, deleteZone };
+};
@@ -18,6 +18,7 @@ export type Database = {
         Row: {
           id: string
           key: string
+          organization_id: string
           updated_at: string
           updated_by: string | null
           value: Json
@@ -25,6 +26,7 @@ export type Database = {
         Insert: {
           id?: string
           key: string
+          organization_id: string
           updated_at?: string
           updated_by?: string | null
           value: Json
@@ -32,11 +34,108 @@ export type Database = {
         Update: {
           id?: string
           key?: string
+          organization_id?: string
           updated_at?: string
           updated_by?: string | null
           value?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "admin_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_deliveries: {
+        Row: {
+          channel: string
+          created_at: string
+          error: string | null
+          escalation_step: number | null
+          helper_id: string | null
+          id: string
+          incident_id: string
+          message: string
+          organization_id: string
+          provider: string
+          provider_message_id: string | null
+          recipient: string
+          responded_at: string | null
+          response: string | null
+          response_channel: string | null
+          response_token: string | null
+          sent_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          channel?: string
+          created_at?: string
+          error?: string | null
+          escalation_step?: number | null
+          helper_id?: string | null
+          id?: string
+          incident_id: string
+          message: string
+          organization_id: string
+          provider: string
+          provider_message_id?: string | null
+          recipient: string
+          responded_at?: string | null
+          response?: string | null
+          response_channel?: string | null
+          response_token?: string | null
+          sent_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          error?: string | null
+          escalation_step?: number | null
+          helper_id?: string | null
+          id?: string
+          incident_id?: string
+          message?: string
+          organization_id?: string
+          provider?: string
+          provider_message_id?: string | null
+          recipient?: string
+          responded_at?: string | null
+          response?: string | null
+          response_channel?: string | null
+          response_token?: string | null
+          sent_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_deliveries_helper_id_fkey"
+            columns: ["helper_id"]
+            isOneToOne: false
+            referencedRelation: "helpers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_deliveries_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       audit_logs: {
         Row: {
@@ -47,6 +146,10 @@ export type Database = {
           id: string
           incident_id: string | null
           metadata: Json | null
+          organization_id: string
+          prev_hash: string | null
+          row_hash: string | null
+          seq: number | null
         }
         Insert: {
           action: string
@@ -56,6 +159,10 @@ export type Database = {
           id?: string
           incident_id?: string | null
           metadata?: Json | null
+          organization_id: string
+          prev_hash?: string | null
+          row_hash?: string | null
+          seq?: number | null
         }
         Update: {
           action?: string
@@ -65,6 +172,10 @@ export type Database = {
           id?: string
           incident_id?: string | null
           metadata?: Json | null
+          organization_id?: string
+          prev_hash?: string | null
+          row_hash?: string | null
+          seq?: number | null
         }
         Relationships: [
           {
@@ -74,6 +185,138 @@ export type Database = {
             referencedRelation: "incidents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "audit_logs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      captured_emails: {
+        Row: {
+          created_at: string
+          html: string
+          id: string
+          subject: string
+          text: string
+          to_address: string
+        }
+        Insert: {
+          created_at?: string
+          html: string
+          id?: string
+          subject: string
+          text: string
+          to_address: string
+        }
+        Update: {
+          created_at?: string
+          html?: string
+          id?: string
+          subject?: string
+          text?: string
+          to_address?: string
+        }
+        Relationships: []
+      }
+      escalation_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          incident_type: Database["public"]["Enums"]["incident_type"] | null
+          is_active: boolean
+          min_severity: Database["public"]["Enums"]["incident_severity"]
+          name: string
+          organization_id: string
+          steps: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          incident_type?: Database["public"]["Enums"]["incident_type"] | null
+          is_active?: boolean
+          min_severity?: Database["public"]["Enums"]["incident_severity"]
+          name: string
+          organization_id: string
+          steps?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          incident_type?: Database["public"]["Enums"]["incident_type"] | null
+          is_active?: boolean
+          min_severity?: Database["public"]["Enums"]["incident_severity"]
+          name?: string
+          organization_id?: string
+          steps?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      floor_plans: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          floor: number
+          id: string
+          label: string | null
+          organization_id: string
+          storage_path: string
+          updated_at: string
+          zone_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          floor: number
+          id?: string
+          label?: string | null
+          organization_id: string
+          storage_path: string
+          updated_at?: string
+          zone_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          floor?: number
+          id?: string
+          label?: string | null
+          organization_id?: string
+          storage_path?: string
+          updated_at?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "floor_plans_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "floor_plans_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
         ]
       }
       helpers: {
@@ -86,6 +329,7 @@ export type Database = {
           longitude: number
           mobile_number: string
           name: string
+          organization_id: string
           role: Database["public"]["Enums"]["helper_role"]
           updated_at: string
         }
@@ -98,6 +342,7 @@ export type Database = {
           longitude: number
           mobile_number: string
           name: string
+          organization_id: string
           role: Database["public"]["Enums"]["helper_role"]
           updated_at?: string
         }
@@ -110,61 +355,666 @@ export type Database = {
           longitude?: number
           mobile_number?: string
           name?: string
+          organization_id?: string
           role?: Database["public"]["Enums"]["helper_role"]
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "helpers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_analyses: {
+        Row: {
+          analysis: Json | null
+          created_at: string
+          error: string | null
+          id: string
+          image_count: number
+          incident_id: string
+          latency_ms: number | null
+          model: string
+          organization_id: string
+          parse_status: string
+          prompt_version: string
+          provider: string
+          raw_response: string | null
+          requested_by: string | null
+          severity: Database["public"]["Enums"]["incident_severity"] | null
+        }
+        Insert: {
+          analysis?: Json | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          image_count?: number
+          incident_id: string
+          latency_ms?: number | null
+          model: string
+          organization_id: string
+          parse_status: string
+          prompt_version: string
+          provider: string
+          raw_response?: string | null
+          requested_by?: string | null
+          severity?: Database["public"]["Enums"]["incident_severity"] | null
+        }
+        Update: {
+          analysis?: Json | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          image_count?: number
+          incident_id?: string
+          latency_ms?: number | null
+          model?: string
+          organization_id?: string
+          parse_status?: string
+          prompt_version?: string
+          provider?: string
+          raw_response?: string | null
+          requested_by?: string | null
+          severity?: Database["public"]["Enums"]["incident_severity"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_analyses_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_analyses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          height: number | null
+          id: string
+          incident_id: string
+          latitude: number | null
+          longitude: number | null
+          organization_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+          width: number | null
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          height?: number | null
+          id?: string
+          incident_id: string
+          latitude?: number | null
+          longitude?: number | null
+          organization_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+          width?: number | null
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          height?: number | null
+          id?: string
+          incident_id?: string
+          latitude?: number | null
+          longitude?: number | null
+          organization_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_attachments_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_attachments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_embeddings: {
+        Row: {
+          created_at: string
+          embedding: string
+          incident_id: string
+          model: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          embedding: string
+          incident_id: string
+          model: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          embedding?: string
+          incident_id?: string
+          model?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_embeddings_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: true
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_embeddings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_escalations: {
+        Row: {
+          created_at: string
+          current_step: number
+          incident_id: string
+          last_step_at: string | null
+          organization_id: string
+          policy_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_step?: number
+          incident_id: string
+          last_step_at?: string | null
+          organization_id: string
+          policy_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_step?: number
+          incident_id?: string
+          last_step_at?: string | null
+          organization_id?: string
+          policy_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_escalations_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: true
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_escalations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_escalations_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_notes: {
+        Row: {
+          author_email: string | null
+          author_id: string
+          author_name: string | null
+          body: string
+          created_at: string
+          id: string
+          incident_id: string
+          mentions: string[]
+          organization_id: string
+          parent_id: string | null
+          visibility: Database["public"]["Enums"]["note_visibility"]
+        }
+        Insert: {
+          author_email?: string | null
+          author_id: string
+          author_name?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          incident_id: string
+          mentions?: string[]
+          organization_id: string
+          parent_id?: string | null
+          visibility?: Database["public"]["Enums"]["note_visibility"]
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string
+          author_name?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          incident_id?: string
+          mentions?: string[]
+          organization_id?: string
+          parent_id?: string | null
+          visibility?: Database["public"]["Enums"]["note_visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_notes_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_notes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_notes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "incident_notes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       incidents: {
         Row: {
+          acknowledge_due_at: string | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
           ai_analysis: Json | null
+          ai_severity: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at: string | null
+          assigned_to: string | null
+          building_id: string | null
+          closed_at: string | null
+          closed_by: string | null
           created_at: string
+          current_analysis_id: string | null
           description: string
+          dispatch_due_at: string | null
+          dispatched_at: string | null
+          escalated_at: string | null
+          floor: number | null
+          floor_plan_id: string | null
+          floor_plan_x: number | null
+          floor_plan_y: number | null
           id: string
           latitude: number
           location_name: string | null
           longitude: number
+          merged_at: string | null
+          merged_by: string | null
+          on_scene_at: string | null
+          organization_id: string
+          parent_incident_id: string | null
           reported_by: string | null
+          resolve_due_at: string | null
           resolved_at: string | null
           resolved_by: string | null
+          room: string | null
+          secondary_assignee: string | null
           severity: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at: string | null
+          severity_overridden_by: string | null
+          severity_override: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason: string | null
+          sla_policy_id: string | null
           status: Database["public"]["Enums"]["incident_status"]
           type: Database["public"]["Enums"]["incident_type"]
           updated_at: string
+          zone_id: string | null
         }
         Insert: {
+          acknowledge_due_at?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           ai_analysis?: Json | null
+          ai_severity?: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          building_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
           created_at?: string
+          current_analysis_id?: string | null
           description: string
+          dispatch_due_at?: string | null
+          dispatched_at?: string | null
+          escalated_at?: string | null
+          floor?: number | null
+          floor_plan_id?: string | null
+          floor_plan_x?: number | null
+          floor_plan_y?: number | null
           id?: string
           latitude: number
           location_name?: string | null
           longitude: number
+          merged_at?: string | null
+          merged_by?: string | null
+          on_scene_at?: string | null
+          organization_id: string
+          parent_incident_id?: string | null
           reported_by?: string | null
+          resolve_due_at?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
+          room?: string | null
+          secondary_assignee?: string | null
           severity?: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at?: string | null
+          severity_overridden_by?: string | null
+          severity_override?: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason?: string | null
+          sla_policy_id?: string | null
           status?: Database["public"]["Enums"]["incident_status"]
           type: Database["public"]["Enums"]["incident_type"]
           updated_at?: string
+          zone_id?: string | null
         }
         Update: {
+          acknowledge_due_at?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           ai_analysis?: Json | null
+          ai_severity?: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          building_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
           created_at?: string
+          current_analysis_id?: string | null
           description?: string
+          dispatch_due_at?: string | null
+          dispatched_at?: string | null
+          escalated_at?: string | null
+          floor?: number | null
+          floor_plan_id?: string | null
+          floor_plan_x?: number | null
+          floor_plan_y?: number | null
           id?: string
           latitude?: number
           location_name?: string | null
           longitude?: number
+          merged_at?: string | null
+          merged_by?: string | null
+          on_scene_at?: string | null
+          organization_id?: string
+          parent_incident_id?: string | null
           reported_by?: string | null
+          resolve_due_at?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
+          room?: string | null
+          secondary_assignee?: string | null
           severity?: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at?: string | null
+          severity_overridden_by?: string | null
+          severity_override?: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason?: string | null
+          sla_policy_id?: string | null
           status?: Database["public"]["Enums"]["incident_status"]
           type?: Database["public"]["Enums"]["incident_type"]
           updated_at?: string
+          zone_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "incidents_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_current_analysis_id_fkey"
+            columns: ["current_analysis_id"]
+            isOneToOne: false
+            referencedRelation: "incident_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_floor_plan_id_fkey"
+            columns: ["floor_plan_id"]
+            isOneToOne: false
+            referencedRelation: "floor_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_parent_incident_id_fkey"
+            columns: ["parent_incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_sla_policy_id_fkey"
+            columns: ["sla_policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mock_sms_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          to_number: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          to_number: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          to_number?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          incident_id: string | null
+          kind: string
+          metadata: Json
+          organization_id: string
+          title: string
+          user_id: string | null
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          incident_id?: string | null
+          kind: string
+          metadata?: Json
+          organization_id: string
+          title: string
+          user_id?: string | null
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          incident_id?: string | null
+          kind?: string
+          metadata?: Json
+          organization_id?: string
+          title?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       profiles: {
         Row: {
@@ -193,6 +1043,123 @@ export type Database = {
         }
         Relationships: []
       }
+      role_permissions: {
+        Row: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      sla_breaches: {
+        Row: {
+          breached_at: string
+          due_at: string
+          id: string
+          incident_id: string
+          organization_id: string
+          policy_id: string | null
+          stage: string
+        }
+        Insert: {
+          breached_at?: string
+          due_at: string
+          id?: string
+          incident_id: string
+          organization_id: string
+          policy_id?: string | null
+          stage: string
+        }
+        Update: {
+          breached_at?: string
+          due_at?: string
+          id?: string
+          incident_id?: string
+          organization_id?: string
+          policy_id?: string | null
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_breaches_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_breaches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_breaches_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          acknowledge_minutes: number | null
+          created_at: string
+          created_by: string | null
+          dispatch_minutes: number | null
+          id: string
+          incident_type: Database["public"]["Enums"]["incident_type"] | null
+          is_active: boolean
+          organization_id: string
+          resolve_minutes: number | null
+          severity: Database["public"]["Enums"]["incident_severity"]
+          updated_at: string
+        }
+        Insert: {
+          acknowledge_minutes?: number | null
+          created_at?: string
+          created_by?: string | null
+          dispatch_minutes?: number | null
+          id?: string
+          incident_type?: Database["public"]["Enums"]["incident_type"] | null
+          is_active?: boolean
+          organization_id: string
+          resolve_minutes?: number | null
+          severity: Database["public"]["Enums"]["incident_severity"]
+          updated_at?: string
+        }
+        Update: {
+          acknowledge_minutes?: number | null
+          created_at?: string
+          created_by?: string | null
+          dispatch_minutes?: number | null
+          id?: string
+          incident_type?: Database["public"]["Enums"]["incident_type"] | null
+          is_active?: boolean
+          organization_id?: string
+          resolve_minutes?: number | null
+          severity?: Database["public"]["Enums"]["incident_severity"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -214,13 +1181,206 @@ export type Database = {
         }
         Relationships: []
       }
+      zones: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          floor_count: number | null
+          geometry: Json
+          id: string
+          max_latitude: number | null
+          max_longitude: number | null
+          min_latitude: number | null
+          min_longitude: number | null
+          name: string
+          organization_id: string
+          responsible_team: string | null
+          updated_at: string
+          zone_type: Database["public"]["Enums"]["zone_type"]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          floor_count?: number | null
+          geometry: Json
+          id?: string
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name: string
+          organization_id: string
+          responsible_team?: string | null
+          updated_at?: string
+          zone_type?: Database["public"]["Enums"]["zone_type"]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          floor_count?: number | null
+          geometry?: Json
+          id?: string
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name?: string
+          organization_id?: string
+          responsible_team?: string | null
+          updated_at?: string
+          zone_type?: Database["public"]["Enums"]["zone_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "zones_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_organization_invitation: {
+        Args: { _invitation_id: string }
+        Returns: Database["public"]["Tables"]["organization_members"]["Row"]
+      }
+      assign_incident: {
+        Args: {
+          _assignee: string
+          _incident_id: string
+          _secondary_assignee?: string
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+      }
+      attachment_path_organization: {
+        Args: { _name: string }
+        Returns: string
+      }
+      audit_log_hash: {
+        Args: { _entry: Database["public"]["Tables"]["audit_logs"]["Row"] }
+        Returns: string
+      }
+      create_organization: {
+        Args: { _name: string; _slug: string }
+        Returns: Database["public"]["Tables"]["organizations"]["Row"]
+      }
+      current_user_confirmed_email: { Args: never; Returns: string }
+      export_audit_logs: {
+        Args: { _organization_id: string }
+        Returns: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          incident_id: string | null
+          metadata: Json | null
+          organization_id: string
+          prev_hash: string | null
+          row_hash: string | null
+          seq: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "audit_logs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      export_incidents: {
+        Args: { _incident_ids: string[]; _organization_id: string }
+        Returns: {
+          acknowledge_due_at: string | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          ai_analysis: Json | null
+          ai_severity: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at: string | null
+          assigned_to: string | null
+          building_id: string | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          current_analysis_id: string | null
+          description: string
+          dispatch_due_at: string | null
+          dispatched_at: string | null
+          escalated_at: string | null
+          floor: number | null
+          floor_plan_id: string | null
+          floor_plan_x: number | null
+          floor_plan_y: number | null
+          id: string
+          latitude: number
+          location_name: string | null
+          longitude: number
+          merged_at: string | null
+          merged_by: string | null
+          on_scene_at: string | null
+          organization_id: string
+          parent_incident_id: string | null
+          reported_by: string | null
+          resolve_due_at: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          room: string | null
+          secondary_assignee: string | null
+          severity: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at: string | null
+          severity_overridden_by: string | null
+          severity_override: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason: string | null
+          sla_policy_id: string | null
+          status: Database["public"]["Enums"]["incident_status"]
+          type: Database["public"]["Enums"]["incident_type"]
+          updated_at: string
+          zone_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      find_duplicate_incidents: {
+        Args: {
+          _description: string
+          _exclude_incident_id?: string
+          _latitude: number
+          _limit?: number
+          _longitude: number
+          _organization_id: string
+          _reported_at?: string
+          _type: string
+        }
+        Returns: {
+          created_at: string
+          description: string
+          distance_m: number
+          incident_id: string
+          location_name: string
+          merged_count: number
+          minutes_apart: number
+          score: number
+          severity: Database["public"]["Enums"]["incident_severity"]
+          status: Database["public"]["Enums"]["incident_status"]
+          text_similarity: number
+          type: Database["public"]["Enums"]["incident_type"]
+        }[]
+      }
       find_nearby_helpers: {
-        Args: { incident_lat: number; incident_lng: number; radius_km?: number }
+        Args: {
+          incident_lat: number
+          incident_lng: number
+          org_id: string
+          radius_km?: number
+        }
         Returns: {
           distance_km: number
           id: string
@@ -231,9 +1391,127 @@ export type Database = {
           role: Database["public"]["Enums"]["helper_role"]
         }[]
       }
-      get_user_role: {
-        Args: { _user_id: string }
-        Returns: Database["public"]["Enums"]["app_role"]
+      find_similar_incidents: {
+        Args: { _incident_id: string; _limit?: number }
+        Returns: {
+          created_at: string
+          description: string
+          incident_id: string
+          location_name: string
+          severity: Database["public"]["Enums"]["incident_severity"]
+          similarity: number
+          status: Database["public"]["Enums"]["incident_status"]
+          type: Database["public"]["Enums"]["incident_type"]
+        }[]
+      }
+      find_zone_for_point: {
+        Args: {
+          _latitude: number
+          _longitude: number
+          _organization_id: string
+        }
+        Returns: string
+      }
+      flag_sla_breaches: { Args: never; Returns: number }
+      floor_plan_path_organization: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      geojson_contains_point: {
+        Args: {
+          _geometry: Json
+          _latitude: number
+          _longitude: number
+        }
+        Returns: boolean
+      }
+      geojson_polygons: {
+        Args: {
+          _geometry: Json
+        }
+        Returns: Json
+      }
+      get_incidents_in_bounds: {
+        Args: {
+          _east: number
+          _limit?: number
+          _north: number
+          _organization_id: string
+          _since?: string
+          _south: number
+          _west: number
+        }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          ai_analysis: Json | null
+          ai_severity: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at: string | null
+          assigned_to: string | null
+          building_id: string | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          current_analysis_id: string | null
+          description: string
+          dispatched_at: string | null
+          escalated_at: string | null
+          floor: number | null
+          floor_plan_id: string | null
+          floor_plan_x: number | null
+          floor_plan_y: number | null
+          id: string
+          latitude: number
+          location_name: string | null
+          longitude: number
+          merged_at: string | null
+          merged_by: string | null
+          on_scene_at: string | null
+          organization_id: string
+          parent_incident_id: string | null
+          reported_by: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          room: string | null
+          secondary_assignee: string | null
+          severity: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at: string | null
+          severity_overridden_by: string | null
+          severity_override: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason: string | null
+          status: Database["public"]["Enums"]["incident_status"]
+          type: Database["public"]["Enums"]["incident_type"]
+          updated_at: string
+          zone_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_user_permissions: {
+        Args: { _organization_id: string }
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      has_org_permission: {
+        Args: {
+          _organization_id: string
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_org_role: {
+        Args: {
+          _organization_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
       }
       has_role: {
         Args: {
@@ -242,13 +1520,209 @@ export type Database = {
         }
         Returns: boolean
       }
+      incident_search_query: {
+        Args: { _search: string }
+        Returns: unknown
+      }
+      incident_search_snippets: {
+        Args: { _incident_ids: string[]; _search: string }
+        Returns: {
+          incident_id: string
+          snippet: string
+          source: string
+        }[]
+      }
+      invite_organization_member: {
+        Args: {
+          _email: string
+          _organization_id: string
+          _role?: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: Database["public"]["Tables"]["organization_invitations"]["Row"]
+      }
+      is_org_member: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_valid_incident_status_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      list_assignable_operators: {
+        Args: { _organization_id: string }
+        Returns: {
+          full_name: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      list_my_organization_invitations: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          organization_id: string
+          organization_name: string
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
+      list_organization_members: {
+        Args: { _organization_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      match_similar_incidents: {
+        Args: { _incident_id: string; _limit?: number }
+        Returns: {
+          created_at: string
+          description: string
+          incident_id: string
+          location_name: string
+          severity: Database["public"]["Enums"]["incident_severity"]
+          similarity: number
+          status: Database["public"]["Enums"]["incident_status"]
+          type: Database["public"]["Enums"]["incident_type"]
+        }[]
+      }
+      match_sla_policy: {
+        Args: {
+          _organization_id: string
+          _severity: Database["public"]["Enums"]["incident_severity"]
+          _type: Database["public"]["Enums"]["incident_type"]
+        }
+        Returns: Database["public"]["Tables"]["sla_policies"]["Row"]
+      }
+      merge_incidents: {
+        Args: { _incident_ids: string[]; _parent_incident_id: string }
+        Returns: number
+      }
+      override_incident_severity: {
+        Args: { _incident_id: string; _reason: string; _severity: string }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+      }
+      search_incidents: {
+        Args: { _organization_id: string; _search: string }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          ai_analysis: Json | null
+          ai_severity: Database["public"]["Enums"]["incident_severity"] | null
+          assigned_at: string | null
+          assigned_to: string | null
+          building_id: string | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          current_analysis_id: string | null
+          description: string
+          dispatched_at: string | null
+          escalated_at: string | null
+          floor: number | null
+          floor_plan_id: string | null
+          floor_plan_x: number | null
+          floor_plan_y: number | null
+          id: string
+          latitude: number
+          location_name: string | null
+          longitude: number
+          merged_at: string | null
+          merged_by: string | null
+          on_scene_at: string | null
+          organization_id: string
+          parent_incident_id: string | null
+          reported_by: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          room: string | null
+          secondary_assignee: string | null
+          severity: Database["public"]["Enums"]["incident_severity"] | null
+          severity_overridden_at: string | null
+          severity_overridden_by: string | null
+          severity_override: Database["public"]["Enums"]["incident_severity"] | null
+          severity_override_reason: string | null
+          status: Database["public"]["Enums"]["incident_status"]
+          type: Database["public"]["Enums"]["incident_type"]
+          updated_at: string
+          zone_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_vector: {
+        Args: { "": Database["public"]["Tables"]["incidents"]["Row"] }
+        Returns: unknown
+      }
+      transition_incident_status: {
+        Args: {
+          _incident_id: string
+          _new_status: Database["public"]["Enums"]["incident_status"]
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+      }
+      unmerge_incident: {
+        Args: { _incident_id: string }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+      }
+      verify_audit_chain: {
+        Args: { _organization_id: string }
+        Returns: {
+          checked_count: number
+          first_broken_id: string
+          first_broken_seq: number
+          head_hash: string
+          is_valid: boolean
+          reason: string
+          verified_at: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "operator"
+      app_permission:
+        | "can_report"
+        | "can_manage_incidents"
+        | "can_resolve"
+        | "can_alert_helpers"
+        | "can_view_helper_phone"
+        | "can_export"
+        | "can_manage_users"
+        | "can_view_audit_log"
+      app_role:
+        | "admin"
+        | "operator"
+        | "incident_commander"
+        | "dispatcher"
+        | "responder"
+        | "viewer"
       helper_role: "security" | "medical" | "volunteer"
       incident_severity: "low" | "medium" | "high" | "critical"
-      incident_status: "active" | "resolved" | "escalated"
+      incident_status:
+        | "active"
+        | "acknowledged"
+        | "dispatched"
+        | "on_scene"
+        | "resolved"
+        | "closed"
+        | "escalated"
       incident_type: "medical" | "fire" | "security" | "infrastructure"
+      note_visibility: "internal" | "shareable"
+      zone_type:
+        | "building"
+        | "parking"
+        | "lab"
+        | "residence"
+        | "sports"
+        | "outdoor"
+        | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -376,11 +1850,46 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "operator"],
+      app_permission: [
+        "can_report",
+        "can_manage_incidents",
+        "can_resolve",
+        "can_alert_helpers",
+        "can_view_helper_phone",
+        "can_export",
+        "can_manage_users",
+        "can_view_audit_log",
+      ],
+      app_role: [
+        "admin",
+        "operator",
+        "incident_commander",
+        "dispatcher",
+        "responder",
+        "viewer",
+      ],
       helper_role: ["security", "medical", "volunteer"],
       incident_severity: ["low", "medium", "high", "critical"],
-      incident_status: ["active", "resolved", "escalated"],
+      incident_status: [
+        "active",
+        "acknowledged",
+        "dispatched",
+        "on_scene",
+        "resolved",
+        "closed",
+        "escalated",
+      ],
       incident_type: ["medical", "fire", "security", "infrastructure"],
+      note_visibility: ["internal", "shareable"],
+      zone_type: [
+        "building",
+        "parking",
+        "lab",
+        "residence",
+        "sports",
+        "outdoor",
+        "other",
+      ],
     },
   },
 } as const
@@ -0,0 +1,64 @@
+import { AIAnalysis, IncidentSeverity } from '@/types/incident';
+
+// Validate and transform AI analysis from database
+export const validateAIAnalysis = (data: unknown): AIAnalysis | null => {
+  if (!data || typeof data !== 'object') return null;
+  
+  const analysis = data as Record<string, unknown>;
+  const validSeverities: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+  
+  return {
+    severity: validSeverities.includes(analysis.severity as IncidentSeverity)
+      ? (analysis.severity as IncidentSeverity)
+      : 'medium',
+    immediateActions: Array.isArray(analysis.immediateActions)
+      ? analysis.immediateActions.filter((a): a is string => typeof a === 'string')
+      : [],
+    resourceRecommendations: Array.isArray(analysis.resourceRecommendations)
+      ? analysis.resourceRecommendations.filter((r): r is string => typeof r === 'string')
+      : [],
+    reasoning: typeof analysis.reasoning === 'string'
+      ? analysis.reasoning
+      : 'Analysis unavailable',
+  };
+};
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface AnalysisDiff {
+  severityChanged: boolean;
+  previousSeverity: IncidentSeverity | null;
+  severity: IncidentSeverity | null;
+  immediateActions: ListDiff;
+  resourceRecommendations: ListDiff;
+  reasoningChanged: boolean;
+}
+
+const normalize = (item: string) => item.trim().toLowerCase();
+
+const diffLists = (previous: string[], next: string[]): ListDiff => {
+  const previousSet = new Set(previous.map(normalize));
+  const nextSet = new Set(next.map(normalize));
+  return {
+    added: next.filter(item => !previousSet.has(normalize(item))),
+    removed: previous.filter(item => !nextSet.has(normalize(item))),
+    unchanged: next.filter(item => previousSet.has(normalize(item))),
+  };
+};
+
+// Compare two assessments; list items are matched case-insensitively
+export const diffAnalyses = (previous: AIAnalysis | null, next: AIAnalysis | null): AnalysisDiff => ({
+  severityChanged: previous?.severity !== next?.severity,
+  previousSeverity: previous?.severity ?? null,
+  severity: next?.severity ?? null,
+  immediateActions: diffLists(previous?.immediateActions ?? [], next?.immediateActions ?? []),
+  resourceRecommendations: diffLists(
+    previous?.resourceRecommendations ?? [],
+    next?.resourceRecommendations ?? []
+  ),
+  reasoningChanged: (previous?.reasoning ?? '') !== (next?.reasoning ?? ''),
+});
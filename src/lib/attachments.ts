@@ -0,0 +1,173 @@
+export const ATTACHMENT_BUCKET = 'incident-attachments';
+
+// Matches the bucket's file_size_limit
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+// Longest edge of uploaded photos; large enough for detail, small enough for mobile uploads
+const MAX_IMAGE_DIMENSION = 1920;
+const JPEG_QUALITY = 0.85;
+
+// Formats the browser can decode and re-encode without losing anything users care about
+const DOWNSCALABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/*',
+  'video/*',
+  'application/pdf',
+  'text/plain',
+  '.doc',
+  '.docx',
+  '.xls',
+  '.xlsx',
+].join(',');
+
+export type AttachmentKind = 'image' | 'video' | 'document';
+
+export const getAttachmentKind = (contentType: string): AttachmentKind => {
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('video/')) return 'video';
+  return 'document';
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+}
+
+// EXIF lives in the JPEG APP1 segment near the start of the file
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+/**
+ * Reads the GPS position from a JPEG's EXIF data. Returns null for other
+ * formats, photos without GPS tags or malformed data.
+ */
+export const extractExifGps = async (file: File): Promise<GpsPosition | null> => {
+  if (file.type !== 'image/jpeg') return null;
+
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return null;
+
+    // Walk the JPEG segments until the Exif APP1 segment
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return readGpsFromTiff(view, offset + 10);
+      }
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.warn('Could not read EXIF data:', error);
+  }
+  return null;
+};
+
+const readGpsFromTiff = (view: DataView, tiffStart: number): GpsPosition | null => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const u16 = (at: number) => view.getUint16(at, littleEndian);
+  const u32 = (at: number) => view.getUint32(at, littleEndian);
+
+  const findEntry = (ifdOffset: number, tag: number): number | null => {
+    const ifdStart = tiffStart + ifdOffset;
+    const count = u16(ifdStart);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdStart + 2 + i * 12;
+      if (u16(entry) === tag) return entry;
+    }
+    return null;
+  };
+
+  const gpsPointer = findEntry(u32(tiffStart + 4), TAG_GPS_IFD);
+  if (gpsPointer === null) return null;
+  const gpsIfd = u32(gpsPointer + 8);
+
+  // Degrees, minutes and seconds as three RATIONALs
+  const readCoordinate = (tag: number): number | null => {
+    const entry = findEntry(gpsIfd, tag);
+    if (entry === null) return null;
+    const valueOffset = tiffStart + u32(entry + 8);
+    const [degrees, minutes, seconds] = [0, 1, 2].map(i => {
+      const denominator = u32(valueOffset + i * 8 + 4);
+      return denominator ? u32(valueOffset + i * 8) / denominator : 0;
+    });
+    return degrees + minutes / 60 + seconds / 3600;
+  };
+
+  // Single ASCII character stored inline in the value field
+  const readRef = (tag: number): string | null => {
+    const entry = findEntry(gpsIfd, tag);
+    return entry === null ? null : String.fromCharCode(view.getUint8(entry + 8));
+  };
+
+  const latitude = readCoordinate(TAG_GPS_LATITUDE);
+  const longitude = readCoordinate(TAG_GPS_LONGITUDE);
+  if (latitude === null || longitude === null) return null;
+  // 0,0 is what many cameras write when they had no fix
+  if (latitude === 0 && longitude === 0) return null;
+
+  const position = {
+    latitude: readRef(TAG_GPS_LATITUDE_REF) === 'S' ? -latitude : latitude,
+    longitude: readRef(TAG_GPS_LONGITUDE_REF) === 'W' ? -longitude : longitude,
+  };
+  if (Math.abs(position.latitude) > 90 || Math.abs(position.longitude) > 180) return null;
+  return position;
+};
+
+export interface PreparedAttachment {
+  file: File;
+  width: number | null;
+  height: number | null;
+  gps: GpsPosition | null;
+}
+
+/**
+ * Reads GPS from the original photo, then downscales it so its longest edge
+ * is at most MAX_IMAGE_DIMENSION. Re-encoding drops the remaining EXIF data.
+ * Videos, documents and images the browser cannot decode are passed through.
+ */
+export const prepareAttachment = async (file: File): Promise<PreparedAttachment> => {
+  const gps = await extractExifGps(file);
+
+  if (!DOWNSCALABLE_TYPES.includes(file.type)) {
+    return { file, width: null, height: null, gps };
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+      return { file, width, height, gps };
+    }
+
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return { file: new File([blob], name, { type: 'image/jpeg' }), width, height, gps };
+  } catch (error) {
+    console.warn('Could not downscale image, uploading original:', error);
+    return { file, width: null, height: null, gps };
+  }
+};
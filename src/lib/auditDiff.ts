@@ -0,0 +1,55 @@
+export type MetadataDiffKind = 'added' | 'removed' | 'unchanged';
+
+export interface MetadataDiffLine {
+  kind: MetadataDiffKind;
+  key: string;
+  value: unknown;
+}
+
+// Audit entries record a change as previous_<field> (older triggers: old_<field>)
+// next to <field> or new_<field>
+const previousPrefixes = ['previous_', 'old_'];
+
+const findCurrentKey = (metadata: Record<string, unknown>, field: string): string | null => {
+  if (`new_${field}` in metadata) return `new_${field}`;
+  if (field in metadata) return field;
+  return null;
+};
+
+// Pairs each previous value with its current value so a change renders as a
+// removed and an added line; every other key is shown unchanged
+export const diffMetadata = (metadata: Record<string, unknown> | null): MetadataDiffLine[] => {
+  if (!metadata) return [];
+
+  const lines: MetadataDiffLine[] = [];
+  const consumed = new Set<string>();
+
+  for (const key of Object.keys(metadata)) {
+    const prefix = previousPrefixes.find((p) => key.startsWith(p));
+    if (!prefix) continue;
+
+    const field = key.slice(prefix.length);
+    const currentKey = findCurrentKey(metadata, field);
+    if (!currentKey) continue;
+
+    consumed.add(key);
+    consumed.add(currentKey);
+
+    const previous = metadata[key];
+    const current = metadata[currentKey];
+    if (JSON.stringify(previous) === JSON.stringify(current)) {
+      lines.push({ kind: 'unchanged', key: field, value: current });
+    } else {
+      lines.push({ kind: 'removed', key: field, value: previous });
+      lines.push({ kind: 'added', key: field, value: current });
+    }
+  }
+
+  for (const key of Object.keys(metadata)) {
+    if (!consumed.has(key)) {
+      lines.push({ kind: 'unchanged', key, value: metadata[key] });
+    }
+  }
+
+  return lines;
+};
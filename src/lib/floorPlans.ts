@@ -0,0 +1,26 @@
+import { Incident } from '@/types/incident';
+
+export const FLOOR_PLAN_BUCKET = 'floor-plans';
+
+// Matches the bucket's file_size_limit and allowed_mime_types
+export const MAX_FLOOR_PLAN_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_FLOOR_PLAN_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const formatFloor = (floor: number, label?: string | null) => {
+  if (label) return label;
+  if (floor === 0) return 'Ground floor';
+  return floor < 0 ? `Basement ${-floor}` : `Floor ${floor}`;
+};
+
+// "Science Hall · Floor 3 · Room 3.214", or null when nothing indoor is known
+export const describeIndoorLocation = (
+  incident: Pick<Incident, 'floor' | 'room'>,
+  buildingName?: string | null
+) => {
+  const parts = [
+    buildingName,
+    incident.floor !== null ? formatFloor(incident.floor) : null,
+    incident.room ? `Room ${incident.room}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
@@ -0,0 +1,11 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// invoke() reports a non-2xx response with a generic message and leaves the
+// function's own { error } body unread
+export const functionErrorMessage = async (error: unknown): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') return body.error;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
@@ -0,0 +1,45 @@
+import { LatLng } from '@/types/map';
+import { Zone } from '@/types/zone';
+import { loadGoogleMaps } from './googleMaps';
+import { withTimeout } from './mapAdapter';
+import { findZoneForPoint } from './zones';
+
+const GEOCODE_TIMEOUT_MS = 5000;
+
+const googleLocationName = async (position: LatLng): Promise<string | null> => {
+  await withTimeout(loadGoogleMaps(), GEOCODE_TIMEOUT_MS, 'Google Maps took too long to load');
+  const geocoder = new window.google.maps.Geocoder();
+  const response = await withTimeout(
+    geocoder.geocode({ location: position }),
+    GEOCODE_TIMEOUT_MS,
+    'Reverse geocoding timed out'
+  );
+
+  const result = response.results?.[0];
+  if (!result) return null;
+
+  const shortName = result.address_components?.find(
+    c => c.types.includes('premise') || c.types.includes('establishment') || c.types.includes('point_of_interest')
+  )?.long_name;
+  return shortName || result.formatted_address?.split(',').slice(0, 2).join(',') || null;
+};
+
+/**
+ * A human-readable name for a position: Google's address when Google Maps is
+ * in use and reachable, otherwise the name of the zone containing it.
+ */
+export async function reverseGeocode(
+  position: LatLng,
+  { zones, useGoogle }: { zones: Zone[]; useGoogle: boolean }
+): Promise<string | null> {
+  if (useGoogle) {
+    try {
+      const name = await googleLocationName(position);
+      if (name) return name;
+    } catch (e) {
+      console.warn('Reverse geocoding failed, falling back to zones:', e);
+    }
+  }
+
+  return findZoneForPoint(zones, position.lat, position.lng)?.name ?? null;
+}
@@ -0,0 +1,191 @@
+import { LatLng, MapAdapter, MapMarker, MapShape, MapViewOptions } from '@/types/map';
+import { createMarkerElement } from './mapMarkers';
+
+let loader: Promise<void> | null = null;
+
+const waitForMaps = (resolve: () => void) => {
+  // The script's onload can fire before google.maps is fully available
+  if (window.google?.maps?.Map) {
+    resolve();
+  } else {
+    setTimeout(() => waitForMaps(resolve), 100);
+  }
+};
+
+/**
+ * Loads the Google Maps script once per page; every map on the page waits on
+ * the same promise.
+ */
+export const loadGoogleMaps = (): Promise<void> => {
+  if (window.google?.maps?.Map) return Promise.resolve();
+  if (loader) return loader;
+
+  const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    return Promise.reject(new Error('Google Maps API key not configured'));
+  }
+
+  loader = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&libraries=marker&v=weekly&loading=async`;
+    script.async = true;
+    script.defer = true;
+    script.onload = () => waitForMaps(resolve);
+    script.onerror = () => {
+      loader = null;
+      script.remove();
+      reject(new Error('Failed to load Google Maps'));
+    };
+    document.head.appendChild(script);
+  });
+
+  return loader;
+};
+
+export const darkMapStyles: google.maps.MapTypeStyle[] = [
+  { elementType: 'geometry', stylers: [{ color: '#1a1f2e' }] },
+  { elementType: 'labels.text.stroke', stylers: [{ color: '#1a1f2e' }] },
+  { elementType: 'labels.text.fill', stylers: [{ color: '#8a9ab0' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#2a3548' }] },
+  { featureType: 'road', elementType: 'labels.text.fill', stylers: [{ color: '#8a9ab0' }] },
+  { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#0e1626' }] },
+  { featureType: 'poi', elementType: 'geometry', stylers: [{ color: '#1a2538' }] },
+  { featureType: 'poi', elementType: 'labels.text.fill', stylers: [{ color: '#6a7b8c' }] },
+  { featureType: 'poi.park', elementType: 'geometry', stylers: [{ color: '#1a2e1a' }] },
+];
+
+const toLatLng = (point: google.maps.LatLng): LatLng => ({ lat: point.lat(), lng: point.lng() });
+
+// A Google map behind the provider-neutral adapter; loadGoogleMaps must have resolved
+export const createGoogleMapAdapter = (container: HTMLElement, view: MapViewOptions): MapAdapter => {
+  const map = new window.google.maps.Map(container, {
+    center: view.center,
+    zoom: view.zoom,
+    mapId: 'aegis-ics-map',
+    zoomControl: true,
+    mapTypeControl: false,
+    streetViewControl: false,
+    fullscreenControl: true,
+    clickableIcons: false,
+    draggableCursor: view.cursor,
+    styles: darkMapStyles,
+  });
+  let markers: google.maps.marker.AdvancedMarkerElement[] = [];
+  let shapes: google.maps.Polygon[] = [];
+
+  const createMarker = (options: MapMarker) => {
+    const content = createMarkerElement(options);
+    // Advanced markers are anchored at their bottom center
+    if (options.anchor === 'center') content.style.transform = 'translateY(50%)';
+    const marker = new window.google.maps.marker.AdvancedMarkerElement({
+      map,
+      position: options.position,
+      content,
+      title: options.title,
+      gmpDraggable: !!options.draggable,
+    });
+
+    if (options.onClick) marker.addListener('click', options.onClick);
+    if (options.onDragEnd) {
+      const onDragEnd = options.onDragEnd;
+      marker.addListener('dragend', (event: google.maps.MapMouseEvent) => {
+        if (event.latLng) onDragEnd(toLatLng(event.latLng));
+      });
+    }
+    if (options.onRightClick) {
+      const onRightClick = options.onRightClick;
+      content.addEventListener('contextmenu', (event) => {
+        event.preventDefault();
+        onRightClick();
+      });
+    }
+    return marker;
+  };
+
+  const createShape = (options: MapShape) => {
+    const shape = new window.google.maps.Polygon({
+      map,
+      paths: options.polygons.flat(),
+      strokeColor: options.color,
+      strokeOpacity: 0.8,
+      strokeWeight: options.strokeWeight,
+      fillColor: options.color,
+      fillOpacity: options.fillOpacity,
+      clickable: !!options.onClick,
+      zIndex: options.zIndex ?? 0,
+    });
+    if (options.onClick) {
+      const onClick = options.onClick;
+      shape.addListener('click', (event: google.maps.PolyMouseEvent) => {
+        if (event.latLng) onClick(toLatLng(event.latLng));
+      });
+    }
+    return shape;
+  };
+
+  const clearMarkers = () => markers.forEach(marker => { marker.map = null; });
+  const clearShapes = () => shapes.forEach(shape => shape.setMap(null));
+
+  return {
+    provider: 'google',
+    setView: (center, zoom) => {
+      map.setCenter(center);
+      map.setZoom(zoom);
+    },
+    panTo: (center) => map.panTo(center),
+    fitBounds: (points, { padding = 50, maxZoom } = {}) => {
+      if (points.length === 0) return;
+      const bounds = new window.google.maps.LatLngBounds();
+      points.forEach(point => bounds.extend(point));
+      map.fitBounds(bounds, padding);
+
+      if (maxZoom !== undefined) {
+        // Don't zoom too close on a single point
+        const listener = window.google.maps.event.addListener(map, 'idle', () => {
+          const zoom = map.getZoom();
+          if (zoom && zoom > maxZoom) map.setZoom(maxZoom);
+          window.google.maps.event.removeListener(listener);
+        });
+      }
+    },
+    setMarkers: (next) => {
+      clearMarkers();
+      markers = next.map(createMarker);
+    },
+    setShapes: (next) => {
+      clearShapes();
+      shapes = next.map(createShape);
+    },
+    onClick: (handler) => {
+      const listener = map.addListener('click', (event: google.maps.MapMouseEvent) => {
+        if (event.latLng) handler(toLatLng(event.latLng));
+      });
+      return () => listener.remove();
+    },
+    onViewChange: (handler) => {
+      const emit = () => {
+        const bounds = map.getBounds();
+        const zoom = map.getZoom();
+        if (!bounds || zoom === undefined) return;
+        const southWest = bounds.getSouthWest();
+        const northEast = bounds.getNorthEast();
+        handler({
+          bounds: { south: southWest.lat(), west: southWest.lng(), north: northEast.lat(), east: northEast.lng() },
+          zoom,
+        });
+      };
+      // Bounds are unknown until the first idle; emit then does nothing
+      emit();
+      const listener = map.addListener('idle', emit);
+      return () => listener.remove();
+    },
+    destroy: () => {
+      clearMarkers();
+      clearShapes();
+      window.google.maps.event.clearInstanceListeners(map);
+      markers = [];
+      shapes = [];
+      container.replaceChildren();
+    },
+  };
+};
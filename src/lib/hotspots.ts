@@ -0,0 +1,219 @@
+import { Incident, IncidentType } from '@/types/incident';
+import { LatLng } from '@/types/map';
+
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HOTSPOT_WINDOWS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+export const HOTSPOT_CELL_SIZES = [50, 100, 250];
+
+// Fewer incidents than this are never reported as a hotspot, however unusual
+export const MIN_HOTSPOT_INCIDENTS = 3;
+
+export interface HeatmapFilter {
+  windowDays: number;
+  type: IncidentType | 'all';
+}
+
+export interface DensityCell {
+  row: number;
+  col: number;
+  count: number;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export type HotspotTrend = 'up' | 'down' | 'flat';
+
+export interface Hotspot {
+  id: string;
+  center: LatLng;
+  cells: DensityCell[];
+  count: number;
+  // Highest Getis-Ord Gi* z-score among the hotspot's cells
+  zScore: number;
+  confidence: 90 | 95 | 99;
+  // Incidents in the newer and the older half of the window
+  recentCount: number;
+  previousCount: number;
+  trend: HotspotTrend;
+  incidents: Incident[];
+}
+
+/**
+ * Incidents reported within the window, optionally of one type. Reports
+ * merged into another incident are left out so one event counts once.
+ */
+export const filterIncidentsForHeatmap = (incidents: Incident[], filter: HeatmapFilter, now = Date.now()) => {
+  const since = now - filter.windowDays * DAY_MS;
+  return incidents.filter(incident =>
+    !incident.parent_incident_id
+    && new Date(incident.created_at).getTime() >= since
+    && (filter.type === 'all' || incident.type === filter.type)
+  );
+};
+
+// Square cells of roughly cellMeters a side, sized for the incidents' mean latitude
+const gridFor = (incidents: Incident[], cellMeters: number) => {
+  const meanLatitude = incidents.reduce((sum, i) => sum + i.latitude, 0) / Math.max(incidents.length, 1);
+  const latStep = cellMeters / METERS_PER_DEGREE_LATITUDE;
+  const lngStep = cellMeters / (METERS_PER_DEGREE_LATITUDE * Math.max(Math.cos((meanLatitude * Math.PI) / 180), 0.01));
+
+  const cellOf = (incident: Incident) => ({
+    row: Math.floor(incident.latitude / latStep),
+    col: Math.floor(incident.longitude / lngStep),
+  });
+
+  const toCell = (row: number, col: number, count: number): DensityCell => ({
+    row,
+    col,
+    count,
+    south: row * latStep,
+    north: (row + 1) * latStep,
+    west: col * lngStep,
+    east: (col + 1) * lngStep,
+  });
+
+  return { cellOf, toCell };
+};
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+// Incident counts per grid cell; only cells with incidents are returned
+export const densityGrid = (incidents: Incident[], cellMeters: number): DensityCell[] => {
+  const { cellOf, toCell } = gridFor(incidents, cellMeters);
+  const counts = new Map<string, { row: number; col: number; count: number }>();
+
+  incidents.forEach(incident => {
+    const { row, col } = cellOf(incident);
+    const key = cellKey(row, col);
+    const entry = counts.get(key) ?? { row, col, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+
+  return [...counts.values()].map(({ row, col, count }) => toCell(row, col, count));
+};
+
+const trendOf = (recent: number, previous: number): HotspotTrend => {
+  // Small changes are noise, not a trend
+  if (Math.abs(recent - previous) <= Math.max(1, previous * 0.2)) return 'flat';
+  return recent > previous ? 'up' : 'down';
+};
+
+/**
+ * Statistically significant clusters of incidents, hottest first. Each grid
+ * cell gets a Getis-Ord Gi* z-score over its 3x3 neighbourhood, measured
+ * against every cell of the area the incidents span (empty cells included).
+ * Cells with incidents and a z-score of at least 1.645 (90% confidence) are
+ * merged with touching significant cells into one hotspot.
+ */
+export function findHotspots(
+  incidents: Incident[],
+  { cellMeters, windowDays, now = Date.now() }: { cellMeters: number; windowDays: number; now?: number }
+): Hotspot[] {
+  if (incidents.length < MIN_HOTSPOT_INCIDENTS) return [];
+
+  const { cellOf, toCell } = gridFor(incidents, cellMeters);
+  const cells = new Map<string, { row: number; col: number; incidents: Incident[] }>();
+  incidents.forEach(incident => {
+    const { row, col } = cellOf(incident);
+    const key = cellKey(row, col);
+    const entry = cells.get(key) ?? { row, col, incidents: [] };
+    entry.incidents.push(incident);
+    cells.set(key, entry);
+  });
+
+  const rows = [...cells.values()].map(c => c.row);
+  const cols = [...cells.values()].map(c => c.col);
+  const minRow = Math.min(...rows);
+  const maxRow = Math.max(...rows);
+  const minCol = Math.min(...cols);
+  const maxCol = Math.max(...cols);
+  const n = (maxRow - minRow + 1) * (maxCol - minCol + 1);
+  if (n < 2) return [];
+
+  const countAt = (row: number, col: number) => cells.get(cellKey(row, col))?.incidents.length ?? 0;
+  const mean = incidents.length / n;
+  const sumOfSquares = [...cells.values()].reduce((sum, c) => sum + c.incidents.length ** 2, 0);
+  const deviation = Math.sqrt(sumOfSquares / n - mean ** 2);
+  if (deviation === 0) return [];
+
+  const zScores = new Map<string, number>();
+  cells.forEach(({ row, col }, key) => {
+    let neighbourSum = 0;
+    let weight = 0;
+    for (let r = Math.max(row - 1, minRow); r <= Math.min(row + 1, maxRow); r++) {
+      for (let c = Math.max(col - 1, minCol); c <= Math.min(col + 1, maxCol); c++) {
+        neighbourSum += countAt(r, c);
+        weight++;
+      }
+    }
+    const denominator = deviation * Math.sqrt((n * weight - weight ** 2) / (n - 1));
+    if (denominator > 0) zScores.set(key, (neighbourSum - mean * weight) / denominator);
+  });
+
+  const significant = new Set([...zScores].filter(([, z]) => z >= 1.645).map(([key]) => key));
+  const visited = new Set<string>();
+  const midpoint = now - (windowDays * DAY_MS) / 2;
+  const hotspots: Hotspot[] = [];
+
+  significant.forEach(start => {
+    if (visited.has(start)) return;
+
+    // Flood fill over touching significant cells, diagonals included
+    const members: string[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      members.push(key);
+      const { row, col } = cells.get(key)!;
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) {
+          const neighbour = cellKey(r, c);
+          if (significant.has(neighbour) && !visited.has(neighbour)) {
+            visited.add(neighbour);
+            queue.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const memberIncidents = members.flatMap(key => cells.get(key)!.incidents);
+    if (memberIncidents.length < MIN_HOTSPOT_INCIDENTS) return;
+
+    const zScore = Math.max(...members.map(key => zScores.get(key)!));
+    const recentCount = memberIncidents.filter(i => new Date(i.created_at).getTime() >= midpoint).length;
+    const previousCount = memberIncidents.length - recentCount;
+
+    hotspots.push({
+      id: members.sort()[0],
+      center: {
+        lat: memberIncidents.reduce((sum, i) => sum + i.latitude, 0) / memberIncidents.length,
+        lng: memberIncidents.reduce((sum, i) => sum + i.longitude, 0) / memberIncidents.length,
+      },
+      cells: members.map(key => {
+        const { row, col, incidents: cellIncidents } = cells.get(key)!;
+        return toCell(row, col, cellIncidents.length);
+      }),
+      count: memberIncidents.length,
+      zScore,
+      confidence: zScore >= 2.576 ? 99 : zScore >= 1.96 ? 95 : 90,
+      recentCount,
+      previousCount,
+      trend: trendOf(recentCount, previousCount),
+      incidents: memberIncidents,
+    });
+  });
+
+  return hotspots.sort((a, b) => b.zScore - a.zScore || b.count - a.count);
+}
@@ -0,0 +1,20 @@
+import { Incident } from '@/types/incident';
+
+/**
+ * Splits incidents into top-level incidents and merged reports. Merged
+ * reports are represented by their parent; mergedCounts maps each parent id
+ * to the number of reports merged into it.
+ */
+export const groupIncidents = (incidents: Incident[]) => {
+  const mergedCounts = new Map<string, number>();
+  for (const incident of incidents) {
+    if (incident.parent_incident_id) {
+      mergedCounts.set(incident.parent_incident_id, (mergedCounts.get(incident.parent_incident_id) ?? 0) + 1);
+    }
+  }
+
+  return {
+    topLevel: incidents.filter(incident => !incident.parent_incident_id),
+    mergedCounts,
+  };
+};
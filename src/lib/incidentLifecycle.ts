@@ -0,0 +1,59 @@
+import { IncidentStatus } from '@/types/incident';
+
+// Mirrors public.is_valid_incident_status_transition; the database trigger is authoritative
+export const statusTransitions: Record<IncidentStatus, IncidentStatus[]> = {
+  active: ['acknowledged', 'escalated', 'resolved'],
+  acknowledged: ['dispatched', 'escalated', 'resolved'],
+  dispatched: ['on_scene', 'escalated', 'resolved'],
+  on_scene: ['escalated', 'resolved'],
+  escalated: ['acknowledged', 'dispatched', 'on_scene', 'resolved'],
+  resolved: ['closed', 'active'],
+  closed: [],
+};
+
+export const openStatuses: IncidentStatus[] = [
+  'active',
+  'acknowledged',
+  'dispatched',
+  'on_scene',
+  'escalated',
+];
+
+// Moving into these needs the can_resolve permission (public.enforce_resolve_permission)
+export const resolvingStatuses: IncidentStatus[] = ['resolved', 'closed'];
+
+export const statusLabels: Record<IncidentStatus, string> = {
+  active: 'New',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  on_scene: 'On Scene',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+// Button label for moving an incident into the given status
+export const transitionActionLabels: Record<IncidentStatus, string> = {
+  active: 'Reopen',
+  acknowledged: 'Acknowledge',
+  dispatched: 'Dispatch',
+  on_scene: 'Mark On Scene',
+  escalated: 'Escalate',
+  resolved: 'Mark Resolved',
+  closed: 'Close',
+};
+
+export const statusTextClasses: Record<IncidentStatus, string> = {
+  active: 'text-[hsl(var(--severity-critical))]',
+  acknowledged: 'text-[hsl(var(--severity-medium))]',
+  dispatched: 'text-[hsl(var(--severity-medium))]',
+  on_scene: 'text-primary',
+  escalated: 'text-[hsl(var(--severity-high))]',
+  resolved: 'text-[hsl(var(--severity-low))]',
+  closed: 'text-muted-foreground',
+};
+
+export const isOpenStatus = (status: IncidentStatus): boolean => openStatuses.includes(status);
+
+export const getNextStatuses = (status: IncidentStatus): IncidentStatus[] =>
+  statusTransitions[status] ?? [];
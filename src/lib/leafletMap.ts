@@ -0,0 +1,130 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapProviderSettings } from '@/lib/settings';
+import { LatLng, MapAdapter, MapMarker, MapShape, MapViewOptions } from '@/types/map';
+import { createMarkerElement, markerSize } from './mapMarkers';
+
+const toLatLng = (point: L.LatLng): LatLng => ({ lat: point.lat, lng: point.lng });
+
+/**
+ * A Leaflet map for campuses without (reliable) internet access. The base
+ * layer is the configured tile server, else the campus image stretched over
+ * its bounds, else nothing: zones and markers still render on a blank canvas.
+ */
+export const createLeafletMapAdapter = (
+  container: HTMLElement,
+  view: MapViewOptions,
+  config: MapProviderSettings
+): MapAdapter => {
+  const map = L.map(container, {
+    center: view.center,
+    zoom: view.zoom,
+    maxZoom: config.max_zoom,
+    zoomControl: true,
+  });
+  container.style.backgroundColor = '#1a1f2e';
+  if (view.cursor) container.style.cursor = view.cursor;
+
+  if (config.tile_url) {
+    L.tileLayer(config.tile_url, {
+      attribution: config.attribution,
+      maxZoom: config.max_zoom,
+    }).addTo(map);
+  } else if (config.image_url && config.image_bounds) {
+    const { south, west, north, east } = config.image_bounds;
+    const bounds = L.latLngBounds([south, west], [north, east]);
+    L.imageOverlay(config.image_url, bounds, { attribution: config.attribution }).addTo(map);
+    map.setMaxBounds(bounds.pad(0.5));
+  }
+
+  const markerLayer = L.layerGroup().addTo(map);
+  const shapeLayer = L.layerGroup().addTo(map);
+
+  const createMarker = (options: MapMarker) => {
+    const size = markerSize(options);
+    const marker = L.marker(options.position, {
+      icon: L.divIcon({
+        html: createMarkerElement(options),
+        className: '',
+        iconSize: [size, size],
+        iconAnchor: [size / 2, options.anchor === 'center' ? size / 2 : size],
+      }),
+      title: options.title,
+      draggable: !!options.draggable,
+    });
+
+    if (options.onClick) marker.on('click', options.onClick);
+    if (options.onDragEnd) {
+      const onDragEnd = options.onDragEnd;
+      marker.on('dragend', () => onDragEnd(toLatLng(marker.getLatLng())));
+    }
+    if (options.onRightClick) marker.on('contextmenu', options.onRightClick);
+    return marker;
+  };
+
+  const createShape = (options: MapShape) => {
+    const shape = L.polygon(
+      options.polygons.map(rings => rings.map(ring => ring.map(point => [point.lat, point.lng] as L.LatLngTuple))),
+      {
+        color: options.color,
+        opacity: 0.8,
+        weight: options.strokeWeight,
+        fillColor: options.color,
+        fillOpacity: options.fillOpacity,
+        interactive: !!options.onClick,
+        bubblingMouseEvents: false,
+      }
+    );
+    if (options.onClick) {
+      const onClick = options.onClick;
+      shape.on('click', (event: L.LeafletMouseEvent) => onClick(toLatLng(event.latlng)));
+    }
+    return shape;
+  };
+
+  return {
+    provider: 'leaflet',
+    setView: (center, zoom) => map.setView(center, zoom),
+    panTo: (center) => map.panTo(center),
+    fitBounds: (points, { padding = 50, maxZoom } = {}) => {
+      if (points.length === 0) return;
+      map.fitBounds(L.latLngBounds(points.map(point => [point.lat, point.lng] as L.LatLngTuple)), {
+        padding: [padding, padding],
+        maxZoom,
+      });
+    },
+    setMarkers: (next) => {
+      markerLayer.clearLayers();
+      next.forEach(marker => markerLayer.addLayer(createMarker(marker)));
+    },
+    setShapes: (next) => {
+      shapeLayer.clearLayers();
+      // Leaflet has no z-index for vectors; later shapes are drawn on top
+      [...next]
+        .sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0))
+        .forEach(shape => shapeLayer.addLayer(createShape(shape)));
+    },
+    onClick: (handler) => {
+      const listener = (event: L.LeafletMouseEvent) => handler(toLatLng(event.latlng));
+      map.on('click', listener);
+      return () => {
+        map.off('click', listener);
+      };
+    },
+    onViewChange: (handler) => {
+      const emit = () => {
+        const bounds = map.getBounds();
+        handler({
+          bounds: { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() },
+          zoom: map.getZoom(),
+        });
+      };
+      emit();
+      map.on('moveend', emit);
+      return () => {
+        map.off('moveend', emit);
+      };
+    },
+    destroy: () => map.remove(),
+  };
+};
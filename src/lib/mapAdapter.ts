@@ -0,0 +1,59 @@
+import { MapProviderSettings } from '@/lib/settings';
+import { MapAdapter, MapViewOptions } from '@/types/map';
+import { createGoogleMapAdapter, loadGoogleMaps } from './googleMaps';
+
+// How long "auto" waits for Google Maps before falling back to the offline map
+export const GOOGLE_MAPS_LOAD_TIMEOUT_MS = 8000;
+
+export const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+const createOfflineMapAdapter = async (
+  container: HTMLElement,
+  view: MapViewOptions,
+  config: MapProviderSettings
+) => {
+  // Leaflet is only downloaded when the offline map is actually used
+  const { createLeafletMapAdapter } = await import('./leafletMap');
+  return createLeafletMapAdapter(container, view, config);
+};
+
+/**
+ * Creates the map configured in the map_provider setting. "google" fails when
+ * Google Maps cannot load; "auto" falls back to the offline map instead, so
+ * the dashboard keeps a map when the campus loses its internet uplink.
+ */
+export async function createMapAdapter(
+  container: HTMLElement,
+  view: MapViewOptions,
+  config: MapProviderSettings
+): Promise<MapAdapter> {
+  switch (config.provider) {
+    case 'google':
+      await loadGoogleMaps();
+      return createGoogleMapAdapter(container, view);
+    case 'tiles':
+    case 'image':
+      return createOfflineMapAdapter(container, view, config);
+    case 'auto':
+      try {
+        await withTimeout(loadGoogleMaps(), GOOGLE_MAPS_LOAD_TIMEOUT_MS, 'Google Maps took too long to load');
+        return createGoogleMapAdapter(container, view);
+      } catch (error) {
+        console.warn('Google Maps unavailable, using the offline map:', (error as Error).message);
+        return createOfflineMapAdapter(container, view, config);
+      }
+  }
+}
@@ -0,0 +1,54 @@
+import { MapMarker } from '@/types/map';
+
+const DEFAULT_MARKER_SIZE = 24;
+
+// The round marker drawn by every map provider, with an optional corner badge
+export const createMarkerElement = (marker: MapMarker): HTMLDivElement => {
+  const size = marker.size ?? DEFAULT_MARKER_SIZE;
+  const element = document.createElement('div');
+  element.style.cssText = `
+    position: relative;
+    width: ${size}px;
+    height: ${size}px;
+    background-color: ${marker.color};
+    border: 2px solid white;
+    border-radius: 50%;
+    box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+    box-sizing: border-box;
+    cursor: ${marker.draggable ? 'move' : 'pointer'};
+  `;
+
+  if (marker.label) {
+    element.textContent = marker.label;
+    element.style.display = 'flex';
+    element.style.alignItems = 'center';
+    element.style.justifyContent = 'center';
+    element.style.color = 'white';
+    element.style.fontSize = '11px';
+    element.style.fontWeight = '600';
+  }
+
+  if (marker.badge) {
+    const badge = document.createElement('span');
+    badge.textContent = marker.badge;
+    badge.style.cssText = `
+      position: absolute;
+      top: -8px;
+      right: -10px;
+      min-width: 16px;
+      padding: 0 4px;
+      background-color: #1a1f2e;
+      color: white;
+      border: 1px solid white;
+      border-radius: 8px;
+      font-size: 10px;
+      line-height: 14px;
+      text-align: center;
+    `;
+    element.appendChild(badge);
+  }
+
+  return element;
+};
+
+export const markerSize = (marker: MapMarker) => marker.size ?? DEFAULT_MARKER_SIZE;
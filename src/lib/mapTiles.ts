@@ -0,0 +1,47 @@
+import { MapBounds, MapViewport } from '@/types/map';
+
+const MAX_MERCATOR_LATITUDE = 85.0511;
+
+export interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Standard slippy map tiles, two levels coarser than the map so a viewport
+// needs only a handful of them
+const tileZoomFor = (zoom: number) => Math.min(Math.max(Math.floor(zoom) - 2, 2), 16);
+
+const tileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const tileY = (lat: number, z: number) => {
+  const clamped = (Math.min(Math.max(lat, -MAX_MERCATOR_LATITUDE), MAX_MERCATOR_LATITUDE) * Math.PI) / 180;
+  const y = Math.floor(((1 - Math.log(Math.tan(clamped) + 1 / Math.cos(clamped)) / Math.PI) / 2) * 2 ** z);
+  return Math.min(Math.max(y, 0), 2 ** z - 1);
+};
+
+export const tileBounds = ({ z, x, y }: Tile): MapBounds => {
+  const n = 2 ** z;
+  const latitude = (row: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * row) / n))) * 180) / Math.PI;
+  return { south: latitude(y + 1), west: (x / n) * 360 - 180, north: latitude(y), east: ((x + 1) / n) * 360 - 180 };
+};
+
+export const tilesFor = ({ bounds, zoom }: MapViewport): Tile[] => {
+  const z = tileZoomFor(zoom);
+  const n = 2 ** z;
+  const west = tileX(bounds.west, z);
+  // A viewport crossing the antimeridian wraps around to tile 0
+  const east = tileX(bounds.east, z) + (bounds.west > bounds.east ? n : 0);
+  const tiles: Tile[] = [];
+  for (let y = tileY(bounds.north, z); y <= tileY(bounds.south, z); y++) {
+    for (let x = west; x <= Math.min(east, west + n - 1); x++) {
+      tiles.push({ z, x: ((x % n) + n) % n, y });
+    }
+  }
+  return tiles;
+};
+
+export const tileContains = (tile: Tile, latitude: number, longitude: number) => {
+  const { south, west, north, east } = tileBounds(tile);
+  return latitude >= south && latitude <= north && longitude >= west && longitude <= east;
+};
@@ -0,0 +1,59 @@
+import { LatLng } from '@/types/map';
+
+// Markers closer than this many screen pixels are drawn as one cluster
+const CLUSTER_CELL_PIXELS = 60;
+
+// Fully zoomed in, every marker is drawn on its own so all stay reachable
+export const CLUSTER_MAX_ZOOM = 17;
+
+export interface MarkerCluster<T> {
+  id: string;
+  position: LatLng;
+  items: T[];
+}
+
+// Web Mercator world pixel coordinates at a zoom level, as used by map tiles
+const worldPixel = ({ lat, lng }: LatLng, zoom: number) => {
+  const scale = 256 * 2 ** zoom;
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Groups items on a screen-space grid for the zoom level. Clusters of one are
+ * single markers; larger clusters sit at their items' mean position. Above
+ * CLUSTER_MAX_ZOOM nothing is clustered.
+ */
+export function clusterByZoom<T>(
+  items: T[],
+  positionOf: (item: T) => LatLng,
+  zoom: number
+): MarkerCluster<T>[] {
+  if (zoom > CLUSTER_MAX_ZOOM) {
+    return items.map((item, index) => ({ id: `single-${index}`, position: positionOf(item), items: [item] }));
+  }
+
+  const cells = new Map<string, T[]>();
+  items.forEach(item => {
+    const { x, y } = worldPixel(positionOf(item), Math.floor(zoom));
+    const key = `${Math.floor(x / CLUSTER_CELL_PIXELS)}:${Math.floor(y / CLUSTER_CELL_PIXELS)}`;
+    const cell = cells.get(key) ?? [];
+    cell.push(item);
+    cells.set(key, cell);
+  });
+
+  return [...cells.entries()].map(([key, cellItems]) => {
+    const positions = cellItems.map(positionOf);
+    return {
+      id: `cluster-${key}`,
+      position: {
+        lat: positions.reduce((sum, p) => sum + p.lat, 0) / positions.length,
+        lng: positions.reduce((sum, p) => sum + p.lng, 0) / positions.length,
+      },
+      items: cellItems,
+    };
+  });
+}
@@ -0,0 +1,27 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+export type Permission = Database['public']['Enums']['app_permission'];
+
+export const appRoles: AppRole[] = ['admin', 'incident_commander', 'dispatcher', 'operator', 'responder', 'viewer'];
+
+export const roleLabels: Record<AppRole, string> = {
+  admin: 'Administrator',
+  incident_commander: 'Incident Commander',
+  dispatcher: 'Dispatcher',
+  operator: 'Operator',
+  responder: 'Responder',
+  viewer: 'Viewer / Auditor',
+};
+
+// What each permission unlocks; the matrix itself lives in public.role_permissions
+export const permissionLabels: Record<Permission, string> = {
+  can_report: 'Report incidents',
+  can_manage_incidents: 'Update and assign any incident',
+  can_resolve: 'Resolve and close incidents',
+  can_alert_helpers: 'Alert helpers',
+  can_view_helper_phone: 'View helper contact details',
+  can_export: 'Export reports',
+  can_manage_users: 'Manage members and settings',
+  can_view_audit_log: 'Browse the full audit log',
+};
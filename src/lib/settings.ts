@@ -0,0 +1,3 @@
+// The settings schema lives with the edge functions so both sides validate
+// admin_settings the same way
+export * from '../../supabase/functions/_shared/settings-schema.ts';
@@ -0,0 +1,52 @@
+import { Incident, IncidentSeverity } from '@/types/incident';
+
+export const severityLevels: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export const severityRank: Record<IncidentSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export const isSeverityOverridden = (incident: Incident) => incident.severity_override !== null;
+
+export interface SeverityAgreement {
+  // Incidents with an AI severity that an operator has reviewed by overriding
+  overridden: number;
+  disagreements: number;
+  raised: number;
+  lowered: number;
+  // Incidents that have an AI severity at all
+  assessed: number;
+  disagreementRate: number;
+}
+
+// How often operators overruled the AI's severity, and in which direction
+export const summarizeSeverityAgreement = (incidents: Incident[]): SeverityAgreement => {
+  let overridden = 0;
+  let raised = 0;
+  let lowered = 0;
+  let assessed = 0;
+
+  incidents.forEach(incident => {
+    if (!incident.ai_severity) return;
+    assessed++;
+    if (!incident.severity_override) return;
+    overridden++;
+
+    const delta = severityRank[incident.severity_override] - severityRank[incident.ai_severity];
+    if (delta > 0) raised++;
+    if (delta < 0) lowered++;
+  });
+
+  const disagreements = raised + lowered;
+  return {
+    overridden,
+    disagreements,
+    raised,
+    lowered,
+    assessed,
+    disagreementRate: assessed > 0 ? Math.round((disagreements / assessed) * 100) : 0,
+  };
+};
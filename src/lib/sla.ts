@@ -0,0 +1,106 @@
+import { Incident } from '@/types/incident';
+import { SlaStage } from '@/types/sla';
+
+export const slaStages: SlaStage[] = ['acknowledge', 'dispatch', 'resolve'];
+
+export const slaStageLabels: Record<SlaStage, string> = {
+  acknowledge: 'Acknowledge',
+  dispatch: 'Dispatch',
+  resolve: 'Resolve',
+};
+
+export const slaDueAt = (incident: Incident, stage: SlaStage): string | null => {
+  switch (stage) {
+    case 'acknowledge':
+      return incident.acknowledge_due_at;
+    case 'dispatch':
+      return incident.dispatch_due_at;
+    case 'resolve':
+      return incident.resolve_due_at;
+  }
+};
+
+// Mirrors public.flag_sla_breaches: reaching a later stage also counts for the earlier ones
+export const slaReachedAt = (incident: Incident, stage: SlaStage): string | null => {
+  switch (stage) {
+    case 'acknowledge':
+      return incident.acknowledged_at ?? incident.dispatched_at ?? incident.on_scene_at ?? incident.resolved_at;
+    case 'dispatch':
+      return incident.dispatched_at ?? incident.on_scene_at ?? incident.resolved_at;
+    case 'resolve':
+      return incident.resolved_at;
+  }
+};
+
+export interface SlaTarget {
+  stage: SlaStage;
+  dueAt: Date;
+}
+
+// The earliest stage with a target that the incident has not reached yet
+export const nextSlaTarget = (incident: Incident): SlaTarget | null => {
+  for (const stage of slaStages) {
+    const dueAt = slaDueAt(incident, stage);
+    if (dueAt && !slaReachedAt(incident, stage)) {
+      return { stage, dueAt: new Date(dueAt) };
+    }
+  }
+  return null;
+};
+
+export type SlaOutcome = 'met' | 'missed' | 'pending';
+
+// null when the incident had no target for the stage
+export const slaOutcome = (incident: Incident, stage: SlaStage, now: Date = new Date()): SlaOutcome | null => {
+  const dueAt = slaDueAt(incident, stage);
+  if (!dueAt) return null;
+
+  const due = new Date(dueAt).getTime();
+  const reachedAt = slaReachedAt(incident, stage);
+  if (reachedAt) return new Date(reachedAt).getTime() <= due ? 'met' : 'missed';
+  return now.getTime() > due ? 'missed' : 'pending';
+};
+
+export interface SlaComplianceRow {
+  key: string;
+  met: number;
+  missed: number;
+  pending: number;
+  // Share of decided incidents (met or missed) that met the target, null before any is decided
+  complianceRate: number | null;
+}
+
+// Compliance with one stage's target, grouped by the given key. Incidents
+// without a target for the stage are left out.
+export const summarizeSlaCompliance = (
+  incidents: Incident[],
+  stage: SlaStage,
+  groupBy: (incident: Incident) => string,
+  now: Date = new Date()
+): SlaComplianceRow[] => {
+  const rows = new Map<string, SlaComplianceRow>();
+
+  incidents.forEach(incident => {
+    const outcome = slaOutcome(incident, stage, now);
+    if (!outcome) return;
+
+    const key = groupBy(incident);
+    const row = rows.get(key) ?? { key, met: 0, missed: 0, pending: 0, complianceRate: null };
+    row[outcome]++;
+    rows.set(key, row);
+  });
+
+  return [...rows.values()].map(row => {
+    const decided = row.met + row.missed;
+    return { ...row, complianceRate: decided > 0 ? Math.round((row.met / decided) * 100) : null };
+  });
+};
+
+// "12m", "1h 05m" or "2d 3h"; the sign is left to the caller
+export const formatSlaDuration = (ms: number) => {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
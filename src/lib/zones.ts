@@ -0,0 +1,68 @@
+import { Position, Zone, ZoneGeometry, ZoneType } from '@/types/zone';
+
+export const zoneTypes: ZoneType[] = ['building', 'parking', 'lab', 'residence', 'sports', 'outdoor', 'other'];
+
+export const zoneTypeLabels: Record<ZoneType, string> = {
+  building: 'Building',
+  parking: 'Parking',
+  lab: 'Lab',
+  residence: 'Residence',
+  sports: 'Sports',
+  outdoor: 'Outdoor',
+  other: 'Other',
+};
+
+export const zoneTypeColors: Record<ZoneType, string> = {
+  building: '#3B82F6',
+  parking: '#64748B',
+  lab: '#A855F7',
+  residence: '#14B8A6',
+  sports: '#22C55E',
+  outdoor: '#84CC16',
+  other: '#94A3B8',
+};
+
+// Each polygon as its rings; the first ring is the outline, the rest are holes
+export const zonePolygons = (geometry: ZoneGeometry): Position[][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+// A closed GeoJSON polygon from the corners drawn on the map
+export const polygonFromPath = (path: { lat: number; lng: number }[]): ZoneGeometry => {
+  const ring: Position[] = path.map(point => [point.lng, point.lat]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+// The outline of the first polygon as map points, without the closing position
+export const pathFromGeometry = (geometry: ZoneGeometry) => {
+  const outline = zonePolygons(geometry)[0]?.[0] ?? [];
+  return outline.slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+};
+
+const ringContains = (ring: Position[], latitude: number, longitude: number) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > latitude) !== (yj > latitude) && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Mirrors the database's find_zone_for_point for previews before an incident
+ * is saved: the smallest zone containing the point wins.
+ */
+export const findZoneForPoint = (zones: Zone[], latitude: number, longitude: number): Zone | null => {
+  const containing = zones.filter(zone =>
+    zonePolygons(zone.geometry).some(([outline, ...holes]) =>
+      ringContains(outline, latitude, longitude) && !holes.some(hole => ringContains(hole, latitude, longitude))
+    )
+  );
+
+  const area = (zone: Zone) =>
+    ((zone.max_latitude ?? 0) - (zone.min_latitude ?? 0)) * ((zone.max_longitude ?? 0) - (zone.min_longitude ?? 0));
+
+  return containing.sort((a, b) => area(a) - area(b))[0] ?? null;
+};
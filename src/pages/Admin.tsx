@@ -1,21 +1,27 @@
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { UserManagement } from '@/components/admin/UserManagement';
+import { OrganizationManagement } from '@/components/admin/OrganizationManagement';
 import { SystemStats } from '@/components/admin/SystemStats';
 import { BulkReanalyze } from '@/components/admin/BulkReanalyze';
 import { HelperManagement } from '@/components/admin/HelperManagement';
+import { EscalationPolicies } from '@/components/admin/EscalationPolicies';
+import { SlaPolicies } from '@/components/admin/SlaPolicies';
+import { EmailAlerts } from '@/components/admin/EmailAlerts';
+import { SettingsPanel } from '@/components/admin/SettingsPanel';
+import { AuditChainVerification } from '@/components/admin/AuditChainVerification';
+import { ZoneEditor } from '@/components/admin/ZoneEditor';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
-import { useIncidents } from '@/hooks/useIncidents';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Navigate } from 'react-router-dom';
 import { Settings, Loader2 } from 'lucide-react';
 
 export default function Admin() {
-  const { role, loading } = useAuth();
-  const { incidents, refetch } = useIncidents();
-  
-  const incidentsWithoutAnalysis = incidents.filter(i => !i.ai_analysis).length;
+  const { currentOrganization, loading } = useAuth();
+  const { can, isLoading: permissionsLoading } = usePermissions();
 
-  if (loading) {
+  if (loading || permissionsLoading) {
     return (
       <DashboardLayout>
         <DashboardHeader />
@@ -26,7 +32,7 @@ export default function Admin() {
     );
   }
 
-  if (role !== 'admin') {
+  if (!can('can_manage_users')) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -42,17 +48,47 @@ export default function Admin() {
             </div>
             <div>
               <h2 className="text-2xl font-bold">Admin Panel</h2>
-              <p className="text-muted-foreground text-sm">User management and system settings</p>
+              <p className="text-muted-foreground text-sm">
+                {currentOrganization ? `${currentOrganization.name} · ` : ''}User management and system settings
+              </p>
             </div>
           </div>
 
-          <SystemStats />
-          <BulkReanalyze 
-            incidentsWithoutAnalysis={incidentsWithoutAnalysis} 
-            onComplete={refetch} 
-          />
-          <HelperManagement />
-          <UserManagement />
+          <Tabs defaultValue="overview" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="alerting">Helpers &amp; Alerting</TabsTrigger>
+              <TabsTrigger value="zones">Zones</TabsTrigger>
+              <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="settings">Settings</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+              <SystemStats />
+              <BulkReanalyze />
+              <AuditChainVerification />
+            </TabsContent>
+
+            <TabsContent value="alerting" className="space-y-6">
+              <HelperManagement />
+              <EscalationPolicies />
+              <SlaPolicies />
+              <EmailAlerts />
+            </TabsContent>
+
+            <TabsContent value="zones" className="space-y-6">
+              <ZoneEditor />
+            </TabsContent>
+
+            <TabsContent value="users" className="space-y-6">
+              <UserManagement />
+              <OrganizationManagement />
+            </TabsContent>
+
+            <TabsContent value="settings">
+              <SettingsPanel />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
     </DashboardLayout>
@@ -1,16 +1,28 @@
+import { useState } from 'react';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
-import { useIncidents } from '@/hooks/useIncidents';
+import { ANALYTICS_WINDOWS, ANALYTICS_INCIDENT_LIMIT, useAnalyticsIncidents } from '@/hooks/useAnalyticsIncidents';
 import { IncidentTrendChart } from '@/components/analytics/IncidentTrendChart';
 import { SeverityDistributionChart } from '@/components/analytics/SeverityDistributionChart';
 import { TypeBreakdownChart } from '@/components/analytics/TypeBreakdownChart';
+import { ZoneBreakdownChart } from '@/components/analytics/ZoneBreakdownChart';
+import { HotspotPanel } from '@/components/analytics/HotspotPanel';
 import { ResponseTimeMetrics } from '@/components/analytics/ResponseTimeMetrics';
+import { SlaComplianceReport } from '@/components/analytics/SlaComplianceReport';
 import { IncidentTimeline } from '@/components/analytics/IncidentTimeline';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { BarChart3, Loader2 } from 'lucide-react';
 
 export default function Analytics() {
-  const { incidents, isLoading } = useIncidents();
+  const [windowDays, setWindowDays] = useState(90);
+  const { data, isLoading } = useAnalyticsIncidents(windowDays);
+  const incidents = data?.incidents ?? [];
 
   if (isLoading) {
     return (
@@ -35,13 +47,34 @@ export default function Analytics() {
             </div>
             <div>
               <h2 className="text-2xl font-bold">Analytics Dashboard</h2>
-              <p className="text-muted-foreground text-sm">Incident trends and insights</p>
+              <p className="text-muted-foreground text-sm">
+                Incident trends and insights · open incidents and those reported in the period
+              </p>
             </div>
+            <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+              <SelectTrigger className="ml-auto w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANALYTICS_WINDOWS.map(({ days, label }) => (
+                  <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
+          {data?.truncated && (
+            <p className="text-sm text-muted-foreground">
+              Only the newest {ANALYTICS_INCIDENT_LIMIT.toLocaleString()} incidents are included. Choose a shorter period for complete figures.
+            </p>
+          )}
+
           {/* Response Time Metrics */}
           <ResponseTimeMetrics incidents={incidents} />
 
+          {/* SLA Compliance */}
+          <SlaComplianceReport incidents={incidents} />
+
           {/* Charts Row */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <IncidentTrendChart incidents={incidents} />
@@ -52,6 +85,11 @@ export default function Analytics() {
             <TypeBreakdownChart incidents={incidents} />
             <IncidentTimeline incidents={incidents} />
           </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ZoneBreakdownChart incidents={incidents} />
+            <HotspotPanel incidents={incidents} maxWindowDays={windowDays} />
+          </div>
         </div>
       </div>
     </DashboardLayout>
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { AuditLogFilters } from '@/components/audit/AuditLogFilters';
+import { AuditLogTable } from '@/components/audit/AuditLogTable';
+import { ExportAuditLogButton } from '@/components/audit/ExportAuditLogButton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  AUDIT_LOG_PAGE_SIZE,
+  AuditLogFilters as Filters,
+  emptyAuditLogFilters,
+  useAuditLogs,
+} from '@/hooks/useAuditLogs';
+import { Navigate } from 'react-router-dom';
+import { ScrollText, Loader2 } from 'lucide-react';
+
+export default function AuditLog() {
+  const { loading } = useAuth();
+  const { can, isLoading: permissionsLoading } = usePermissions();
+  const [filters, setFilters] = useState<Filters>(emptyAuditLogFilters);
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isFetching, error } = useAuditLogs(filters, page);
+
+  const handleFiltersChange = (next: Filters) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  if (loading || permissionsLoading) {
+    return (
+      <DashboardLayout>
+        <DashboardHeader />
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!can('can_view_audit_log')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const total = data?.total ?? 0;
+  const totalPages = Math.ceil(total / AUDIT_LOG_PAGE_SIZE);
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col h-full">
+        <DashboardHeader />
+
+        <div className="p-6 space-y-6 flex-1 overflow-auto">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <ScrollText className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">Audit Log</h2>
+                <p className="text-muted-foreground text-sm">Every recorded action across all incidents</p>
+              </div>
+            </div>
+            <ExportAuditLogButton filters={filters} total={total} />
+          </div>
+
+          <AuditLogFilters filters={filters} onFiltersChange={handleFiltersChange} />
+
+          <Card className="bg-card/50 border-border/50">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  Entries
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {total} entries
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : error ? (
+                <div className="text-center py-12 text-destructive text-sm">
+                  Failed to load audit log: {(error as Error).message}
+                </div>
+              ) : (
+                <AuditLogTable
+                  entries={data?.entries ?? []}
+                  page={page}
+                  totalPages={totalPages}
+                  onPageChange={setPage}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -6,13 +6,15 @@ import { IncidentDetailPanel } from '@/components/dashboard/IncidentDetailPanel'
 import { ReportIncidentDialog } from '@/components/dashboard/ReportIncidentDialog';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { StatsCards } from '@/components/dashboard/StatsCards';
-import { useIncidents } from '@/hooks/useIncidents';
+import { PendingInvitations } from '@/components/dashboard/PendingInvitations';
+import { useIncidents, useStoredIncident } from '@/hooks/useIncidents';
 
 export default function Dashboard() {
   const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
   const { incidents, isLoading, refetch } = useIncidents();
   
-  const selectedIncident = incidents?.find(i => i.id === selectedIncidentId);
+  // Also found when selected from the map outside the dashboard's list
+  const selectedIncident = useStoredIncident(selectedIncidentId);
 
   return (
     <DashboardLayout>
@@ -20,6 +22,7 @@ export default function Dashboard() {
         <DashboardHeader />
         
         <div className="p-6 space-y-6 flex-1 overflow-auto">
+          <PendingInvitations />
           <StatsCards incidents={incidents || []} />
           
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 min-h-[500px]">
@@ -36,8 +39,7 @@ export default function Dashboard() {
             {/* Map and Detail Panel */}
             <div className="lg:col-span-2 flex flex-col gap-6">
               <IncidentMap 
-                incidents={incidents || []} 
-                selectedId={selectedIncidentId}
+                selectedIncident={selectedIncident}
                 onMarkerClick={setSelectedIncidentId}
               />
               
@@ -46,6 +48,7 @@ export default function Dashboard() {
                   incident={selectedIncident} 
                   onClose={() => setSelectedIncidentId(null)}
                   onUpdate={refetch}
+                  onSelectIncident={setSelectedIncidentId}
                 />
               )}
             </div>
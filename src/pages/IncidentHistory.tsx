@@ -1,92 +1,42 @@
-import { useState, useMemo } from 'react';
+import { useCallback, useState } from 'react';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
-import { useIncidents } from '@/hooks/useIncidents';
+import {
+  IncidentHistoryFilters,
+  IncidentSort,
+  defaultIncidentSort,
+  emptyIncidentHistoryFilters,
+  hasSearchTerms,
+  relevanceSort,
+  useIncidentHistory,
+} from '@/hooks/useIncidentHistory';
 import { IncidentFilters } from '@/components/history/IncidentFilters';
 import { IncidentTable } from '@/components/history/IncidentTable';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { History, Loader2 } from 'lucide-react';
-import { IncidentType, IncidentSeverity, IncidentStatus } from '@/types/incident';
-
-export interface Filters {
-  search: string;
-  status: IncidentStatus | 'all';
-  type: IncidentType | 'all';
-  severity: IncidentSeverity | 'all';
-  dateFrom: Date | null;
-  dateTo: Date | null;
-}
 
 export default function IncidentHistory() {
-  const { incidents, isLoading } = useIncidents();
-  const [filters, setFilters] = useState<Filters>({
-    search: '',
-    status: 'all',
-    type: 'all',
-    severity: 'all',
-    dateFrom: null,
-    dateTo: null,
-  });
-
-  const filteredIncidents = useMemo(() => {
-    return incidents.filter(incident => {
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        if (
-          !incident.description.toLowerCase().includes(searchLower) &&
-          !(incident.location_name?.toLowerCase().includes(searchLower))
-        ) {
-          return false;
-        }
-      }
-
-      // Status filter
-      if (filters.status !== 'all' && incident.status !== filters.status) {
-        return false;
-      }
-
-      // Type filter
-      if (filters.type !== 'all' && incident.type !== filters.type) {
-        return false;
-      }
-
-      // Severity filter
-      if (filters.severity !== 'all' && incident.severity !== filters.severity) {
-        return false;
-      }
+  const [filters, setFilters] = useState<IncidentHistoryFilters>(emptyIncidentHistoryFilters);
+  const [sort, setSort] = useState<IncidentSort>(defaultIncidentSort);
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isFetching, error } = useIncidentHistory(filters, sort, page);
 
-      // Date range filter
-      if (filters.dateFrom) {
-        const incidentDate = new Date(incident.created_at);
-        if (incidentDate < filters.dateFrom) {
-          return false;
-        }
-      }
+  const searching = hasSearchTerms(filters.search);
 
-      if (filters.dateTo) {
-        const incidentDate = new Date(incident.created_at);
-        const endOfDay = new Date(filters.dateTo);
-        endOfDay.setHours(23, 59, 59, 999);
-        if (incidentDate > endOfDay) {
-          return false;
-        }
-      }
+  // A new search starts out best match first
+  const handleFiltersChange = useCallback((next: IncidentHistoryFilters) => {
+    if (next.search !== filters.search) {
+      setSort(hasSearchTerms(next.search) ? relevanceSort : defaultIncidentSort);
+    }
+    setFilters(next);
+    setPage(1);
+  }, [filters.search]);
 
-      return true;
-    });
-  }, [incidents, filters]);
-
-  if (isLoading) {
-    return (
-      <DashboardLayout>
-        <DashboardHeader />
-        <div className="flex-1 flex items-center justify-center">
-          <Loader2 className="h-8 w-8 animate-spin text-primary" />
-        </div>
-      </DashboardLayout>
-    );
-  }
+  const handleSortChange = (next: IncidentSort) => {
+    setSort(next);
+    setPage(1);
+  };
 
   return (
     <DashboardLayout>
@@ -104,19 +54,45 @@ export default function IncidentHistory() {
             </div>
           </div>
 
-          <IncidentFilters filters={filters} onFiltersChange={setFilters} />
+          <IncidentFilters filters={filters} onFiltersChange={handleFiltersChange} />
           
           <Card className="bg-card/50 border-border/50">
             <CardHeader className="pb-3">
               <CardTitle className="text-base flex items-center justify-between">
-                <span>Results</span>
-                <span className="text-sm font-normal text-muted-foreground">
-                  {filteredIncidents.length} of {incidents.length} incidents
+                <span className="flex items-center gap-2">
+                  Results
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </span>
+                <span className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+                  {searching && sort.field !== 'relevance' && (
+                    <Button variant="ghost" size="sm" className="h-7" onClick={() => handleSortChange(relevanceSort)}>
+                      Sort by best match
+                    </Button>
+                  )}
+                  {data?.total ?? 0} incidents
                 </span>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <IncidentTable incidents={filteredIncidents} />
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : error ? (
+                <div className="text-center py-12 text-destructive text-sm">
+                  Failed to load incidents: {(error as Error).message}
+                </div>
+              ) : (
+                <IncidentTable
+                  incidents={data?.incidents ?? []}
+                  total={data?.total ?? 0}
+                  page={page}
+                  onPageChange={setPage}
+                  sort={sort}
+                  onSortChange={handleSortChange}
+                  snippets={data?.snippets}
+                />
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,30 @@
+import { IncidentSeverity, IncidentType } from './incident';
+import { HelperRole } from './helper';
+
+export interface EscalationStep {
+  // Wait after the previous step (for the first step: after the incident was reported)
+  delay_minutes: number;
+  radius_km: number;
+  // Empty means every role
+  helper_roles: HelperRole[];
+  page_admins: boolean;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  organization_id: string;
+  name: string;
+  // null applies to every incident type
+  incident_type: IncidentType | null;
+  min_severity: IncidentSeverity;
+  steps: EscalationStep[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EscalationPolicyInput = Pick<
+  EscalationPolicy,
+  'name' | 'incident_type' | 'min_severity' | 'steps' | 'is_active'
+>;
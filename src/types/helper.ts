@@ -2,6 +2,7 @@ export type HelperRole = 'security' | 'medical' | 'volunteer';
 
 export interface Helper {
   id: string;
+  organization_id: string;
   name: string;
   mobile_number: string;
   role: HelperRole;
@@ -25,3 +26,31 @@ export interface CreateHelperInput {
   longitude: number;
   is_active?: boolean;
 }
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed';
+
+export type HelperResponse = 'accepted' | 'declined' | 'on_scene';
+
+// Outcome of one server-side alert to one recipient (helper SMS or admin email)
+export interface AlertDelivery {
+  id: string;
+  incident_id: string;
+  helper_id: string | null;
+  channel: 'sms' | 'email';
+  provider: string;
+  recipient: string;
+  message: string;
+  status: DeliveryStatus;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_by: string | null;
+  // Set when sent by the escalation worker rather than an admin
+  escalation_step: number | null;
+  response_token: string | null;
+  // Latest answer from the helper, via the response link or an SMS reply
+  response: HelperResponse | null;
+  response_channel: 'link' | 'sms' | null;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -1,6 +1,13 @@
 export type IncidentType = 'medical' | 'fire' | 'security' | 'infrastructure';
 export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
-export type IncidentStatus = 'active' | 'resolved' | 'escalated';
+export type IncidentStatus =
+  | 'active'
+  | 'acknowledged'
+  | 'dispatched'
+  | 'on_scene'
+  | 'resolved'
+  | 'closed'
+  | 'escalated';
 
 export interface AIAnalysis {
   severity: IncidentSeverity;
@@ -11,25 +18,93 @@ export interface AIAnalysis {
 
 export interface Incident {
   id: string;
+  organization_id: string;
   type: IncidentType;
   description: string;
   latitude: number;
   longitude: number;
   location_name: string | null;
   status: IncidentStatus;
+  // Effective severity: the operator override if present, otherwise the AI's
   severity: IncidentSeverity | null;
+  ai_severity: IncidentSeverity | null;
+  severity_override: IncidentSeverity | null;
+  severity_override_reason: string | null;
+  severity_overridden_by: string | null;
+  severity_overridden_at: string | null;
   ai_analysis: AIAnalysis | null;
+  current_analysis_id: string | null;
   reported_by: string | null;
+  assigned_to: string | null;
+  secondary_assignee: string | null;
+  assigned_at: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  dispatched_at: string | null;
+  on_scene_at: string | null;
+  escalated_at: string | null;
   resolved_by: string | null;
   resolved_at: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  // Set when this report was merged into another incident's group
+  parent_incident_id: string | null;
+  merged_at: string | null;
+  merged_by: string | null;
+  // Campus zone containing the location, tagged by the database
+  zone_id: string | null;
+  // Indoor position: the building (a zone) the reporter is in, which can
+  // differ from zone_id when GPS drifts indoors
+  building_id: string | null;
+  floor: number | null;
+  room: string | null;
+  floor_plan_id: string | null;
+  // Pin on the floor plan as fractions of its width and height
+  floor_plan_x: number | null;
+  floor_plan_y: number | null;
+  // SLA targets from the matching sla_policies row, set by the database
+  sla_policy_id: string | null;
+  acknowledge_due_at: string | null;
+  dispatch_due_at: string | null;
+  resolve_due_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type AnalysisParseStatus = 'parsed' | 'fallback' | 'failed';
+
+// One run of analyze-incident; incidents.ai_analysis mirrors the current one
+export interface IncidentAnalysis {
+  id: string;
+  incident_id: string;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  severity: IncidentSeverity | null;
+  analysis: AIAnalysis | null;
+  raw_response: string | null;
+  parse_status: AnalysisParseStatus;
+  error: string | null;
+  latency_ms: number | null;
+  requested_by: string | null;
+  created_at: string;
+}
+
 export interface CreateIncidentInput {
   type: IncidentType;
   description: string;
   latitude: number;
   longitude: number;
   location_name?: string;
+  building_id?: string;
+  floor?: number;
+  room?: string;
+  floor_plan_id?: string;
+  floor_plan_x?: number;
+  floor_plan_y?: number;
 }
+
+export type IndoorLocationInput = Pick<
+  CreateIncidentInput,
+  'building_id' | 'floor' | 'room' | 'floor_plan_id' | 'floor_plan_x' | 'floor_plan_y'
+>;
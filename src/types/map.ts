@@ -0,0 +1,76 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface MapViewport {
+  bounds: MapBounds;
+  zoom: number;
+}
+
+export type MapProvider = 'google' | 'leaflet';
+
+export interface MapMarker {
+  id: string;
+  position: LatLng;
+  color: string;
+  // Diameter in pixels, 24 when omitted
+  size?: number;
+  // Point of the marker placed on the position; pins sit on it, handles center on it
+  anchor?: 'bottom' | 'center';
+  // Text inside the marker, e.g. the size of a cluster
+  label?: string;
+  // Small label on the marker's corner, e.g. "+2" merged reports
+  badge?: string;
+  title?: string;
+  draggable?: boolean;
+  onClick?: () => void;
+  onRightClick?: () => void;
+  onDragEnd?: (position: LatLng) => void;
+}
+
+export interface MapShape {
+  id: string;
+  // Each polygon as its rings; the first ring is the outline, the rest are holes
+  polygons: LatLng[][][];
+  color: string;
+  fillOpacity: number;
+  strokeWeight: number;
+  zIndex?: number;
+  // Shapes without a click handler let clicks through to the map
+  onClick?: (position: LatLng) => void;
+}
+
+/**
+ * The map operations the dashboard needs, implemented by Google Maps and by
+ * Leaflet for offline tiles or a campus image. Markers and shapes are
+ * replaced wholesale on every call.
+ */
+export interface MapAdapter {
+  readonly provider: MapProvider;
+  setView: (center: LatLng, zoom: number) => void;
+  panTo: (center: LatLng) => void;
+  fitBounds: (points: LatLng[], options?: { padding?: number; maxZoom?: number }) => void;
+  setMarkers: (markers: MapMarker[]) => void;
+  setShapes: (shapes: MapShape[]) => void;
+  // Returns a function that removes the handler
+  onClick: (handler: (position: LatLng) => void) => () => void;
+  // Called with the current viewport, then whenever the map settles after
+  // panning or zooming; returns a function that removes the handler
+  onViewChange: (handler: (viewport: MapViewport) => void) => () => void;
+  destroy: () => void;
+}
+
+export interface MapViewOptions {
+  center: LatLng;
+  zoom: number;
+  // Cursor over the map, e.g. crosshair while drawing
+  cursor?: string;
+}
@@ -0,0 +1,24 @@
+import { IncidentSeverity, IncidentType } from './incident';
+
+export type SlaStage = 'acknowledge' | 'dispatch' | 'resolve';
+
+export interface SlaPolicy {
+  id: string;
+  organization_id: string;
+  // null applies to every incident type; a policy for the type takes precedence
+  incident_type: IncidentType | null;
+  severity: IncidentSeverity;
+  // Minutes from the report; null means no target for that stage
+  acknowledge_minutes: number | null;
+  dispatch_minutes: number | null;
+  resolve_minutes: number | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SlaPolicyInput = Pick<
+  SlaPolicy,
+  'incident_type' | 'severity' | 'acknowledge_minutes' | 'dispatch_minutes' | 'resolve_minutes' | 'is_active'
+>;
@@ -0,0 +1,41 @@
+export type ZoneType = 'building' | 'parking' | 'lab' | 'residence' | 'sports' | 'outdoor' | 'other';
+
+// [longitude, latitude], as in GeoJSON
+export type Position = [number, number];
+
+export type ZoneGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export interface Zone {
+  id: string;
+  organization_id: string;
+  name: string;
+  zone_type: ZoneType;
+  floor_count: number | null;
+  responsible_team: string | null;
+  geometry: ZoneGeometry;
+  min_latitude: number | null;
+  max_latitude: number | null;
+  min_longitude: number | null;
+  max_longitude: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ZoneInput = Pick<Zone, 'name' | 'zone_type' | 'floor_count' | 'responsible_team' | 'geometry'>;
+
+export interface FloorPlan {
+  id: string;
+  organization_id: string;
+  zone_id: string;
+  floor: number;
+  label: string | null;
+  storage_path: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Short-lived signed URL; the bucket is private
+  url: string | null;
+}
@@ -0,0 +1,58 @@
+// SMS alert text shared by admin-initiated alerts and the escalation worker
+import { responseInstructions } from "./helper-responses.ts";
+
+export interface SmsAlertContent {
+  incidentType: string;
+  severity: string;
+  summary: string;
+  latitude: number;
+  longitude: number;
+  responseToken: string;
+  // Campus zone the incident was tagged with, if any
+  zoneName?: string | null;
+  // Building, floor and room, from describeIndoorLocation
+  indoorLocation?: string | null;
+}
+
+export interface IndoorLocation {
+  buildingName?: string | null;
+  floor: number | null;
+  room: string | null;
+}
+
+const formatFloor = (floor: number) =>
+  floor === 0 ? "Ground floor" : floor < 0 ? `Basement ${-floor}` : `Floor ${floor}`;
+
+// "Science Hall, Floor 3, Room 3.214", or null when nothing indoor is known
+export const describeIndoorLocation = ({ buildingName, floor, room }: IndoorLocation): string | null => {
+  const parts = [
+    buildingName,
+    floor !== null ? formatFloor(floor) : null,
+    room ? `Room ${room}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ").replace(/\p{Cc}/gu, "") : null;
+};
+
+export const severityEmoji = (severity: string) =>
+  severity === "critical" ? "🚨" : severity === "high" ? "⚠️" : "📢";
+
+export const mapsLink = (latitude: number, longitude: number) =>
+  `https://maps.google.com/?q=${latitude},${longitude}`;
+
+export function buildSmsAlertMessage({
+  incidentType,
+  severity,
+  summary,
+  latitude,
+  longitude,
+  responseToken,
+  zoneName,
+  indoorLocation,
+}: SmsAlertContent): string {
+  const shortType = incidentType.charAt(0).toUpperCase() + incidentType.slice(1);
+  // The indoor location names the building itself, so it replaces the zone
+  const place = indoorLocation
+    ? ` At: ${indoorLocation.substring(0, 60)}.`
+    : zoneName ? ` Zone: ${zoneName.substring(0, 40)}.` : "";
+  return `${severityEmoji(severity)} AEGIS: ${shortType} - ${severity.toUpperCase()}. ${summary.substring(0, 50)}...${place} Location: ${mapsLink(latitude, longitude)}\n${responseInstructions(responseToken)}`;
+}
@@ -0,0 +1,88 @@
+// Sends an incident alert email to every address in the alert_emails admin
+// setting of the incident's organization and records the outcome in the audit log.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  deliverEmail,
+  type EmailProvider,
+  EmailProviderNotConfiguredError,
+  getAlertEmails,
+  getEmailProvider,
+} from "./email-providers.ts";
+import { type EmailTemplateContext, renderIncidentEmail } from "./email-templates.ts";
+
+export interface EmailAlertResult {
+  recipients: number;
+  sentCount: number;
+  failedCount: number;
+}
+
+async function writeAudit(
+  supabaseAdmin: SupabaseClient,
+  action: string,
+  context: EmailTemplateContext,
+  actorEmail: string,
+  metadata: Record<string, unknown>,
+) {
+  const { error } = await supabaseAdmin.from("audit_logs").insert({
+    action,
+    actor_id: null,
+    actor_email: actorEmail,
+    incident_id: context.incident.id,
+    metadata,
+  });
+  if (error) {
+    console.error(`Failed to audit ${action}:`, error);
+  }
+}
+
+export async function sendIncidentEmails(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+  context: EmailTemplateContext,
+  actorEmail: string,
+): Promise<EmailAlertResult> {
+  const recipients = await getAlertEmails(supabaseAdmin, organizationId);
+  if (recipients.length === 0) {
+    return { recipients: 0, sentCount: 0, failedCount: 0 };
+  }
+
+  let provider: EmailProvider;
+  try {
+    provider = await getEmailProvider(supabaseAdmin, organizationId);
+  } catch (error) {
+    // Nothing can be sent; leave a trace on the incident before giving up
+    if (error instanceof EmailProviderNotConfiguredError) {
+      await writeAudit(supabaseAdmin, "email_alert_failed", context, actorEmail, {
+        email_event: context.event,
+        recipients_count: recipients.length,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+  const rendered = renderIncidentEmail(context);
+
+  const deliveries = await Promise.all(
+    recipients.map((to) =>
+      deliverEmail(supabaseAdmin, provider, context.incident.id, { to, ...rendered }, context.step)
+    ),
+  );
+  const sentCount = deliveries.filter((d) => d.status !== "failed").length;
+  const failedCount = deliveries.length - sentCount;
+
+  // Captured messages never left the project, so they are not "sent"
+  const action = failedCount === deliveries.length
+    ? "email_alert_failed"
+    : provider.name === "capture"
+    ? "email_alert_captured"
+    : "email_alert_sent";
+  await writeAudit(supabaseAdmin, action, context, actorEmail, {
+    email_event: context.event,
+    provider: provider.name,
+    recipients_count: recipients.length,
+    sent_count: sentCount,
+    failed_count: failedCount,
+  });
+
+  return { recipients: recipients.length, sentCount, failedCount };
+}
@@ -0,0 +1,306 @@
+// Email provider layer for admin alert emails.
+// Mirrors sms-providers.ts: every message goes through deliverEmail so each
+// recipient gets an alert_deliveries row (channel "email").
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { DeliveryStatus } from "./sms-providers.ts";
+import { getSetting } from "./settings.ts";
+
+export type EmailProviderName = "smtp" | "http" | "capture";
+
+export interface EmailProviderConfig {
+  provider: EmailProviderName;
+  from?: string;
+  url?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  providerMessageId: string | null;
+}
+
+export interface EmailProvider {
+  readonly name: EmailProviderName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export class EmailProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "EmailProviderError";
+  }
+}
+
+export class EmailProviderNotConfiguredError extends EmailProviderError {
+  constructor() {
+    super(
+      "Email provider not configured. Set the email_provider admin setting, the EMAIL_PROVIDER secret or SMTP_HOST " +
+        '(use "capture" only for local development).',
+    );
+    this.name = "EmailProviderNotConfiguredError";
+  }
+}
+
+const DEFAULT_FROM = "AegisICS Alerts <alerts@localhost>";
+
+// Plain SMTP (STARTTLS on 587, implicit TLS on 465)
+class SmtpProvider implements EmailProvider {
+  readonly name = "smtp" as const;
+
+  constructor(
+    private readonly hostname: string,
+    private readonly port: number,
+    private readonly username: string | undefined,
+    private readonly password: string | undefined,
+    private readonly from: string,
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.hostname,
+        port: this.port,
+        tls: this.port === 465,
+        auth: this.username && this.password
+          ? { username: this.username, password: this.password }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } catch (error) {
+      console.error("SMTP error:", error);
+      throw new EmailProviderError(error instanceof Error ? error.message : "SMTP error");
+    } finally {
+      await client.close().catch(() => {});
+    }
+
+    return { providerMessageId: null };
+  }
+}
+
+// Generic JSON API (Resend-compatible): POST {from, to, subject, html, text}
+// and read back {id} or {messageId}
+class HttpEmailProvider implements EmailProvider {
+  readonly name = "http" as const;
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string | undefined,
+    private readonly from: string,
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ from: this.from, ...message, to: [message.to] }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error("Email API error:", response.status, result);
+      throw new EmailProviderError(`Email API error: ${response.status}`, response.status);
+    }
+
+    return { providerMessageId: result.id ?? result.messageId ?? null };
+  }
+}
+
+// Local capture mode: nothing leaves the project, messages are written to
+// captured_emails instead
+class CaptureProvider implements EmailProvider {
+  readonly name = "capture" as const;
+
+  constructor(private readonly supabaseAdmin: SupabaseClient) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { data, error } = await this.supabaseAdmin
+      .from("captured_emails")
+      .insert({ to_address: message.to, subject: message.subject, html: message.html, text: message.text })
+      .select("id")
+      .single();
+
+    if (error) {
+      throw new EmailProviderError(`Capture error: ${error.message}`);
+    }
+
+    return { providerMessageId: data.id };
+  }
+}
+
+const isProviderName = (value: unknown): value is EmailProviderName =>
+  value === "smtp" || value === "http" || value === "capture";
+
+/**
+ * Resolve the email provider for this deployment.
+ * Precedence: the `email_provider` admin setting, then the EMAIL_PROVIDER env
+ * var, then SMTP when SMTP_HOST is set. Without any of these sending fails:
+ * capture only records messages, so it must be chosen explicitly rather than
+ * silently standing in for a real provider.
+ */
+export function resolveEmailProviderConfig(setting: unknown): EmailProviderConfig {
+  if (setting && typeof setting === "object") {
+    const value = setting as Record<string, unknown>;
+    if (isProviderName(value.provider)) {
+      return {
+        provider: value.provider,
+        from: typeof value.from === "string" && value.from ? value.from : undefined,
+        url: typeof value.url === "string" && value.url ? value.url : undefined,
+      };
+    }
+  }
+
+  const envProvider = Deno.env.get("EMAIL_PROVIDER");
+  if (isProviderName(envProvider)) {
+    return { provider: envProvider };
+  }
+
+  if (Deno.env.get("SMTP_HOST")) {
+    return { provider: "smtp" };
+  }
+
+  throw new EmailProviderNotConfiguredError();
+}
+
+const isSameUrl = (a: string, b: string) => a.replace(/\/+$/, "") === b.replace(/\/+$/, "");
+
+export function createEmailProvider(config: EmailProviderConfig, supabaseAdmin: SupabaseClient): EmailProvider {
+  const from = config.from || Deno.env.get("EMAIL_FROM") || DEFAULT_FROM;
+
+  switch (config.provider) {
+    case "smtp": {
+      const hostname = Deno.env.get("SMTP_HOST");
+      if (!hostname) {
+        throw new EmailProviderError("SMTP_HOST is not configured");
+      }
+      return new SmtpProvider(
+        hostname,
+        Number(Deno.env.get("SMTP_PORT")) || 587,
+        Deno.env.get("SMTP_USER"),
+        Deno.env.get("SMTP_PASSWORD"),
+        from,
+      );
+    }
+    case "http": {
+      // url may come from an organization's admin settings, so the
+      // deployment's API key is only sent to the deployment's own endpoint
+      const deploymentUrl = Deno.env.get("EMAIL_API_URL");
+      const url = config.url || deploymentUrl;
+      if (!url) {
+        throw new EmailProviderError("EMAIL_API_URL is not configured");
+      }
+      return new HttpEmailProvider(
+        url,
+        deploymentUrl && isSameUrl(url, deploymentUrl) ? Deno.env.get("EMAIL_API_KEY") : undefined,
+        from,
+      );
+    }
+    case "capture":
+      return new CaptureProvider(supabaseAdmin);
+  }
+}
+
+// Read the organization's admin setting with the service role and build the provider
+export async function getEmailProvider(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+): Promise<EmailProvider> {
+  const setting = await getSetting(supabaseAdmin, organizationId, "email_provider");
+  return createEmailProvider(resolveEmailProviderConfig(setting), supabaseAdmin);
+}
+
+// Keep the first character of the local part: a***@example.org
+export const maskEmail = (email: string) => email.replace(/^(.)[^@]*(@.*)$/, "$1***$2");
+
+// The organization's alert_emails admin setting; a list that fails validation emails nobody
+export async function getAlertEmails(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+): Promise<string[]> {
+  return await getSetting(supabaseAdmin, organizationId, "alert_emails");
+}
+
+export interface EmailDeliveryResult {
+  deliveryId: string | null;
+  status: DeliveryStatus;
+  error: string | null;
+}
+
+/**
+ * Send one email and record its outcome in alert_deliveries.
+ * Provider failures are recorded rather than thrown so the other recipients
+ * still get the message.
+ */
+export async function deliverEmail(
+  supabaseAdmin: SupabaseClient,
+  provider: EmailProvider,
+  incidentId: string,
+  message: EmailMessage,
+  escalationStep?: number,
+): Promise<EmailDeliveryResult> {
+  const { data: record, error: recordError } = await supabaseAdmin
+    .from("alert_deliveries")
+    .insert({
+      incident_id: incidentId,
+      helper_id: null,
+      channel: "email",
+      provider: provider.name,
+      recipient: maskEmail(message.to),
+      message: message.subject,
+      status: "queued",
+      sent_by: null,
+      escalation_step: escalationStep ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (recordError) {
+    console.error("Failed to record email delivery:", recordError);
+  }
+  const deliveryId: string | null = record?.id ?? null;
+
+  let status: DeliveryStatus;
+  let providerMessageId: string | null = null;
+  let errorMessage: string | null = null;
+  try {
+    ({ providerMessageId } = await provider.send(message));
+    status = "sent";
+  } catch (error) {
+    console.error(`Email to ${maskEmail(message.to)} failed:`, error);
+    status = "failed";
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  if (deliveryId) {
+    await supabaseAdmin
+      .from("alert_deliveries")
+      .update({
+        status,
+        provider_message_id: providerMessageId,
+        error: errorMessage,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", deliveryId);
+  }
+
+  return { deliveryId, status, error: errorMessage };
+}
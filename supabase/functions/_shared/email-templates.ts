@@ -0,0 +1,133 @@
+// Alert email templates. Rendered by send-email-alert and the escalation
+// worker, and returned as-is for the Admin panel preview.
+import { mapsLink, severityEmoji } from "./alert-messages.ts";
+
+export type EmailEvent = "high_severity" | "escalated" | "escalation_step";
+
+export const EMAIL_EVENTS: EmailEvent[] = ["high_severity", "escalated", "escalation_step"];
+
+export const isEmailEvent = (value: unknown): value is EmailEvent =>
+  typeof value === "string" && (EMAIL_EVENTS as string[]).includes(value);
+
+export interface EmailIncident {
+  id: string;
+  type: string;
+  severity: string | null;
+  status: string;
+  description: string;
+  location_name: string | null;
+  latitude: number;
+  longitude: number;
+  ai_analysis: { reasoning?: string; immediateActions?: string[] } | null;
+  created_at: string;
+}
+
+export interface EmailTemplateContext {
+  event: EmailEvent;
+  incident: EmailIncident;
+  // Escalation worker steps only
+  policyName?: string;
+  step?: number;
+  totalSteps?: number;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const SAMPLE_INCIDENT: EmailIncident = {
+  id: "00000000-0000-4000-8000-000000000000",
+  type: "medical",
+  severity: "critical",
+  status: "active",
+  description: "Person collapsed near the main stage, not responsive. Bystander performing CPR.",
+  location_name: "Main stage, north entrance",
+  latitude: 51.5074,
+  longitude: -0.1278,
+  ai_analysis: {
+    reasoning: "Unresponsive person with CPR in progress indicates possible cardiac arrest.",
+    immediateActions: ["Dispatch nearest medical helper with AED", "Clear access route for ambulance"],
+  },
+  created_at: "2026-01-01T12:00:00.000Z",
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Dashboard link when DASHBOARD_URL is set (e.g. https://aegis.example.org)
+const dashboardLink = () => {
+  const base = Deno.env.get("DASHBOARD_URL");
+  return base ? `${base.replace(/\/$/, "")}/dashboard` : null;
+};
+
+function headline({ event, incident, policyName, step, totalSteps }: EmailTemplateContext): string {
+  const type = capitalize(incident.type);
+  switch (event) {
+    case "high_severity":
+      return `${type} incident reported at ${(incident.severity || "unknown").toUpperCase()} severity`;
+    case "escalated":
+      return `${type} incident escalated by an operator`;
+    case "escalation_step":
+      return `No helper has accepted yet: ${policyName ?? "escalation"} step ${step ?? "?"} of ${totalSteps ?? "?"} sent`;
+  }
+}
+
+export function renderIncidentEmail(context: EmailTemplateContext): RenderedEmail {
+  const { incident } = context;
+  const severity = incident.severity || "unknown";
+  const title = headline(context);
+  const location = incident.location_name || `${incident.latitude.toFixed(5)}, ${incident.longitude.toFixed(5)}`;
+  const map = mapsLink(incident.latitude, incident.longitude);
+  const summary = incident.ai_analysis?.reasoning || incident.description;
+  const actions = incident.ai_analysis?.immediateActions ?? [];
+  const dashboard = dashboardLink();
+  const reported = new Date(incident.created_at).toUTCString();
+
+  const subject = `${severityEmoji(severity)} [${severity.toUpperCase()}] ${title}`.substring(0, 200);
+
+  const text = [
+    title,
+    "",
+    `Type: ${capitalize(incident.type)}`,
+    `Severity: ${severity.toUpperCase()}`,
+    `Status: ${incident.status.replace(/_/g, " ")}`,
+    `Reported: ${reported}`,
+    `Location: ${location} (${map})`,
+    "",
+    summary,
+    ...(actions.length > 0 ? ["", "Immediate actions:", ...actions.map((a) => `- ${a}`)] : []),
+    ...(dashboard ? ["", `Open the dashboard: ${dashboard}`] : []),
+    "",
+    `Incident ID: ${incident.id}`,
+  ].join("\n");
+
+  const row = (label: string, value: string) =>
+    `<tr><td style="padding:4px 12px 4px 0;color:#6b7280">${label}</td><td style="padding:4px 0">${value}</td></tr>`;
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family:system-ui,sans-serif;max-width:560px;margin:0 auto;padding:16px;color:#111827">
+<h2 style="margin:0 0 12px">${escapeHtml(title)}</h2>
+<table style="border-collapse:collapse;font-size:14px">
+${row("Type", escapeHtml(capitalize(incident.type)))}
+${row("Severity", `<strong>${escapeHtml(severity.toUpperCase())}</strong>`)}
+${row("Status", escapeHtml(incident.status.replace(/_/g, " ")))}
+${row("Reported", escapeHtml(reported))}
+${row("Location", `<a href="${escapeHtml(map)}">${escapeHtml(location)}</a>`)}
+</table>
+<p style="font-size:14px;line-height:1.5">${escapeHtml(summary)}</p>
+${actions.length > 0
+    ? `<p style="font-size:14px;margin-bottom:4px"><strong>Immediate actions</strong></p>
+<ul style="font-size:14px;margin-top:0">${actions.map((a) => `<li>${escapeHtml(a)}</li>`).join("")}</ul>`
+    : ""}
+${dashboard ? `<p><a href="${escapeHtml(dashboard)}">Open the dashboard</a></p>` : ""}
+<p style="font-size:12px;color:#6b7280">Incident ID: ${escapeHtml(incident.id)}</p>
+</body>
+</html>`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,141 @@
+// Embedding provider layer for "similar incidents".
+// Embeddings are optional: without a provider, similar incidents fall back to
+// trigram similarity in the database.
+
+export type EmbeddingProviderName = "openai" | "none";
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  baseUrl?: string;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "EmbeddingProviderError";
+  }
+}
+
+const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "text-embedding-3-small";
+
+// Any endpoint that speaks the OpenAI embeddings protocol, including local
+// servers such as Ollama, LM Studio, vLLM and text-embeddings-inference
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    public readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Embedding provider error:", response.status, errorText);
+      throw new EmbeddingProviderError(`Embedding provider error: ${response.status}`, response.status);
+    }
+
+    const result = await response.json();
+    const data = Array.isArray(result.data) ? result.data : [];
+    if (data.length !== texts.length) {
+      throw new EmbeddingProviderError(`Expected ${texts.length} embeddings, got ${data.length}`);
+    }
+
+    // Entries carry their input index; some servers do not keep the order
+    return [...data]
+      .sort((a: { index?: number }, b: { index?: number }) => (a.index ?? 0) - (b.index ?? 0))
+      .map((entry: { embedding?: unknown }) => {
+        if (!Array.isArray(entry.embedding) || !entry.embedding.every((v) => typeof v === "number")) {
+          throw new EmbeddingProviderError("Malformed embedding in provider response");
+        }
+        return entry.embedding as number[];
+      });
+  }
+}
+
+const isProviderName = (value: unknown): value is EmbeddingProviderName =>
+  value === "openai" || value === "none";
+
+/**
+ * Resolve the embedding provider for this deployment.
+ * Precedence: the `embedding_provider` admin setting, then the
+ * EMBEDDING_PROVIDER env var, otherwise none.
+ */
+export function resolveEmbeddingConfig(setting: unknown): EmbeddingProviderConfig {
+  if (setting && typeof setting === "object") {
+    const value = setting as Record<string, unknown>;
+    if (isProviderName(value.provider)) {
+      return {
+        provider: value.provider,
+        model: typeof value.model === "string" && value.model ? value.model : undefined,
+        baseUrl: typeof value.baseUrl === "string" && value.baseUrl ? value.baseUrl : undefined,
+      };
+    }
+  }
+
+  const envProvider = Deno.env.get("EMBEDDING_PROVIDER");
+  if (isProviderName(envProvider)) {
+    return {
+      provider: envProvider,
+      model: Deno.env.get("EMBEDDING_MODEL") || undefined,
+      baseUrl: Deno.env.get("EMBEDDING_BASE_URL") || undefined,
+    };
+  }
+
+  return { provider: "none" };
+}
+
+const isSameBaseUrl = (a: string, b: string) => a.replace(/\/+$/, "") === b.replace(/\/+$/, "");
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider | null {
+  switch (config.provider) {
+    case "openai": {
+      // baseUrl may come from an organization's admin settings, so the
+      // deployment's API key is only sent to the deployment's own endpoint.
+      // The key is optional so local embedding servers work too.
+      const deploymentBaseUrl = Deno.env.get("EMBEDDING_BASE_URL") || OPENAI_DEFAULT_BASE_URL;
+      const baseUrl = config.baseUrl || deploymentBaseUrl;
+      return new OpenAIEmbeddingProvider(
+        config.model || OPENAI_DEFAULT_MODEL,
+        baseUrl,
+        isSameBaseUrl(baseUrl, deploymentBaseUrl)
+          ? Deno.env.get("EMBEDDING_API_KEY") || Deno.env.get("OPENAI_API_KEY")
+          : undefined,
+      );
+    }
+    case "none":
+      return null;
+  }
+}
+
+// The text embedded for an incident; public.clear_incident_embedding drops
+// the embedding when any of these fields change
+export const incidentEmbeddingText = (incident: {
+  type: string;
+  description: string;
+  location_name: string | null;
+}) =>
+  [`${incident.type} incident`, incident.description, incident.location_name]
+    .filter(Boolean)
+    .join("\n")
+    .substring(0, 2000);
@@ -0,0 +1,147 @@
+// Helper responses to alerts, shared by the public helper-response link and
+// the inbound SMS webhook.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type HelperResponse = "accepted" | "declined" | "on_scene";
+
+export type ResponseChannel = "link" | "sms";
+
+export const RESPONSE_LABELS: Record<HelperResponse, string> = {
+  accepted: "accepted",
+  declined: "declined",
+  on_scene: "on scene",
+};
+
+// Keywords a helper can reply with (first word of the message, case-insensitive)
+const RESPONSE_KEYWORDS: Record<string, HelperResponse> = {
+  accept: "accepted",
+  accepted: "accepted",
+  yes: "accepted",
+  y: "accepted",
+  omw: "accepted",
+  decline: "declined",
+  declined: "declined",
+  no: "declined",
+  n: "declined",
+  onscene: "on_scene",
+  on_scene: "on_scene",
+  arrived: "on_scene",
+  here: "on_scene",
+};
+
+export const isHelperResponse = (value: unknown): value is HelperResponse =>
+  value === "accepted" || value === "declined" || value === "on_scene";
+
+export function parseResponseKeyword(text: string): HelperResponse | null {
+  const normalized = text.trim().toLowerCase().replace(/^on[\s-]+scene\b/, "onscene");
+  const keyword = normalized.split(/[^a-z_]+/)[0];
+  return RESPONSE_KEYWORDS[keyword] ?? null;
+}
+
+// 128 bits of randomness, URL-safe
+export function createResponseToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function buildResponseLink(token: string): string {
+  const baseUrl = Deno.env.get("HELPER_RESPONSE_URL") ||
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/helper-response`;
+  return `${baseUrl}?token=${encodeURIComponent(token)}`;
+}
+
+// Appended to every alert so helpers know how to answer
+export const responseInstructions = (token: string) =>
+  `Reply ACCEPT, DECLINE or ONSCENE, or respond at ${buildResponseLink(token)}`;
+
+// Alerts can be answered for a day after they were sent, and only while
+// their incident is still open
+export const RESPONSE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_INCIDENT_STATUSES = ["active", "acknowledged", "dispatched", "on_scene", "escalated"];
+
+// Columns to select from alert_deliveries for an AlertDeliveryRecord
+export const ALERT_DELIVERY_COLUMNS = "id, incident_id, helper_id, response, created_at, incidents(status)";
+
+export interface AlertDeliveryRecord {
+  id: string;
+  incident_id: string;
+  helper_id: string | null;
+  response: HelperResponse | null;
+  created_at: string;
+  incidents: { status: string } | null;
+}
+
+/**
+ * Why the helper can no longer answer this alert, or null if they can.
+ */
+export function responseClosedReason(delivery: AlertDeliveryRecord): string | null {
+  if (Date.now() - new Date(delivery.created_at).getTime() > RESPONSE_WINDOW_MS) {
+    return "This alert has expired. Please call the incident team instead.";
+  }
+  if (!delivery.incidents || !OPEN_INCIDENT_STATUSES.includes(delivery.incidents.status)) {
+    return "This incident has been closed and no longer needs a response.";
+  }
+  return null;
+}
+
+/**
+ * Store the helper's latest response on the delivery and write it to the
+ * audit trail. Helpers may change their answer (e.g. accepted -> on scene).
+ */
+export async function recordHelperResponse(
+  supabaseAdmin: SupabaseClient,
+  delivery: AlertDeliveryRecord,
+  response: HelperResponse,
+  channel: ResponseChannel,
+): Promise<void> {
+  const respondedAt = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("alert_deliveries")
+    .update({
+      response,
+      response_channel: channel,
+      responded_at: respondedAt,
+      updated_at: respondedAt,
+    })
+    .eq("id", delivery.id);
+
+  if (error) {
+    throw new Error(`Failed to record response: ${error.message}`);
+  }
+
+  let helperName: string | null = null;
+  if (delivery.helper_id) {
+    const { data: helper } = await supabaseAdmin
+      .from("helpers")
+      .select("name")
+      .eq("id", delivery.helper_id)
+      .maybeSingle();
+    helperName = helper?.name ?? null;
+  }
+
+  const { error: auditError } = await supabaseAdmin.from("audit_logs").insert({
+    action: "helper_responded",
+    actor_id: null,
+    actor_email: null,
+    incident_id: delivery.incident_id,
+    metadata: {
+      helper_id: delivery.helper_id,
+      helper_name: helperName,
+      response,
+      previous_response: delivery.response,
+      response_channel: channel,
+      delivery_id: delivery.id,
+    },
+  });
+
+  // The response itself is stored; a missing audit entry shouldn't make the
+  // helper answer again
+  if (auditError) {
+    console.error(`Failed to audit response for delivery ${delivery.id}:`, auditError);
+  }
+}
@@ -0,0 +1,51 @@
+// Organization and permission checks for edge functions called from the dashboard.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Mirrors the public.app_permission enum
+export type Permission =
+  | "can_report"
+  | "can_manage_incidents"
+  | "can_resolve"
+  | "can_alert_helpers"
+  | "can_view_helper_phone"
+  | "can_export"
+  | "can_manage_users";
+
+export async function hasOrgPermission(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  organizationId: string,
+  permission: Permission,
+): Promise<boolean> {
+  const { data, error } = await supabaseClient.rpc("has_org_permission", {
+    _user_id: userId,
+    _organization_id: organizationId,
+    _permission: permission,
+  });
+
+  return !error && data === true;
+}
+
+/**
+ * The organization of an incident, when the caller holds the permission there.
+ * Pass the caller's client: RLS hides incidents of other organizations, so
+ * those resolve to null just like incidents that do not exist.
+ */
+export async function getIncidentOrganizationWithPermission(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  incidentId: string,
+  permission: Permission,
+): Promise<string | null> {
+  const { data: incident, error } = await supabaseClient
+    .from("incidents")
+    .select("organization_id")
+    .eq("id", incidentId)
+    .maybeSingle();
+
+  if (error || !incident) return null;
+
+  return await hasOrgPermission(supabaseClient, userId, incident.organization_id, permission)
+    ? incident.organization_id
+    : null;
+}
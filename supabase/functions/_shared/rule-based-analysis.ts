@@ -0,0 +1,152 @@
+// Deterministic, offline incident classifier used by the "rules" AI provider.
+// Severity comes from the incident type baseline, raised by keyword matches in
+// the description. The same input always produces the same analysis.
+
+export type Severity = "low" | "medium" | "high" | "critical";
+
+export interface AIAnalysis {
+  severity: Severity;
+  immediateActions: string[];
+  resourceRecommendations: string[];
+  reasoning: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const SEVERITY_BY_RANK: Severity[] = ["low", "medium", "high", "critical"];
+
+// Baseline severity per incident type before keywords are considered
+const TYPE_BASELINE: Record<string, Severity> = {
+  medical: "medium",
+  fire: "high",
+  security: "medium",
+  infrastructure: "low",
+};
+
+// Keywords (matched as whole words / phrases, case-insensitive) and the
+// minimum severity they imply
+const KEYWORD_RULES: { severity: Severity; keywords: string[] }[] = [
+  {
+    severity: "critical",
+    keywords: [
+      "active shooter", "shooter", "gun", "gunshot", "shots fired", "explosion", "explosive",
+      "bomb", "hostage", "unconscious", "not breathing", "cardiac arrest", "heart attack",
+      "stabbing", "stabbed", "mass casualty", "multiple injured", "trapped", "collapse",
+      "collapsed building", "spreading fire", "building on fire", "gas leak", "overdose",
+    ],
+  },
+  {
+    severity: "high",
+    keywords: [
+      "fire", "smoke", "flames", "bleeding", "blood", "injured", "injury", "seizure",
+      "chest pain", "fracture", "broken bone", "weapon", "knife", "assault", "fight",
+      "threat", "chemical", "spill", "electrical fire", "sparks", "flooding", "allergic",
+      "anaphylaxis", "burn", "fainted", "intruder", "break-in",
+    ],
+  },
+  {
+    severity: "medium",
+    keywords: [
+      "fall", "fell", "dizzy", "sprain", "cut", "theft", "stolen", "suspicious",
+      "harassment", "trespass", "leak", "power outage", "outage", "elevator stuck",
+      "stuck", "alarm", "vandalism", "broken glass",
+    ],
+  },
+  {
+    severity: "low",
+    keywords: [
+      "minor", "maintenance", "light out", "noise", "lost", "found item", "graffiti",
+      "parking", "informational",
+    ],
+  },
+];
+
+const TYPE_ACTIONS: Record<string, string[]> = {
+  medical: [
+    "Dispatch the nearest first responder with a first aid kit",
+    "Call emergency medical services if the person is unresponsive or seriously injured",
+    "Keep the patient still and monitor breathing until help arrives",
+    "Clear space around the patient and keep bystanders back",
+  ],
+  fire: [
+    "Activate the nearest fire alarm and call the fire department",
+    "Evacuate the building using the nearest safe exit",
+    "Do not use elevators; account for occupants at the assembly point",
+    "Restrict access to the affected area until cleared by fire services",
+  ],
+  security: [
+    "Dispatch campus security to the location",
+    "Keep people at a safe distance and avoid confronting the suspect",
+    "Gather descriptions from witnesses and preserve any evidence",
+    "Notify local police if there is a threat to persons",
+  ],
+  infrastructure: [
+    "Cordon off the affected area",
+    "Notify facilities management",
+    "Isolate utilities (power, water, gas) if it is safe to do so",
+    "Post signage and redirect foot traffic",
+  ],
+};
+
+const TYPE_RESOURCES: Record<string, string[]> = {
+  medical: ["Campus medical team", "First aid kit / AED", "Ambulance (if severe)"],
+  fire: ["Fire department", "Campus security for evacuation", "Fire extinguishers"],
+  security: ["Campus security patrol", "Local police (if escalating)", "CCTV review"],
+  infrastructure: ["Facilities maintenance crew", "Electrician / plumber as needed", "Safety barriers"],
+};
+
+const CRITICAL_ACTIONS = [
+  "Treat as life-threatening: alert all available responders immediately",
+  "Notify the incident commander and campus leadership",
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const findKeywordMatches = (description: string) => {
+  const text = description.toLowerCase();
+  const matches: { keyword: string; severity: Severity }[] = [];
+
+  for (const rule of KEYWORD_RULES) {
+    for (const keyword of rule.keywords) {
+      const pattern = new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i");
+      if (pattern.test(text)) {
+        matches.push({ keyword, severity: rule.severity });
+      }
+    }
+  }
+
+  return matches;
+};
+
+export function analyzeWithRules(type: string, description: string): AIAnalysis {
+  const normalizedType = type.toLowerCase();
+  const baseline = TYPE_BASELINE[normalizedType] ?? "medium";
+  const matches = findKeywordMatches(description);
+
+  // Escalating keywords raise severity; "low" keywords only lower it when
+  // nothing more serious matched.
+  let rank = SEVERITY_RANK[baseline];
+  const escalating = matches.filter((m) => m.severity !== "low");
+  if (escalating.length > 0) {
+    rank = Math.max(rank, ...escalating.map((m) => SEVERITY_RANK[m.severity]));
+  } else if (matches.some((m) => m.severity === "low")) {
+    rank = Math.max(0, rank - 1);
+  }
+
+  const severity = SEVERITY_BY_RANK[rank];
+  const baseActions = TYPE_ACTIONS[normalizedType] ?? TYPE_ACTIONS.security;
+  const immediateActions = severity === "critical"
+    ? [...CRITICAL_ACTIONS, ...baseActions].slice(0, 5)
+    : baseActions.slice(0, severity === "low" ? 3 : 4);
+
+  const matchedKeywords = matches.map((m) => `"${m.keyword}"`);
+  const reasoning = matchedKeywords.length > 0
+    ? `Rule-based assessment: ${normalizedType} incident (baseline ${baseline}) with indicators ${matchedKeywords.slice(0, 5).join(", ")} classified as ${severity}.`
+    : `Rule-based assessment: no severity indicators found; using the ${normalizedType} baseline of ${baseline}.`;
+
+  return {
+    severity,
+    immediateActions,
+    resourceRecommendations: TYPE_RESOURCES[normalizedType] ?? TYPE_RESOURCES.security,
+    reasoning,
+  };
+}
@@ -0,0 +1,303 @@
+// Typed schema for the admin_settings key/value table.
+// Shared by the edge functions and the frontend (re-exported from
+// src/lib/settings.ts), so it must stay dependency-free and runtime-neutral.
+
+export type SettingsSeverity = "low" | "medium" | "high" | "critical";
+
+export interface MapCenter {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// "auto" uses Google Maps when it loads and the offline map otherwise
+export type MapProviderKind = "auto" | "google" | "tiles" | "image";
+
+export interface MapImageBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface MapProviderSettings {
+  provider: MapProviderKind;
+  // XYZ tile URL template, e.g. https://tiles.campus.local/{z}/{x}/{y}.png
+  tile_url: string;
+  attribution: string;
+  max_zoom: number;
+  // Campus map image stretched over image_bounds when there are no tiles
+  image_url: string;
+  image_bounds: MapImageBounds | null;
+}
+
+// Provider rows mirror the configs in ai-providers.ts, embedding-providers.ts,
+// sms-providers.ts and email-providers.ts. NULL (no row) leaves the choice to
+// the deployment's environment.
+export const AI_PROVIDER_NAMES = ["lovable", "openai", "rules"] as const;
+export const EMBEDDING_PROVIDER_NAMES = ["openai", "none"] as const;
+export const SMS_PROVIDER_NAMES = ["twilio", "http", "mock"] as const;
+export const EMAIL_PROVIDER_NAMES = ["smtp", "http", "capture"] as const;
+
+export interface ModelProviderSettings<P extends string> {
+  provider: P;
+  model?: string;
+  baseUrl?: string;
+}
+
+export interface GatewayProviderSettings<P extends string> {
+  provider: P;
+  from?: string;
+  url?: string;
+}
+
+export interface AppSettings {
+  nearby_helpers_radius_km: number;
+  alert_timezone: string;
+  map_default_center: MapCenter;
+  notification_min_severity: SettingsSeverity;
+  map_provider: MapProviderSettings;
+  ai_provider: ModelProviderSettings<(typeof AI_PROVIDER_NAMES)[number]> | null;
+  embedding_provider: ModelProviderSettings<(typeof EMBEDDING_PROVIDER_NAMES)[number]> | null;
+  sms_provider: GatewayProviderSettings<(typeof SMS_PROVIDER_NAMES)[number]> | null;
+  email_provider: GatewayProviderSettings<(typeof EMAIL_PROVIDER_NAMES)[number]> | null;
+  escalation_pager_numbers: string[];
+  alert_emails: string[];
+}
+
+export type SettingKey = keyof AppSettings;
+
+export interface SettingDefinition<T> {
+  label: string;
+  description: string;
+  defaultValue: T;
+  // Returns an error message, or null when the value is valid
+  validate: (value: unknown) => string | null;
+}
+
+const SEVERITIES: SettingsSeverity[] = ["low", "medium", "high", "critical"];
+
+export const MAP_PROVIDER_KINDS: MapProviderKind[] = ["auto", "google", "tiles", "image"];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+export const isValidEmail = (value: string) =>
+  value.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+// As kept by the escalation admin card, which drops entries with fewer digits
+const isPagerNumber = (value: unknown) =>
+  typeof value === "string" && value.length <= 32 && value.replace(/\D/g, "").length >= 6;
+
+const validateStringList = (value: unknown, isValid: (item: unknown) => boolean, message: string) =>
+  Array.isArray(value) && value.every(isValid) ? null : message;
+
+// Optional text fields of a provider row; those named in urlFields must be http(s) URLs
+const validateProviderSettings = (
+  value: unknown,
+  names: readonly string[],
+  textFields: string[],
+  urlFields: string[],
+) => {
+  if (value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) return "Must be an object with a provider, or null";
+  const fields = value as Record<string, unknown>;
+  if (typeof fields.provider !== "string" || !names.includes(fields.provider)) {
+    return `Provider must be one of ${names.join(", ")}`;
+  }
+  for (const field of [...textFields, ...urlFields]) {
+    const text = fields[field];
+    if (text === undefined || text === "") continue;
+    if (typeof text !== "string" || text.length > 2048) return `${field} must be text`;
+    if (urlFields.includes(field) && !isHttpUrl(text)) return `${field} must be an http(s) URL`;
+  }
+  return null;
+};
+
+const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const SETTINGS_SCHEMA: { [K in SettingKey]: SettingDefinition<AppSettings[K]> } = {
+  nearby_helpers_radius_km: {
+    label: "Nearby helpers radius (km)",
+    description: "Search radius for nearby helpers and bulk emergency alerts.",
+    defaultValue: 2,
+    validate: (value) =>
+      isFiniteNumber(value) && value >= 0.1 && value <= 50 ? null : "Must be a number between 0.1 and 50",
+  },
+  alert_timezone: {
+    label: "Alert timezone",
+    description: "IANA timezone used for timestamps in alert messages, e.g. Asia/Kolkata.",
+    defaultValue: "Asia/Kolkata",
+    validate: (value) =>
+      typeof value === "string" && value.length <= 64 && isValidTimeZone(value)
+        ? null
+        : "Must be a valid IANA timezone",
+  },
+  map_default_center: {
+    label: "Default map center",
+    description: "Where the incident map opens before any incident is selected.",
+    defaultValue: { lat: 42.3601, lng: -71.0942, zoom: 15 },
+    validate: (value) => {
+      if (!value || typeof value !== "object") return "Must be an object with lat, lng and zoom";
+      const { lat, lng, zoom } = value as Record<string, unknown>;
+      if (!isFiniteNumber(lat) || lat < -90 || lat > 90) return "Latitude must be between -90 and 90";
+      if (!isFiniteNumber(lng) || lng < -180 || lng > 180) return "Longitude must be between -180 and 180";
+      if (!isFiniteNumber(zoom) || !Number.isInteger(zoom) || zoom < 1 || zoom > 21) {
+        return "Zoom must be a whole number between 1 and 21";
+      }
+      return null;
+    },
+  },
+  notification_min_severity: {
+    label: "Notification severity threshold",
+    description: "New active incidents at or above this severity raise a notification.",
+    defaultValue: "high",
+    validate: (value) =>
+      typeof value === "string" && (SEVERITIES as string[]).includes(value)
+        ? null
+        : `Must be one of ${SEVERITIES.join(", ")}`,
+  },
+  map_provider: {
+    label: "Map provider",
+    description:
+      "Google Maps, or a self-hosted tile server or campus image that keeps the map working without internet access.",
+    defaultValue: {
+      provider: "auto",
+      tile_url: "",
+      attribution: "",
+      max_zoom: 19,
+      image_url: "",
+      image_bounds: null,
+    },
+    validate: (value) => {
+      if (!value || typeof value !== "object") return "Must be an object with a provider";
+      const { provider, tile_url, attribution, max_zoom, image_url, image_bounds } =
+        value as Record<string, unknown>;
+      if (typeof provider !== "string" || !(MAP_PROVIDER_KINDS as string[]).includes(provider)) {
+        return `Provider must be one of ${MAP_PROVIDER_KINDS.join(", ")}`;
+      }
+      if (typeof tile_url !== "string" || typeof attribution !== "string" || typeof image_url !== "string") {
+        return "Tile URL, attribution and image URL must be text";
+      }
+      if (attribution.length > 200) return "Attribution must be at most 200 characters";
+      if (tile_url !== "" && !(isHttpUrl(tile_url) && ["{z}", "{x}", "{y}"].every((p) => tile_url.includes(p)))) {
+        return "Tile URL must be an http(s) URL containing {z}, {x} and {y}";
+      }
+      if (image_url !== "" && !isHttpUrl(image_url)) return "Image URL must be an http(s) URL";
+      if (!isFiniteNumber(max_zoom) || !Number.isInteger(max_zoom) || max_zoom < 1 || max_zoom > 22) {
+        return "Max zoom must be a whole number between 1 and 22";
+      }
+      if (image_bounds !== null) {
+        if (!image_bounds || typeof image_bounds !== "object") return "Image bounds must be an object or null";
+        const { south, west, north, east } = image_bounds as Record<string, unknown>;
+        if (![south, north].every((v) => isFiniteNumber(v) && v >= -90 && v <= 90)) {
+          return "Image bounds latitudes must be between -90 and 90";
+        }
+        if (![west, east].every((v) => isFiniteNumber(v) && v >= -180 && v <= 180)) {
+          return "Image bounds longitudes must be between -180 and 180";
+        }
+        if ((south as number) >= (north as number) || (west as number) >= (east as number)) {
+          return "Image bounds must have south below north and west below east";
+        }
+      }
+      if (provider === "tiles" && tile_url === "") return "The tiles provider needs a tile URL";
+      if (provider === "image" && (image_url === "" || image_bounds === null)) {
+        return "The image provider needs an image URL and its bounds";
+      }
+      return null;
+    },
+  },
+  ai_provider: {
+    label: "AI provider",
+    description: "Model used for incident analysis.",
+    defaultValue: null,
+    validate: (value) => validateProviderSettings(value, AI_PROVIDER_NAMES, ["model"], ["baseUrl"]),
+  },
+  embedding_provider: {
+    label: "Embedding provider",
+    description: "Model used to find similar incidents; without one they are matched on wording.",
+    defaultValue: null,
+    validate: (value) => validateProviderSettings(value, EMBEDDING_PROVIDER_NAMES, ["model"], ["baseUrl"]),
+  },
+  sms_provider: {
+    label: "SMS provider",
+    description: "Gateway for helper alerts and escalation pages.",
+    defaultValue: null,
+    validate: (value) => validateProviderSettings(value, SMS_PROVIDER_NAMES, ["from"], ["url"]),
+  },
+  email_provider: {
+    label: "Email provider",
+    description: "Gateway for alert emails.",
+    defaultValue: null,
+    validate: (value) => validateProviderSettings(value, EMAIL_PROVIDER_NAMES, ["from"], ["url"]),
+  },
+  escalation_pager_numbers: {
+    label: "Admin pager numbers",
+    description: "Numbers paged by escalation steps that page admins.",
+    defaultValue: [],
+    validate: (value) =>
+      validateStringList(value, isPagerNumber, "Must be a list of phone numbers with at least 6 digits"),
+  },
+  alert_emails: {
+    label: "Alert emails",
+    description: "Addresses emailed on high and critical incidents and escalations.",
+    defaultValue: [],
+    validate: (value) =>
+      validateStringList(value, (item) => typeof item === "string" && isValidEmail(item), "Must be a list of email addresses"),
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+// Edited in the generic settings panel; recipients have their own admin cards
+// and provider rows are set directly in admin_settings
+export const SETTINGS_PANEL_KEYS: SettingKey[] = [
+  "nearby_helpers_radius_km",
+  "alert_timezone",
+  "map_default_center",
+  "notification_min_severity",
+  "map_provider",
+];
+
+export const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+
+export const validateSetting = <K extends SettingKey>(key: K, value: unknown): string | null =>
+  SETTINGS_SCHEMA[key].validate(value);
+
+// Stored values that fail validation fall back to the default rather than
+// breaking the caller
+export function parseSetting<K extends SettingKey>(key: K, value: unknown): AppSettings[K] {
+  const definition = SETTINGS_SCHEMA[key];
+  if (value === undefined || value === null || definition.validate(value) !== null) {
+    return definition.defaultValue;
+  }
+  return value as AppSettings[K];
+}
+
+export function resolveSettings(rows: { key: string; value: unknown }[]): AppSettings {
+  const stored = new Map(rows.map((row) => [row.key, row.value]));
+  return Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, parseSetting(key, stored.get(key))]),
+  ) as unknown as AppSettings;
+}
+
+export const severityMeetsThreshold = (severity: string | null, threshold: SettingsSeverity) =>
+  severity !== null &&
+  SEVERITIES.indexOf(severity as SettingsSeverity) >= SEVERITIES.indexOf(threshold);
@@ -0,0 +1,29 @@
+// Typed admin_settings access for edge functions.
+// admin_settings is admin-only under RLS, so pass a service role client.
+// Settings are per organization; callers pass the organization of the incident.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AppSettings, parseSetting, type SettingKey, validateSetting } from "./settings-schema.ts";
+
+export async function getSetting<K extends SettingKey>(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+  key: K,
+): Promise<AppSettings[K]> {
+  const { data, error } = await supabaseAdmin
+    .from("admin_settings")
+    .select("value")
+    .eq("organization_id", organizationId)
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to read setting ${key}, using the default:`, error);
+  }
+
+  const validationError = data ? validateSetting(key, data.value) : null;
+  if (validationError) {
+    console.error(`Invalid setting ${key} (${validationError}), using the default`);
+  }
+
+  return parseSetting(key, data?.value);
+}
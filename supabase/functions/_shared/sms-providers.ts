@@ -0,0 +1,288 @@
+// SMS provider layer for helper alerts.
+// Every message goes through deliverSms so each recipient gets an
+// alert_deliveries row whose status reflects what the provider reported.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSetting } from "./settings.ts";
+
+export type SmsProviderName = "twilio" | "http" | "mock";
+
+export type DeliveryStatus = "queued" | "sent" | "failed";
+
+export interface SmsProviderConfig {
+  provider: SmsProviderName;
+  from?: string;
+  url?: string;
+}
+
+export interface SmsSendResult {
+  providerMessageId: string | null;
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+// Carries the upstream HTTP status so callers can report it per recipient
+export class SmsProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "SmsProviderError";
+  }
+}
+
+export class SmsProviderNotConfiguredError extends SmsProviderError {
+  constructor() {
+    super(
+      "SMS provider not configured. Set the sms_provider admin setting or the SMS_PROVIDER secret " +
+        '(use "mock" only for local development).',
+    );
+    this.name = "SmsProviderNotConfiguredError";
+  }
+}
+
+// Twilio Programmable Messaging REST API
+class TwilioProvider implements SmsProvider {
+  readonly name = "twilio" as const;
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string,
+  ) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        },
+        body: new URLSearchParams({ To: to, From: this.from, Body: body }),
+      },
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error("Twilio error:", response.status, result);
+      throw new SmsProviderError(result.message || `Twilio error: ${response.status}`, response.status);
+    }
+
+    return { providerMessageId: result.sid ?? null };
+  }
+}
+
+// Generic JSON gateway: POST {to, body, from} and read back {id} or {messageId}
+class HttpGatewayProvider implements SmsProvider {
+  readonly name = "http" as const;
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string | undefined,
+    private readonly from: string | undefined,
+  ) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ to, body, from: this.from }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error("SMS gateway error:", response.status, result);
+      throw new SmsProviderError(`SMS gateway error: ${response.status}`, response.status);
+    }
+
+    return { providerMessageId: result.id ?? result.messageId ?? null };
+  }
+}
+
+// Local development provider: nothing leaves the project, messages are
+// written to mock_sms_messages instead
+class MockProvider implements SmsProvider {
+  readonly name = "mock" as const;
+
+  constructor(private readonly supabaseAdmin: SupabaseClient) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const { data, error } = await this.supabaseAdmin
+      .from("mock_sms_messages")
+      .insert({ to_number: to, body })
+      .select("id")
+      .single();
+
+    if (error) {
+      throw new SmsProviderError(`Mock gateway error: ${error.message}`);
+    }
+
+    return { providerMessageId: data.id };
+  }
+}
+
+const isProviderName = (value: unknown): value is SmsProviderName =>
+  value === "twilio" || value === "http" || value === "mock";
+
+/**
+ * Resolve the SMS provider for this deployment.
+ * Precedence: the `sms_provider` admin setting, then the SMS_PROVIDER env var,
+ * then Twilio when its credentials are set. Without any of these sending
+ * fails: the mock gateway only records messages, so it must be chosen
+ * explicitly rather than silently standing in for a real provider.
+ */
+export function resolveSmsProviderConfig(setting: unknown): SmsProviderConfig {
+  if (setting && typeof setting === "object") {
+    const value = setting as Record<string, unknown>;
+    if (isProviderName(value.provider)) {
+      return {
+        provider: value.provider,
+        from: typeof value.from === "string" && value.from ? value.from : undefined,
+        url: typeof value.url === "string" && value.url ? value.url : undefined,
+      };
+    }
+  }
+
+  const envProvider = Deno.env.get("SMS_PROVIDER");
+  if (isProviderName(envProvider)) {
+    return { provider: envProvider };
+  }
+
+  if (Deno.env.get("TWILIO_ACCOUNT_SID") && Deno.env.get("TWILIO_AUTH_TOKEN")) {
+    return { provider: "twilio" };
+  }
+
+  throw new SmsProviderNotConfiguredError();
+}
+
+const isSameUrl = (a: string, b: string) => a.replace(/\/+$/, "") === b.replace(/\/+$/, "");
+
+export function createSmsProvider(config: SmsProviderConfig, supabaseAdmin: SupabaseClient): SmsProvider {
+  switch (config.provider) {
+    case "twilio": {
+      const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+      const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+      const from = config.from || Deno.env.get("TWILIO_FROM_NUMBER");
+      if (!accountSid || !authToken || !from) {
+        throw new SmsProviderError("Twilio is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)");
+      }
+      return new TwilioProvider(accountSid, authToken, from);
+    }
+    case "http": {
+      // url may come from an organization's admin settings, so the
+      // deployment's token is only sent to the deployment's own gateway
+      const deploymentUrl = Deno.env.get("SMS_GATEWAY_URL");
+      const url = config.url || deploymentUrl;
+      if (!url) {
+        throw new SmsProviderError("SMS_GATEWAY_URL is not configured");
+      }
+      return new HttpGatewayProvider(
+        url,
+        deploymentUrl && isSameUrl(url, deploymentUrl) ? Deno.env.get("SMS_GATEWAY_TOKEN") : undefined,
+        config.from || Deno.env.get("SMS_FROM_NUMBER"),
+      );
+    }
+    case "mock":
+      return new MockProvider(supabaseAdmin);
+  }
+}
+
+// Read the organization's admin setting with the service role and build the provider
+export async function getSmsProvider(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+): Promise<SmsProvider> {
+  const setting = await getSetting(supabaseAdmin, organizationId, "sms_provider");
+  return createSmsProvider(resolveSmsProviderConfig(setting), supabaseAdmin);
+}
+
+export const maskPhone = (phone: string) => phone.replace(/\d(?=\d{4})/g, "*");
+
+// Digits only, with a leading + as providers expect E.164
+export const toE164 = (phone: string) => `+${phone.replace(/\D/g, "")}`;
+
+export interface SmsDelivery {
+  incidentId: string;
+  helperId: string | null;
+  phone: string;
+  body: string;
+  // NULL when sent by the escalation worker
+  sentBy: string | null;
+  escalationStep?: number;
+  // Lets the helper answer via the helper-response link (see helper-responses.ts)
+  responseToken?: string;
+}
+
+export interface SmsDeliveryResult {
+  deliveryId: string | null;
+  helperId: string | null;
+  // "mock" deliveries were only recorded, not sent
+  provider: SmsProviderName;
+  status: DeliveryStatus;
+  error: string | null;
+}
+
+/**
+ * Send one SMS and record its outcome in alert_deliveries.
+ * Provider failures are recorded rather than thrown so bulk sends continue.
+ */
+export async function deliverSms(
+  supabaseAdmin: SupabaseClient,
+  provider: SmsProvider,
+  delivery: SmsDelivery,
+): Promise<SmsDeliveryResult> {
+  const { data: record, error: recordError } = await supabaseAdmin
+    .from("alert_deliveries")
+    .insert({
+      incident_id: delivery.incidentId,
+      helper_id: delivery.helperId,
+      channel: "sms",
+      provider: provider.name,
+      recipient: maskPhone(delivery.phone.replace(/\D/g, "")),
+      message: delivery.body,
+      status: "queued",
+      sent_by: delivery.sentBy,
+      response_token: delivery.responseToken ?? null,
+      escalation_step: delivery.escalationStep ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (recordError) {
+    console.error("Failed to record delivery:", recordError);
+  }
+  const deliveryId: string | null = record?.id ?? null;
+
+  let status: DeliveryStatus;
+  let providerMessageId: string | null = null;
+  let errorMessage: string | null = null;
+  try {
+    ({ providerMessageId } = await provider.send(toE164(delivery.phone), delivery.body));
+    status = "sent";
+  } catch (error) {
+    console.error(`SMS to helper ${delivery.helperId} failed:`, error);
+    status = "failed";
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  if (deliveryId) {
+    await supabaseAdmin
+      .from("alert_deliveries")
+      .update({
+        status,
+        provider_message_id: providerMessageId,
+        error: errorMessage,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", deliveryId);
+  }
+
+  return { deliveryId, helperId: delivery.helperId, provider: provider.name, status, error: errorMessage };
+}
@@ -0,0 +1,422 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverSms, getSmsProvider, type SmsProvider } from "../_shared/sms-providers.ts";
+import { createResponseToken } from "../_shared/helper-responses.ts";
+import { buildSmsAlertMessage, describeIndoorLocation } from "../_shared/alert-messages.ts";
+import { sendIncidentEmails } from "../_shared/email-alerts.ts";
+import { parseSetting } from "../_shared/settings-schema.ts";
+
+// Scheduled worker (pg_cron, every minute) that walks open incidents through
+// their escalation policy. Each run executes at most one step per incident.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type Severity = "low" | "medium" | "high" | "critical";
+
+interface EscalationStep {
+  delay_minutes: number;
+  radius_km: number;
+  helper_roles: string[];
+  page_admins: boolean;
+}
+
+interface EscalationPolicy {
+  id: string;
+  organization_id: string;
+  name: string;
+  incident_type: string | null;
+  min_severity: Severity;
+  steps: EscalationStep[];
+}
+
+interface PendingIncident {
+  id: string;
+  organization_id: string;
+  type: string;
+  severity: Severity;
+  status: string;
+  description: string;
+  location_name: string | null;
+  latitude: number;
+  longitude: number;
+  ai_analysis: { reasoning?: string; immediateActions?: string[] } | null;
+  zone: { name: string } | null;
+  building: { name: string } | null;
+  floor: number | null;
+  room: string | null;
+  created_at: string;
+}
+
+interface EscalationState {
+  incident_id: string;
+  policy_id: string | null;
+  current_step: number;
+  last_step_at: string | null;
+  status: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// Nobody is on scene yet; later stages end the escalation
+const PENDING_STATUSES = ["active", "acknowledged", "dispatched", "escalated"];
+
+// Incidents older than this when first seen are not escalated (e.g. on first deploy)
+const MAX_INCIDENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Normalize admin-entered JSON so a bad step cannot crash the worker
+const parseSteps = (value: unknown): EscalationStep[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((step): step is Record<string, unknown> => !!step && typeof step === "object")
+    .map((step) => ({
+      delay_minutes: Math.max(0, Number(step.delay_minutes) || 0),
+      radius_km: Math.min(Math.max(Number(step.radius_km) || 2, 0.1), 50),
+      helper_roles: Array.isArray(step.helper_roles)
+        ? step.helper_roles.filter((r): r is string => typeof r === "string")
+        : [],
+      page_admins: step.page_admins === true,
+    }));
+
+// Only the incident's organization's policies apply. Type-specific policies
+// win over generic ones, then the highest threshold.
+function selectPolicy(policies: EscalationPolicy[], incident: PendingIncident): EscalationPolicy | null {
+  const candidates = policies.filter((policy) =>
+    policy.organization_id === incident.organization_id &&
+    (policy.incident_type === null || policy.incident_type === incident.type) &&
+    SEVERITY_RANK[incident.severity] >= SEVERITY_RANK[policy.min_severity] &&
+    policy.steps.length > 0
+  );
+
+  candidates.sort((a, b) =>
+    Number(b.incident_type !== null) - Number(a.incident_type !== null) ||
+    SEVERITY_RANK[b.min_severity] - SEVERITY_RANK[a.min_severity]
+  );
+
+  return candidates[0] ?? null;
+}
+
+async function logEscalation(
+  supabaseAdmin: SupabaseClient,
+  action: string,
+  incidentId: string,
+  metadata: Record<string, unknown>,
+) {
+  await supabaseAdmin.from("audit_logs").insert({
+    action,
+    actor_id: null,
+    actor_email: "escalation-worker",
+    incident_id: incidentId,
+    metadata,
+  });
+}
+
+async function finishEscalation(
+  supabaseAdmin: SupabaseClient,
+  state: EscalationState,
+  status: "acknowledged" | "exhausted" | "cancelled",
+) {
+  await supabaseAdmin
+    .from("incident_escalations")
+    .update({ status })
+    .eq("incident_id", state.incident_id)
+    .eq("status", "pending");
+}
+
+async function executeStep(
+  supabaseAdmin: SupabaseClient,
+  provider: SmsProvider,
+  incident: PendingIncident,
+  policy: EscalationPolicy,
+  stepIndex: number,
+  pagerNumbers: string[],
+) {
+  const step = policy.steps[stepIndex];
+
+  // Helpers already alerted for this incident are not messaged again
+  const { data: previous } = await supabaseAdmin
+    .from("alert_deliveries")
+    .select("helper_id")
+    .eq("incident_id", incident.id)
+    .not("helper_id", "is", null);
+  const alreadyAlerted = new Set((previous || []).map((d) => d.helper_id));
+
+  const { data: helpers, error: helpersError } = await supabaseAdmin
+    .from("helpers")
+    .select("id, name, mobile_number, role, latitude, longitude")
+    .eq("organization_id", incident.organization_id)
+    .eq("is_active", true);
+
+  if (helpersError) {
+    throw helpersError;
+  }
+
+  const recipients = (helpers || [])
+    .filter((helper) => step.helper_roles.length === 0 || step.helper_roles.includes(helper.role))
+    .filter((helper) => !alreadyAlerted.has(helper.id))
+    .filter((helper) =>
+      haversineKm(incident.latitude, incident.longitude, helper.latitude, helper.longitude) <= step.radius_km
+    );
+
+  const summary = (incident.ai_analysis?.reasoning || incident.description).replace(/\p{Cc}/gu, "");
+  const send = (helperId: string | null, phone: string) => {
+    const responseToken = createResponseToken();
+    return deliverSms(supabaseAdmin, provider, {
+      incidentId: incident.id,
+      helperId,
+      phone,
+      body: buildSmsAlertMessage({
+        incidentType: incident.type,
+        severity: incident.severity,
+        summary,
+        latitude: incident.latitude,
+        longitude: incident.longitude,
+        responseToken,
+        zoneName: incident.zone?.name,
+        indoorLocation: describeIndoorLocation({
+          buildingName: incident.building?.name,
+          floor: incident.floor,
+          room: incident.room,
+        }),
+      }),
+      sentBy: null,
+      escalationStep: stepIndex + 1,
+      responseToken,
+    });
+  };
+
+  const deliveries = await Promise.all([
+    ...recipients.map((helper) => send(helper.id, helper.mobile_number)),
+    ...(step.page_admins ? pagerNumbers.map((phone) => send(null, phone)) : []),
+  ]);
+  const sentCount = deliveries.filter((d) => d.status !== "failed").length;
+
+  await logEscalation(supabaseAdmin, "escalation_step_executed", incident.id, {
+    policy_id: policy.id,
+    policy_name: policy.name,
+    step: stepIndex + 1,
+    total_steps: policy.steps.length,
+    radius_km: step.radius_km,
+    helper_roles: step.helper_roles,
+    helpers_count: recipients.length,
+    admins_paged: step.page_admins ? pagerNumbers.length : 0,
+    sent_count: sentCount,
+    failed_count: deliveries.length - sentCount,
+  });
+
+  // The first step is the initial alert; later ones mean nobody has accepted
+  if (stepIndex > 0) {
+    try {
+      await sendIncidentEmails(supabaseAdmin, incident.organization_id, {
+        event: "escalation_step",
+        incident,
+        policyName: policy.name,
+        step: stepIndex + 1,
+        totalSteps: policy.steps.length,
+      }, "escalation-worker");
+    } catch (error) {
+      // Email problems must not hold up the SMS chain
+      console.error(`Escalation email for incident ${incident.id} failed:`, error);
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // ========== AUTHENTICATION CHECK ==========
+    // Only the scheduler (holding the service role key) may run the worker
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authHeader = req.headers.get("Authorization");
+    if (!supabaseServiceKey || authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    // ========== END AUTHENTICATION CHECK ==========
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: policyRows, error: policiesError } = await supabaseAdmin
+      .from("escalation_policies")
+      .select("id, organization_id, name, incident_type, min_severity, steps")
+      .eq("is_active", true);
+
+    if (policiesError) {
+      throw policiesError;
+    }
+
+    const policies: EscalationPolicy[] = (policyRows || []).map((row) => ({
+      ...row,
+      steps: parseSteps(row.steps),
+    }));
+
+    if (policies.length === 0) {
+      return new Response(JSON.stringify({ success: true, processed: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: incidents, error: incidentsError } = await supabaseAdmin
+      .from("incidents")
+      .select("id, organization_id, type, severity, status, description, location_name, latitude, longitude, ai_analysis, zone:zones!incidents_zone_id_fkey(name), building:zones!incidents_building_id_fkey(name), floor, room, created_at")
+      .in("status", PENDING_STATUSES)
+      .not("severity", "is", null)
+      // Merged reports are covered by their parent's escalation
+      .is("parent_incident_id", null);
+
+    if (incidentsError) {
+      throw incidentsError;
+    }
+
+    const openIds = (incidents || []).map((i) => i.id);
+    const { data: states } = openIds.length > 0
+      ? await supabaseAdmin
+        .from("incident_escalations")
+        .select("incident_id, policy_id, current_step, last_step_at, status")
+        .in("incident_id", openIds)
+      : { data: [] };
+    const stateByIncident = new Map((states || []).map((s: EscalationState) => [s.incident_id, s]));
+
+    // Escalations whose incident has progressed past the pending stages
+    const { data: pendingStates } = await supabaseAdmin
+      .from("incident_escalations")
+      .select("incident_id, policy_id, current_step, last_step_at, status")
+      .eq("status", "pending");
+    for (const state of (pendingStates || []) as EscalationState[]) {
+      if (!stateByIncident.has(state.incident_id)) {
+        await finishEscalation(supabaseAdmin, state, "cancelled");
+      }
+    }
+
+    // Pager numbers and SMS providers are configured per organization; a pager
+    // list that fails validation pages nobody
+    const { data: pagerSettings } = await supabaseAdmin
+      .from("admin_settings")
+      .select("organization_id, value")
+      .eq("key", "escalation_pager_numbers");
+    const pagerNumbersByOrganization = new Map(
+      (pagerSettings || []).map((setting) => [
+        setting.organization_id as string,
+        parseSetting("escalation_pager_numbers", setting.value),
+      ]),
+    );
+
+    const providers = new Map<string, SmsProvider>();
+    let stepsExecuted = 0;
+    const now = Date.now();
+
+    for (const incident of (incidents || []) as PendingIncident[]) {
+      let state = stateByIncident.get(incident.id);
+      if (state && state.status !== "pending") continue;
+
+      const policy = state?.policy_id
+        ? policies.find((p) => p.id === state!.policy_id && p.organization_id === incident.organization_id) ?? null
+        : selectPolicy(policies, incident);
+      if (!policy) continue;
+
+      if (!state) {
+        if (now - new Date(incident.created_at).getTime() > MAX_INCIDENT_AGE_MS) continue;
+
+        const { data: created, error: createError } = await supabaseAdmin
+          .from("incident_escalations")
+          .insert({ incident_id: incident.id, policy_id: policy.id })
+          .select("incident_id, policy_id, current_step, last_step_at, status")
+          .single();
+        // Another run created it first
+        if (createError || !created) continue;
+        state = created as EscalationState;
+      }
+
+      // A helper on the way ends the chain
+      const { count: acceptedCount } = await supabaseAdmin
+        .from("alert_deliveries")
+        .select("id", { count: "exact", head: true })
+        .eq("incident_id", incident.id)
+        .in("response", ["accepted", "on_scene"]);
+
+      if ((acceptedCount ?? 0) > 0) {
+        await finishEscalation(supabaseAdmin, state, "acknowledged");
+        await logEscalation(supabaseAdmin, "escalation_stopped", incident.id, {
+          policy_name: policy.name,
+          step: state.current_step + 1,
+          stop_reason: "helper_accepted",
+        });
+        continue;
+      }
+
+      const nextStep = state.current_step + 1;
+      if (nextStep >= policy.steps.length) {
+        await finishEscalation(supabaseAdmin, state, "exhausted");
+        await logEscalation(supabaseAdmin, "escalation_stopped", incident.id, {
+          policy_name: policy.name,
+          step: state.current_step + 1,
+          stop_reason: "no_response",
+        });
+        continue;
+      }
+
+      const waitFrom = new Date(state.last_step_at ?? incident.created_at).getTime();
+      if (now - waitFrom < policy.steps[nextStep].delay_minutes * 60 * 1000) continue;
+
+      let provider = providers.get(incident.organization_id);
+      if (!provider) {
+        try {
+          provider = await getSmsProvider(supabaseAdmin, incident.organization_id);
+        } catch (error) {
+          // Left unclaimed so the step runs once a provider is configured
+          console.error(`Escalation step for incident ${incident.id} not run:`, error);
+          continue;
+        }
+        providers.set(incident.organization_id, provider);
+      }
+
+      // Claim the step so overlapping runs cannot send it twice
+      const { data: claimed } = await supabaseAdmin
+        .from("incident_escalations")
+        .update({ current_step: nextStep, last_step_at: new Date().toISOString() })
+        .eq("incident_id", incident.id)
+        .eq("current_step", state.current_step)
+        .eq("status", "pending")
+        .select("incident_id");
+      if (!claimed || claimed.length === 0) continue;
+
+      await executeStep(
+        supabaseAdmin,
+        provider,
+        incident,
+        policy,
+        nextStep,
+        pagerNumbersByOrganization.get(incident.organization_id) ?? [],
+      );
+      stepsExecuted++;
+    }
+
+    console.log(`Escalation worker: ${stepsExecuted} step(s) executed`);
+
+    return new Response(JSON.stringify({ success: true, stepsExecuted }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in escalation worker:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
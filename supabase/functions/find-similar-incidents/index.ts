@@ -0,0 +1,173 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  incidentEmbeddingText,
+  resolveEmbeddingConfig,
+} from "../_shared/embedding-providers.ts";
+import { getSetting } from "../_shared/settings.ts";
+
+// Past incidents similar to one incident, for the incident panel. Uses
+// embeddings when an embedding provider is configured and trigram similarity
+// of the descriptions otherwise, or when the provider fails.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+// Incidents embedded per lookup besides the one asked about; older incidents
+// are filled in by later lookups
+const EMBEDDING_BATCH_SIZE = 100;
+
+interface IncidentText {
+  id: string;
+  organization_id: string;
+  type: string;
+  description: string;
+  location_name: string | null;
+}
+
+// Embeds the incident and a batch of others in its organization that have no
+// embedding from the current model yet
+async function embedMissingIncidents(
+  supabaseAdmin: SupabaseClient,
+  provider: EmbeddingProvider,
+  incident: IncidentText,
+) {
+  // Embeddings from different models cannot be compared
+  const { error: staleError } = await supabaseAdmin
+    .from("incident_embeddings")
+    .delete()
+    .eq("organization_id", incident.organization_id)
+    .neq("model", provider.model);
+  if (staleError) throw staleError;
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("incident_embeddings")
+    .select("incident_id")
+    .eq("incident_id", incident.id)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  // Merged reports are never matched, so they are not embedded either
+  const { data: missing, error: missingError } = await supabaseAdmin
+    .from("incidents")
+    .select("id, organization_id, type, description, location_name, incident_embeddings!left(incident_id)")
+    .eq("organization_id", incident.organization_id)
+    .is("incident_embeddings", null)
+    .is("parent_incident_id", null)
+    .neq("id", incident.id)
+    .order("created_at", { ascending: false })
+    .limit(EMBEDDING_BATCH_SIZE);
+  if (missingError) throw missingError;
+
+  const batch: IncidentText[] = [...(existing ? [] : [incident]), ...(missing ?? [])];
+  if (batch.length === 0) return;
+
+  const embeddings = await provider.embed(batch.map(incidentEmbeddingText));
+  const { error: upsertError } = await supabaseAdmin.from("incident_embeddings").upsert(
+    batch.map((item, index) => ({
+      incident_id: item.id,
+      organization_id: item.organization_id,
+      model: provider.model,
+      embedding: JSON.stringify(embeddings[index]),
+    })),
+    { onConflict: "incident_id" },
+  );
+  if (upsertError) throw upsertError;
+
+  console.log(`Embedded ${batch.length} incident(s) with ${provider.model}`);
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    // ========== AUTHENTICATION CHECK ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "No authorization header" }, 401);
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+    // ========== END AUTHENTICATION CHECK ==========
+
+    const body = await req.json().catch(() => ({}));
+    const incidentId = body.incidentId;
+    if (typeof incidentId !== "string" || !uuidRegex.test(incidentId)) {
+      return json({ error: "Missing or invalid incidentId" }, 400);
+    }
+    const limit = Number.isInteger(body.limit) ? Math.min(Math.max(body.limit, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    // RLS hides incidents of other organizations
+    const { data: incident, error: incidentError } = await supabaseClient
+      .from("incidents")
+      .select("id, organization_id, type, description, location_name")
+      .eq("id", incidentId)
+      .maybeSingle();
+
+    if (incidentError || !incident) {
+      return json({ error: "Incident not found or access denied" }, 404);
+    }
+
+    // admin_settings is admin-only and embeddings are written by the service role
+    const supabaseAdmin = supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null;
+
+    if (supabaseAdmin) {
+      const setting = await getSetting(supabaseAdmin, incident.organization_id, "embedding_provider");
+      const provider = createEmbeddingProvider(resolveEmbeddingConfig(setting));
+      if (provider) {
+        try {
+          await embedMissingIncidents(supabaseAdmin, provider, incident);
+
+          const { data, error } = await supabaseClient.rpc("match_similar_incidents", {
+            _incident_id: incidentId,
+            _limit: limit,
+          });
+          if (error) throw error;
+
+          return json({ method: "embedding", model: provider.model, incidents: data ?? [] });
+        } catch (error) {
+          console.error("Embedding search failed, falling back to trigram similarity:", error);
+        }
+      }
+    }
+
+    const { data, error } = await supabaseClient.rpc("find_similar_incidents", {
+      _incident_id: incidentId,
+      _limit: limit,
+    });
+    if (error) throw error;
+
+    return json({ method: "trigram", model: null, incidents: data ?? [] });
+  } catch (error) {
+    console.error("Error in find-similar-incidents function:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
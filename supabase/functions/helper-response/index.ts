@@ -0,0 +1,139 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ALERT_DELIVERY_COLUMNS,
+  AlertDeliveryRecord,
+  HelperResponse,
+  RESPONSE_LABELS,
+  isHelperResponse,
+  parseResponseKeyword,
+  recordHelperResponse,
+  responseClosedReason,
+} from "../_shared/helper-responses.ts";
+
+// Public endpoint: helpers are not users of the app, the per-alert token is
+// the only credential.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+// Minimal page so the link in the SMS works from any phone browser
+const renderPage = (title: string, body: string, status = 200) =>
+  new Response(
+    `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>AegisICS - ${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 420px; margin: 2rem auto; padding: 0 1rem; }
+  button { display: block; width: 100%; padding: 1rem; margin: 0.5rem 0; font-size: 1.1rem; border: 0; border-radius: 8px; color: #fff; }
+  .accepted { background: #16a34a; } .on_scene { background: #2563eb; } .declined { background: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`,
+    { status, headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" } },
+  );
+
+const responseForm = (token: string) =>
+  (["accepted", "on_scene", "declined"] as HelperResponse[])
+    .map((response) => `<form method="post">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+<input type="hidden" name="response" value="${response}">
+<button class="${response}" type="submit">${escapeHtml(RESPONSE_LABELS[response].replace(/^\w/, (c) => c.toUpperCase()))}</button>
+</form>`)
+    .join("\n");
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const contentType = req.headers.get("Content-Type") || "";
+  const wantsJson = contentType.includes("application/json");
+
+  const reply = (status: number, message: string, data: Record<string, unknown> = {}) =>
+    wantsJson
+      ? new Response(JSON.stringify({ ...data, message }), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      })
+      : renderPage(status < 400 ? "Thank you" : "Unable to record response", `<p>${escapeHtml(message)}</p>`, status);
+
+  try {
+    // ========== READ REQUEST ==========
+    let token = url.searchParams.get("token");
+    let rawResponse: string | null = url.searchParams.get("response");
+
+    if (req.method === "POST") {
+      if (wantsJson) {
+        const body = await req.json();
+        token = typeof body.token === "string" ? body.token : token;
+        rawResponse = typeof body.response === "string" ? body.response : rawResponse;
+      } else {
+        const form = await req.formData();
+        token = (form.get("token") as string | null) ?? token;
+        rawResponse = (form.get("response") as string | null) ?? rawResponse;
+      }
+    }
+
+    if (!token || !/^[A-Za-z0-9_-]{16,64}$/.test(token)) {
+      return reply(400, "This response link is invalid.");
+    }
+    // ========== END READ REQUEST ==========
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: delivery, error: deliveryError } = await supabaseAdmin
+      .from("alert_deliveries")
+      .select(ALERT_DELIVERY_COLUMNS)
+      .eq("response_token", token)
+      .maybeSingle();
+
+    if (deliveryError || !delivery) {
+      return reply(404, "This response link is invalid.");
+    }
+
+    const closedReason = responseClosedReason(delivery as AlertDeliveryRecord);
+    if (closedReason) {
+      return reply(410, closedReason);
+    }
+
+    // A plain GET (following the link in the SMS) shows the choices
+    if (req.method === "GET" && !rawResponse) {
+      const current = delivery.response
+        ? `<p>Your current response: <strong>${escapeHtml(RESPONSE_LABELS[delivery.response as HelperResponse])}</strong></p>`
+        : "<p>Please let the incident team know whether you can respond.</p>";
+      return renderPage("Emergency alert", `${current}\n${responseForm(token)}`);
+    }
+
+    const response = isHelperResponse(rawResponse) ? rawResponse : parseResponseKeyword(rawResponse || "");
+    if (!response) {
+      return reply(400, "Unknown response. Use accept, decline or on scene.");
+    }
+
+    await recordHelperResponse(supabaseAdmin, delivery as AlertDeliveryRecord, response, "link");
+    console.log(`Helper response for delivery ${delivery.id}: ${response}`);
+
+    return reply(200, `Your response (${RESPONSE_LABELS[response]}) has been sent to the incident team.`, {
+      success: true,
+      response,
+    });
+  } catch (error) {
+    console.error("Error recording helper response:", error);
+    return reply(500, "Something went wrong. Please call the incident team instead.");
+  }
+});
@@ -0,0 +1,121 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendIncidentEmails } from "../_shared/email-alerts.ts";
+import { EmailProviderNotConfiguredError } from "../_shared/email-providers.ts";
+import { hasOrgPermission } from "../_shared/organizations.ts";
+import {
+  EMAIL_EVENTS,
+  type EmailIncident,
+  isEmailEvent,
+  renderIncidentEmail,
+  SAMPLE_INCIDENT,
+} from "../_shared/email-templates.ts";
+
+// Called by the incidents trigger (service role) when an incident reaches
+// high/critical severity or is escalated. Members who manage users call it with
+// {preview: true, organizationId} to render every template against a sample
+// incident.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // ========== AUTHENTICATION CHECK ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "No authorization header" }, 401);
+    }
+    const isServiceRole = !!supabaseServiceKey && authHeader === `Bearer ${supabaseServiceKey}`;
+    const body = await req.json().catch(() => ({}));
+
+    // Previews are for members who manage the organization's settings
+    if (!isServiceRole) {
+      const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+      if (userError || !user) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+
+      const organizationId = typeof body.organizationId === "string" ? body.organizationId : null;
+      if (!organizationId || !(await hasOrgPermission(supabaseClient, user.id, organizationId, "can_manage_users"))) {
+        return json({ error: "Your role cannot preview alert emails" }, 403);
+      }
+    }
+    // ========== END AUTHENTICATION CHECK ==========
+
+    if (body.preview === true) {
+      const previews = EMAIL_EVENTS.map((event) => ({
+        event,
+        ...renderIncidentEmail({
+          event,
+          incident: SAMPLE_INCIDENT,
+          policyName: event === "escalation_step" ? "Medical emergencies" : undefined,
+          step: event === "escalation_step" ? 2 : undefined,
+          totalSteps: event === "escalation_step" ? 3 : undefined,
+        }),
+      }));
+      return json({ previews });
+    }
+
+    // Sending is reserved for the database trigger
+    if (!isServiceRole) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const { incidentId, event } = body;
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (typeof incidentId !== "string" || !uuidRegex.test(incidentId) || !isEmailEvent(event)) {
+      return json({ error: "Invalid incidentId or event" }, 400);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: incident, error: incidentError } = await supabaseAdmin
+      .from("incidents")
+      .select("id, organization_id, type, severity, status, description, location_name, latitude, longitude, ai_analysis, created_at")
+      .eq("id", incidentId)
+      .maybeSingle();
+
+    if (incidentError || !incident) {
+      return json({ error: "Incident not found" }, 404);
+    }
+
+    const result = await sendIncidentEmails(
+      supabaseAdmin,
+      incident.organization_id,
+      { event, incident: incident as EmailIncident },
+      "system",
+    );
+    console.log(`Email alert (${event}) for incident ${incidentId}: ${result.sentCount}/${result.recipients} sent`);
+
+    return json({ success: true, ...result });
+  } catch (error) {
+    // Nothing was sent; say so plainly rather than reporting a server error
+    if (error instanceof EmailProviderNotConfiguredError) {
+      console.error("send-email-alert:", error.message);
+      return json({ error: error.message, code: "email_provider_not_configured" }, 503);
+    }
+
+    console.error("Error in send-email-alert:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
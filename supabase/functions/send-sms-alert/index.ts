@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverSms, getSmsProvider, SmsProviderNotConfiguredError, maskPhone } from "../_shared/sms-providers.ts";
+import { getIncidentOrganizationWithPermission } from "../_shared/organizations.ts";
+import { createResponseToken, responseInstructions } from "../_shared/helper-responses.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -51,17 +54,6 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check if user is admin
-    const { data: roleData, error: roleError } = await supabaseClient
-      .rpc("has_role", { _user_id: user.id, _role: "admin" });
-    
-    if (roleError || !roleData) {
-      return new Response(
-        JSON.stringify({ error: "Only admins can send SMS alerts" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     // Parse request body
     const body: SmsAlertRequest = await req.json();
     const {
@@ -93,6 +85,17 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Check the user may alert helpers in the incident's organization
+    const organizationId = await getIncidentOrganizationWithPermission(
+      supabaseClient, user.id, incidentId, "can_alert_helpers",
+    );
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: "Your role cannot send SMS alerts for this incident" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Validate coordinates
     if (typeof latitude !== 'number' || typeof longitude !== 'number' ||
         latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
@@ -136,37 +139,52 @@ Deno.serve(async (req) => {
     // Generate Google Maps link
     const mapsLink = `https://maps.google.com/?q=${latitude},${longitude}`;
 
-    // Generate concise SMS message (max 160 chars for single SMS)
+    // Generate concise SMS message (the response instructions push it past a single 160-char SMS)
     const severityEmoji = severity === "critical" ? "🚨" : severity === "high" ? "⚠️" : "📢";
     const shortType = sanitizedIncidentType.charAt(0).toUpperCase() + sanitizedIncidentType.slice(1);
     const shortDesc = sanitizedDescription.length > 50 ? sanitizedDescription.substring(0, 47) + "..." : sanitizedDescription;
     
-    const smsMessage = `${severityEmoji} AEGIS ALERT\n${shortType} - ${severity.toUpperCase()}\n${shortDesc}\nLocation: ${mapsLink}`;
+    const responseToken = createResponseToken();
+    const smsMessage = `${severityEmoji} AEGIS ALERT\n${shortType} - ${severity.toUpperCase()}\n${shortDesc}\nLocation: ${mapsLink}\n${responseInstructions(responseToken)}`;
 
-    // Generate SMS deep link (works on mobile devices)
+    // Deep link kept as a manual fallback if the provider cannot deliver
     const encodedMessage = encodeURIComponent(smsMessage);
     const smsLink = `sms:${cleanPhone}?body=${encodedMessage}`;
 
-    // Log the alert generation using service role client
+    // Send through the configured provider using service role client
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
+    const provider = await getSmsProvider(supabaseAdmin, organizationId);
+
+    const delivery = await deliverSms(supabaseAdmin, provider, {
+      incidentId,
+      helperId: helperId || null,
+      phone: cleanPhone,
+      body: smsMessage,
+      sentBy: user.id,
+      responseToken,
+    });
+
     await supabaseAdmin.from("audit_logs").insert({
-      action: "sms_alert_generated",
+      action: delivery.status === "failed" ? "sms_alert_failed" : "sms_alert_sent",
       actor_id: user.id,
       actor_email: user.email,
       incident_id: incidentId,
       metadata: {
         helper_id: helperId,
         helper_name: sanitizedHelperName,
-        helper_phone: cleanPhone.replace(/\d(?=\d{4})/g, "*"), // Mask phone for privacy
+        helper_phone: maskPhone(cleanPhone), // Mask phone for privacy
         severity,
         incident_type: sanitizedIncidentType,
+        provider: provider.name,
+        delivery_id: delivery.deliveryId,
+        delivery_status: delivery.status,
       },
     });
 
     return new Response(
       JSON.stringify({
-        success: true,
+        success: delivery.status !== "failed",
+        delivery,
         smsLink,
         mapsLink,
         message: smsMessage,
@@ -175,6 +193,14 @@ Deno.serve(async (req) => {
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    // Nothing was sent; say so plainly rather than reporting a server error
+    if (error instanceof SmsProviderNotConfiguredError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: "sms_provider_not_configured" }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     console.error("Error generating SMS alert:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return new Response(
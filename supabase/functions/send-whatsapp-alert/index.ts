@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getIncidentOrganizationWithPermission } from "../_shared/organizations.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -59,21 +60,6 @@ serve(async (req) => {
     const userEmail = claimsData.claims.email as string;
     // ========== END AUTHENTICATION CHECK ==========
 
-    // ========== RBAC CHECK: Admin only ==========
-    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
-    
-    const { data: roleData, error: roleError } = await serviceClient
-      .rpc('has_role', { _user_id: userId, _role: 'admin' });
-
-    if (roleError || !roleData) {
-      console.error('RBAC check failed:', roleError);
-      return new Response(JSON.stringify({ error: 'Forbidden: Admin access required' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-    // ========== END RBAC CHECK ==========
-
     const body = await req.json() as WhatsAppAlertRequest;
     const { 
       incidentId, helperId, helperName, helperMobile,
@@ -98,6 +84,19 @@ serve(async (req) => {
       });
     }
 
+    // ========== RBAC CHECK: can_alert_helpers in the incident's organization ==========
+    const organizationId = await getIncidentOrganizationWithPermission(
+      supabaseClient, userId, incidentId, 'can_alert_helpers',
+    );
+    if (!organizationId) {
+      return new Response(JSON.stringify({ error: 'Forbidden: Your role cannot alert helpers' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+    // ========== END RBAC CHECK ==========
+
     // Validate and sanitize mobile number (6-15 digits for international)
     const cleanMobile = helperMobile.replace(/\D/g, '');
     if (cleanMobile.length < 6 || cleanMobile.length > 15) {
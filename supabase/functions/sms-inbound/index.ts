@@ -0,0 +1,160 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ALERT_DELIVERY_COLUMNS,
+  AlertDeliveryRecord,
+  RESPONSE_LABELS,
+  RESPONSE_WINDOW_MS,
+  parseResponseKeyword,
+  recordHelperResponse,
+  responseClosedReason,
+} from "../_shared/helper-responses.ts";
+
+// Inbound SMS webhook. Accepts Twilio's form-encoded webhook (From, Body) or
+// JSON {from, body} from a generic gateway. Replies are matched to the
+// sender's most recent alert from the last 24 hours, as long as only one
+// helper record was alerted from that number; otherwise the helper is asked
+// to use the link in the alert instead.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Numbers are compared on their last 9 digits: enough to tell subscribers
+// apart while tolerating a missing country code or trunk prefix on either side
+const MATCH_DIGITS = 9;
+
+const matchKey = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= MATCH_DIGITS && digits.length <= 15 ? digits.slice(-MATCH_DIGITS) : null;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" }[c]!));
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const contentType = req.headers.get("Content-Type") || "";
+  const isTwilio = contentType.includes("application/x-www-form-urlencoded");
+
+  // Twilio expects TwiML; the message (if any) is texted back to the helper
+  const reply = (status: number, message: string) =>
+    isTwilio
+      ? new Response(
+        `<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${escapeXml(message)}</Message>` : ""}</Response>`,
+        { status, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
+      )
+      : new Response(JSON.stringify({ message }), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+
+  try {
+    // ========== AUTHENTICATION CHECK ==========
+    // The provider is configured with ?secret=<SMS_INBOUND_SECRET> in the webhook URL
+    const expectedSecret = Deno.env.get("SMS_INBOUND_SECRET");
+    const secret = new URL(req.url).searchParams.get("secret");
+    if (!expectedSecret || secret !== expectedSecret) {
+      console.error("Inbound SMS rejected: invalid or missing secret");
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    // ========== END AUTHENTICATION CHECK ==========
+
+    let from = "";
+    let text = "";
+    if (isTwilio) {
+      const form = await req.formData();
+      from = String(form.get("From") || "");
+      text = String(form.get("Body") || "");
+    } else {
+      const body = await req.json();
+      from = typeof body.from === "string" ? body.from : "";
+      text = typeof body.body === "string" ? body.body : "";
+    }
+
+    const fromKey = matchKey(from);
+    if (!fromKey) {
+      return reply(400, "");
+    }
+
+    const response = parseResponseKeyword(text.substring(0, 500));
+    if (!response) {
+      return reply(200, "Sorry, we did not understand. Reply ACCEPT, DECLINE or ONSCENE.");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Stored numbers may be formatted differently, so compare digits only.
+    // Numbers too short to compare safely never match.
+    const { data: helpers, error: helpersError } = await supabaseAdmin
+      .from("helpers")
+      .select("id, mobile_number");
+
+    if (helpersError) {
+      throw helpersError;
+    }
+
+    const helperIds = (helpers || [])
+      .filter((helper) => matchKey(helper.mobile_number) === fromKey)
+      .map((helper) => helper.id);
+
+    if (helperIds.length === 0) {
+      console.log(`Inbound SMS from unknown number ending ${fromKey.slice(-4)}`);
+      return reply(200, "");
+    }
+
+    const { data: deliveries, error: deliveriesError } = await supabaseAdmin
+      .from("alert_deliveries")
+      .select(ALERT_DELIVERY_COLUMNS)
+      .in("helper_id", helperIds)
+      .gte("created_at", new Date(Date.now() - RESPONSE_WINDOW_MS).toISOString())
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (deliveriesError) {
+      throw deliveriesError;
+    }
+
+    const delivery = deliveries?.[0];
+    if (!delivery) {
+      return reply(200, "There is no recent alert to respond to.");
+    }
+
+    // The same number on several helper records (another helper, or another
+    // organization) leaves the reply ambiguous; never record it on a guess
+    const alertedHelpers = new Set(deliveries.map((d) => d.helper_id));
+    if (alertedHelpers.size > 1) {
+      console.warn(`Inbound SMS from number ending ${fromKey.slice(-4)} matches ${alertedHelpers.size} alerted helpers`);
+      return reply(200, "We could not tell which alert you are answering. Please use the link in the alert message.");
+    }
+
+    const closedReason = responseClosedReason(delivery as AlertDeliveryRecord);
+    if (closedReason) {
+      return reply(200, closedReason);
+    }
+
+    await recordHelperResponse(supabaseAdmin, delivery as AlertDeliveryRecord, response, "sms");
+    console.log(`Inbound SMS response for delivery ${delivery.id}: ${response}`);
+
+    return reply(200, `Thanks, your response (${RESPONSE_LABELS[response]}) has been sent to the incident team.`);
+  } catch (error) {
+    console.error("Error handling inbound SMS:", error);
+    return reply(500, "");
+  }
+});
@@ -1,10 +1,18 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverSms, getSmsProvider, SmsProviderNotConfiguredError } from "../_shared/sms-providers.ts";
+import { createResponseToken, responseInstructions } from "../_shared/helper-responses.ts";
+import { buildSmsAlertMessage, describeIndoorLocation } from "../_shared/alert-messages.ts";
+import { getSetting } from "../_shared/settings.ts";
+import { getIncidentOrganizationWithPermission } from "../_shared/organizations.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Long enough for a helper to still open the plan on the way to the incident
+const FLOOR_PLAN_LINK_TTL_SECONDS = 24 * 60 * 60;
+
 interface EmergencyAlertRequest {
   incidentId: string;
   incidentType: string;
@@ -61,17 +69,6 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check if user is admin
-    const { data: roleData, error: roleError } = await supabaseClient
-      .rpc("has_role", { _user_id: user.id, _role: "admin" });
-    
-    if (roleError || !roleData) {
-      return new Response(
-        JSON.stringify({ error: "Only admins can trigger emergency alerts" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     // Parse request body
     const body: EmergencyAlertRequest = await req.json();
     const {
@@ -83,7 +80,7 @@ Deno.serve(async (req) => {
       longitude,
       locationName,
       aiSummary,
-      radiusKm = 2.0,
+      radiusKm,
     } = body;
 
     // Validate required fields
@@ -103,6 +100,17 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Check the user may alert helpers in the incident's organization
+    const organizationId = await getIncidentOrganizationWithPermission(
+      supabaseClient, user.id, incidentId, "can_alert_helpers",
+    );
+    if (!organizationId) {
+      return new Response(
+        JSON.stringify({ error: "Your role cannot trigger emergency alerts for this incident" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Validate coordinates
     if (typeof latitude !== 'number' || typeof longitude !== 'number' ||
         latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
@@ -112,8 +120,13 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Validate radius bounds (0.1 to 50 km)
-    const validatedRadiusKm = Math.min(Math.max(radiusKm, 0.1), 50);
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Validate radius bounds (0.1 to 50 km); the admin setting is the default
+    const requestedRadiusKm = typeof radiusKm === "number"
+      ? radiusKm
+      : await getSetting(supabaseAdmin, organizationId, "nearby_helpers_radius_km");
+    const validatedRadiusKm = Math.min(Math.max(requestedRadiusKm, 0.1), 50);
 
     // Validate severity
     const validSeverities = ['low', 'medium', 'high', 'critical'];
@@ -141,6 +154,7 @@ Deno.serve(async (req) => {
     // Find nearby helpers using validated radius
     const { data: helpers, error: helpersError } = await supabaseClient
       .rpc("find_nearby_helpers", {
+        org_id: organizationId,
         incident_lat: latitude,
         incident_lng: longitude,
         radius_km: validatedRadiusKm,
@@ -166,12 +180,52 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Zone and indoor position, so helpers know which building, floor and room to head for
+    const { data: incidentPlace } = await supabaseAdmin
+      .from("incidents")
+      .select("zone:zones!incidents_zone_id_fkey(name, zone_type, floor_count, responsible_team), building:zones!incidents_building_id_fkey(name), floor, room, floor_plans(storage_path)")
+      .eq("id", incidentId)
+      .maybeSingle();
+    const zone = incidentPlace?.zone as
+      | { name: string; zone_type: string; floor_count: number | null; responsible_team: string | null }
+      | null
+      | undefined;
+    const zoneDetails = zone
+      ? [
+        zone.zone_type.charAt(0).toUpperCase() + zone.zone_type.slice(1),
+        zone.floor_count ? `${zone.floor_count} floors` : null,
+        zone.responsible_team ? `team: ${zone.responsible_team}` : null,
+      ].filter(Boolean).join(", ")
+      : "";
+    const zoneLine = zone ? `\n*Zone:* ${zone.name} (${zoneDetails})` : "";
+
+    const indoorLocation = incidentPlace
+      ? describeIndoorLocation({
+        buildingName: (incidentPlace.building as { name: string } | null)?.name,
+        floor: incidentPlace.floor,
+        room: incidentPlace.room,
+      })
+      : null;
+    const indoorLine = indoorLocation ? `\n*Indoor:* ${indoorLocation}` : "";
+
+    // Helpers are not signed in, so the pinned floor plan is shared as a signed link
+    const floorPlanPath = (incidentPlace?.floor_plans as { storage_path: string } | null)?.storage_path;
+    let floorPlanLine = "";
+    if (floorPlanPath) {
+      const { data: signedPlan } = await supabaseAdmin.storage
+        .from("floor-plans")
+        .createSignedUrl(floorPlanPath, FLOOR_PLAN_LINK_TTL_SECONDS);
+      if (signedPlan?.signedUrl) {
+        floorPlanLine = `\n🗺️ *Floor plan:* ${signedPlan.signedUrl}`;
+      }
+    }
+
     // Generate Google Maps link
     const mapsLink = `https://maps.google.com/?q=${latitude},${longitude}`;
     
     // Create timestamp
     const timestamp = new Date().toLocaleString("en-IN", { 
-      timeZone: "Asia/Kolkata",
+      timeZone: await getSetting(supabaseAdmin, organizationId, "alert_timezone"),
       dateStyle: "short",
       timeStyle: "short",
     });
@@ -182,26 +236,40 @@ Deno.serve(async (req) => {
     
     // Generate alerts for each helper
     const alertResults = helpers.map((helper: NearbyHelper) => {
+      // Per-alert token so the helper's reply can be matched to this alert
+      const responseToken = createResponseToken();
+
       // WhatsApp message with sanitized content
       const whatsappMessage = `${severityEmoji} *AEGIS EMERGENCY ALERT*
 
 *Type:* ${shortType}
 *Severity:* ${severity.toUpperCase()}
-*Location:* ${sanitizedLocationName}
+*Location:* ${sanitizedLocationName}${zoneLine}${indoorLine}
 
 *Summary:* ${sanitizedAiSummary}
 
-📍 *Google Maps:* ${mapsLink}
+📍 *Google Maps:* ${mapsLink}${floorPlanLine}
 
 ⏰ *Time:* ${timestamp}
 
-_You are ${helper.distance_km.toFixed(2)} km away. Please respond immediately if available._`;
+_You are ${helper.distance_km.toFixed(2)} km away. Please respond immediately if available._
+
+${responseInstructions(responseToken)}`;
 
       const encodedWhatsappMessage = encodeURIComponent(whatsappMessage);
       const whatsappLink = `https://wa.me/${helper.mobile_number.replace(/[^0-9]/g, "")}?text=${encodedWhatsappMessage}`;
 
       // SMS message (shorter) with sanitized content
-      const smsMessage = `${severityEmoji} AEGIS: ${shortType} - ${severity.toUpperCase()}. ${sanitizedAiSummary.substring(0, 50)}... Location: ${mapsLink}`;
+      const smsMessage = buildSmsAlertMessage({
+        incidentType: sanitizedIncidentType,
+        severity,
+        summary: sanitizedAiSummary,
+        latitude,
+        longitude,
+        responseToken,
+        zoneName: zone?.name,
+        indoorLocation,
+      });
       const encodedSmsMessage = encodeURIComponent(smsMessage);
       const smsLink = `sms:${helper.mobile_number}?body=${encodedSmsMessage}`;
 
@@ -213,15 +281,35 @@ _You are ${helper.distance_km.toFixed(2)} km away. Please respond immediately if
         distanceKm: helper.distance_km,
         whatsappLink,
         smsLink,
+        smsMessage,
+        responseToken,
         callLink: `tel:${helper.mobile_number}`,
       };
     });
 
-    // Log the bulk alert generation using service role client
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
+    // ========== SEND SMS ==========
+    // One action from the admin sends to every helper; each recipient gets its
+    // own alert_deliveries row so partial failures are visible
+    const provider = await getSmsProvider(supabaseAdmin, organizationId);
+
+    const deliveries = await Promise.all(
+      alertResults.map((alert: { helperId: string; helperPhone: string; smsMessage: string; responseToken: string }) =>
+        deliverSms(supabaseAdmin, provider, {
+          incidentId,
+          helperId: alert.helperId,
+          phone: alert.helperPhone,
+          body: alert.smsMessage,
+          sentBy: user.id,
+          responseToken: alert.responseToken,
+        })
+      )
+    );
+    const sentCount = deliveries.filter((d) => d.status !== "failed").length;
+    const failedCount = deliveries.length - sentCount;
+    // ========== END SEND SMS ==========
+
     await supabaseAdmin.from("audit_logs").insert({
-      action: "bulk_emergency_alerts_generated",
+      action: "bulk_emergency_alerts_sent",
       actor_id: user.id,
       actor_email: user.email,
       incident_id: incidentId,
@@ -231,21 +319,36 @@ _You are ${helper.distance_km.toFixed(2)} km away. Please respond immediately if
         helpers_count: helpers.length,
         radius_km: validatedRadiusKm,
         helper_ids: helpers.map((h: NearbyHelper) => h.id),
+        provider: provider.name,
+        sent_count: sentCount,
+        failed_count: failedCount,
       },
     });
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Emergency alerts generated for ${helpers.length} nearby helpers`,
+        message: `Emergency SMS sent to ${sentCount} of ${helpers.length} nearby helpers`,
         helpers: alertResults,
+        deliveries,
+        provider: provider.name,
         alertsGenerated: helpers.length,
+        sentCount,
+        failedCount,
         mapsLink,
         timestamp,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    // Nothing was sent; say so plainly rather than reporting a server error
+    if (error instanceof SmsProviderNotConfiguredError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: "sms_provider_not_configured" }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     console.error("Error generating emergency alerts:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return new Response(
@@ -0,0 +1,153 @@
+-- Formal incident lifecycle state machine
+-- active -> acknowledged -> dispatched -> on_scene -> resolved -> closed
+-- with escalation possible from any open stage and reopen from resolved.
+
+-- New lifecycle stages (new enum values are only referenced as text below,
+-- so they can be used in the same migration they are added in)
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'acknowledged' AFTER 'active';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'dispatched' AFTER 'acknowledged';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'on_scene' AFTER 'dispatched';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'closed' AFTER 'resolved';
+
+-- Timestamp (and actor where useful) for each lifecycle stage
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS on_scene_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Backfill escalation time for incidents escalated before this migration
+UPDATE public.incidents
+SET escalated_at = updated_at
+WHERE status = 'escalated' AND escalated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON public.incidents(status);
+
+-- Allowed transitions between lifecycle stages
+CREATE OR REPLACE FUNCTION public.is_valid_incident_status_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE _from
+    WHEN 'active' THEN _to IN ('acknowledged', 'escalated', 'resolved')
+    WHEN 'acknowledged' THEN _to IN ('dispatched', 'escalated', 'resolved')
+    WHEN 'dispatched' THEN _to IN ('on_scene', 'escalated', 'resolved')
+    WHEN 'on_scene' THEN _to IN ('escalated', 'resolved')
+    WHEN 'escalated' THEN _to IN ('acknowledged', 'dispatched', 'on_scene', 'resolved')
+    WHEN 'resolved' THEN _to IN ('closed', 'active')
+    ELSE false
+  END;
+END;
+$$;
+
+-- Reject invalid transitions and stamp the stage timestamps, whatever path the update takes
+CREATE OR REPLACE FUNCTION public.enforce_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_incident_status_transition(OLD.status::text, NEW.status::text) THEN
+    RAISE EXCEPTION 'Invalid incident status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = '23514'; -- check_violation
+  END IF;
+
+  CASE NEW.status::text
+    WHEN 'acknowledged' THEN
+      NEW.acknowledged_at := COALESCE(NEW.acknowledged_at, now());
+      NEW.acknowledged_by := COALESCE(NEW.acknowledged_by, auth.uid());
+    WHEN 'dispatched' THEN
+      NEW.dispatched_at := COALESCE(NEW.dispatched_at, now());
+    WHEN 'on_scene' THEN
+      NEW.on_scene_at := COALESCE(NEW.on_scene_at, now());
+    WHEN 'escalated' THEN
+      NEW.escalated_at := now();
+    WHEN 'resolved' THEN
+      NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+      NEW.resolved_by := COALESCE(NEW.resolved_by, auth.uid());
+    WHEN 'closed' THEN
+      NEW.closed_at := COALESCE(NEW.closed_at, now());
+      NEW.closed_by := COALESCE(NEW.closed_by, auth.uid());
+    WHEN 'active' THEN
+      -- Reopened: the previous resolution no longer applies
+      NEW.resolved_at := NULL;
+      NEW.resolved_by := NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_incident_status_transitions ON public.incidents;
+CREATE TRIGGER enforce_incident_status_transitions
+BEFORE UPDATE OF status ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_incident_status_transition();
+
+-- Client entry point for lifecycle changes (runs as the caller so RLS applies)
+CREATE OR REPLACE FUNCTION public.transition_incident_status(_incident_id UUID, _new_status incident_status)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET status = _new_status
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found or access denied'
+      USING ERRCODE = '42501'; -- insufficient_privilege error code
+  END IF;
+
+  RETURN v_incident;
+END;
+$$;
+
+-- Record every lifecycle hop with the acting user
+CREATE OR REPLACE FUNCTION public.log_incident_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_email TEXT;
+BEGIN
+  -- Only log if status actually changed
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    SELECT u.email INTO v_actor_email
+    FROM auth.users u
+    WHERE u.id = v_actor_id;
+
+    INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    VALUES (
+      'incident_status_changed',
+      NEW.id,
+      v_actor_id,
+      v_actor_email,
+      jsonb_build_object(
+        'previous_status', OLD.status,
+        'new_status', NEW.status,
+        'changed_at', now()
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,158 @@
+-- Incident assignment and ownership
+-- Each open incident can be owned by an operator (plus an optional secondary)
+
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS secondary_assignee UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_assigned_to ON public.incidents(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_incidents_secondary_assignee ON public.incidents(secondary_assignee);
+
+-- Assignees can update an incident the same way the reporter can
+DROP POLICY IF EXISTS "Reporter or admin can update incidents" ON public.incidents;
+
+CREATE POLICY "Reporter, assignee or admin can update incidents"
+ON public.incidents
+FOR UPDATE
+USING (
+  auth.uid() = reported_by
+  OR auth.uid() = assigned_to
+  OR auth.uid() = secondary_assignee
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- Operators that incidents can be assigned to (names only, no contact details)
+CREATE OR REPLACE FUNCTION public.list_assignable_operators()
+RETURNS TABLE(user_id uuid, full_name text, role app_role)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501'; -- insufficient_privilege error code
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (ur.user_id)
+    ur.user_id,
+    p.full_name,
+    ur.role
+  FROM public.user_roles ur
+  LEFT JOIN public.profiles p ON p.user_id = ur.user_id
+  ORDER BY ur.user_id, ur.role;
+END;
+$function$;
+
+-- Assign or reassign an incident.
+-- Admins, the reporter and current assignees may assign anyone; any operator
+-- may claim an unassigned incident for themselves.
+CREATE OR REPLACE FUNCTION public.assign_incident(
+  _incident_id UUID,
+  _assignee UUID,
+  _secondary_assignee UUID DEFAULT NULL
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_incident public.incidents;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_role(v_caller, 'admin'::app_role)
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+    OR (v_incident.assigned_to IS NULL AND _assignee = v_caller)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins, the reporter or the current assignee can reassign this incident'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _assignee IS NOT NULL AND _assignee = _secondary_assignee THEN
+    RAISE EXCEPTION 'Primary and secondary assignee must be different users'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF (_assignee IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _assignee))
+    OR (_secondary_assignee IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _secondary_assignee)) THEN
+    RAISE EXCEPTION 'Assignee must be a registered operator'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.incidents
+  SET assigned_to = _assignee,
+      secondary_assignee = CASE WHEN _assignee IS NULL THEN NULL ELSE _secondary_assignee END,
+      assigned_at = CASE WHEN _assignee IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  RETURN v_incident;
+END;
+$$;
+
+-- Record every (re)assignment in the audit trail
+CREATE OR REPLACE FUNCTION public.log_incident_assignment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_email TEXT;
+BEGIN
+  IF OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+    OR OLD.secondary_assignee IS DISTINCT FROM NEW.secondary_assignee THEN
+    SELECT u.email INTO v_actor_email
+    FROM auth.users u
+    WHERE u.id = v_actor_id;
+
+    INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    VALUES (
+      CASE WHEN NEW.assigned_to IS NULL THEN 'incident_unassigned' ELSE 'incident_assigned' END,
+      NEW.id,
+      v_actor_id,
+      v_actor_email,
+      jsonb_build_object(
+        'previous_assignee_id', OLD.assigned_to,
+        'previous_assignee_name', (SELECT full_name FROM public.profiles WHERE user_id = OLD.assigned_to),
+        'assignee_id', NEW.assigned_to,
+        'assignee_name', (SELECT full_name FROM public.profiles WHERE user_id = NEW.assigned_to),
+        'previous_secondary_assignee_id', OLD.secondary_assignee,
+        'secondary_assignee_id', NEW.secondary_assignee,
+        'secondary_assignee_name', (SELECT full_name FROM public.profiles WHERE user_id = NEW.secondary_assignee),
+        'changed_at', now()
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_incident_assignment_changes ON public.incidents;
+CREATE TRIGGER audit_incident_assignment_changes
+AFTER UPDATE OF assigned_to, secondary_assignee ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.log_incident_assignment_change();
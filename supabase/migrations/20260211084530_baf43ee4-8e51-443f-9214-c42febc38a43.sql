@@ -0,0 +1,93 @@
+-- Versioned AI analysis history
+-- Every analyze-incident run is stored; incidents point at the current one.
+
+CREATE TABLE public.incident_analyses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    severity incident_severity,
+    analysis JSONB,
+    raw_response TEXT,
+    parse_status TEXT NOT NULL CHECK (parse_status IN ('parsed', 'fallback', 'failed')),
+    error TEXT,
+    latency_ms INTEGER,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.incident_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as incidents
+CREATE POLICY "Authenticated users can view incident analyses"
+ON public.incident_analyses
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Only the analyze-incident function records analyses; rows are never updated or deleted
+CREATE POLICY "Service role can insert incident analyses"
+ON public.incident_analyses
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+CREATE INDEX idx_incident_analyses_incident_id ON public.incident_analyses(incident_id, created_at DESC);
+
+-- Pointer to the analysis currently in effect (incidents.ai_analysis mirrors it)
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS current_analysis_id UUID REFERENCES public.incident_analyses(id) ON DELETE SET NULL;
+
+-- Preserve existing assessments as the first version of each incident's history
+WITH backfilled AS (
+  INSERT INTO public.incident_analyses (incident_id, provider, model, prompt_version, severity, analysis, parse_status, created_at)
+  SELECT id, 'lovable', 'google/gemini-2.5-flash', 'legacy', severity, ai_analysis, 'parsed', updated_at
+  FROM public.incidents
+  WHERE ai_analysis IS NOT NULL
+  RETURNING id, incident_id
+)
+UPDATE public.incidents i
+SET current_analysis_id = b.id
+FROM backfilled b
+WHERE i.id = b.incident_id;
+
+-- Status changes record which analysis was in effect when the operator acted
+CREATE OR REPLACE FUNCTION public.log_incident_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_email TEXT;
+BEGIN
+  -- Only log if status actually changed
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    SELECT u.email INTO v_actor_email
+    FROM auth.users u
+    WHERE u.id = v_actor_id;
+
+    INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    VALUES (
+      'incident_status_changed',
+      NEW.id,
+      v_actor_id,
+      v_actor_email,
+      jsonb_build_object(
+        'previous_status', OLD.status,
+        'new_status', NEW.status,
+        'analysis_id', NEW.current_analysis_id,
+        'changed_at', now()
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Enable realtime for incident_analyses
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_analyses;
@@ -0,0 +1,140 @@
+-- Operator severity overrides
+-- The AI assessment and the human decision are stored side by side;
+-- incidents.severity always holds the effective value.
+
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS ai_severity incident_severity,
+  ADD COLUMN IF NOT EXISTS severity_override incident_severity,
+  ADD COLUMN IF NOT EXISTS severity_override_reason TEXT,
+  ADD COLUMN IF NOT EXISTS severity_overridden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS severity_overridden_at TIMESTAMP WITH TIME ZONE;
+
+-- Until now every severity came from the AI
+UPDATE public.incidents
+SET ai_severity = severity
+WHERE severity IS NOT NULL AND ai_severity IS NULL;
+
+-- Keep incidents.severity equal to the override, falling back to the AI value
+CREATE OR REPLACE FUNCTION public.apply_effective_severity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.severity_override IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.severity_override IS DISTINCT FROM OLD.severity_override)
+    AND COALESCE(btrim(NEW.severity_override_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override incident severity'
+      USING ERRCODE = '23514'; -- check_violation
+  END IF;
+
+  IF NEW.severity_override IS NOT NULL THEN
+    NEW.severity := NEW.severity_override;
+  ELSIF NEW.ai_severity IS NOT NULL THEN
+    NEW.severity := NEW.ai_severity;
+  ELSIF TG_OP = 'UPDATE' AND OLD.severity_override IS NOT NULL THEN
+    -- Override cleared before the AI produced a severity
+    NEW.severity := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_incident_effective_severity ON public.incidents;
+CREATE TRIGGER apply_incident_effective_severity
+BEFORE INSERT OR UPDATE OF severity, ai_severity, severity_override ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_effective_severity();
+
+-- Override (or, with _severity NULL, clear the override on) an incident's severity.
+-- Same permissions as other incident updates; a justification is always required.
+CREATE OR REPLACE FUNCTION public.override_incident_severity(
+  _incident_id UUID,
+  _severity TEXT,
+  _reason TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_actor_email TEXT;
+  v_incident public.incidents;
+  v_previous_severity incident_severity;
+  v_reason TEXT := btrim(COALESCE(_reason, ''));
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF length(v_reason) < 5 OR length(v_reason) > 1000 THEN
+    RAISE EXCEPTION 'Justification must be between 5 and 1000 characters'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF _severity IS NOT NULL AND _severity NOT IN ('low', 'medium', 'high', 'critical') THEN
+    RAISE EXCEPTION 'Invalid severity: %', _severity
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_role(v_caller, 'admin'::app_role)
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins, the reporter or an assignee can override severity'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _severity IS NULL AND v_incident.severity_override IS NULL THEN
+    RAISE EXCEPTION 'Incident severity is not overridden'
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_previous_severity := v_incident.severity;
+
+  UPDATE public.incidents
+  SET severity_override = _severity::incident_severity,
+      severity_override_reason = CASE WHEN _severity IS NULL THEN NULL ELSE v_reason END,
+      severity_overridden_by = CASE WHEN _severity IS NULL THEN NULL ELSE v_caller END,
+      severity_overridden_at = CASE WHEN _severity IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  SELECT u.email INTO v_actor_email
+  FROM auth.users u
+  WHERE u.id = v_caller;
+
+  INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+  VALUES (
+    CASE WHEN _severity IS NULL THEN 'severity_override_cleared' ELSE 'severity_overridden' END,
+    _incident_id,
+    v_caller,
+    v_actor_email,
+    jsonb_build_object(
+      'previous_severity', v_previous_severity,
+      'new_severity', v_incident.severity,
+      'ai_severity', v_incident.ai_severity,
+      'reason', v_reason,
+      'changed_at', now()
+    )
+  );
+
+  RETURN v_incident;
+END;
+$$;
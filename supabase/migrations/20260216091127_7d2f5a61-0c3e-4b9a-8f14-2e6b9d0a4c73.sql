@@ -0,0 +1,64 @@
+-- Server-side SMS delivery
+-- One row per recipient per alert, updated with the provider's outcome.
+
+CREATE TABLE public.alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    helper_id UUID REFERENCES public.helpers(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms')),
+    provider TEXT NOT NULL,
+    -- Masked phone number; the full number stays on the helper record
+    recipient TEXT NOT NULL,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+    provider_message_id TEXT,
+    error TEXT,
+    sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Alerts are an admin feature, so are their delivery records
+CREATE POLICY "Admins can view alert deliveries"
+ON public.alert_deliveries
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Written only by the alert edge functions
+CREATE POLICY "Service role can manage alert deliveries"
+ON public.alert_deliveries
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_alert_deliveries_incident_id ON public.alert_deliveries(incident_id, created_at DESC);
+CREATE INDEX idx_alert_deliveries_provider_message_id ON public.alert_deliveries(provider_message_id);
+
+-- Outbox for the "mock" SMS provider used in local development
+CREATE TABLE public.mock_sms_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    to_number TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.mock_sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view mock SMS messages"
+ON public.mock_sms_messages
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role can insert mock SMS messages"
+ON public.mock_sms_messages
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+-- Enable realtime so delivery status updates reach the dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alert_deliveries;
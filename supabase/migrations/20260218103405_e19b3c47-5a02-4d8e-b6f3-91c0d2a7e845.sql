@@ -0,0 +1,12 @@
+-- Helper responses to alerts
+-- Each SMS carries a per-alert token; helpers answer through the public
+-- helper-response function or by replying with a keyword.
+
+ALTER TABLE public.alert_deliveries
+  ADD COLUMN IF NOT EXISTS response_token TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS response TEXT CHECK (response IN ('accepted', 'declined', 'on_scene')),
+  ADD COLUMN IF NOT EXISTS response_channel TEXT CHECK (response_channel IN ('link', 'sms')),
+  ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ;
+
+-- Inbound SMS replies are matched to the helper's most recent alert
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_helper_id ON public.alert_deliveries(helper_id, created_at DESC);
@@ -0,0 +1,131 @@
+-- Automatic escalation chains
+-- A policy is an ordered list of steps; the escalation-worker function runs
+-- each step in turn until a helper accepts or the steps run out.
+--
+-- Step format (escalation_policies.steps):
+--   { "delay_minutes": 5,            -- wait after the previous step (step 1: after the incident was reported)
+--     "radius_km": 3,                -- alert active helpers within this distance
+--     "helper_roles": ["medical"],   -- empty = every role
+--     "page_admins": false }         -- also SMS the numbers in admin_settings.escalation_pager_numbers
+
+CREATE TABLE public.escalation_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- NULL matches every incident type
+    incident_type incident_type,
+    -- Applies to incidents at or above this severity
+    min_severity incident_severity NOT NULL DEFAULT 'high',
+    steps JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(steps) = 'array'),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view escalation policies"
+ON public.escalation_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage escalation policies"
+ON public.escalation_policies
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_escalation_policies_updated_at
+BEFORE UPDATE ON public.escalation_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Progress of the escalation chain for each incident
+CREATE TABLE public.incident_escalations (
+    incident_id UUID PRIMARY KEY REFERENCES public.incidents(id) ON DELETE CASCADE,
+    policy_id UUID REFERENCES public.escalation_policies(id) ON DELETE SET NULL,
+    -- Index of the last executed step, -1 before the first one
+    current_step INTEGER NOT NULL DEFAULT -1,
+    last_step_at TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'acknowledged', 'exhausted', 'cancelled')),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.incident_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view incident escalations"
+ON public.incident_escalations
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Only the escalation worker advances escalations
+CREATE POLICY "Service role can manage incident escalations"
+ON public.incident_escalations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_incident_escalations_updated_at
+BEFORE UPDATE ON public.incident_escalations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which escalation step sent an alert (NULL for alerts sent by an admin)
+ALTER TABLE public.alert_deliveries
+  ADD COLUMN IF NOT EXISTS escalation_step INTEGER;
+
+-- Phone numbers paged by steps with "page_admins"
+INSERT INTO public.admin_settings (key, value)
+VALUES ('escalation_pager_numbers', '[]'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Default policies
+INSERT INTO public.escalation_policies (name, incident_type, min_severity, steps)
+VALUES
+  (
+    'Medical emergencies',
+    'medical',
+    'high',
+    '[
+      {"delay_minutes": 0, "radius_km": 1, "helper_roles": ["medical"], "page_admins": false},
+      {"delay_minutes": 5, "radius_km": 3, "helper_roles": ["medical", "security"], "page_admins": false},
+      {"delay_minutes": 5, "radius_km": 3, "helper_roles": ["medical", "security"], "page_admins": true}
+    ]'::jsonb
+  ),
+  (
+    'Default',
+    NULL,
+    'high',
+    '[
+      {"delay_minutes": 0, "radius_km": 2, "helper_roles": [], "page_admins": false},
+      {"delay_minutes": 10, "radius_km": 5, "helper_roles": [], "page_admins": true}
+    ]'::jsonb
+  );
+
+-- Run the worker every minute.
+-- Requires the project_url and service_role_key secrets in Vault:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'escalation-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/escalation-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,82 @@
+-- Email alert channel
+-- Admin alert emails (admin_settings.alert_emails) are sent by the
+-- send-email-alert function and recorded in alert_deliveries like SMS.
+
+ALTER TABLE public.alert_deliveries
+  DROP CONSTRAINT IF EXISTS alert_deliveries_channel_check;
+
+ALTER TABLE public.alert_deliveries
+  ADD CONSTRAINT alert_deliveries_channel_check CHECK (channel IN ('sms', 'email'));
+
+-- Outbox for the "capture" email provider used in local development
+CREATE TABLE public.captured_emails (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    to_address TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.captured_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view captured emails"
+ON public.captured_emails
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role can insert captured emails"
+ON public.captured_emails
+FOR INSERT
+TO service_role
+WITH CHECK (true);
+
+-- Notify send-email-alert when an incident reaches high/critical severity
+-- (including a raise from high to critical) or is escalated by an operator.
+-- Uses the same Vault secrets as the escalation worker cron job.
+CREATE OR REPLACE FUNCTION public.notify_incident_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event TEXT;
+  _new_rank INTEGER;
+  _old_rank INTEGER;
+BEGIN
+  _new_rank := CASE NEW.severity WHEN 'high' THEN 2 WHEN 'critical' THEN 3 ELSE 0 END;
+  _old_rank := CASE WHEN TG_OP = 'INSERT' THEN 0
+                    ELSE CASE OLD.severity WHEN 'high' THEN 2 WHEN 'critical' THEN 3 ELSE 0 END END;
+
+  IF NEW.status = 'escalated' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'escalated') THEN
+    _event := 'escalated';
+  ELSIF _new_rank > _old_rank THEN
+    _event := 'high_severity';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- Never block the incident write because the notification could not be queued
+  BEGIN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-email-alert',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('incidentId', NEW.id, 'event', _event)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not queue alert email for incident %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_incident_email
+AFTER INSERT OR UPDATE OF severity, status ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_incident_email();
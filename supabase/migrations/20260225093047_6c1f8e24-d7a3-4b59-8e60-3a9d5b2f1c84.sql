@@ -0,0 +1,18 @@
+-- Typed admin settings (see supabase/functions/_shared/settings-schema.ts)
+-- Seeds the settings that used to be hardcoded and lets every signed-in user
+-- read the ones the dashboard needs. Other keys (provider config, alert
+-- recipients) stay admin-only.
+
+INSERT INTO public.admin_settings (key, value)
+VALUES
+  ('nearby_helpers_radius_km', '2'::jsonb),
+  ('alert_timezone', '"Asia/Kolkata"'::jsonb),
+  ('map_default_center', '{"lat": 42.3601, "lng": -71.0942, "zoom": 15}'::jsonb),
+  ('notification_min_severity', '"high"'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE POLICY "Authenticated users can view dashboard settings"
+ON public.admin_settings
+FOR SELECT
+TO authenticated
+USING (key IN ('nearby_helpers_radius_km', 'alert_timezone', 'map_default_center', 'notification_min_severity'));
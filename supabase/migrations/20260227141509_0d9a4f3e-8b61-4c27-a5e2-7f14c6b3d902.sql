@@ -0,0 +1,753 @@
+-- Organizations (campuses)
+-- Every incident, helper, setting and audit entry now belongs to one
+-- organization. Users are members of one or more organizations with a role per
+-- organization; RLS only exposes rows of organizations the caller belongs to.
+
+CREATE TABLE public.organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 2 AND 100),
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,49}$'),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.organization_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role app_role NOT NULL DEFAULT 'operator',
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks used by every org-scoped policy
+CREATE OR REPLACE FUNCTION public.is_org_member(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE user_id = _user_id
+      AND organization_id = _organization_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_user_id UUID, _organization_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE user_id = _user_id
+      AND organization_id = _organization_id
+      AND role = _role
+  )
+$$;
+
+-- has_role now means "has this role in at least one organization". It still
+-- gates pages and actions that are not tied to a row; row access uses has_org_role.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE user_id = _user_id
+      AND role = _role
+  )
+$$;
+
+-- ========== DEFAULT ORGANIZATION AND BACKFILL ==========
+-- Existing data and users move into one organization
+
+INSERT INTO public.organizations (id, name, slug)
+VALUES ('00000000-0000-4000-8000-000000000001', 'Main campus', 'main');
+
+-- app_role sorts admin before operator, so admins keep their role
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT DISTINCT ON (user_id) '00000000-0000-4000-8000-000000000001', user_id, role
+FROM public.user_roles
+ORDER BY user_id, role;
+
+ALTER TABLE public.incidents ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.helpers ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.audit_logs ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.admin_settings ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.escalation_policies ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.incident_analyses ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.alert_deliveries ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.incident_escalations ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.incidents SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.helpers SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.audit_logs SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.admin_settings SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.escalation_policies SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.incident_analyses SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.alert_deliveries SET organization_id = '00000000-0000-4000-8000-000000000001';
+UPDATE public.incident_escalations SET organization_id = '00000000-0000-4000-8000-000000000001';
+
+ALTER TABLE public.incidents ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.helpers ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.audit_logs ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.admin_settings ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.escalation_policies ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.incident_analyses ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.alert_deliveries ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.incident_escalations ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX idx_incidents_organization_id ON public.incidents(organization_id, created_at DESC);
+CREATE INDEX idx_helpers_organization_id ON public.helpers(organization_id);
+CREATE INDEX idx_audit_logs_organization_id ON public.audit_logs(organization_id, created_at DESC);
+CREATE INDEX idx_escalation_policies_organization_id ON public.escalation_policies(organization_id);
+
+-- Settings are per organization
+ALTER TABLE public.admin_settings DROP CONSTRAINT IF EXISTS admin_settings_key_key;
+ALTER TABLE public.admin_settings ADD CONSTRAINT admin_settings_organization_key UNIQUE (organization_id, key);
+
+-- Rows tied to an incident inherit its organization, so edge functions and
+-- triggers do not need to pass it
+CREATE OR REPLACE FUNCTION public.set_organization_from_incident()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.incident_id IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM public.incidents
+    WHERE id = NEW.incident_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_audit_logs_organization
+BEFORE INSERT ON public.audit_logs
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+CREATE TRIGGER set_incident_analyses_organization
+BEFORE INSERT ON public.incident_analyses
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+CREATE TRIGGER set_alert_deliveries_organization
+BEFORE INSERT ON public.alert_deliveries
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+CREATE TRIGGER set_incident_escalations_organization
+BEFORE INSERT ON public.incident_escalations
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+-- Incidents cannot move between organizations
+CREATE OR REPLACE FUNCTION public.prevent_organization_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'organization_id cannot be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_incident_organization_change
+BEFORE UPDATE OF organization_id ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.prevent_organization_change();
+
+-- ========== ROW LEVEL SECURITY ==========
+
+-- Organizations
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), id));
+
+CREATE POLICY "Organization admins can update their organization"
+ON public.organizations
+FOR UPDATE
+TO authenticated
+USING (has_org_role(auth.uid(), id, 'admin'::app_role));
+
+-- Organization members
+CREATE POLICY "Members can view memberships of their organizations"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can manage members"
+ON public.organization_members
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+-- Profiles: admins see the profiles of people in their organizations
+DROP POLICY IF EXISTS "Users can view own profile admins can view all" ON public.profiles;
+
+CREATE POLICY "Users can view own profile admins can view members"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    WHERE m.user_id = profiles.user_id
+      AND has_org_role(auth.uid(), m.organization_id, 'admin'::app_role)
+  )
+);
+
+-- Incidents
+DROP POLICY IF EXISTS "Authenticated users can view all incidents" ON public.incidents;
+DROP POLICY IF EXISTS "Authenticated users can create incidents" ON public.incidents;
+DROP POLICY IF EXISTS "Reporter, assignee or admin can update incidents" ON public.incidents;
+DROP POLICY IF EXISTS "Only admins can delete incidents" ON public.incidents;
+
+CREATE POLICY "Members can view organization incidents"
+ON public.incidents
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Members can create organization incidents"
+ON public.incidents
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = reported_by AND is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Reporter, assignee or organization admin can update incidents"
+ON public.incidents
+FOR UPDATE
+TO authenticated
+USING (
+  is_org_member(auth.uid(), organization_id)
+  AND (
+    auth.uid() = reported_by
+    OR auth.uid() = assigned_to
+    OR auth.uid() = secondary_assignee
+    OR has_org_role(auth.uid(), organization_id, 'admin'::app_role)
+  )
+);
+
+CREATE POLICY "Organization admins can delete incidents"
+ON public.incidents
+FOR DELETE
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+-- Audit logs
+DROP POLICY IF EXISTS "Authenticated users can view audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Authenticated users can insert own audit logs" ON public.audit_logs;
+
+CREATE POLICY "Members can view organization audit logs"
+ON public.audit_logs
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Members can insert own audit logs"
+ON public.audit_logs
+FOR INSERT
+TO authenticated
+WITH CHECK (actor_id = auth.uid() AND is_org_member(auth.uid(), organization_id));
+
+-- Settings
+DROP POLICY IF EXISTS "Admins can view settings" ON public.admin_settings;
+DROP POLICY IF EXISTS "Admins can manage settings" ON public.admin_settings;
+DROP POLICY IF EXISTS "Authenticated users can view dashboard settings" ON public.admin_settings;
+
+CREATE POLICY "Organization admins can view settings"
+ON public.admin_settings
+FOR SELECT
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+CREATE POLICY "Organization admins can manage settings"
+ON public.admin_settings
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+CREATE POLICY "Members can view dashboard settings"
+ON public.admin_settings
+FOR SELECT
+TO authenticated
+USING (
+  is_org_member(auth.uid(), organization_id)
+  AND key IN ('nearby_helpers_radius_km', 'alert_timezone', 'map_default_center', 'notification_min_severity')
+);
+
+-- Helpers
+DROP POLICY IF EXISTS "Admins can view helpers" ON public.helpers;
+DROP POLICY IF EXISTS "Admins can insert helpers" ON public.helpers;
+DROP POLICY IF EXISTS "Admins can update helpers" ON public.helpers;
+DROP POLICY IF EXISTS "Admins can delete helpers" ON public.helpers;
+
+CREATE POLICY "Organization admins can manage helpers"
+ON public.helpers
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+-- Analyses, deliveries, escalations
+DROP POLICY IF EXISTS "Authenticated users can view incident analyses" ON public.incident_analyses;
+
+CREATE POLICY "Members can view incident analyses"
+ON public.incident_analyses
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+DROP POLICY IF EXISTS "Admins can view alert deliveries" ON public.alert_deliveries;
+
+CREATE POLICY "Organization admins can view alert deliveries"
+ON public.alert_deliveries
+FOR SELECT
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Authenticated users can view escalation policies" ON public.escalation_policies;
+DROP POLICY IF EXISTS "Admins can manage escalation policies" ON public.escalation_policies;
+
+CREATE POLICY "Members can view escalation policies"
+ON public.escalation_policies
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can manage escalation policies"
+ON public.escalation_policies
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Authenticated users can view incident escalations" ON public.incident_escalations;
+
+CREATE POLICY "Members can view incident escalations"
+ON public.incident_escalations
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- ========== RPCs ==========
+
+-- Helpers near a point, limited to one organization's helpers
+DROP FUNCTION IF EXISTS public.find_nearby_helpers(double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.find_nearby_helpers(
+  org_id uuid,
+  incident_lat double precision,
+  incident_lng double precision,
+  radius_km double precision DEFAULT 2.0
+)
+ RETURNS TABLE(id uuid, name text, mobile_number text, role helper_role, latitude double precision, longitude double precision, distance_km double precision)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Authorization check: Only the organization's admins can access helper contact information
+  IF NOT has_org_role(auth.uid(), org_id, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Unauthorized: Admin access required to view helper information'
+      USING ERRCODE = '42501'; -- insufficient_privilege error code
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.name,
+    h.mobile_number,
+    h.role,
+    h.latitude,
+    h.longitude,
+    -- Haversine formula for distance in km
+    (6371 * acos(
+      cos(radians(incident_lat)) * cos(radians(h.latitude)) *
+      cos(radians(h.longitude) - radians(incident_lng)) +
+      sin(radians(incident_lat)) * sin(radians(h.latitude))
+    )) AS distance_km
+  FROM public.helpers h
+  WHERE h.is_active = true
+    AND h.organization_id = org_id
+    AND (6371 * acos(
+      cos(radians(incident_lat)) * cos(radians(h.latitude)) *
+      cos(radians(h.longitude) - radians(incident_lng)) +
+      sin(radians(incident_lat)) * sin(radians(h.latitude))
+    )) <= radius_km
+  ORDER BY distance_km ASC;
+END;
+$function$;
+
+-- Operators of one organization that its incidents can be assigned to
+DROP FUNCTION IF EXISTS public.list_assignable_operators();
+
+CREATE OR REPLACE FUNCTION public.list_assignable_operators(_organization_id UUID)
+RETURNS TABLE(user_id uuid, full_name text, role app_role)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT is_org_member(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Unauthorized: Organization membership required'
+      USING ERRCODE = '42501'; -- insufficient_privilege error code
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.user_id,
+    p.full_name,
+    m.role
+  FROM public.organization_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id
+  ORDER BY p.full_name NULLS LAST, m.user_id;
+END;
+$function$;
+
+-- Same rules as before, with admin meaning admin of the incident's organization
+-- and assignees limited to its members
+CREATE OR REPLACE FUNCTION public.assign_incident(
+  _incident_id UUID,
+  _assignee UUID,
+  _secondary_assignee UUID DEFAULT NULL
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_incident public.incidents;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_incident.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_org_role(v_caller, v_incident.organization_id, 'admin'::app_role)
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+    OR (v_incident.assigned_to IS NULL AND _assignee = v_caller)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins, the reporter or the current assignee can reassign this incident'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _assignee IS NOT NULL AND _assignee = _secondary_assignee THEN
+    RAISE EXCEPTION 'Primary and secondary assignee must be different users'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF (_assignee IS NOT NULL AND NOT is_org_member(_assignee, v_incident.organization_id))
+    OR (_secondary_assignee IS NOT NULL AND NOT is_org_member(_secondary_assignee, v_incident.organization_id)) THEN
+    RAISE EXCEPTION 'Assignee must be a member of the incident''s organization'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.incidents
+  SET assigned_to = _assignee,
+      secondary_assignee = CASE WHEN _assignee IS NULL THEN NULL ELSE _secondary_assignee END,
+      assigned_at = CASE WHEN _assignee IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  RETURN v_incident;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.override_incident_severity(
+  _incident_id UUID,
+  _severity TEXT,
+  _reason TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_actor_email TEXT;
+  v_incident public.incidents;
+  v_previous_severity incident_severity;
+  v_reason TEXT := btrim(COALESCE(_reason, ''));
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF length(v_reason) < 5 OR length(v_reason) > 1000 THEN
+    RAISE EXCEPTION 'Justification must be between 5 and 1000 characters'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF _severity IS NOT NULL AND _severity NOT IN ('low', 'medium', 'high', 'critical') THEN
+    RAISE EXCEPTION 'Invalid severity: %', _severity
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_incident.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_org_role(v_caller, v_incident.organization_id, 'admin'::app_role)
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins, the reporter or an assignee can override severity'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _severity IS NULL AND v_incident.severity_override IS NULL THEN
+    RAISE EXCEPTION 'Incident severity is not overridden'
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_previous_severity := v_incident.severity;
+
+  UPDATE public.incidents
+  SET severity_override = _severity::incident_severity,
+      severity_override_reason = CASE WHEN _severity IS NULL THEN NULL ELSE v_reason END,
+      severity_overridden_by = CASE WHEN _severity IS NULL THEN NULL ELSE v_caller END,
+      severity_overridden_at = CASE WHEN _severity IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  SELECT u.email INTO v_actor_email
+  FROM auth.users u
+  WHERE u.id = v_caller;
+
+  INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+  VALUES (
+    CASE WHEN _severity IS NULL THEN 'severity_override_cleared' ELSE 'severity_overridden' END,
+    _incident_id,
+    v_caller,
+    v_actor_email,
+    jsonb_build_object(
+      'previous_severity', v_previous_severity,
+      'new_severity', v_incident.severity,
+      'ai_severity', v_incident.ai_severity,
+      'reason', v_reason,
+      'changed_at', now()
+    )
+  );
+
+  RETURN v_incident;
+END;
+$$;
+
+-- Create an organization; the caller becomes its first admin.
+-- Limited to users who already administer an organization.
+CREATE OR REPLACE FUNCTION public.create_organization(_name TEXT, _slug TEXT)
+RETURNS public.organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_organization public.organizations;
+BEGIN
+  IF NOT has_role(v_caller, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can create organizations'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _slug IS NULL OR _slug !~ '^[a-z0-9][a-z0-9-]{1,49}$' THEN
+    RAISE EXCEPTION 'Slug must be 2-50 lowercase letters, digits or dashes'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  INSERT INTO public.organizations (name, slug)
+  VALUES (btrim(_name), _slug)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization.id, v_caller, 'admin');
+
+  RETURN v_organization;
+END;
+$$;
+
+-- Members of an organization with their email, for its admins
+CREATE OR REPLACE FUNCTION public.list_organization_members(_organization_id UUID)
+RETURNS TABLE(id uuid, user_id uuid, full_name text, email text, role app_role, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_org_role(auth.uid(), _organization_id, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Unauthorized: Admin access required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, p.full_name, u.email::text, m.role, m.created_at
+  FROM public.organization_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id
+  ORDER BY m.created_at;
+END;
+$function$;
+
+-- Add an existing account to an organization by email
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  _organization_id UUID,
+  _email TEXT,
+  _role app_role DEFAULT 'operator'
+)
+RETURNS public.organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_member public.organization_members;
+BEGIN
+  IF NOT has_org_role(auth.uid(), _organization_id, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Unauthorized: Admin access required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', _email
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_organization_id, v_user_id, _role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+-- An organization always keeps at least one admin
+CREATE OR REPLACE FUNCTION public.ensure_organization_has_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.organization_members
+      WHERE organization_id = OLD.organization_id
+        AND role = 'admin'
+        AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'An organization must keep at least one admin'
+      USING ERRCODE = '23514'; -- check_violation
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER ensure_organization_has_admin
+BEFORE UPDATE OF role OR DELETE ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.ensure_organization_has_admin();
+
+-- New accounts join automatically only while there is a single organization;
+-- with several campuses an admin adds them to the right one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data->>'full_name');
+
+  -- Default role is operator
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'operator');
+
+  IF (SELECT count(*) FROM public.organizations) = 1 THEN
+    INSERT INTO public.organization_members (organization_id, user_id, role)
+    SELECT id, NEW.id, 'operator'
+    FROM public.organizations;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- user_roles only records the signup default now; organization_members is
+-- authoritative, so admins of one organization must not edit it
+DROP POLICY IF EXISTS "Admins can view all roles" ON public.user_roles;
+DROP POLICY IF EXISTS "Admins can manage roles" ON public.user_roles;
+
+-- The mock SMS and captured email outboxes are not organization-scoped;
+-- read them with the service role (e.g. the SQL editor) during development
+DROP POLICY IF EXISTS "Admins can view mock SMS messages" ON public.mock_sms_messages;
+DROP POLICY IF EXISTS "Admins can view captured emails" ON public.captured_emails;
@@ -0,0 +1,6 @@
+-- Roles beyond admin/operator. Added in their own migration because new enum
+-- values cannot be used in the transaction that adds them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'incident_commander';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'dispatcher';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'responder';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'viewer';
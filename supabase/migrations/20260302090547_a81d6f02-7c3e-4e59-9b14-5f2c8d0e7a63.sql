@@ -0,0 +1,453 @@
+-- Permission matrix
+-- What each role may do is looked up in role_permissions instead of comparing
+-- against 'admin'. Row access still requires membership of the row's organization.
+
+CREATE TYPE public.app_permission AS ENUM (
+  'can_report',
+  'can_manage_incidents',
+  'can_resolve',
+  'can_alert_helpers',
+  'can_view_helper_phone',
+  'can_export',
+  'can_manage_users'
+);
+
+CREATE TABLE public.role_permissions (
+    role app_role NOT NULL,
+    permission app_permission NOT NULL,
+    PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- The matrix itself is not sensitive; it is changed through migrations
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'can_report'),
+  ('admin', 'can_manage_incidents'),
+  ('admin', 'can_resolve'),
+  ('admin', 'can_alert_helpers'),
+  ('admin', 'can_view_helper_phone'),
+  ('admin', 'can_export'),
+  ('admin', 'can_manage_users'),
+  ('incident_commander', 'can_report'),
+  ('incident_commander', 'can_manage_incidents'),
+  ('incident_commander', 'can_resolve'),
+  ('incident_commander', 'can_alert_helpers'),
+  ('incident_commander', 'can_view_helper_phone'),
+  ('incident_commander', 'can_export'),
+  ('dispatcher', 'can_report'),
+  ('dispatcher', 'can_manage_incidents'),
+  ('dispatcher', 'can_alert_helpers'),
+  ('dispatcher', 'can_view_helper_phone'),
+  ('operator', 'can_report'),
+  ('operator', 'can_resolve'),
+  ('responder', 'can_report'),
+  ('viewer', 'can_export');
+
+CREATE OR REPLACE FUNCTION public.has_org_permission(
+  _user_id UUID,
+  _organization_id UUID,
+  _permission app_permission
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    JOIN public.role_permissions rp ON rp.role = m.role
+    WHERE m.user_id = _user_id
+      AND m.organization_id = _organization_id
+      AND rp.permission = _permission
+  )
+$$;
+
+-- The caller's permissions in one organization
+CREATE OR REPLACE FUNCTION public.get_user_permissions(_organization_id UUID)
+RETURNS app_permission[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(rp.permission ORDER BY rp.permission), '{}')
+  FROM public.organization_members m
+  JOIN public.role_permissions rp ON rp.role = m.role
+  WHERE m.user_id = auth.uid()
+    AND m.organization_id = _organization_id
+$$;
+
+-- get_user_role picked an arbitrary row with LIMIT 1 and is meaningless now
+-- that users hold one role per organization
+DROP FUNCTION IF EXISTS public.get_user_role(UUID);
+
+-- ========== ROW LEVEL SECURITY ==========
+
+-- Members
+DROP POLICY IF EXISTS "Organization admins can manage members" ON public.organization_members;
+
+CREATE POLICY "User managers can manage members"
+ON public.organization_members
+FOR ALL
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_users'))
+WITH CHECK (has_org_permission(auth.uid(), organization_id, 'can_manage_users'));
+
+DROP POLICY IF EXISTS "Users can view own profile admins can view members" ON public.profiles;
+
+CREATE POLICY "Users can view own profile user managers can view members"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    WHERE m.user_id = profiles.user_id
+      AND has_org_permission(auth.uid(), m.organization_id, 'can_manage_users')
+  )
+);
+
+-- Incidents
+DROP POLICY IF EXISTS "Members can create organization incidents" ON public.incidents;
+DROP POLICY IF EXISTS "Reporter, assignee or organization admin can update incidents" ON public.incidents;
+
+CREATE POLICY "Reporters can create organization incidents"
+ON public.incidents
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = reported_by
+  AND has_org_permission(auth.uid(), organization_id, 'can_report')
+);
+
+CREATE POLICY "Reporter, assignee or incident manager can update incidents"
+ON public.incidents
+FOR UPDATE
+TO authenticated
+USING (
+  is_org_member(auth.uid(), organization_id)
+  AND (
+    auth.uid() = reported_by
+    OR auth.uid() = assigned_to
+    OR auth.uid() = secondary_assignee
+    OR has_org_permission(auth.uid(), organization_id, 'can_manage_incidents')
+  )
+);
+
+-- Resolving or closing needs can_resolve on top of being allowed to update.
+-- Service role updates (auth.uid() IS NULL) are not restricted.
+CREATE OR REPLACE FUNCTION public.enforce_resolve_permission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('resolved', 'closed')
+    AND auth.uid() IS NOT NULL
+    AND NOT has_org_permission(auth.uid(), NEW.organization_id, 'can_resolve') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot resolve or close incidents'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_incident_resolve_permission
+BEFORE UPDATE OF status ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.enforce_resolve_permission();
+
+-- Helpers: contact details need can_view_helper_phone; editing stays with admins
+DROP POLICY IF EXISTS "Organization admins can manage helpers" ON public.helpers;
+
+CREATE POLICY "Members with helper phone access can view helpers"
+ON public.helpers
+FOR SELECT
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_view_helper_phone'));
+
+CREATE POLICY "Organization admins can manage helpers"
+ON public.helpers
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+-- Alert deliveries follow who may send alerts
+DROP POLICY IF EXISTS "Organization admins can view alert deliveries" ON public.alert_deliveries;
+
+CREATE POLICY "Alerting members can view alert deliveries"
+ON public.alert_deliveries
+FOR SELECT
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_alert_helpers'));
+
+-- ========== RPCs ==========
+
+CREATE OR REPLACE FUNCTION public.find_nearby_helpers(
+  org_id uuid,
+  incident_lat double precision,
+  incident_lng double precision,
+  radius_km double precision DEFAULT 2.0
+)
+ RETURNS TABLE(id uuid, name text, mobile_number text, role helper_role, latitude double precision, longitude double precision, distance_km double precision)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Authorization check: helper contact information needs can_view_helper_phone
+  IF NOT has_org_permission(auth.uid(), org_id, 'can_view_helper_phone') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot view helper information'
+      USING ERRCODE = '42501'; -- insufficient_privilege error code
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.name,
+    h.mobile_number,
+    h.role,
+    h.latitude,
+    h.longitude,
+    -- Haversine formula for distance in km
+    (6371 * acos(
+      cos(radians(incident_lat)) * cos(radians(h.latitude)) *
+      cos(radians(h.longitude) - radians(incident_lng)) +
+      sin(radians(incident_lat)) * sin(radians(h.latitude))
+    )) AS distance_km
+  FROM public.helpers h
+  WHERE h.is_active = true
+    AND h.organization_id = org_id
+    AND (6371 * acos(
+      cos(radians(incident_lat)) * cos(radians(h.latitude)) *
+      cos(radians(h.longitude) - radians(incident_lng)) +
+      sin(radians(incident_lat)) * sin(radians(h.latitude))
+    )) <= radius_km
+  ORDER BY distance_km ASC;
+END;
+$function$;
+
+-- Same rules as before, with incident managers in place of admins
+CREATE OR REPLACE FUNCTION public.assign_incident(
+  _incident_id UUID,
+  _assignee UUID,
+  _secondary_assignee UUID DEFAULT NULL
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_incident public.incidents;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_incident.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_org_permission(v_caller, v_incident.organization_id, 'can_manage_incidents')
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+    OR (v_incident.assigned_to IS NULL AND _assignee = v_caller)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only incident managers, the reporter or the current assignee can reassign this incident'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _assignee IS NOT NULL AND _assignee = _secondary_assignee THEN
+    RAISE EXCEPTION 'Primary and secondary assignee must be different users'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF (_assignee IS NOT NULL AND NOT is_org_member(_assignee, v_incident.organization_id))
+    OR (_secondary_assignee IS NOT NULL AND NOT is_org_member(_secondary_assignee, v_incident.organization_id)) THEN
+    RAISE EXCEPTION 'Assignee must be a member of the incident''s organization'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.incidents
+  SET assigned_to = _assignee,
+      secondary_assignee = CASE WHEN _assignee IS NULL THEN NULL ELSE _secondary_assignee END,
+      assigned_at = CASE WHEN _assignee IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  RETURN v_incident;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.override_incident_severity(
+  _incident_id UUID,
+  _severity TEXT,
+  _reason TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_actor_email TEXT;
+  v_incident public.incidents;
+  v_previous_severity incident_severity;
+  v_reason TEXT := btrim(COALESCE(_reason, ''));
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF length(v_reason) < 5 OR length(v_reason) > 1000 THEN
+    RAISE EXCEPTION 'Justification must be between 5 and 1000 characters'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF _severity IS NOT NULL AND _severity NOT IN ('low', 'medium', 'high', 'critical') THEN
+    RAISE EXCEPTION 'Invalid severity: %', _severity
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_incident.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT (
+    has_org_permission(v_caller, v_incident.organization_id, 'can_manage_incidents')
+    OR v_caller = v_incident.reported_by
+    OR v_caller = v_incident.assigned_to
+    OR v_caller = v_incident.secondary_assignee
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only incident managers, the reporter or an assignee can override severity'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _severity IS NULL AND v_incident.severity_override IS NULL THEN
+    RAISE EXCEPTION 'Incident severity is not overridden'
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_previous_severity := v_incident.severity;
+
+  UPDATE public.incidents
+  SET severity_override = _severity::incident_severity,
+      severity_override_reason = CASE WHEN _severity IS NULL THEN NULL ELSE v_reason END,
+      severity_overridden_by = CASE WHEN _severity IS NULL THEN NULL ELSE v_caller END,
+      severity_overridden_at = CASE WHEN _severity IS NULL THEN NULL ELSE now() END
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  SELECT u.email INTO v_actor_email
+  FROM auth.users u
+  WHERE u.id = v_caller;
+
+  INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+  VALUES (
+    CASE WHEN _severity IS NULL THEN 'severity_override_cleared' ELSE 'severity_overridden' END,
+    _incident_id,
+    v_caller,
+    v_actor_email,
+    jsonb_build_object(
+      'previous_severity', v_previous_severity,
+      'new_severity', v_incident.severity,
+      'ai_severity', v_incident.ai_severity,
+      'reason', v_reason,
+      'changed_at', now()
+    )
+  );
+
+  RETURN v_incident;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_organization_members(_organization_id UUID)
+RETURNS TABLE(id uuid, user_id uuid, full_name text, email text, role app_role, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_org_permission(auth.uid(), _organization_id, 'can_manage_users') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot manage users'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, p.full_name, u.email::text, m.role, m.created_at
+  FROM public.organization_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.organization_id = _organization_id
+  ORDER BY m.created_at;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  _organization_id UUID,
+  _email TEXT,
+  _role app_role DEFAULT 'operator'
+)
+RETURNS public.organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_member public.organization_members;
+BEGIN
+  IF NOT has_org_permission(auth.uid(), _organization_id, 'can_manage_users') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot manage users'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', _email
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_organization_id, v_user_id, _role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
@@ -0,0 +1,201 @@
+-- Tamper-evident audit log: every row stores a SHA-256 hash of its content and
+-- of the previous row's hash in the same organization, so editing, deleting or
+-- reordering entries breaks the chain. UPDATE, DELETE and TRUNCATE are rejected
+-- for every role, including service_role.
+
+ALTER TABLE public.audit_logs
+  ADD COLUMN seq BIGINT,
+  ADD COLUMN prev_hash TEXT,
+  ADD COLUMN row_hash TEXT;
+
+-- Canonical content of an entry; jsonb orders keys deterministically and the
+-- timestamp is rendered in UTC so the hash does not depend on the session TimeZone
+CREATE OR REPLACE FUNCTION public.audit_log_hash(_entry public.audit_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_object(
+    'seq', _entry.seq,
+    'prev_hash', _entry.prev_hash,
+    'id', _entry.id,
+    'organization_id', _entry.organization_id,
+    'incident_id', _entry.incident_id,
+    'action', _entry.action,
+    'actor_id', _entry.actor_id,
+    'actor_email', _entry.actor_email,
+    'metadata', _entry.metadata,
+    'created_at', to_char(_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  )::text, 'UTF8')), 'hex');
+$$;
+
+-- Chain existing entries in the order they were written
+DO $$
+DECLARE
+  v_entry public.audit_logs;
+  v_organization_id UUID;
+  v_seq BIGINT;
+  v_prev_hash TEXT;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.audit_logs ORDER BY organization_id, created_at, id
+  LOOP
+    IF v_organization_id IS DISTINCT FROM v_entry.organization_id THEN
+      v_organization_id := v_entry.organization_id;
+      v_seq := 0;
+      v_prev_hash := NULL;
+    END IF;
+
+    v_seq := v_seq + 1;
+    v_entry.seq := v_seq;
+    v_entry.prev_hash := v_prev_hash;
+    v_entry.row_hash := public.audit_log_hash(v_entry);
+
+    UPDATE public.audit_logs
+    SET seq = v_entry.seq, prev_hash = v_entry.prev_hash, row_hash = v_entry.row_hash
+    WHERE id = v_entry.id;
+
+    v_prev_hash := v_entry.row_hash;
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX idx_audit_logs_organization_seq ON public.audit_logs(organization_id, seq);
+
+-- Named to sort after set_audit_logs_organization: BEFORE triggers fire in
+-- name order and the hash covers organization_id
+CREATE OR REPLACE FUNCTION public.stamp_audit_log_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last public.audit_logs;
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RAISE EXCEPTION 'Audit log entries must belong to an organization'
+      USING ERRCODE = '23502';
+  END IF;
+
+  -- Serialize writers per organization so two entries never share a predecessor
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || NEW.organization_id::text, 0));
+
+  SELECT * INTO v_last
+  FROM public.audit_logs
+  WHERE organization_id = NEW.organization_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  -- Callers cannot backdate entries or choose their position in the chain
+  NEW.created_at := now();
+  NEW.seq := COALESCE(v_last.seq, 0) + 1;
+  NEW.prev_hash := v_last.row_hash;
+  NEW.row_hash := public.audit_log_hash(NEW);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_audit_logs_hash
+BEFORE INSERT ON public.audit_logs
+FOR EACH ROW EXECUTE FUNCTION public.stamp_audit_log_hash();
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries are immutable (% rejected)', TG_OP
+    USING ERRCODE = '42501';
+END;
+$$;
+
+-- Triggers also apply to service_role, which bypasses RLS
+CREATE TRIGGER prevent_audit_logs_modification
+BEFORE UPDATE OR DELETE ON public.audit_logs
+FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_logs_truncate
+BEFORE TRUNCATE ON public.audit_logs
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_logs FROM anon, authenticated, service_role;
+
+-- Deleting an incident or organization must not cascade into its audit trail
+ALTER TABLE public.audit_logs DROP CONSTRAINT audit_logs_incident_id_fkey;
+ALTER TABLE public.audit_logs
+  ADD CONSTRAINT audit_logs_incident_id_fkey
+  FOREIGN KEY (incident_id) REFERENCES public.incidents(id);
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT audit_logs_organization_id_fkey;
+ALTER TABLE public.audit_logs
+  ADD CONSTRAINT audit_logs_organization_id_fkey
+  FOREIGN KEY (organization_id) REFERENCES public.organizations(id);
+
+-- Walks the organization's chain and reports the first entry that does not
+-- match: a gap in seq (deleted entry), a prev_hash that does not point at the
+-- previous entry, or content that no longer matches its row_hash. head_hash is
+-- the latest hash; recording it externally also detects removal of the newest
+-- entries.
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(_organization_id UUID)
+RETURNS TABLE(
+  is_valid boolean,
+  checked_count bigint,
+  first_broken_id uuid,
+  first_broken_seq bigint,
+  reason text,
+  head_hash text,
+  verified_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.audit_logs;
+  v_expected_seq BIGINT := 1;
+  v_prev_hash TEXT;
+  v_checked BIGINT := 0;
+BEGIN
+  IF NOT is_org_member(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a member of this organization'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM public.audit_logs
+    WHERE organization_id = _organization_id
+    ORDER BY seq
+  LOOP
+    IF v_entry.seq <> v_expected_seq THEN
+      RETURN QUERY SELECT false, v_checked, v_entry.id, v_entry.seq,
+        format('Entries %s to %s are missing', v_expected_seq, v_entry.seq - 1),
+        v_prev_hash, now();
+      RETURN;
+    END IF;
+
+    IF v_entry.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      RETURN QUERY SELECT false, v_checked, v_entry.id, v_entry.seq,
+        'Previous hash does not match the preceding entry'::text,
+        v_prev_hash, now();
+      RETURN;
+    END IF;
+
+    IF v_entry.row_hash IS DISTINCT FROM public.audit_log_hash(v_entry) THEN
+      RETURN QUERY SELECT false, v_checked, v_entry.id, v_entry.seq,
+        'Entry content does not match its hash'::text,
+        v_prev_hash, now();
+      RETURN;
+    END IF;
+
+    v_checked := v_checked + 1;
+    v_expected_seq := v_expected_seq + 1;
+    v_prev_hash := v_entry.row_hash;
+  END LOOP;
+
+  RETURN QUERY SELECT true, v_checked, NULL::uuid, NULL::bigint, NULL::text, v_prev_hash, now();
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Permission for the organization-wide audit log explorer. Added in its own
+-- migration because new enum values cannot be used in the transaction that adds them.
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'can_view_audit_log';
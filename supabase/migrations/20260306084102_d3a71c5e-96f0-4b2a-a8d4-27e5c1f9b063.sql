@@ -0,0 +1,7 @@
+-- Administrators, incident commanders and auditors can browse the full audit
+-- log. Members still see the entries of individual incidents in the timeline.
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'can_view_audit_log'),
+  ('incident_commander', 'can_view_audit_log'),
+  ('viewer', 'can_view_audit_log')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,86 @@
+-- Incident notes: free-text comments on an incident, optionally replying to
+-- another note. Internal notes stay with the response team; shareable notes
+-- may be included in reports handed to people outside it.
+
+CREATE TYPE public.note_visibility AS ENUM ('internal', 'shareable');
+
+CREATE TABLE public.incident_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES public.incident_notes(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL,
+    author_email TEXT,
+    author_name TEXT,
+    body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000),
+    visibility note_visibility NOT NULL DEFAULT 'internal',
+    mentions UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_incident_notes_incident_id ON public.incident_notes(incident_id, created_at);
+CREATE INDEX idx_incident_notes_mentions ON public.incident_notes USING GIN (mentions);
+
+ALTER TABLE public.incident_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER set_incident_notes_organization
+BEFORE INSERT ON public.incident_notes
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+-- The author is always the caller, and mentions are limited to members of the
+-- incident's organization. Runs after set_incident_notes_organization (name order).
+CREATE OR REPLACE FUNCTION public.stamp_incident_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_id := auth.uid();
+  NEW.created_at := now();
+
+  SELECT u.email, p.full_name INTO NEW.author_email, NEW.author_name
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.user_id = u.id
+  WHERE u.id = NEW.author_id;
+
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.incident_notes
+    WHERE id = NEW.parent_id AND incident_id = NEW.incident_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same incident'
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW.mentions := COALESCE(ARRAY(
+    SELECT DISTINCT m.user_id
+    FROM public.organization_members m
+    WHERE m.organization_id = NEW.organization_id
+      AND m.user_id = ANY(NEW.mentions)
+  ), '{}');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_incident_notes_author
+BEFORE INSERT ON public.incident_notes
+FOR EACH ROW EXECUTE FUNCTION public.stamp_incident_note();
+
+CREATE POLICY "Members can view incident notes"
+ON public.incident_notes
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- Notes are part of the incident record, so there are no UPDATE or DELETE policies
+CREATE POLICY "Reporters can add incident notes"
+ON public.incident_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND has_org_permission(auth.uid(), organization_id, 'can_report')
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_notes;
@@ -0,0 +1,165 @@
+-- Incident attachments: photos, videos and documents stored in the private
+-- incident-attachments bucket under <organization_id>/<incident_id>/<file>.
+-- Objects and rows are visible to exactly the users who can see the incident.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'incident-attachments',
+  'incident-attachments',
+  false,
+  52428800,
+  ARRAY[
+    'image/*',
+    'video/*',
+    'application/pdf',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Organization of the incident an object path points at, or NULL when the
+-- path is malformed or the incident is not in that organization
+CREATE OR REPLACE FUNCTION public.attachment_path_organization(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parts TEXT[] := string_to_array(_name, '/');
+  v_organization_id UUID;
+BEGIN
+  IF array_length(v_parts, 1) <> 3
+     OR v_parts[1] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+     OR v_parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT organization_id INTO v_organization_id
+  FROM public.incidents
+  WHERE id = v_parts[2]::uuid AND organization_id = v_parts[1]::uuid;
+
+  RETURN v_organization_id;
+END;
+$$;
+
+CREATE POLICY "Members can view incident attachment files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'incident-attachments'
+  AND is_org_member(auth.uid(), public.attachment_path_organization(name))
+);
+
+CREATE POLICY "Reporters can upload incident attachment files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'incident-attachments'
+  AND has_org_permission(auth.uid(), public.attachment_path_organization(name), 'can_report')
+);
+
+CREATE POLICY "Incident managers can delete incident attachment files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'incident-attachments'
+  AND has_org_permission(auth.uid(), public.attachment_path_organization(name), 'can_manage_incidents')
+);
+
+CREATE TABLE public.incident_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+    content_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+    width INTEGER,
+    height INTEGER,
+    -- GPS position read from the photo's EXIF data, if any
+    latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+    uploaded_by UUID NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_incident_attachments_incident_id ON public.incident_attachments(incident_id, created_at);
+
+ALTER TABLE public.incident_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER set_incident_attachments_organization
+BEFORE INSERT ON public.incident_attachments
+FOR EACH ROW EXECUTE FUNCTION public.set_organization_from_incident();
+
+CREATE POLICY "Members can view incident attachments"
+ON public.incident_attachments
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- The row must describe a file in this incident's folder
+CREATE POLICY "Reporters can add incident attachments"
+ON public.incident_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND has_org_permission(auth.uid(), organization_id, 'can_report')
+  AND storage_path LIKE organization_id::text || '/' || incident_id::text || '/%'
+);
+
+CREATE POLICY "Incident managers can delete incident attachments"
+ON public.incident_attachments
+FOR DELETE
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_incidents'));
+
+CREATE OR REPLACE FUNCTION public.log_incident_attachment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.incident_attachments;
+  v_actor_email TEXT;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  SELECT email INTO v_actor_email FROM auth.users WHERE id = auth.uid();
+
+  INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+  VALUES (
+    CASE WHEN TG_OP = 'DELETE' THEN 'attachment_removed' ELSE 'attachment_added' END,
+    v_row.incident_id,
+    auth.uid(),
+    v_actor_email,
+    jsonb_build_object(
+      'attachment_id', v_row.id,
+      'file_name', v_row.file_name,
+      'content_type', v_row.content_type,
+      'size_bytes', v_row.size_bytes
+    )
+  );
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE TRIGGER log_incident_attachments_changes
+AFTER INSERT OR DELETE ON public.incident_attachments
+FOR EACH ROW EXECUTE FUNCTION public.log_incident_attachment_change();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_attachments;
+
+-- How many attached photos were sent to the model with each analysis
+ALTER TABLE public.incident_analyses ADD COLUMN image_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,415 @@
+-- Duplicate detection and merged incident groups
+-- Several reports of the same event are merged into one parent incident.
+-- Merged (child) incidents follow the parent's status, are left out of
+-- escalation and are shown as part of the parent's group.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS parent_incident_id UUID REFERENCES public.incidents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_parent_incident_id
+  ON public.incidents(parent_incident_id)
+  WHERE parent_incident_id IS NOT NULL;
+
+-- Groups are one level deep and never cross organizations, whatever path the update takes.
+-- Joining a group adopts the parent's status; callers should also SET status so the
+-- lifecycle trigger stamps the stage timestamps.
+CREATE OR REPLACE FUNCTION public.check_incident_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_parent public.incidents;
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.parent_incident_id IS NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.parent_incident_id IS NOT DISTINCT FROM OLD.parent_incident_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND NOT has_org_permission(auth.uid(), NEW.organization_id, 'can_manage_incidents') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot merge incidents'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.parent_incident_id IS NULL THEN
+    NEW.merged_at := NULL;
+    NEW.merged_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_incident_id = NEW.id THEN
+    RAISE EXCEPTION 'An incident cannot be merged into itself'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  SELECT * INTO v_parent
+  FROM public.incidents
+  WHERE id = NEW.parent_incident_id;
+
+  IF NOT FOUND OR v_parent.organization_id <> NEW.organization_id THEN
+    RAISE EXCEPTION 'Parent incident must belong to the same organization'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_parent.parent_incident_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into an incident that is itself merged'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM public.incidents WHERE parent_incident_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Incident has merged incidents of its own'
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW.status := v_parent.status;
+  NEW.merged_at := now();
+  NEW.merged_by := auth.uid();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before the enforce_* status triggers
+DROP TRIGGER IF EXISTS check_incident_parent ON public.incidents;
+CREATE TRIGGER check_incident_parent
+BEFORE INSERT OR UPDATE OF parent_incident_id ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.check_incident_parent();
+
+-- Merged incidents skip the transition rules but may only ever take their parent's status
+CREATE OR REPLACE FUNCTION public.enforce_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_incident_id IS NOT NULL THEN
+    IF NEW.status IS DISTINCT FROM (
+      SELECT p.status FROM public.incidents p WHERE p.id = NEW.parent_incident_id
+    ) THEN
+      RAISE EXCEPTION 'Merged incidents follow the status of their parent incident'
+        USING ERRCODE = '23514'; -- check_violation
+    END IF;
+  ELSIF NOT public.is_valid_incident_status_transition(OLD.status::text, NEW.status::text) THEN
+    RAISE EXCEPTION 'Invalid incident status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = '23514'; -- check_violation
+  END IF;
+
+  CASE NEW.status::text
+    WHEN 'acknowledged' THEN
+      NEW.acknowledged_at := COALESCE(NEW.acknowledged_at, now());
+      NEW.acknowledged_by := COALESCE(NEW.acknowledged_by, auth.uid());
+    WHEN 'dispatched' THEN
+      NEW.dispatched_at := COALESCE(NEW.dispatched_at, now());
+    WHEN 'on_scene' THEN
+      NEW.on_scene_at := COALESCE(NEW.on_scene_at, now());
+    WHEN 'escalated' THEN
+      NEW.escalated_at := now();
+    WHEN 'resolved' THEN
+      NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+      NEW.resolved_by := COALESCE(NEW.resolved_by, auth.uid());
+    WHEN 'closed' THEN
+      NEW.closed_at := COALESCE(NEW.closed_at, now());
+      NEW.closed_by := COALESCE(NEW.closed_by, auth.uid());
+    WHEN 'active' THEN
+      -- Reopened: the previous resolution no longer applies
+      NEW.resolved_at := NULL;
+      NEW.resolved_by := NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Children inherit every status change of their parent (each hop is audited by
+-- log_incident_status_change as usual)
+CREATE OR REPLACE FUNCTION public.propagate_incident_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.parent_incident_id IS NULL THEN
+    UPDATE public.incidents
+    SET status = NEW.status
+    WHERE parent_incident_id = NEW.id
+      AND status IS DISTINCT FROM NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS propagate_incident_status ON public.incidents;
+CREATE TRIGGER propagate_incident_status
+AFTER UPDATE OF status ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.propagate_incident_status();
+
+-- Scores the organization's open, unmerged incidents against a report.
+-- Candidates must be within 1 km and 6 hours; the score (0-1) weighs
+-- proximity 35%, time 20%, same type 20% and description similarity 25%.
+-- Matches below 0.5 are not returned.
+CREATE OR REPLACE FUNCTION public.find_duplicate_incidents(
+  _organization_id UUID,
+  _type TEXT,
+  _description TEXT,
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION,
+  _reported_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _exclude_incident_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  incident_id UUID,
+  type incident_type,
+  description TEXT,
+  location_name TEXT,
+  status incident_status,
+  severity incident_severity,
+  created_at TIMESTAMP WITH TIME ZONE,
+  merged_count INTEGER,
+  distance_m DOUBLE PRECISION,
+  minutes_apart DOUBLE PRECISION,
+  text_similarity REAL,
+  score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT
+      i.*,
+      6371000 * acos(LEAST(1.0,
+        cos(radians(_latitude)) * cos(radians(i.latitude)) *
+        cos(radians(i.longitude) - radians(_longitude)) +
+        sin(radians(_latitude)) * sin(radians(i.latitude))
+      )) AS distance_m,
+      (abs(extract(epoch FROM (_reported_at - i.created_at))) / 60)::double precision AS minutes_apart,
+      extensions.similarity(lower(i.description), lower(COALESCE(_description, ''))) AS text_similarity
+    FROM public.incidents i
+    WHERE i.organization_id = _organization_id
+      AND is_org_member(auth.uid(), _organization_id)
+      AND i.status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated')
+      AND i.parent_incident_id IS NULL
+      AND i.id IS DISTINCT FROM _exclude_incident_id
+      AND i.created_at BETWEEN _reported_at - interval '6 hours' AND _reported_at + interval '6 hours'
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      round((
+        0.35 * GREATEST(0, 1 - c.distance_m / 1000)
+        + 0.20 * GREATEST(0, 1 - c.minutes_apart / 360)
+        + CASE WHEN c.type::text = _type THEN 0.20 ELSE 0 END
+        + 0.25 * c.text_similarity
+      )::numeric, 3) AS score
+    FROM candidates c
+    WHERE c.distance_m <= 1000
+  )
+  SELECT
+    s.id,
+    s.type,
+    s.description,
+    s.location_name,
+    s.status,
+    s.severity,
+    s.created_at,
+    (SELECT count(*)::int FROM public.incidents m WHERE m.parent_incident_id = s.id),
+    s.distance_m,
+    s.minutes_apart,
+    s.text_similarity,
+    s.score
+  FROM scored s
+  WHERE s.score >= 0.5
+  ORDER BY s.score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 20);
+$$;
+
+-- Merge incidents into a parent. Incidents that already had merged reports
+-- bring them along, so groups stay one level deep.
+CREATE OR REPLACE FUNCTION public.merge_incidents(
+  _parent_incident_id UUID,
+  _incident_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_actor_email TEXT;
+  v_parent public.incidents;
+  v_incident public.incidents;
+  v_id UUID;
+  v_merged UUID[] := '{}';
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_parent
+  FROM public.incidents
+  WHERE id = _parent_incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_parent.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT has_org_permission(v_caller, v_parent.organization_id, 'can_manage_incidents') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot merge incidents'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_parent.parent_incident_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into an incident that is itself merged'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  SELECT u.email INTO v_actor_email
+  FROM auth.users u
+  WHERE u.id = v_caller;
+
+  FOR v_id IN SELECT DISTINCT unnest(COALESCE(_incident_ids, '{}')) LOOP
+    CONTINUE WHEN v_id = _parent_incident_id;
+
+    SELECT * INTO v_incident
+    FROM public.incidents
+    WHERE id = v_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_incident.organization_id <> v_parent.organization_id THEN
+      RAISE EXCEPTION 'Incident % not found in this organization', v_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    CONTINUE WHEN v_incident.parent_incident_id = _parent_incident_id;
+
+    -- Bring the incident's own merged reports over first
+    UPDATE public.incidents
+    SET parent_incident_id = _parent_incident_id,
+        status = v_parent.status
+    WHERE parent_incident_id = v_id;
+
+    UPDATE public.incidents
+    SET parent_incident_id = _parent_incident_id,
+        status = v_parent.status
+    WHERE id = v_id;
+
+    INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    VALUES (
+      'incident_merged',
+      v_id,
+      v_caller,
+      v_actor_email,
+      jsonb_build_object(
+        'parent_incident_id', _parent_incident_id,
+        'previous_parent_incident_id', v_incident.parent_incident_id,
+        'merged_at', now()
+      )
+    );
+
+    v_merged := v_merged || v_id;
+  END LOOP;
+
+  IF array_length(v_merged, 1) > 0 THEN
+    INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    VALUES (
+      'incidents_merged',
+      _parent_incident_id,
+      v_caller,
+      v_actor_email,
+      jsonb_build_object(
+        'merged_incident_ids', to_jsonb(v_merged),
+        'merged_count', array_length(v_merged, 1),
+        'merged_at', now()
+      )
+    );
+  END IF;
+
+  RETURN COALESCE(array_length(v_merged, 1), 0);
+END;
+$$;
+
+-- Take a merged incident out of its group; it keeps its current status
+CREATE OR REPLACE FUNCTION public.unmerge_incident(_incident_id UUID)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_actor_email TEXT;
+  v_incident public.incidents;
+  v_parent_id UUID;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM public.incidents
+  WHERE id = _incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_org_member(v_caller, v_incident.organization_id) THEN
+    RAISE EXCEPTION 'Incident not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  IF NOT has_org_permission(v_caller, v_incident.organization_id, 'can_manage_incidents') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot merge incidents'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_incident.parent_incident_id IS NULL THEN
+    RAISE EXCEPTION 'Incident is not merged'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  v_parent_id := v_incident.parent_incident_id;
+
+  UPDATE public.incidents
+  SET parent_incident_id = NULL
+  WHERE id = _incident_id
+  RETURNING * INTO v_incident;
+
+  SELECT u.email INTO v_actor_email
+  FROM auth.users u
+  WHERE u.id = v_caller;
+
+  INSERT INTO public.audit_logs (action, incident_id, actor_id, actor_email, metadata)
+  VALUES (
+    'incident_unmerged',
+    _incident_id,
+    v_caller,
+    v_actor_email,
+    jsonb_build_object(
+      'previous_parent_incident_id', v_parent_id,
+      'unmerged_at', now()
+    )
+  );
+
+  RETURN v_incident;
+END;
+$$;
@@ -0,0 +1,272 @@
+-- Geofenced campus zones
+-- Admins draw zones (buildings, parking, labs...) as GeoJSON polygons.
+-- Incidents are tagged with the zone containing their location.
+
+CREATE TYPE public.zone_type AS ENUM (
+  'building',
+  'parking',
+  'lab',
+  'residence',
+  'sports',
+  'outdoor',
+  'other'
+);
+
+CREATE TABLE public.zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+    zone_type zone_type NOT NULL DEFAULT 'building',
+    floor_count INTEGER CHECK (floor_count IS NULL OR floor_count BETWEEN 0 AND 200),
+    responsible_team TEXT CHECK (responsible_team IS NULL OR char_length(responsible_team) <= 100),
+    -- GeoJSON Polygon or MultiPolygon, positions as [longitude, latitude]
+    geometry JSONB NOT NULL,
+    -- Bounding box, maintained by prepare_zone for cheap point lookups
+    min_latitude DOUBLE PRECISION,
+    max_latitude DOUBLE PRECISION,
+    min_longitude DOUBLE PRECISION,
+    max_longitude DOUBLE PRECISION,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (organization_id, name)
+);
+
+CREATE INDEX idx_zones_organization_id ON public.zones(organization_id);
+
+ALTER TABLE public.zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view zones"
+ON public.zones
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can manage zones"
+ON public.zones
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+CREATE TRIGGER update_zones_updated_at
+BEFORE UPDATE ON public.zones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The polygons of a Polygon or MultiPolygon, as an array of ring arrays
+CREATE OR REPLACE FUNCTION public.geojson_polygons(_geometry JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _geometry->>'type'
+    WHEN 'Polygon' THEN jsonb_build_array(_geometry->'coordinates')
+    WHEN 'MultiPolygon' THEN _geometry->'coordinates'
+    ELSE '[]'::jsonb
+  END;
+$$;
+
+-- Ray casting point-in-polygon; the first ring of each polygon is its outline,
+-- further rings are holes
+CREATE OR REPLACE FUNCTION public.geojson_contains_point(
+  _geometry JSONB,
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_polygon JSONB;
+  v_ring JSONB;
+  v_ring_index INTEGER;
+  v_in_ring BOOLEAN;
+  v_in_polygon BOOLEAN;
+  v_count INTEGER;
+  v_prev INTEGER;
+  v_xi DOUBLE PRECISION;
+  v_yi DOUBLE PRECISION;
+  v_xj DOUBLE PRECISION;
+  v_yj DOUBLE PRECISION;
+BEGIN
+  FOR v_polygon IN SELECT value FROM jsonb_array_elements(public.geojson_polygons(_geometry)) LOOP
+    v_in_polygon := false;
+    v_ring_index := 0;
+
+    FOR v_ring IN SELECT value FROM jsonb_array_elements(v_polygon) LOOP
+      v_in_ring := false;
+      v_count := jsonb_array_length(v_ring);
+      v_prev := v_count - 1;
+
+      FOR i IN 0..v_count - 1 LOOP
+        v_xi := (v_ring->i->>0)::double precision;
+        v_yi := (v_ring->i->>1)::double precision;
+        v_xj := (v_ring->v_prev->>0)::double precision;
+        v_yj := (v_ring->v_prev->>1)::double precision;
+
+        IF (v_yi > _latitude) <> (v_yj > _latitude) THEN
+          IF _longitude < (v_xj - v_xi) * (_latitude - v_yi) / (v_yj - v_yi) + v_xi THEN
+            v_in_ring := NOT v_in_ring;
+          END IF;
+        END IF;
+
+        v_prev := i;
+      END LOOP;
+
+      IF v_ring_index = 0 THEN
+        v_in_polygon := v_in_ring;
+      ELSIF v_in_ring THEN
+        v_in_polygon := false;
+      END IF;
+
+      EXIT WHEN NOT v_in_polygon;
+      v_ring_index := v_ring_index + 1;
+    END LOOP;
+
+    IF v_in_polygon THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- Validate the geometry and keep the bounding box in sync
+CREATE OR REPLACE FUNCTION public.prepare_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_polygons JSONB := public.geojson_polygons(NEW.geometry);
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.responsible_team := NULLIF(btrim(COALESCE(NEW.responsible_team, '')), '');
+
+  IF jsonb_typeof(v_polygons) <> 'array' OR jsonb_array_length(v_polygons) = 0 THEN
+    RAISE EXCEPTION 'Zone geometry must be a GeoJSON Polygon or MultiPolygon'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_polygons) polygon
+    WHERE jsonb_typeof(polygon) <> 'array'
+      OR jsonb_array_length(polygon) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(polygon) ring
+        WHERE jsonb_typeof(ring) <> 'array' OR jsonb_array_length(ring) < 4
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every zone polygon needs at least three corners'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT
+    min((p.value->>1)::double precision),
+    max((p.value->>1)::double precision),
+    min((p.value->>0)::double precision),
+    max((p.value->>0)::double precision)
+  INTO NEW.min_latitude, NEW.max_latitude, NEW.min_longitude, NEW.max_longitude
+  FROM jsonb_array_elements(v_polygons) polygon,
+    jsonb_array_elements(polygon.value) ring,
+    jsonb_array_elements(ring.value) p;
+
+  IF NEW.min_latitude < -90 OR NEW.max_latitude > 90
+    OR NEW.min_longitude < -180 OR NEW.max_longitude > 180 THEN
+    RAISE EXCEPTION 'Zone coordinates are out of range'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_zone
+BEFORE INSERT OR UPDATE ON public.zones
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_zone();
+
+-- The zone containing a point; nested zones (a lab inside a building) win over
+-- the zones around them
+CREATE OR REPLACE FUNCTION public.find_zone_for_point(
+  _organization_id UUID,
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT z.id
+  FROM public.zones z
+  WHERE z.organization_id = _organization_id
+    AND _latitude BETWEEN z.min_latitude AND z.max_latitude
+    AND _longitude BETWEEN z.min_longitude AND z.max_longitude
+    AND public.geojson_contains_point(z.geometry, _latitude, _longitude)
+  ORDER BY (z.max_latitude - z.min_latitude) * (z.max_longitude - z.min_longitude) ASC
+  LIMIT 1;
+$$;
+
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS zone_id UUID REFERENCES public.zones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_zone_id ON public.incidents(zone_id);
+
+-- Tag incidents with their zone whenever they are created or moved
+CREATE OR REPLACE FUNCTION public.assign_incident_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.zone_id := public.find_zone_for_point(NEW.organization_id, NEW.latitude, NEW.longitude);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_incident_zone
+BEFORE INSERT OR UPDATE OF latitude, longitude ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_incident_zone();
+
+-- Re-tag the organization's incidents when a zone is drawn, reshaped or removed
+CREATE OR REPLACE FUNCTION public.retag_zone_incidents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := COALESCE(NEW.organization_id, OLD.organization_id);
+BEGIN
+  WITH tagged AS (
+    SELECT i.id, public.find_zone_for_point(i.organization_id, i.latitude, i.longitude) AS zone_id
+    FROM public.incidents i
+    WHERE i.organization_id = v_organization_id
+  )
+  UPDATE public.incidents i
+  SET zone_id = t.zone_id
+  FROM tagged t
+  WHERE i.id = t.id
+    AND i.zone_id IS DISTINCT FROM t.zone_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER retag_zone_incidents
+AFTER INSERT OR DELETE OR UPDATE OF geometry ON public.zones
+FOR EACH ROW
+EXECUTE FUNCTION public.retag_zone_incidents();
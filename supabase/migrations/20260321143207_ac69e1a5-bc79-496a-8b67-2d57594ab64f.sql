@@ -0,0 +1,186 @@
+-- Indoor incident locations: building, floor and room, optionally pinned on a
+-- floor plan. Floor plan images live in the private floor-plans bucket under
+-- <organization_id>/<zone_id>/<file>.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'floor-plans',
+  'floor-plans',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.floor_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES public.zones(id) ON DELETE CASCADE,
+    floor INTEGER NOT NULL CHECK (floor BETWEEN -10 AND 200),
+    label TEXT CHECK (label IS NULL OR char_length(label) <= 50),
+    storage_path TEXT NOT NULL UNIQUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (zone_id, floor)
+);
+
+CREATE INDEX idx_floor_plans_organization_id ON public.floor_plans(organization_id);
+
+ALTER TABLE public.floor_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view floor plans"
+ON public.floor_plans
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- The plan must sit in its zone's folder
+CREATE POLICY "Organization admins can manage floor plans"
+ON public.floor_plans
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (
+  has_org_role(auth.uid(), organization_id, 'admin'::app_role)
+  AND storage_path LIKE organization_id::text || '/' || zone_id::text || '/%'
+  AND EXISTS (
+    SELECT 1 FROM public.zones z
+    WHERE z.id = zone_id AND z.organization_id = floor_plans.organization_id
+  )
+);
+
+CREATE TRIGGER update_floor_plans_updated_at
+BEFORE UPDATE ON public.floor_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Organization of the zone a floor plan object path points at, or NULL when
+-- the path is malformed or the zone is not in that organization
+CREATE OR REPLACE FUNCTION public.floor_plan_path_organization(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parts TEXT[] := string_to_array(_name, '/');
+  v_organization_id UUID;
+BEGIN
+  IF array_length(v_parts, 1) <> 3
+     OR v_parts[1] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+     OR v_parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT organization_id INTO v_organization_id
+  FROM public.zones
+  WHERE id = v_parts[2]::uuid AND organization_id = v_parts[1]::uuid;
+
+  RETURN v_organization_id;
+END;
+$$;
+
+CREATE POLICY "Members can view floor plan files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'floor-plans'
+  AND is_org_member(auth.uid(), public.floor_plan_path_organization(name))
+);
+
+CREATE POLICY "Organization admins can upload floor plan files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'floor-plans'
+  AND has_org_role(auth.uid(), public.floor_plan_path_organization(name), 'admin'::app_role)
+);
+
+CREATE POLICY "Organization admins can delete floor plan files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'floor-plans'
+  AND has_org_role(auth.uid(), public.floor_plan_path_organization(name), 'admin'::app_role)
+);
+
+-- Indoor position of the incident. building_id is the zone the reporter is
+-- inside, which can differ from the GPS-tagged zone_id; the pin is stored as a
+-- fraction of the floor plan's width and height.
+ALTER TABLE public.incidents
+  ADD COLUMN IF NOT EXISTS building_id UUID REFERENCES public.zones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS floor INTEGER CHECK (floor BETWEEN -10 AND 200),
+  ADD COLUMN IF NOT EXISTS room TEXT CHECK (room IS NULL OR char_length(room) <= 50),
+  ADD COLUMN IF NOT EXISTS floor_plan_id UUID REFERENCES public.floor_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS floor_plan_x DOUBLE PRECISION CHECK (floor_plan_x BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS floor_plan_y DOUBLE PRECISION CHECK (floor_plan_y BETWEEN 0 AND 1);
+
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_floor_plan_pin_check
+  CHECK ((floor_plan_x IS NULL) = (floor_plan_y IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_incidents_building_id ON public.incidents(building_id);
+
+-- Normalize the indoor location and keep it consistent with its floor plan.
+-- Runs after assign_incident_zone, so a report from inside a building zone
+-- defaults to that building.
+CREATE OR REPLACE FUNCTION public.resolve_incident_indoor_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan RECORD;
+BEGIN
+  NEW.room := NULLIF(btrim(COALESCE(NEW.room, '')), '');
+
+  IF NEW.floor_plan_id IS NOT NULL THEN
+    SELECT zone_id, floor, organization_id INTO v_plan
+    FROM public.floor_plans
+    WHERE id = NEW.floor_plan_id;
+
+    IF NOT FOUND OR v_plan.organization_id <> NEW.organization_id THEN
+      RAISE EXCEPTION 'Floor plan not found'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NEW.building_id IS NOT NULL AND NEW.building_id <> v_plan.zone_id THEN
+      RAISE EXCEPTION 'The floor plan belongs to another building'
+        USING ERRCODE = '22023';
+    END IF;
+
+    NEW.building_id := v_plan.zone_id;
+    NEW.floor := v_plan.floor;
+  ELSE
+    NEW.floor_plan_x := NULL;
+    NEW.floor_plan_y := NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.building_id IS NULL AND NEW.zone_id IS NOT NULL
+    AND (NEW.floor IS NOT NULL OR NEW.room IS NOT NULL) THEN
+    SELECT z.id INTO NEW.building_id
+    FROM public.zones z
+    WHERE z.id = NEW.zone_id AND z.zone_type IN ('building', 'lab', 'residence');
+  END IF;
+
+  IF NEW.building_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.zones z
+    WHERE z.id = NEW.building_id AND z.organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Building not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_incident_indoor_location
+BEFORE INSERT OR UPDATE OF building_id, floor, room, floor_plan_id, floor_plan_x, floor_plan_y ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.resolve_incident_indoor_location();
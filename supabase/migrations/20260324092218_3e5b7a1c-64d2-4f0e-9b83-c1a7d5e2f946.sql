@@ -0,0 +1,20 @@
+-- Map provider setting (see supabase/functions/_shared/settings-schema.ts).
+-- Every member's map reads it, so it joins the dashboard settings members can
+-- see; an unset key falls back to "auto" in the client.
+
+DROP POLICY IF EXISTS "Members can view dashboard settings" ON public.admin_settings;
+
+CREATE POLICY "Members can view dashboard settings"
+ON public.admin_settings
+FOR SELECT
+TO authenticated
+USING (
+  is_org_member(auth.uid(), organization_id)
+  AND key IN (
+    'nearby_helpers_radius_km',
+    'alert_timezone',
+    'map_default_center',
+    'notification_min_severity',
+    'map_provider'
+  )
+);
@@ -0,0 +1,52 @@
+-- Viewport loading for the incident map: the incidents inside a bounding box,
+-- so the map no longer needs the organization's whole history.
+
+CREATE INDEX IF NOT EXISTS idx_incidents_organization_location
+  ON public.incidents (organization_id, latitude, longitude);
+
+-- Runs as the caller, so incident RLS applies on top of the membership check
+CREATE OR REPLACE FUNCTION public.get_incidents_in_bounds(
+  _organization_id UUID,
+  _south DOUBLE PRECISION,
+  _west DOUBLE PRECISION,
+  _north DOUBLE PRECISION,
+  _east DOUBLE PRECISION,
+  _since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 2000
+)
+RETURNS SETOF public.incidents
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_org_member(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a member of this organization'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _south > _north OR _limit NOT BETWEEN 1 AND 5000 THEN
+    RAISE EXCEPTION 'Invalid bounds or limit'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  RETURN QUERY
+  SELECT i.*
+  FROM public.incidents i
+  WHERE i.organization_id = _organization_id
+    AND i.latitude BETWEEN _south AND _north
+    -- A box crossing the antimeridian has its west edge east of its east edge
+    AND CASE
+      WHEN _west <= _east THEN i.longitude BETWEEN _west AND _east
+      ELSE i.longitude >= _west OR i.longitude <= _east
+    END
+    AND (_since IS NULL OR i.created_at >= _since)
+  ORDER BY i.created_at DESC
+  LIMIT _limit;
+END;
+$$;
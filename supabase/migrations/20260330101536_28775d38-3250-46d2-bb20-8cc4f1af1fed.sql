@@ -0,0 +1,25 @@
+-- Full-text search for the incident history: a search_vector computed field
+-- over description and location name, filterable through the API as
+-- incidents?search_vector=fts(english).<query>.
+
+-- Plain SQL with no SET clause so the planner inlines it and can use the
+-- expression index below; the body must stay identical to the index expression
+CREATE OR REPLACE FUNCTION public.search_vector(public.incidents)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce($1.description, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce($1.location_name, '')), 'B')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_search_vector
+  ON public.incidents
+  USING GIN ((
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(location_name, '')), 'B')
+  ));
+
+-- History pages are filtered by organization and ordered by creation time
+CREATE INDEX IF NOT EXISTS idx_incidents_organization_created_at
+  ON public.incidents (organization_id, created_at DESC);
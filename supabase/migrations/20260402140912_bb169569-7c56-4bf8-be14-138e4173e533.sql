@@ -0,0 +1,312 @@
+-- Incident search: ranked full-text search over incidents, their AI analysis
+-- and their notes, with highlighted snippets, plus "similar past incidents"
+-- by embedding distance or, without an embedding model, trigram similarity.
+
+-- ========== FULL-TEXT SEARCH ==========
+
+-- The search_vector computed field now also covers the AI reasoning and
+-- recommended actions. Its body must stay identical to the index expression.
+CREATE OR REPLACE FUNCTION public.search_vector(public.incidents)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce($1.description, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce($1.location_name, '')), 'B')
+      || setweight(to_tsvector('english'::regconfig, coalesce($1.ai_analysis ->> 'reasoning', '')), 'C')
+      || setweight(jsonb_to_tsvector(
+           'english'::regconfig,
+           coalesce($1.ai_analysis -> 'immediateActions', '[]'::jsonb)
+             || coalesce($1.ai_analysis -> 'resourceRecommendations', '[]'::jsonb),
+           '["string"]'
+         ), 'C')
+$$;
+
+DROP INDEX IF EXISTS public.idx_incidents_search_vector;
+
+CREATE INDEX idx_incidents_search_vector
+  ON public.incidents
+  USING GIN ((
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(location_name, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(ai_analysis ->> 'reasoning', '')), 'C')
+    || setweight(jsonb_to_tsvector(
+         'english'::regconfig,
+         coalesce(ai_analysis -> 'immediateActions', '[]'::jsonb)
+           || coalesce(ai_analysis -> 'resourceRecommendations', '[]'::jsonb),
+         '["string"]'
+       ), 'C')
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_incident_notes_search
+  ON public.incident_notes
+  USING GIN (to_tsvector('english'::regconfig, body));
+
+-- Free text as a tsquery: every word must match, each as a prefix so results
+-- narrow while typing. NULL when there are no words.
+CREATE OR REPLACE FUNCTION public.incident_search_query(_search TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('english'::regconfig, string_agg(word || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(coalesce(_search, ''), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Incidents matching the search in their own text or in a note, best match
+-- first. Notes weigh less than the incident itself. Runs as the caller so RLS
+-- applies; PostgREST filters and pages the rows, and keeps this order unless
+-- the caller asks for another.
+CREATE OR REPLACE FUNCTION public.search_incidents(
+  _organization_id UUID,
+  _search TEXT
+)
+RETURNS SETOF public.incidents
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_query tsquery := incident_search_query(_search);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Authentication required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_org_member(auth.uid(), _organization_id) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a member of this organization'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_query IS NULL THEN
+    RAISE EXCEPTION 'Search must contain at least one word'
+      USING ERRCODE = '22023'; -- invalid_parameter_value
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT i.id, ts_rank(search_vector(i), v_query) AS rank
+    FROM incidents i
+    WHERE i.organization_id = _organization_id
+      AND search_vector(i) @@ v_query
+    UNION ALL
+    SELECT n.incident_id, 0.1 * ts_rank(to_tsvector('english'::regconfig, n.body), v_query)
+    FROM incident_notes n
+    WHERE n.organization_id = _organization_id
+      AND to_tsvector('english'::regconfig, n.body) @@ v_query
+  ),
+  ranked AS (
+    SELECT m.id, sum(m.rank) AS rank
+    FROM matches m
+    GROUP BY m.id
+  )
+  SELECT i.*
+  FROM ranked r
+  JOIN incidents i ON i.id = r.id
+  ORDER BY r.rank DESC, i.created_at DESC, i.id;
+END;
+$$;
+
+-- Highlighted excerpts for a page of search results: from the incident's own
+-- text and AI analysis when they match, otherwise from its best matching note
+CREATE OR REPLACE FUNCTION public.incident_search_snippets(
+  _search TEXT,
+  _incident_ids UUID[]
+)
+RETURNS TABLE (
+  incident_id UUID,
+  snippet TEXT,
+  source TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT incident_search_query(_search) AS q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "' AS options
+  )
+  SELECT
+    i.id,
+    CASE WHEN search_vector(i) @@ query.q
+      THEN ts_headline(
+        'english'::regconfig,
+        concat_ws(' · ', i.description, i.location_name, i.ai_analysis ->> 'reasoning', analysis.actions),
+        query.q,
+        query.options
+      )
+      ELSE ts_headline('english'::regconfig, note.body, query.q, query.options)
+    END,
+    CASE WHEN search_vector(i) @@ query.q THEN 'incident' ELSE 'note' END
+  FROM incidents i
+  CROSS JOIN query
+  LEFT JOIN LATERAL (
+    SELECT string_agg(action, '; ') AS actions
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(i.ai_analysis -> 'immediateActions') = 'array'
+        THEN i.ai_analysis -> 'immediateActions' ELSE '[]'::jsonb END
+      || CASE WHEN jsonb_typeof(i.ai_analysis -> 'resourceRecommendations') = 'array'
+        THEN i.ai_analysis -> 'resourceRecommendations' ELSE '[]'::jsonb END
+    ) AS action
+  ) analysis ON true
+  LEFT JOIN LATERAL (
+    SELECT n.body
+    FROM incident_notes n
+    WHERE n.incident_id = i.id
+      AND to_tsvector('english'::regconfig, n.body) @@ query.q
+    ORDER BY ts_rank(to_tsvector('english'::regconfig, n.body), query.q) DESC
+    LIMIT 1
+  ) note ON true
+  WHERE i.id = ANY(_incident_ids)
+    AND (search_vector(i) @@ query.q OR note.body IS NOT NULL);
+$$;
+
+-- ========== SIMILAR INCIDENTS ==========
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- One embedding per incident, written by the find-similar-incidents function.
+-- The dimension depends on the model, so the column is unsized and searched
+-- exactly rather than through an ANN index.
+CREATE TABLE public.incident_embeddings (
+    incident_id UUID PRIMARY KEY REFERENCES public.incidents(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    model TEXT NOT NULL,
+    embedding extensions.vector NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_incident_embeddings_organization_model
+  ON public.incident_embeddings(organization_id, model);
+
+ALTER TABLE public.incident_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Written with the service role only, so there are no write policies
+CREATE POLICY "Members can view incident embeddings"
+ON public.incident_embeddings
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- The embedded text is the type, description and location name; editing any
+-- of them drops the embedding so the next lookup computes a fresh one
+CREATE OR REPLACE FUNCTION public.clear_incident_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM incident_embeddings WHERE incident_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_incident_embedding
+AFTER UPDATE OF type, description, location_name ON public.incidents
+FOR EACH ROW
+WHEN (
+  OLD.type IS DISTINCT FROM NEW.type
+  OR OLD.description IS DISTINCT FROM NEW.description
+  OR OLD.location_name IS DISTINCT FROM NEW.location_name
+)
+EXECUTE FUNCTION public.clear_incident_embedding();
+
+-- Nearest incidents by cosine similarity of embeddings from the same model.
+-- Merged reports are left out: they are the same event as their parent.
+CREATE OR REPLACE FUNCTION public.match_similar_incidents(
+  _incident_id UUID,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  incident_id UUID,
+  type incident_type,
+  description TEXT,
+  location_name TEXT,
+  status incident_status,
+  severity incident_severity,
+  created_at TIMESTAMP WITH TIME ZONE,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.type,
+    i.description,
+    i.location_name,
+    i.status,
+    i.severity,
+    i.created_at,
+    (1 - (e.embedding OPERATOR(extensions.<=>) te.embedding))::real
+  FROM public.incidents t
+  JOIN public.incident_embeddings te ON te.incident_id = t.id
+  JOIN public.incident_embeddings e
+    ON e.organization_id = t.organization_id
+    AND e.model = te.model
+    AND e.incident_id <> t.id
+    AND extensions.vector_dims(e.embedding) = extensions.vector_dims(te.embedding)
+  JOIN public.incidents i ON i.id = e.incident_id
+  WHERE t.id = _incident_id
+    AND is_org_member(auth.uid(), t.organization_id)
+    AND i.parent_incident_id IS NULL
+    AND i.id IS DISTINCT FROM t.parent_incident_id
+  ORDER BY e.embedding OPERATOR(extensions.<=>) te.embedding
+  LIMIT LEAST(GREATEST(_limit, 1), 20);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_description_trgm
+  ON public.incidents
+  USING GIN (lower(description) extensions.gin_trgm_ops);
+
+-- Fallback without an embedding model: trigram similarity of the descriptions,
+-- above pg_trgm's similarity threshold (0.3 by default)
+CREATE OR REPLACE FUNCTION public.find_similar_incidents(
+  _incident_id UUID,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  incident_id UUID,
+  type incident_type,
+  description TEXT,
+  location_name TEXT,
+  status incident_status,
+  severity incident_severity,
+  created_at TIMESTAMP WITH TIME ZONE,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.type,
+    i.description,
+    i.location_name,
+    i.status,
+    i.severity,
+    i.created_at,
+    extensions.similarity(lower(i.description), lower(t.description)) AS similarity
+  FROM public.incidents t
+  JOIN public.incidents i
+    ON i.organization_id = t.organization_id
+    AND i.id <> t.id
+  WHERE t.id = _incident_id
+    AND is_org_member(auth.uid(), t.organization_id)
+    AND i.parent_incident_id IS NULL
+    AND i.id IS DISTINCT FROM t.parent_incident_id
+    AND lower(i.description) OPERATOR(extensions.%) lower(t.description)
+  ORDER BY similarity DESC, i.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 20);
+$$;
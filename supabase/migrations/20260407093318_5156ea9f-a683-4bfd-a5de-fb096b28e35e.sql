@@ -0,0 +1,276 @@
+-- Response time SLAs
+-- A policy sets, for one severity and optionally one incident type, how many
+-- minutes an incident may take to be acknowledged, dispatched and resolved.
+-- Each incident stores the resulting due times; a cron job flags the ones that
+-- pass a due time without reaching the stage.
+
+CREATE TABLE public.sla_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    -- NULL matches every incident type; a policy for the type takes precedence
+    incident_type incident_type,
+    severity incident_severity NOT NULL,
+    -- NULL means no target for that stage
+    acknowledge_minutes INTEGER CHECK (acknowledge_minutes > 0),
+    dispatch_minutes INTEGER CHECK (dispatch_minutes > 0),
+    resolve_minutes INTEGER CHECK (resolve_minutes > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT sla_policies_has_target CHECK (
+      COALESCE(acknowledge_minutes, dispatch_minutes, resolve_minutes) IS NOT NULL
+    ),
+    CONSTRAINT sla_policies_organization_severity_type
+      UNIQUE NULLS NOT DISTINCT (organization_id, severity, incident_type)
+);
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view SLA policies"
+ON public.sla_policies
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Organization admins can manage SLA policies"
+ON public.sla_policies
+FOR ALL
+TO authenticated
+USING (has_org_role(auth.uid(), organization_id, 'admin'::app_role))
+WITH CHECK (has_org_role(auth.uid(), organization_id, 'admin'::app_role));
+
+CREATE TRIGGER update_sla_policies_updated_at
+BEFORE UPDATE ON public.sla_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Due times, counted from when the incident was reported
+ALTER TABLE public.incidents
+  ADD COLUMN sla_policy_id UUID REFERENCES public.sla_policies(id) ON DELETE SET NULL,
+  ADD COLUMN acknowledge_due_at TIMESTAMPTZ,
+  ADD COLUMN dispatch_due_at TIMESTAMPTZ,
+  ADD COLUMN resolve_due_at TIMESTAMPTZ;
+
+-- The active policy for an incident: the one for its type, else the one for any type
+CREATE OR REPLACE FUNCTION public.match_sla_policy(
+  _organization_id UUID,
+  _type incident_type,
+  _severity incident_severity
+)
+RETURNS public.sla_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM sla_policies
+  WHERE organization_id = _organization_id
+    AND severity = _severity
+    AND is_active
+    AND (incident_type = _type OR incident_type IS NULL)
+  ORDER BY incident_type IS NULL
+  LIMIT 1;
+$$;
+
+-- Merged reports are tracked through their parent and have no due times.
+-- Incidents without a severity yet get theirs once the AI or an operator sets one.
+CREATE OR REPLACE FUNCTION public.set_incident_sla_due_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy sla_policies;
+BEGIN
+  IF NEW.parent_incident_id IS NULL AND NEW.severity IS NOT NULL THEN
+    v_policy := match_sla_policy(NEW.organization_id, NEW.type, NEW.severity);
+  END IF;
+
+  NEW.sla_policy_id := v_policy.id;
+  NEW.acknowledge_due_at := NEW.created_at + make_interval(mins => v_policy.acknowledge_minutes);
+  NEW.dispatch_due_at := NEW.created_at + make_interval(mins => v_policy.dispatch_minutes);
+  NEW.resolve_due_at := NEW.created_at + make_interval(mins => v_policy.resolve_minutes);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after apply_incident_effective_severity and check_incident_parent
+CREATE TRIGGER set_incident_sla_due_times
+BEFORE INSERT OR UPDATE OF severity, ai_severity, severity_override, type, parent_incident_id, sla_policy_id
+ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.set_incident_sla_due_times();
+
+-- Policy changes apply to open incidents; closed ones keep the targets they were held to
+CREATE OR REPLACE FUNCTION public.refresh_incident_sla_due_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_organization_id := OLD.organization_id;
+  ELSE
+    v_organization_id := NEW.organization_id;
+  END IF;
+
+  -- Touching sla_policy_id runs set_incident_sla_due_times, which matches the policy again
+  UPDATE incidents
+  SET sla_policy_id = NULL
+  WHERE organization_id = v_organization_id
+    AND parent_incident_id IS NULL
+    AND status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_incident_sla_due_times
+AFTER INSERT OR UPDATE OR DELETE ON public.sla_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_incident_sla_due_times();
+
+CREATE INDEX idx_incidents_sla_open ON public.incidents(organization_id)
+WHERE sla_policy_id IS NOT NULL
+  AND parent_incident_id IS NULL
+  AND status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated');
+
+-- Each missed stage of an incident, flagged once
+CREATE TABLE public.sla_breaches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL REFERENCES public.incidents(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    policy_id UUID REFERENCES public.sla_policies(id) ON DELETE SET NULL,
+    stage TEXT NOT NULL CHECK (stage IN ('acknowledge', 'dispatch', 'resolve')),
+    due_at TIMESTAMPTZ NOT NULL,
+    breached_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT sla_breaches_incident_stage UNIQUE (incident_id, stage)
+);
+
+CREATE INDEX idx_sla_breaches_organization_id ON public.sla_breaches(organization_id, breached_at DESC);
+
+ALTER TABLE public.sla_breaches ENABLE ROW LEVEL SECURITY;
+
+-- Only flag_sla_breaches writes breaches
+CREATE POLICY "Members can view SLA breaches"
+ON public.sla_breaches
+FOR SELECT
+TO authenticated
+USING (is_org_member(auth.uid(), organization_id));
+
+-- In-app notifications shown in the dashboard's notification bell
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    -- NULL notifies every member of the organization
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_notifications_organization_id ON public.notifications(organization_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (
+  is_org_member(auth.uid(), organization_id)
+  AND (user_id IS NULL OR user_id = auth.uid())
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Flags open incidents past a due time without having reached the stage.
+-- Reaching a later stage counts for the earlier ones: an incident dispatched
+-- straight away was never left unacknowledged. Each breach is written to the
+-- audit log and notifies the incident's assignees, or the whole organization
+-- when nobody is assigned. Returns the number of new breaches.
+CREATE OR REPLACE FUNCTION public.flag_sla_breaches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH flagged AS (
+    INSERT INTO sla_breaches (incident_id, organization_id, policy_id, stage, due_at)
+    SELECT i.id, i.organization_id, i.sla_policy_id, s.stage, s.due_at
+    FROM incidents i
+    CROSS JOIN LATERAL (
+      VALUES
+        ('acknowledge', i.acknowledge_due_at, COALESCE(i.acknowledged_at, i.dispatched_at, i.on_scene_at, i.resolved_at)),
+        ('dispatch', i.dispatch_due_at, COALESCE(i.dispatched_at, i.on_scene_at, i.resolved_at)),
+        ('resolve', i.resolve_due_at, i.resolved_at)
+    ) AS s(stage, due_at, reached_at)
+    WHERE i.sla_policy_id IS NOT NULL
+      AND i.parent_incident_id IS NULL
+      AND i.status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated')
+      AND s.due_at <= now()
+      AND s.reached_at IS NULL
+    ON CONFLICT (incident_id, stage) DO NOTHING
+    RETURNING incident_id, organization_id, policy_id, stage, due_at
+  ),
+  logged AS (
+    INSERT INTO audit_logs (action, incident_id, actor_id, actor_email, metadata)
+    SELECT
+      'sla_breached',
+      b.incident_id,
+      NULL,
+      'sla-monitor',
+      jsonb_build_object(
+        'stage', b.stage,
+        'due_at', b.due_at,
+        'policy_id', b.policy_id,
+        'severity', i.severity,
+        'status', i.status
+      )
+    FROM flagged b
+    JOIN incidents i ON i.id = b.incident_id
+  ),
+  notified AS (
+    INSERT INTO notifications (organization_id, user_id, incident_id, kind, title, body, metadata)
+    SELECT
+      b.organization_id,
+      r.user_id,
+      b.incident_id,
+      'sla_breached',
+      format('%s %s incident missed its %s target', initcap(i.severity::text), i.type, b.stage),
+      left(i.description, 200),
+      jsonb_build_object('stage', b.stage, 'due_at', b.due_at, 'severity', i.severity)
+    FROM flagged b
+    JOIN incidents i ON i.id = b.incident_id
+    CROSS JOIN LATERAL unnest(
+      CASE
+        WHEN i.assigned_to IS NULL THEN ARRAY[NULL::uuid]
+        ELSE array_remove(ARRAY[i.assigned_to, i.secondary_assignee], NULL)
+      END
+    ) AS r(user_id)
+  )
+  SELECT count(*) INTO v_count FROM flagged;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Check for breaches every minute
+SELECT cron.schedule(
+  'sla-breach-check',
+  '* * * * *',
+  $$ SELECT public.flag_sla_breaches(); $$
+);
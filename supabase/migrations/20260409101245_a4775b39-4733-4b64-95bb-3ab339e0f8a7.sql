@@ -0,0 +1,11 @@
+-- Email alerts on high severity
+-- severity is derived by apply_incident_effective_severity from ai_severity
+-- and severity_override, which are the columns analyze-incident and
+-- override_incident_severity actually write. A column-list trigger only sees
+-- the columns in the UPDATE's SET list, so listening on severity alone never
+-- fired for a raise and only escalations were emailed.
+DROP TRIGGER IF EXISTS notify_incident_email ON public.incidents;
+CREATE TRIGGER notify_incident_email
+AFTER INSERT OR UPDATE OF severity, ai_severity, severity_override, status ON public.incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_incident_email();
@@ -0,0 +1,30 @@
+-- Audit log visibility
+-- Every member could read the whole organization's audit log. Browsing it
+-- now needs can_view_audit_log. Others only see an incident's activity
+-- timeline when they work that incident: they manage incidents, reported it
+-- or are assigned to it.
+DROP POLICY IF EXISTS "Members can view organization audit logs" ON public.audit_logs;
+
+CREATE POLICY "Members with can_view_audit_log can view audit logs"
+ON public.audit_logs
+FOR SELECT
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_view_audit_log'));
+
+CREATE POLICY "Members can view the audit logs of incidents they work"
+ON public.audit_logs
+FOR SELECT
+TO authenticated
+USING (
+  incident_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM public.incidents i
+    WHERE i.id = audit_logs.incident_id
+      AND i.organization_id = audit_logs.organization_id
+      AND (
+        has_org_permission(auth.uid(), i.organization_id, 'can_manage_incidents')
+        OR auth.uid() IN (i.reported_by, i.assigned_to, i.secondary_assignee)
+      )
+  )
+);
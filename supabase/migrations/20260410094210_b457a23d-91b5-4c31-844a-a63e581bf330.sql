@@ -0,0 +1,11 @@
+-- Incidents and organizations cannot be deleted
+-- Since the audit trail became append-only, audit_logs references incidents
+-- and organizations without ON DELETE, so deleting one that has audit entries
+-- always fails. This is intentional: the record of an incident must outlive
+-- it. Incidents are ended by moving them to resolved and then closed instead.
+-- Drop the admin delete policy that suggested otherwise and withdraw the
+-- privilege.
+DROP POLICY IF EXISTS "Organization admins can delete incidents" ON public.incidents;
+
+REVOKE DELETE ON public.incidents FROM anon, authenticated;
+REVOKE DELETE ON public.organizations FROM anon, authenticated;
@@ -0,0 +1,51 @@
+-- Narrower zone re-tagging
+-- Every zone change re-tagged every incident of the organization. Only
+-- incidents inside the zone's old or new bounding box can change zone, so
+-- only those are looked at. Resolved and closed incidents keep the zone they
+-- were handled in; deleting a zone still clears it from them
+-- (incidents.zone_id is ON DELETE SET NULL). Re-tagging is not an edit of the
+-- incident, so it no longer bumps updated_at.
+CREATE OR REPLACE FUNCTION public.retag_zone_incidents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := COALESCE(NEW.organization_id, OLD.organization_id);
+BEGIN
+  -- Read by the update_incidents_updated_at trigger; local to the transaction
+  PERFORM set_config('app.retagging_zones', 'on', true);
+
+  WITH tagged AS (
+    SELECT i.id, public.find_zone_for_point(i.organization_id, i.latitude, i.longitude) AS zone_id
+    FROM public.incidents i
+    WHERE i.organization_id = v_organization_id
+      AND i.status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated')
+      AND (
+        (TG_OP <> 'DELETE'
+          AND i.latitude BETWEEN NEW.min_latitude AND NEW.max_latitude
+          AND i.longitude BETWEEN NEW.min_longitude AND NEW.max_longitude)
+        OR (TG_OP <> 'INSERT'
+          AND i.latitude BETWEEN OLD.min_latitude AND OLD.max_latitude
+          AND i.longitude BETWEEN OLD.min_longitude AND OLD.max_longitude)
+      )
+  )
+  UPDATE public.incidents i
+  SET zone_id = t.zone_id
+  FROM tagged t
+  WHERE i.id = t.id
+    AND i.zone_id IS DISTINCT FROM t.zone_id;
+
+  PERFORM set_config('app.retagging_zones', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_incidents_updated_at ON public.incidents;
+CREATE TRIGGER update_incidents_updated_at
+BEFORE UPDATE ON public.incidents
+FOR EACH ROW
+WHEN (current_setting('app.retagging_zones', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,69 @@
+-- Narrower SLA refresh
+-- Every SLA policy change re-matched every open incident of the organization
+-- and bumped its updated_at. Only incidents held to the changed policy, or
+-- with the severity and type it covers before or after the change, can get a
+-- different policy or due times, so only those are looked at, and only those
+-- whose policy or due times actually change are written. Like zone re-tagging,
+-- refreshing due times is not an edit of the incident and leaves updated_at.
+CREATE OR REPLACE FUNCTION public.refresh_incident_sla_due_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := COALESCE(NEW.organization_id, OLD.organization_id);
+BEGIN
+  -- Read by the update_incidents_updated_at trigger; local to the transaction
+  PERFORM set_config('app.refreshing_sla', 'on', true);
+
+  WITH matched AS (
+    SELECT i.id, i.created_at, match_sla_policy(i.organization_id, i.type, i.severity) AS policy
+    FROM incidents i
+    WHERE i.organization_id = v_organization_id
+      AND i.parent_incident_id IS NULL
+      AND i.status IN ('active', 'acknowledged', 'dispatched', 'on_scene', 'escalated')
+      AND (
+        i.sla_policy_id = COALESCE(NEW.id, OLD.id)
+        OR (TG_OP <> 'DELETE'
+          AND i.severity = NEW.severity
+          AND (NEW.incident_type IS NULL OR i.type = NEW.incident_type))
+        OR (TG_OP <> 'INSERT'
+          AND i.severity = OLD.severity
+          AND (OLD.incident_type IS NULL OR i.type = OLD.incident_type))
+      )
+  ),
+  due AS (
+    SELECT
+      id,
+      (policy).id AS policy_id,
+      created_at + make_interval(mins => (policy).acknowledge_minutes) AS acknowledge_due_at,
+      created_at + make_interval(mins => (policy).dispatch_minutes) AS dispatch_due_at,
+      created_at + make_interval(mins => (policy).resolve_minutes) AS resolve_due_at
+    FROM matched
+  )
+  UPDATE incidents i
+  SET sla_policy_id = d.policy_id,
+      acknowledge_due_at = d.acknowledge_due_at,
+      dispatch_due_at = d.dispatch_due_at,
+      resolve_due_at = d.resolve_due_at
+  FROM due d
+  WHERE i.id = d.id
+    AND (i.sla_policy_id, i.acknowledge_due_at, i.dispatch_due_at, i.resolve_due_at)
+      IS DISTINCT FROM (d.policy_id, d.acknowledge_due_at, d.dispatch_due_at, d.resolve_due_at);
+
+  PERFORM set_config('app.refreshing_sla', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_incidents_updated_at ON public.incidents;
+CREATE TRIGGER update_incidents_updated_at
+BEFORE UPDATE ON public.incidents
+FOR EACH ROW
+WHEN (
+  current_setting('app.retagging_zones', true) IS DISTINCT FROM 'on'
+  AND current_setting('app.refreshing_sla', true) IS DISTINCT FROM 'on'
+)
+EXECUTE FUNCTION public.update_updated_at_column();
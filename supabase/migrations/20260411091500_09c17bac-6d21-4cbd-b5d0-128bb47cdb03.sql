@@ -0,0 +1,2 @@
+-- idx_incidents_organization_id already covers (organization_id, created_at DESC)
+DROP INDEX IF EXISTS public.idx_incidents_organization_created_at;
@@ -0,0 +1,182 @@
+-- Membership by invitation
+-- User managers could put any account into their organization without its
+-- owner agreeing: by email through add_organization_member, or by user id
+-- through the members policy. They now invite an email address, and the
+-- person joins by accepting the invitation while signed in with that address,
+-- once confirmed. Accounts created while there is a single organization still
+-- join it at signup.
+
+CREATE TABLE public.organization_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    -- Stored lowercased
+    email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email LIKE '_%@_%'),
+    role app_role NOT NULL DEFAULT 'operator',
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (organization_id, email)
+);
+
+CREATE INDEX idx_organization_invitations_email ON public.organization_invitations(email);
+
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- The signed-in user's email address, or NULL until it is confirmed
+CREATE OR REPLACE FUNCTION public.current_user_confirmed_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(email)
+  FROM auth.users
+  WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL
+$$;
+
+-- Invitations are created through invite_organization_member only
+CREATE POLICY "User managers can view invitations"
+ON public.organization_invitations
+FOR SELECT
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_users'));
+
+CREATE POLICY "User managers can revoke invitations"
+ON public.organization_invitations
+FOR DELETE
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_users'));
+
+CREATE POLICY "Invitees can decline their invitations"
+ON public.organization_invitations
+FOR DELETE
+TO authenticated
+USING (email = current_user_confirmed_email());
+
+CREATE OR REPLACE FUNCTION public.invite_organization_member(
+  _organization_id UUID,
+  _email TEXT,
+  _role app_role DEFAULT 'operator'
+)
+RETURNS public.organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(btrim(_email));
+  v_invitation public.organization_invitations;
+BEGIN
+  IF NOT has_org_permission(auth.uid(), _organization_id, 'can_manage_users') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot manage users'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address: %', _email
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.organization_id = _organization_id
+      AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION '% is already a member', _email
+      USING ERRCODE = '23505'; -- unique_violation
+  END IF;
+
+  -- Inviting again updates the role of the pending invitation
+  INSERT INTO public.organization_invitations (organization_id, email, role, invited_by)
+  VALUES (_organization_id, v_email, _role, auth.uid())
+  ON CONFLICT (organization_id, email) DO UPDATE
+  SET role = EXCLUDED.role,
+      invited_by = EXCLUDED.invited_by,
+      created_at = now()
+  RETURNING * INTO v_invitation;
+
+  RETURN v_invitation;
+END;
+$$;
+
+-- Invitees can't view the organizations they are invited to yet
+CREATE OR REPLACE FUNCTION public.list_my_organization_invitations()
+RETURNS TABLE(
+  id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  role app_role,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.organization_id, o.name, i.role, i.created_at
+  FROM public.organization_invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.email = current_user_confirmed_email()
+  ORDER BY i.created_at;
+$$;
+
+-- An existing member keeps their role
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(_invitation_id UUID)
+RETURNS public.organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations;
+  v_member public.organization_members;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE id = _invitation_id
+    AND email = current_user_confirmed_email();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found'
+      USING ERRCODE = 'P0002'; -- no_data_found
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  SELECT * INTO v_member
+  FROM public.organization_members
+  WHERE organization_id = v_invitation.organization_id
+    AND user_id = auth.uid();
+
+  DELETE FROM public.organization_invitations WHERE id = _invitation_id;
+
+  RETURN v_member;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.add_organization_member(UUID, TEXT, app_role);
+
+-- User managers change roles and remove members, but no longer insert them.
+-- Only the role can be changed, so a membership can't be handed to another user.
+DROP POLICY IF EXISTS "User managers can manage members" ON public.organization_members;
+
+CREATE POLICY "User managers can update members"
+ON public.organization_members
+FOR UPDATE
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_users'))
+WITH CHECK (has_org_permission(auth.uid(), organization_id, 'can_manage_users'));
+
+CREATE POLICY "User managers can remove members"
+ON public.organization_members
+FOR DELETE
+TO authenticated
+USING (has_org_permission(auth.uid(), organization_id, 'can_manage_users'));
+
+REVOKE INSERT, UPDATE ON public.organization_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.organization_members TO authenticated;
@@ -0,0 +1,51 @@
+-- Server-side export permission
+-- can_export was only checked by the dashboard, so any member could still
+-- download what the export buttons produce. Exports now read through these
+-- functions, which refuse callers without can_export. They run as the caller,
+-- so incident and audit log RLS still decides which rows are included.
+
+-- The organization's audit log, newest first; the dashboard filters and pages it
+CREATE OR REPLACE FUNCTION public.export_audit_logs(_organization_id UUID)
+RETURNS SETOF public.audit_logs
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_org_permission(auth.uid(), _organization_id, 'can_export') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot export'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.*
+  FROM public.audit_logs a
+  WHERE a.organization_id = _organization_id
+  ORDER BY a.created_at DESC, a.seq DESC;
+END;
+$$;
+
+-- The given incidents of the organization, in the order given
+CREATE OR REPLACE FUNCTION public.export_incidents(
+  _organization_id UUID,
+  _incident_ids UUID[]
+)
+RETURNS SETOF public.incidents
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_org_permission(auth.uid(), _organization_id, 'can_export') THEN
+    RAISE EXCEPTION 'Unauthorized: Your role cannot export'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.*
+  FROM public.incidents i
+  WHERE i.organization_id = _organization_id
+    AND i.id = ANY(_incident_ids)
+  ORDER BY array_position(_incident_ids, i.id);
+END;
+$$;